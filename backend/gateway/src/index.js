@@ -72,8 +72,9 @@ app.use(cors({
 // Request logging
 app.use(morgan('combined'));
 
-// Body parsing for non-proxied routes
-app.use(express.json());
+// Body parsing for non-proxied routes. Bodies are re-sent to the services, so
+// this also caps them: return requests carry photos.
+app.use(express.json({ limit: '5mb' }));
 
 // Trust proxy
 app.set('trust proxy', 1);
@@ -112,15 +113,28 @@ const authLimiter = rateLimit({
 // ============================================
 // JWT Verification Middleware
 // ============================================
-const verifyToken = (req, res, next) => {
+
+// The caller's JWT: a Bearer header, else the cookie auth-service sets at login
+const tokenOf = (req) => {
     const authHeader = req.headers.authorization;
+    if (authHeader && authHeader.startsWith('Bearer ')) {
+        return authHeader.slice(7);
+    }
+    const cookies = Object.fromEntries((req.headers.cookie || '')
+        .split(';')
+        .map(pair => pair.trim().split('='))
+        .filter(([name, value]) => name && value)
+        .map(([name, value]) => [name, decodeURIComponent(value)]));
+    return cookies.accessToken || cookies.token || null;
+};
+
+const verifyToken = (req, res, next) => {
+    const token = tokenOf(req);
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    if (!token) {
         return res.status(401).json({ success: false, error: 'Authorization required' });
     }
 
-    const token = authHeader.slice(7);
-
     try {
         const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-secret-key');
         req.user = decoded;
@@ -137,10 +151,9 @@ const verifyToken = (req, res, next) => {
 
 // Optional auth - continues even without token
 const optionalAuth = (req, res, next) => {
-    const authHeader = req.headers.authorization;
+    const token = tokenOf(req);
 
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-        const token = authHeader.slice(7);
+    if (token) {
         try {
             const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-secret-key');
             req.user = decoded;
@@ -178,12 +191,21 @@ const createProxy = (target) => {
     return createProxyMiddleware({
         target,
         changeOrigin: true,
+        // Tell services which client the request came from
+        xfwd: true,
         pathRewrite: (path, req) => path,
         onProxyReq: (proxyReq, req, res) => {
-            // Forward user info to services
+            // Only services calling each other may send the internal token
+            proxyReq.removeHeader('x-internal-token');
+
+            // Forward user info to services. Services trust these headers, so
+            // any a caller sent itself are dropped when no token was verified.
             if (req.user) {
                 proxyReq.setHeader('x-user-id', req.user.id);
                 proxyReq.setHeader('x-user-role', req.user.role);
+            } else {
+                proxyReq.removeHeader('x-user-id');
+                proxyReq.removeHeader('x-user-role');
             }
 
             // Handle body for POST/PUT/PATCH
@@ -226,6 +248,8 @@ app.use('/categories', generalLimiter, createProxy(SERVICES.products));
 // Order routes (authenticated)
 app.use('/api/orders', generalLimiter, verifyToken, createProxy(SERVICES.orders));
 app.use('/orders', generalLimiter, optionalAuth, createProxy(SERVICES.orders));
+// Coupon checks are priced by order-service alongside the cart quote
+app.use('/coupons/validate', generalLimiter, optionalAuth, createProxy(SERVICES.orders));
 
 // Cart routes (authenticated)
 app.use('/api/cart', generalLimiter, verifyToken, createProxy(SERVICES.cart));
@@ -252,8 +276,17 @@ app.use('/api/reviews', generalLimiter, optionalAuth, createProxy(SERVICES.revie
 app.use('/reviews', generalLimiter, optionalAuth, createProxy(SERVICES.reviews));
 
 // Search routes (public)
-app.use('/api/search', generalLimiter, createProxy(SERVICES.search));
-app.use('/search', generalLimiter, createProxy(SERVICES.search));
+app.use('/api/search', generalLimiter, optionalAuth, createProxy(SERVICES.search));
+app.use('/search', generalLimiter, optionalAuth, createProxy(SERVICES.search));
+
+// Socket.IO (notifications and live order tracking). The websocket upgrade
+// bypasses express and is handed to the proxy when the server starts.
+const socketProxy = createProxyMiddleware('/socket.io', {
+    target: SERVICES.notifications,
+    changeOrigin: true,
+    ws: true
+});
+app.use(socketProxy);
 
 // ============================================
 // Service Health Aggregation
@@ -314,7 +347,7 @@ app.use((err, req, res, next) => {
 // ============================================
 // Start Server
 // ============================================
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
     console.log(`
 ╔════════════════════════════════════════════════════════════╗
 ║                                                            ║
@@ -330,5 +363,6 @@ app.listen(PORT, () => {
 ╚════════════════════════════════════════════════════════════╝
   `);
 });
+server.on('upgrade', socketProxy.upgrade);
 
 module.exports = app;
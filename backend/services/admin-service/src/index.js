@@ -53,6 +53,63 @@ const discountSchema = new mongoose.Schema({
 
 const Discount = mongoose.model('Discount', discountSchema);
 
+// Product Discount Schema - a percentage off one product, applied before coupons
+const productDiscountSchema = new mongoose.Schema({
+    productId: { type: String, required: true, index: true },
+    percentage: { type: Number, required: true, min: 0, max: 100 },
+    status: { type: Boolean, default: true },
+    startDate: Date,
+    endDate: Date
+}, { timestamps: true });
+
+const ProductDiscount = mongoose.model('ProductDiscount', productDiscountSchema);
+
+// Promotion Schema - rules the pricing engine in order-service evaluates on every
+// quote. Promotions without a code apply automatically; the others need the code.
+const promotionSchema = new mongoose.Schema({
+    name: { type: String, required: true },
+    description: String,
+    code: { type: String, uppercase: true, trim: true, unique: true, sparse: true },
+    type: {
+        type: String,
+        enum: ['order', 'category', 'buy_x_get_y', 'first_order', 'tiered_spend'],
+        required: true
+    },
+    discountType: { type: String, enum: ['percentage', 'fixed'], default: 'percentage' },
+    value: { type: Number, default: 0 },
+    maxDiscount: Number,
+    minOrderValue: { type: Number, default: 0 },
+    categories: [String],
+    products: [String],
+    buyQuantity: Number,
+    getQuantity: Number,
+    tiers: [{ _id: false, threshold: Number, value: Number }],
+    // Exclusive promotions never combine; of the non-stackable ones only one applies
+    stackable: { type: Boolean, default: true },
+    exclusive: { type: Boolean, default: false },
+    priority: { type: Number, default: 0 },
+    usageLimit: Number,
+    usedCount: { type: Number, default: 0 },
+    perCustomerLimit: Number,
+    validFrom: Date,
+    validUntil: Date,
+    isActive: { type: Boolean, default: true }
+}, { timestamps: true });
+
+const Promotion = mongoose.model('Promotion', promotionSchema);
+
+// One row per promotion used on an order, for per-customer limits
+const redemptionSchema = new mongoose.Schema({
+    promotionId: { type: String, required: true },
+    customerId: { type: String, required: true },
+    orderId: { type: String, required: true }
+}, { timestamps: true });
+
+redemptionSchema.index({ promotionId: 1, customerId: 1 });
+redemptionSchema.index({ promotionId: 1, orderId: 1 }, { unique: true });
+
+const Redemption = mongoose.model('Redemption', redemptionSchema);
+
 // Advertisement Schema
 const adSchema = new mongoose.Schema({
     title: { type: String, required: true },
@@ -68,6 +125,62 @@ const adSchema = new mongoose.Schema({
 
 const Advertisement = mongoose.model('Advertisement', adSchema);
 
+// Vehicle Profile Schema - what the fleet needs beyond the vehicle record the
+// legacy backend keeps (make, model, plate, status), keyed by its id
+const vehicleProfileSchema = new mongoose.Schema({
+    vehicleId: { type: String, required: true, unique: true },
+    insuranceExpiry: Date,
+    registrationExpiry: Date,
+    maintenance: [{
+        date: { type: Date, required: true },
+        kind: { type: String, enum: ['service', 'repair', 'inspection', 'tyres', 'other'], default: 'service' },
+        description: String,
+        cost: { type: Number, default: 0 },
+        odometerKm: Number,
+        // When the next service of this kind is due, for reminders
+        nextDueDate: Date
+    }],
+    // Days the vehicle cannot be dispatched (servicing, driver leave, ...)
+    availability: [{
+        start: { type: Date, required: true },
+        end: { type: Date, required: true },
+        reason: String
+    }]
+}, { timestamps: true });
+
+const VehicleProfile = mongoose.model('VehicleProfile', vehicleProfileSchema);
+
+// One dispatched run, recorded by the dispatch planner, for utilization reports
+const tripSchema = new mongoose.Schema({
+    vehicleId: { type: String, required: true },
+    date: { type: String, required: true },
+    loadKg: { type: Number, default: 0 },
+    capacityKg: Number,
+    stops: { type: Number, default: 0 }
+}, { timestamps: true });
+
+tripSchema.index({ vehicleId: 1, date: 1 });
+
+const Trip = mongoose.model('Trip', tripSchema);
+
+// Impact Factor Schema - how a product category counts towards sustainability
+// figures: what a kilogram of it is (rescued produce or recycled fertilizer)
+// and the CO2e a kilogram keeps out of landfill. Category '*' covers the rest.
+const impactFactorSchema = new mongoose.Schema({
+    category: { type: String, required: true, unique: true, trim: true },
+    impact: { type: String, enum: ['rescued', 'recycled', 'none'], default: 'rescued' },
+    co2ePerKg: { type: Number, required: true, min: 0 }
+}, { timestamps: true });
+
+const ImpactFactor = mongoose.model('ImpactFactor', impactFactorSchema);
+
+// Used until an admin sets their own: food kept out of landfill, and compost
+// that replaces synthetic fertilizer
+const DEFAULT_IMPACT_FACTORS = [
+    { category: '*', impact: 'rescued', co2ePerKg: 2.5 },
+    { category: 'Fertilizer', impact: 'recycled', co2ePerKg: 0.5 }
+];
+
 // Health Check
 app.get('/health', (req, res) => {
     res.json({ status: 'healthy', service: 'admin-service' });
@@ -151,6 +264,19 @@ app.post('/discounts', async (req, res) => {
     }
 });
 
+// Coupon lookup for the pricing engine in order-service
+app.get('/discounts/code/:code', async (req, res) => {
+    try {
+        const discount = await Discount.findOne({ code: req.params.code.toUpperCase() }).lean();
+        if (!discount) {
+            return res.status(404).json({ success: false, error: 'Coupon not found' });
+        }
+        res.json({ success: true, data: discount });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to get coupon' });
+    }
+});
+
 app.put('/discounts/:id', async (req, res) => {
     try {
         const discount = await Discount.findByIdAndUpdate(req.params.id, req.body, { new: true });
@@ -169,6 +295,189 @@ app.delete('/discounts/:id', async (req, res) => {
     }
 });
 
+// Product discount management
+app.get('/product-discounts/all', async (req, res) => {
+    try {
+        const discounts = await ProductDiscount.find().sort('-createdAt').lean();
+        res.json({ success: true, data: discounts });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to get product discounts' });
+    }
+});
+
+// Discounts in force right now, optionally limited to `productIds` (comma separated)
+app.get('/product-discounts/active', async (req, res) => {
+    try {
+        const now = new Date();
+        const query = {
+            status: true,
+            $and: [
+                { $or: [{ startDate: null }, { startDate: { $lte: now } }] },
+                { $or: [{ endDate: null }, { endDate: { $gte: now } }] }
+            ]
+        };
+        if (req.query.productIds) {
+            query.productId = { $in: req.query.productIds.split(',') };
+        }
+
+        const discounts = await ProductDiscount.find(query).lean();
+        res.json({ success: true, data: discounts });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to get product discounts' });
+    }
+});
+
+app.post('/product-discounts', async (req, res) => {
+    try {
+        const discount = await ProductDiscount.create(req.body);
+        res.status(201).json({ success: true, data: discount });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to create product discount' });
+    }
+});
+
+app.put('/product-discounts/:id', async (req, res) => {
+    try {
+        const discount = await ProductDiscount.findByIdAndUpdate(req.params.id, req.body, { new: true });
+        res.json({ success: true, data: discount });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to update product discount' });
+    }
+});
+
+app.delete('/product-discounts/:id', async (req, res) => {
+    try {
+        await ProductDiscount.findByIdAndDelete(req.params.id);
+        res.json({ success: true });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to delete product discount' });
+    }
+});
+
+// Promotion management
+app.get('/promotions/all', async (req, res) => {
+    try {
+        const promotions = await Promotion.find().sort('-priority -createdAt').lean();
+        res.json({ success: true, data: promotions });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to get promotions' });
+    }
+});
+
+// Promotions the pricing engine should consider for one quote: every automatic
+// promotion in force plus the one matching `code`, each with `customerUses`, the
+// number of times `customerId` has already redeemed it.
+app.get('/promotions/applicable', async (req, res) => {
+    try {
+        const { customerId, code } = req.query;
+        const now = new Date();
+        const query = {
+            isActive: true,
+            $and: [
+                { $or: [{ validFrom: null }, { validFrom: { $lte: now } }] },
+                { $or: [{ validUntil: null }, { validUntil: { $gte: now } }] },
+                { $or: [{ code: null }, { code: '' }, ...(code ? [{ code: code.toUpperCase() }] : [])] }
+            ]
+        };
+
+        const promotions = await Promotion.find(query).lean();
+
+        const uses = new Map();
+        if (customerId && promotions.length > 0) {
+            const counts = await Redemption.aggregate([
+                { $match: { customerId, promotionId: { $in: promotions.map(p => String(p._id)) } } },
+                { $group: { _id: '$promotionId', count: { $sum: 1 } } }
+            ]);
+            counts.forEach(entry => uses.set(entry._id, entry.count));
+        }
+
+        res.json({
+            success: true,
+            data: promotions.map(p => ({ ...p, customerUses: uses.get(String(p._id)) || 0 }))
+        });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to get promotions' });
+    }
+});
+
+app.post('/promotions', async (req, res) => {
+    try {
+        const promotion = await Promotion.create(req.body);
+        res.status(201).json({ success: true, data: promotion });
+    } catch (error) {
+        if (error.code === 11000) {
+            return res.status(409).json({ success: false, error: 'A promotion with this code already exists' });
+        }
+        if (error.name === 'ValidationError') {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        res.status(500).json({ success: false, error: 'Failed to create promotion' });
+    }
+});
+
+// Record the promotions and coupon used by a placed order. Safe to repeat for
+// the same order.
+app.post('/promotions/redemptions', async (req, res) => {
+    try {
+        const { customerId, orderId, promotionIds = [], couponCode } = req.body;
+        if (!customerId || !orderId) {
+            return res.status(400).json({ success: false, error: 'customerId and orderId are required' });
+        }
+
+        let recorded = 0;
+        for (const promotionId of promotionIds) {
+            const result = await Redemption.updateOne(
+                { promotionId, orderId },
+                { $setOnInsert: { promotionId, orderId, customerId } },
+                { upsert: true }
+            );
+            if (result.upsertedCount > 0) {
+                await Promotion.updateOne({ _id: promotionId }, { $inc: { usedCount: 1 } });
+                recorded++;
+            }
+        }
+        if (couponCode) {
+            const result = await Redemption.updateOne(
+                { promotionId: `coupon:${couponCode}`, orderId },
+                { $setOnInsert: { promotionId: `coupon:${couponCode}`, orderId, customerId } },
+                { upsert: true }
+            );
+            if (result.upsertedCount > 0) {
+                await Discount.updateOne({ code: couponCode }, { $inc: { usedCount: 1 } });
+                recorded++;
+            }
+        }
+
+        res.json({ success: true, data: { recorded } });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to record redemptions' });
+    }
+});
+
+app.put('/promotions/:id', async (req, res) => {
+    try {
+        const promotion = await Promotion.findByIdAndUpdate(req.params.id, req.body, { new: true, runValidators: true });
+        if (!promotion) {
+            return res.status(404).json({ success: false, error: 'Promotion not found' });
+        }
+        res.json({ success: true, data: promotion });
+    } catch (error) {
+        if (error.code === 11000) {
+            return res.status(409).json({ success: false, error: 'A promotion with this code already exists' });
+        }
+        res.status(500).json({ success: false, error: 'Failed to update promotion' });
+    }
+});
+
+app.delete('/promotions/:id', async (req, res) => {
+    try {
+        await Promotion.findByIdAndDelete(req.params.id);
+        res.json({ success: true });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to delete promotion' });
+    }
+});
+
 // Advertisement management
 app.get('/advertisements', async (req, res) => {
     try {
@@ -206,6 +515,239 @@ app.delete('/advertisements/:id', async (req, res) => {
     }
 });
 
+// Fleet: vehicle documents, maintenance, availability and utilization
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FLEET_REMINDER_DAYS = parseInt(process.env.FLEET_REMINDER_DAYS || '30', 10);
+
+const pad = (value) => String(value).padStart(2, '0');
+const toDateKey = (date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Every calendar day from `from` to `to`, both included, as YYYY-MM-DD
+const daysBetween = (from, to) => {
+    const days = [];
+    for (let day = new Date(`${from}T00:00:00`); toDateKey(day) <= to; day.setDate(day.getDate() + 1)) {
+        days.push(toDateKey(day));
+    }
+    return days;
+};
+
+const profileFor = (vehicleId) => VehicleProfile.findOneAndUpdate(
+    { vehicleId },
+    { $setOnInsert: { vehicleId } },
+    { upsert: true, new: true }
+);
+
+app.get('/fleet/vehicles', async (req, res) => {
+    try {
+        const profiles = await VehicleProfile.find().lean();
+        res.json({ success: true, data: profiles });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to get vehicle profiles' });
+    }
+});
+
+// Insurance and registration expiry
+app.put('/fleet/vehicles/:vehicleId', async (req, res) => {
+    try {
+        const { insuranceExpiry, registrationExpiry } = req.body;
+        const profile = await VehicleProfile.findOneAndUpdate(
+            { vehicleId: req.params.vehicleId },
+            { $set: { insuranceExpiry: insuranceExpiry || null, registrationExpiry: registrationExpiry || null } },
+            { upsert: true, new: true, runValidators: true }
+        );
+        res.json({ success: true, data: profile });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to update vehicle profile' });
+    }
+});
+
+app.post('/fleet/vehicles/:vehicleId/maintenance', async (req, res) => {
+    try {
+        const profile = await profileFor(req.params.vehicleId);
+        profile.maintenance.push(req.body);
+        await profile.save();
+        res.status(201).json({ success: true, data: profile });
+    } catch (error) {
+        if (error.name === 'ValidationError') {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        res.status(500).json({ success: false, error: 'Failed to log maintenance' });
+    }
+});
+
+app.delete('/fleet/vehicles/:vehicleId/maintenance/:entryId', async (req, res) => {
+    try {
+        const profile = await VehicleProfile.findOneAndUpdate(
+            { vehicleId: req.params.vehicleId },
+            { $pull: { maintenance: { _id: req.params.entryId } } },
+            { new: true }
+        );
+        res.json({ success: true, data: profile });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to delete maintenance entry' });
+    }
+});
+
+// Block days on which the vehicle cannot be dispatched
+app.post('/fleet/vehicles/:vehicleId/availability', async (req, res) => {
+    try {
+        const { start, end, reason } = req.body;
+        if (!start || !end || new Date(start) > new Date(end)) {
+            return res.status(400).json({ success: false, error: 'A block needs a start on or before its end' });
+        }
+        const profile = await profileFor(req.params.vehicleId);
+        profile.availability.push({ start, end, reason });
+        await profile.save();
+        res.status(201).json({ success: true, data: profile });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to block availability' });
+    }
+});
+
+app.delete('/fleet/vehicles/:vehicleId/availability/:blockId', async (req, res) => {
+    try {
+        const profile = await VehicleProfile.findOneAndUpdate(
+            { vehicleId: req.params.vehicleId },
+            { $pull: { availability: { _id: req.params.blockId } } },
+            { new: true }
+        );
+        res.json({ success: true, data: profile });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to remove availability block' });
+    }
+});
+
+// Documents that have expired or expire within `days` (default
+// FLEET_REMINDER_DAYS), and maintenance falling due in that time; soonest first
+app.get('/fleet/reminders', async (req, res) => {
+    try {
+        const days = parseInt(req.query.days, 10) || FLEET_REMINDER_DAYS;
+        const now = new Date();
+        const horizon = new Date(now.getTime() + days * DAY_MS);
+        const profiles = await VehicleProfile.find().lean();
+
+        const reminders = [];
+        const remind = (vehicleId, kind, dueDate, label) => {
+            if (!dueDate || new Date(dueDate) > horizon) return;
+            const daysLeft = Math.ceil((new Date(dueDate) - now) / DAY_MS);
+            reminders.push({ vehicleId, kind, label, dueDate, daysLeft, overdue: daysLeft < 0 });
+        };
+        for (const profile of profiles) {
+            remind(profile.vehicleId, 'insurance', profile.insuranceExpiry, 'Insurance expires');
+            remind(profile.vehicleId, 'registration', profile.registrationExpiry, 'Registration expires');
+            // Only the latest entry of each kind says when the next one is due
+            const latest = new Map();
+            for (const entry of profile.maintenance) {
+                const seen = latest.get(entry.kind);
+                if (!seen || new Date(entry.date) > new Date(seen.date)) latest.set(entry.kind, entry);
+            }
+            for (const entry of latest.values()) {
+                remind(profile.vehicleId, 'maintenance', entry.nextDueDate, `${entry.kind[0].toUpperCase()}${entry.kind.slice(1)} due`);
+            }
+        }
+
+        reminders.sort((a, b) => new Date(a.dueDate) - new Date(b.dueDate));
+        res.json({ success: true, data: reminders });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to get reminders' });
+    }
+});
+
+// Record dispatched runs: `trips`, each {vehicleId, date, loadKg, capacityKg, stops}
+app.post('/fleet/trips', async (req, res) => {
+    try {
+        const { trips } = req.body;
+        if (!Array.isArray(trips) || trips.some(trip => !trip.vehicleId || !/^\d{4}-\d{2}-\d{2}$/.test(trip.date))) {
+            return res.status(400).json({ success: false, error: 'Each trip needs a vehicleId and a YYYY-MM-DD date' });
+        }
+        const created = await Trip.insertMany(trips);
+        res.status(201).json({ success: true, data: created });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to record trips' });
+    }
+});
+
+/**
+ * Utilization of `vehicleIds` (comma separated) from `from` to `to`
+ * (YYYY-MM-DD, both included): trips, kg moved, average load against
+ * capacity, and idle days, the days it was neither out nor blocked.
+ */
+app.get('/fleet/utilization', async (req, res) => {
+    try {
+        const { from, to } = req.query;
+        const vehicleIds = String(req.query.vehicleIds || '').split(',').filter(Boolean);
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(from || '') || !/^\d{4}-\d{2}-\d{2}$/.test(to || '') || from > to) {
+            return res.status(400).json({ success: false, error: 'from and to must be YYYY-MM-DD, from first' });
+        }
+
+        const days = daysBetween(from, to);
+        const [trips, profiles] = await Promise.all([
+            Trip.find({ vehicleId: { $in: vehicleIds }, date: { $gte: from, $lte: to } }).lean(),
+            VehicleProfile.find({ vehicleId: { $in: vehicleIds } }).lean()
+        ]);
+
+        const data = vehicleIds.map(vehicleId => {
+            const own = trips.filter(trip => trip.vehicleId === vehicleId);
+            const activeDays = new Set(own.map(trip => trip.date));
+            const blocks = profiles.find(profile => profile.vehicleId === vehicleId)?.availability || [];
+            const blockedDays = days.filter(day => !activeDays.has(day) && blocks.some(block =>
+                toDateKey(new Date(block.start)) <= day && day <= toDateKey(new Date(block.end))));
+            const loads = own.filter(trip => trip.capacityKg > 0).map(trip => trip.loadKg / trip.capacityKg);
+
+            return {
+                vehicleId,
+                trips: own.length,
+                kgMoved: Math.round(own.reduce((sum, trip) => sum + trip.loadKg, 0) * 100) / 100,
+                averageLoad: loads.length ? Math.round(loads.reduce((a, b) => a + b, 0) / loads.length * 100) / 100 : 0,
+                activeDays: activeDays.size,
+                blockedDays: blockedDays.length,
+                idleDays: days.length - activeDays.size - blockedDays.length
+            };
+        });
+
+        res.json({ success: true, data: { from, to, days: days.length, vehicles: data } });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to get utilization' });
+    }
+});
+
+// Impact: emission factors per product category
+app.get('/impact/factors', async (req, res) => {
+    try {
+        const factors = await ImpactFactor.find().sort('category').lean();
+        res.json({ success: true, data: factors.length > 0 ? factors : DEFAULT_IMPACT_FACTORS });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to get impact factors' });
+    }
+});
+
+// Replaces the whole table
+app.put('/impact/factors', async (req, res) => {
+    try {
+        const factors = Array.isArray(req.body.factors) ? req.body.factors : [];
+        const categories = factors.map(factor => String(factor.category || '').trim());
+        if (categories.some(category => !category) || new Set(categories).size !== categories.length) {
+            return res.status(400).json({ success: false, error: 'Each factor needs a category, once' });
+        }
+        if (factors.some(factor => !(Number(factor.co2ePerKg) >= 0))) {
+            return res.status(400).json({ success: false, error: 'co2ePerKg must be zero or more' });
+        }
+
+        await ImpactFactor.deleteMany({});
+        const saved = await ImpactFactor.insertMany(factors.map((factor, index) => ({
+            category: categories[index],
+            impact: factor.impact,
+            co2ePerKg: Number(factor.co2ePerKg)
+        })));
+        res.json({ success: true, data: saved });
+    } catch (error) {
+        if (error.name === 'ValidationError') {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        res.status(500).json({ success: false, error: 'Failed to update impact factors' });
+    }
+});
+
 // Reports
 app.get('/reports/sales', async (req, res) => {
     res.json({ success: true, data: { daily: [], weekly: [], monthly: [] } });
@@ -10,6 +10,7 @@ const helmet = require('helmet');
 
 const app = express();
 const PORT = process.env.PORT || 3005;
+const PRODUCT_SERVICE_URL = process.env.PRODUCT_SERVICE_URL || 'http://localhost:3003';
 
 // Redis for cart caching
 const redis = new Redis({
@@ -45,6 +46,72 @@ const cartSchema = new mongoose.Schema({
 
 const Cart = mongoose.model('Cart', cartSchema);
 
+/**
+ * Look up how many units of a product can still be sold.
+ * Resolves 0 for unknown or unsellable products and null when the product
+ * service cannot be reached, so a merge is never blocked by an outage.
+ */
+const fetchAvailableStock = async (productId) => {
+    try {
+        const response = await fetch(`${PRODUCT_SERVICE_URL}/products/${productId}`);
+        if (response.status === 404) return 0;
+        if (!response.ok) return null;
+
+        const { data: product } = await response.json();
+        if (!product || ['Out of Stock', 'Discontinued'].includes(product.status)) return 0;
+        // Units held by other checkouts cannot be reserved again
+        return Math.max(0, product.available ?? (product.quantity || 0) - (product.reserved || 0));
+    } catch (error) {
+        console.error('Stock lookup error:', error.message);
+        return null;
+    }
+};
+
+/**
+ * Merge a guest cart into a customer cart.
+ * A line already in the customer cart keeps the larger of the two quantities
+ * rather than their sum, since a guest usually re-adds what they had before.
+ * Every line is then capped at the available stock.
+ */
+const mergeItems = async (cart, items) => {
+    const summary = { merged: [], adjusted: [], dropped: [] };
+
+    for (const item of items) {
+        const requested = Math.max(1, parseInt(item.quantity, 10) || 1);
+        const existing = cart.products.find(p => p.productId === item.productId);
+        const wanted = existing ? Math.max(existing.quantity, requested) : requested;
+        const stock = await fetchAvailableStock(item.productId);
+        const name = item.name || existing?.name || item.productId;
+
+        if (stock === 0) {
+            summary.dropped.push({ productId: item.productId, name, requested, reason: 'out_of_stock' });
+            continue;
+        }
+
+        const quantity = stock === null ? wanted : Math.min(wanted, stock);
+        if (existing) {
+            existing.quantity = quantity;
+        } else {
+            cart.products.push({
+                productId: item.productId,
+                name: item.name,
+                imageUrl: item.imageUrl,
+                price: item.price,
+                quantity,
+                vendorId: item.vendorId
+            });
+        }
+
+        if (quantity < wanted) {
+            summary.adjusted.push({ productId: item.productId, name, requested: wanted, quantity });
+        } else {
+            summary.merged.push({ productId: item.productId, name, quantity });
+        }
+    }
+
+    return summary;
+};
+
 // Health Check
 app.get('/health', (req, res) => {
     res.json({ status: 'healthy', service: 'cart-service' });
@@ -76,17 +143,24 @@ app.get('/:userId', async (req, res) => {
     }
 });
 
-// Add to cart
+// Add to cart. A body with an `items` array merges a whole guest cart instead.
 app.post('/:userId/items', async (req, res) => {
     try {
         const { userId } = req.params;
-        const { productId, name, imageUrl, price, quantity = 1, vendorId } = req.body;
+        const { productId, name, imageUrl, price, quantity = 1, vendorId, items } = req.body;
 
         let cart = await Cart.findOne({ userId });
         if (!cart) {
             cart = new Cart({ userId, products: [] });
         }
 
+        if (Array.isArray(items)) {
+            const summary = await mergeItems(cart, items.filter(item => item && item.productId));
+            await cart.save();
+            await redis.del(`cart:${userId}`);
+            return res.json({ success: true, cart, summary });
+        }
+
         const existingItem = cart.products.find(p => p.productId === productId);
         if (existingItem) {
             existingItem.quantity += quantity;
@@ -0,0 +1,59 @@
+/**
+ * Callers
+ * Who is asking, as the gateway verified it: it sets x-user-id and x-user-role
+ * from the caller's token and drops any the caller sent itself. Routes naming
+ * a user answer only that user and admins.
+ *
+ * Socket connections skip the gateway's checks, so their token is verified
+ * here, the way the gateway does it.
+ */
+
+const jwt = require('jsonwebtoken');
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
+const ADMIN_ROLE = 'Admin';
+
+const callerOf = (req) => {
+    const id = req.headers['x-user-id'];
+    return id ? { id: String(id), role: req.headers['x-user-role'] } : null;
+};
+
+const isAdmin = (caller) => caller?.role === ADMIN_ROLE;
+
+// Routes with a :userId only that user or an admin may use
+const selfOrAdmin = (req, res, next) => {
+    const caller = callerOf(req);
+    if (!caller) {
+        return res.status(401).json({ success: false, error: 'Sign in to continue' });
+    }
+    if (caller.id !== String(req.params.userId) && !isAdmin(caller)) {
+        return res.status(403).json({ success: false, error: 'You can only see your own notifications' });
+    }
+    next();
+};
+
+// The token a socket connected with: `auth.token`, else the cookie auth-service sets at login
+const tokenOf = (socket) => {
+    if (socket.handshake.auth?.token) return socket.handshake.auth.token;
+    const cookies = Object.fromEntries((socket.handshake.headers.cookie || '')
+        .split(';')
+        .map(pair => pair.trim().split('='))
+        .filter(([name, value]) => name && value)
+        .map(([name, value]) => [name, decodeURIComponent(value)]));
+    return cookies.accessToken || cookies.token || null;
+};
+
+// Socket.IO middleware: only signed-in users connect, as `socket.data.user`
+const verifySocket = (socket, next) => {
+    const token = tokenOf(socket);
+    if (!token) return next(new Error('Authentication required'));
+    try {
+        const decoded = jwt.verify(token, JWT_SECRET);
+        socket.data.user = { id: String(decoded.id), role: decoded.role };
+        next();
+    } catch (error) {
+        next(new Error('Invalid token'));
+    }
+};
+
+module.exports = { callerOf, isAdmin, selfOrAdmin, verifySocket };
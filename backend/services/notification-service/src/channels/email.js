@@ -0,0 +1,16 @@
+/**
+ * Email channel
+ */
+
+const { createTransport } = require('./transports');
+
+const FROM = process.env.EMAIL_FROM || 'EcoHarvest <no-reply@ecoharvest.local>';
+
+const transport = createTransport('email', 'EMAIL');
+
+module.exports = {
+    name: 'email',
+    addressOf: (contact) => contact?.email || null,
+    compose: (content) => ({ subject: content.email.subject, body: content.email.body }),
+    send: ({ to, subject, body }) => transport({ from: FROM, to, subject, body })
+};
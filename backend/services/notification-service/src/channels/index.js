@@ -0,0 +1,12 @@
+/**
+ * Delivery channels besides in-app notifications. Each one knows which of a
+ * user's addresses it sends to, how a rendered notification reads in it, and
+ * how to send it.
+ */
+
+const email = require('./email');
+const sms = require('./sms');
+
+const channels = { email, sms };
+
+module.exports = channels;
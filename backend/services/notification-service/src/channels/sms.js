@@ -0,0 +1,20 @@
+/**
+ * SMS channel
+ */
+
+const { createTransport } = require('./transports');
+
+const SENDER_ID = process.env.SMS_SENDER_ID || 'ECOHRV';
+// Longer messages are cut to one SMS
+const MAX_LENGTH = 160;
+
+const transport = createTransport('sms', 'SMS');
+
+module.exports = {
+    name: 'sms',
+    addressOf: (contact) => contact?.phone || null,
+    compose: (content) => ({
+        body: content.sms.length > MAX_LENGTH ? `${content.sms.slice(0, MAX_LENGTH - 1)}…` : content.sms
+    }),
+    send: ({ to, body }) => transport({ from: SENDER_ID, to, body })
+};
@@ -0,0 +1,51 @@
+/**
+ * Transports
+ * How a channel's messages leave the service. `outbox` appends each message to
+ * a file, one JSON object a line, so development needs no mail or SMS
+ * provider; `webhook` posts it to a provider's HTTP API.
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// Messages hold addresses and phone numbers, so keep them out of the checkout
+const OUTBOX_DIR = process.env.NOTIFICATION_OUTBOX_DIR || path.join(os.tmpdir(), 'ecoharvest-outbox');
+
+const outbox = (channel) => async (message) => {
+    await fs.promises.mkdir(OUTBOX_DIR, { recursive: true });
+    const line = JSON.stringify({ ...message, channel, sentAt: new Date().toISOString() });
+    await fs.promises.appendFile(path.join(OUTBOX_DIR, `${channel}.jsonl`), `${line}\n`);
+};
+
+const webhook = (channel, url, token) => async (message) => {
+    if (!url) throw new Error(`No webhook URL configured for ${channel}`);
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...(token ? { Authorization: `Bearer ${token}` } : {})
+        },
+        body: JSON.stringify(message)
+    });
+    if (!response.ok) throw new Error(`${channel} provider answered ${response.status}`);
+};
+
+/**
+ * The transport named by `<PREFIX>_TRANSPORT`: the outbox unless production,
+ * where it defaults to the webhook at `<PREFIX>_WEBHOOK_URL`.
+ */
+const createTransport = (channel, prefix) => {
+    const fallback = process.env.NODE_ENV === 'production' ? 'webhook' : 'outbox';
+    const name = process.env[`${prefix}_TRANSPORT`] || fallback;
+    switch (name) {
+        case 'outbox':
+            return outbox(channel);
+        case 'webhook':
+            return webhook(channel, process.env[`${prefix}_WEBHOOK_URL`], process.env[`${prefix}_WEBHOOK_TOKEN`]);
+        default:
+            throw new Error(`Unknown ${prefix}_TRANSPORT ${name}; expected outbox or webhook`);
+    }
+};
+
+module.exports = { createTransport, OUTBOX_DIR };
@@ -0,0 +1,186 @@
+/**
+ * Email and SMS Delivery
+ * Each message to send is a Delivery document, so nothing is lost when a
+ * provider is down or the service restarts. A worker sends those that are
+ * due, retrying failures with growing delays; a message that keeps failing is
+ * dead-lettered for an admin to look at and retry. Messages due in the
+ * user's quiet hours wait until they end.
+ */
+
+const mongoose = require('mongoose');
+const channels = require('./channels');
+const preferences = require('./preferences');
+
+const USER_SERVICE_URL = process.env.USER_SERVICE_URL || 'http://localhost:3002';
+
+const MAX_ATTEMPTS = parseInt(process.env.DELIVERY_MAX_ATTEMPTS || '5');
+// First retry after this long, doubling each time
+const RETRY_BASE_MS = parseInt(process.env.DELIVERY_RETRY_BASE_MS || '30000');
+const POLL_MS = parseInt(process.env.DELIVERY_POLL_MS || '5000');
+// How long a claimed delivery is left to its worker before another may take it
+const CLAIM_MS = 60 * 1000;
+const BATCH_SIZE = 20;
+
+class DeliveryError extends Error {
+    constructor(message, statusCode = 400) {
+        super(message);
+        this.statusCode = statusCode;
+    }
+}
+
+const deliverySchema = new mongoose.Schema({
+    userId: { type: String, required: true, index: true },
+    notificationId: { type: mongoose.Schema.Types.ObjectId },
+    channel: { type: String, enum: Object.keys(channels), required: true },
+    template: String,
+    to: { type: String, required: true },
+    subject: String,
+    body: { type: String, required: true },
+    status: { type: String, enum: ['pending', 'sent', 'dead'], default: 'pending' },
+    attempts: { type: Number, default: 0 },
+    nextAttemptAt: { type: Date, default: Date.now },
+    lastError: String,
+    sentAt: Date,
+    deadAt: Date
+}, { timestamps: true });
+
+deliverySchema.index({ status: 1, nextAttemptAt: 1 });
+
+const Delivery = mongoose.model('Delivery', deliverySchema);
+
+/**
+ * Where a user's email and SMS go and what to call them: their saved contact
+ * details, else their profile. Failures are logged, not thrown: in-app
+ * notifications do not need them.
+ */
+const resolveContact = async (userId, saved = {}, given = {}) => {
+    const contact = { email: given.email || saved.email, phone: given.phone || saved.phone, name: given.name };
+    if (contact.email && contact.phone && contact.name) return contact;
+    try {
+        const response = await fetch(`${USER_SERVICE_URL}/${encodeURIComponent(userId)}`);
+        if (response.ok) {
+            const profile = (await response.json())?.data || {};
+            contact.email = contact.email || profile.email;
+            contact.phone = contact.phone || profile.phoneNumber;
+            contact.name = contact.name || profile.firstName;
+        }
+    } catch (error) {
+        console.error(`Failed to look up contact details for user ${userId}:`, error.message);
+    }
+    return contact;
+};
+
+/**
+ * Queue a rendered notification on each of `enabled` channels that the user
+ * has an address for. Returns the queued deliveries.
+ */
+const enqueue = async ({ userId, notificationId, template, content, enabled, prefs, contact }) => {
+    const resumeAt = preferences.quietUntil(prefs.quietHours) || new Date();
+    const deliveries = [];
+    for (const name of enabled) {
+        const channel = channels[name];
+        const to = channel.addressOf(contact);
+        if (!to) {
+            console.warn(`No ${name} address for user ${userId}; skipping ${template || content.type} notification`);
+            continue;
+        }
+        deliveries.push({
+            userId,
+            notificationId,
+            channel: name,
+            template,
+            to,
+            ...channel.compose(content),
+            nextAttemptAt: resumeAt
+        });
+    }
+    return deliveries.length ? Delivery.insertMany(deliveries) : [];
+};
+
+const retryDelay = (attempts) => RETRY_BASE_MS * 2 ** (attempts - 1);
+
+// Send one claimed delivery, unless the user's quiet hours began since it was queued
+const attempt = async (delivery) => {
+    const { quietHours } = await preferences.forUser(delivery.userId);
+    const resumeAt = preferences.quietUntil(quietHours);
+    if (resumeAt) {
+        await Delivery.updateOne({ _id: delivery._id }, { nextAttemptAt: resumeAt });
+        return;
+    }
+
+    const attempts = delivery.attempts + 1;
+    try {
+        await channels[delivery.channel].send(delivery);
+        await Delivery.updateOne({ _id: delivery._id }, { status: 'sent', attempts, sentAt: new Date(), lastError: null });
+    } catch (error) {
+        const dead = attempts >= MAX_ATTEMPTS;
+        await Delivery.updateOne({ _id: delivery._id }, {
+            attempts,
+            lastError: error.message,
+            ...(dead
+                ? { status: 'dead', deadAt: new Date() }
+                : { nextAttemptAt: new Date(Date.now() + retryDelay(attempts)) })
+        });
+        console.error(`${delivery.channel} delivery ${delivery._id} failed (attempt ${attempts}/${MAX_ATTEMPTS})${dead ? ', dead-lettered' : ''}:`, error.message);
+    }
+};
+
+// Claim due deliveries one at a time, so two workers never send the same one
+const processDue = async () => {
+    for (let sent = 0; sent < BATCH_SIZE; sent++) {
+        const now = new Date();
+        const delivery = await Delivery.findOneAndUpdate(
+            { status: 'pending', nextAttemptAt: { $lte: now } },
+            { nextAttemptAt: new Date(now.getTime() + CLAIM_MS) },
+            { sort: { nextAttemptAt: 1 }, new: true }
+        ).lean();
+        if (!delivery) return;
+        await attempt(delivery);
+    }
+};
+
+let running = false;
+
+const startWorker = () => setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+        await processDue();
+    } catch (error) {
+        console.error('Delivery worker failed:', error);
+    } finally {
+        running = false;
+    }
+}, POLL_MS);
+
+/** Deliveries, newest first; dead letters by default. */
+const list = ({ status = 'dead', userId, limit = 50 } = {}) => {
+    const query = { status };
+    if (userId) query.userId = userId;
+    return Delivery.find(query).sort('-updatedAt').limit(Math.min(parseInt(limit) || 50, 200)).lean();
+};
+
+/** Send a dead-lettered delivery again, with a fresh set of attempts. */
+const retry = async (deliveryId) => {
+    if (!mongoose.isValidObjectId(deliveryId)) throw new DeliveryError('Delivery not found', 404);
+    const delivery = await Delivery.findOneAndUpdate(
+        { _id: deliveryId, status: 'dead' },
+        { status: 'pending', attempts: 0, nextAttemptAt: new Date(), deadAt: null },
+        { new: true }
+    ).lean();
+    if (!delivery) {
+        const exists = await Delivery.exists({ _id: deliveryId });
+        throw exists ? new DeliveryError('Only dead-lettered deliveries can be retried', 409) : new DeliveryError('Delivery not found', 404);
+    }
+    return delivery;
+};
+
+module.exports = {
+    CHANNELS: Object.keys(channels),
+    DeliveryError,
+    resolveContact,
+    enqueue,
+    startWorker,
+    list,
+    retry
+};
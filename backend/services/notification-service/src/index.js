@@ -8,6 +8,10 @@ const cors = require('cors');
 const helmet = require('helmet');
 const http = require('http');
 const { Server } = require('socket.io');
+const preferences = require('./preferences');
+const templates = require('./templates');
+const delivery = require('./delivery');
+const { callerOf, isAdmin, selfOrAdmin, verifySocket } = require('./callers');
 
 const app = express();
 const server = http.createServer(app);
@@ -16,6 +20,7 @@ const io = new Server(server, {
 });
 
 const PORT = process.env.PORT || 3008;
+const ORDER_SERVICE_URL = process.env.ORDER_SERVICE_URL || 'http://localhost:3004';
 
 // Middleware
 app.use(helmet());
@@ -27,7 +32,7 @@ const notificationSchema = new mongoose.Schema({
     userId: { type: String, required: true, index: true },
     title: { type: String, required: true },
     message: { type: String, required: true },
-    type: { type: String, enum: ['order', 'payment', 'promotion', 'system', 'review'], default: 'system' },
+    type: { type: String, enum: ['order', 'payment', 'promotion', 'system', 'review', 'inventory'], default: 'system' },
     isRead: { type: Boolean, default: false },
     data: { type: mongoose.Schema.Types.Mixed },
     createdAt: { type: Date, default: Date.now }
@@ -37,33 +42,90 @@ notificationSchema.index({ userId: 1, createdAt: -1 });
 
 const Notification = mongoose.model('Notification', notificationSchema);
 
-// Socket.IO connections
-const userSockets = new Map();
+// Socket.IO connections. Each user has a room, so every tab they have open
+// gets their notifications; a socket joins only its own verified user's room.
+const userRoom = (userId) => `user:${userId}`;
+
+io.use(verifySocket);
 
 io.on('connection', (socket) => {
-    console.log('Socket connected:', socket.id);
+    const { id: userId } = socket.data.user;
+    socket.join(userRoom(userId));
+    console.log(`User ${userId} connected with socket ${socket.id}`);
 
-    socket.on('register', (userId) => {
-        userSockets.set(userId, socket.id);
-        console.log(`User ${userId} registered with socket ${socket.id}`);
+    // Follow an order's tracking updates until the page is left. order-service
+    // decides who may see an order, so it is asked for the order as this user.
+    socket.on('track', async (orderId) => {
+        try {
+            const response = await fetch(`${ORDER_SERVICE_URL}/${encodeURIComponent(orderId)}/tracking`, {
+                headers: { 'x-user-id': socket.data.user.id, 'x-user-role': socket.data.user.role }
+            });
+            if (response.ok) socket.join(`order:${orderId}`);
+        } catch (error) {
+            console.error(`Failed to check tracking of order ${orderId} for user ${userId}:`, error.message);
+        }
     });
 
-    socket.on('disconnect', () => {
-        for (const [userId, socketId] of userSockets) {
-            if (socketId === socket.id) {
-                userSockets.delete(userId);
-                break;
-            }
-        }
+    socket.on('untrack', (orderId) => {
+        socket.leave(`order:${orderId}`);
     });
+
 });
 
 // Send real-time notification to user
 const sendRealtime = (userId, notification) => {
-    const socketId = userSockets.get(userId);
-    if (socketId) {
-        io.to(socketId).emit('notification', notification);
+    io.to(userRoom(userId)).emit('notification', notification);
+};
+
+// Tell the user's other tabs what was read: `ids`, or everything
+const sendRead = (userId, read) => {
+    io.to(userRoom(userId)).emit('notifications-read', read);
+};
+
+// Send an order's new tracking view to every client following it
+const sendTracking = (orderId, tracking) => {
+    io.to(`order:${orderId}`).emit('tracking', tracking);
+};
+
+/**
+ * Notify a user on the channels they want for this type of notification: in
+ * the app (stored and pushed over the socket) and queued for email and SMS.
+ */
+const notify = async ({ userId, template, variables = {}, title, message, type, data, contact }) => {
+    const prefs = await preferences.forUser(userId);
+    let content = templates.render({ template, variables, title, message, type });
+    const wanted = prefs.types[preferences.preferenceType(content.type)];
+
+    let notification = null;
+    if (wanted.inApp) {
+        notification = await Notification.create({
+            userId,
+            title: content.title,
+            message: content.message,
+            type: content.type,
+            data
+        });
+        sendRealtime(userId, notification);
+    }
+
+    const enabled = delivery.CHANNELS.filter(channel => wanted[channel]);
+    let deliveries = [];
+    if (enabled.length) {
+        const resolved = await delivery.resolveContact(userId, prefs.contact, contact);
+        // Emails greet the user by name
+        if (template) content = templates.render({ template, variables: { name: resolved.name || 'there', ...variables } });
+        deliveries = await delivery.enqueue({
+            userId,
+            notificationId: notification?._id,
+            template,
+            content,
+            enabled,
+            prefs,
+            contact: resolved
+        });
     }
+
+    return { notification, deliveries };
 };
 
 // Health Check
@@ -71,12 +133,44 @@ app.get('/health', (req, res) => {
     res.json({ status: 'healthy', service: 'notification-service' });
 });
 
-// Get notifications for user
-app.get('/:userId', async (req, res) => {
+// Email and SMS deliveries (admin); dead letters unless ?status= says otherwise
+app.get('/deliveries', async (req, res) => {
+    try {
+        const { status, userId, limit } = req.query;
+        res.json({ success: true, data: await delivery.list({ status, userId, limit }) });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to get deliveries' });
+    }
+});
+
+// Send a dead-lettered delivery again (admin)
+app.post('/deliveries/:id/retry', async (req, res) => {
+    try {
+        res.json({ success: true, data: await delivery.retry(req.params.id) });
+    } catch (error) {
+        res.status(error.statusCode || 500).json({ success: false, error: error.statusCode ? error.message : 'Failed to retry delivery' });
+    }
+});
+
+// Message templates, for services that send notifications
+app.get('/templates', (req, res) => {
+    res.json({ success: true, data: templates.TEMPLATES });
+});
+
+// Get notifications for user; `since` (an ISO time) gives only those created
+// after it, for clients catching up after a dropped connection
+app.get('/:userId', selfOrAdmin, async (req, res) => {
     try {
-        const { page = 1, limit = 20, unreadOnly } = req.query;
+        const { page = 1, limit = 20, unreadOnly, since } = req.query;
         const query = { userId: req.params.userId };
         if (unreadOnly === 'true') query.isRead = false;
+        if (since) {
+            const after = new Date(since);
+            if (isNaN(after)) {
+                return res.status(400).json({ success: false, error: 'since must be a date' });
+            }
+            query.createdAt = { $gt: after };
+        }
 
         const notifications = await Notification.find(query)
             .sort('-createdAt')
@@ -90,10 +184,27 @@ app.get('/:userId', async (req, res) => {
     }
 });
 
+// Count of unread notifications, for the bell
+app.get('/:userId/unread-count', selfOrAdmin, async (req, res) => {
+    try {
+        const count = await Notification.countDocuments({ userId: req.params.userId, isRead: false });
+        res.json({ success: true, data: { count } });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to count unread notifications' });
+    }
+});
+
+// Only the notification's user, or an admin, may change it
+const ownNotification = (req) => {
+    const caller = callerOf(req);
+    return isAdmin(caller) ? { _id: req.params.id } : { _id: req.params.id, userId: caller ? caller.id : null };
+};
+
 // Mark notification as read
 app.put('/:id/read', async (req, res) => {
     try {
-        await Notification.findByIdAndUpdate(req.params.id, { isRead: true });
+        const notification = await Notification.findOneAndUpdate(ownNotification(req), { isRead: true });
+        if (notification) sendRead(notification.userId, { ids: [req.params.id] });
         res.json({ success: true });
     } catch (error) {
         res.status(500).json({ success: false, error: 'Failed to mark as read' });
@@ -101,9 +212,10 @@ app.put('/:id/read', async (req, res) => {
 });
 
 // Mark all as read
-app.put('/:userId/read-all', async (req, res) => {
+app.put('/:userId/read-all', selfOrAdmin, async (req, res) => {
     try {
-        await Notification.updateMany({ userId: req.params.userId }, { isRead: true });
+        await Notification.updateMany({ userId: req.params.userId, isRead: false }, { isRead: true });
+        sendRead(req.params.userId, { all: true });
         res.json({ success: true, message: 'All notifications marked as read' });
     } catch (error) {
         res.status(500).json({ success: false, error: 'Failed to mark all as read' });
@@ -113,67 +225,75 @@ app.put('/:userId/read-all', async (req, res) => {
 // Delete notification
 app.delete('/:id', async (req, res) => {
     try {
-        await Notification.findByIdAndDelete(req.params.id);
+        await Notification.findOneAndDelete(ownNotification(req));
         res.json({ success: true });
     } catch (error) {
         res.status(500).json({ success: false, error: 'Failed to delete notification' });
     }
 });
 
-// Create notification (internal API)
+// Create notification (internal API). Either `template` and `variables`, or
+// `title` and `message`; `data` and `contact` are optional.
 app.post('/send', async (req, res) => {
     try {
-        const { userId, title, message, type, data } = req.body;
-
-        const notification = await Notification.create({
-            userId,
-            title,
-            message,
-            type,
-            data
-        });
-
-        // Send real-time notification
-        sendRealtime(userId, notification);
-
-        res.status(201).json({ success: true, data: notification });
+        if (!req.body.userId) {
+            return res.status(400).json({ success: false, error: 'userId is required' });
+        }
+        const { notification, deliveries } = await notify(req.body);
+        res.status(201).json({ success: true, data: notification, deliveries: deliveries.length });
     } catch (error) {
-        res.status(500).json({ success: false, error: 'Failed to send notification' });
+        res.status(error.statusCode || 500).json({ success: false, error: error.statusCode ? error.message : 'Failed to send notification' });
     }
 });
 
+// Order tracking update (internal API, from order-service). Not stored: a
+// page that missed it fetches the order's tracking again when it reconnects.
+app.post('/tracking/:orderId', (req, res) => {
+    sendTracking(req.params.orderId, req.body);
+    res.json({ success: true });
+});
+
 // Broadcast notification (admin)
 app.post('/broadcast', async (req, res) => {
     try {
-        const { userIds, title, message, type } = req.body;
+        const { userIds, template, variables, title, message, type } = req.body;
+        if (!Array.isArray(userIds)) {
+            return res.status(400).json({ success: false, error: 'userIds must be a list' });
+        }
+        // Fails before anything is sent when the message cannot be rendered
+        templates.render({ template, variables, title, message, type });
 
-        const notifications = await Notification.insertMany(
-            userIds.map(userId => ({ userId, title, message, type }))
+        const results = await Promise.all(
+            userIds.map(userId => notify({ userId, template, variables, title, message, type }))
         );
 
-        // Send real-time to all
-        userIds.forEach(userId => {
-            sendRealtime(userId, { title, message, type });
+        res.status(201).json({
+            success: true,
+            count: results.filter(result => result.notification).length,
+            deliveries: results.reduce((sum, result) => sum + result.deliveries.length, 0)
         });
+    } catch (error) {
+        res.status(error.statusCode || 500).json({ success: false, error: error.statusCode ? error.message : 'Failed to broadcast' });
+    }
+});
 
-        res.status(201).json({ success: true, count: notifications.length });
+// Get preferences: which channels each type of notification goes to, quiet
+// hours and contact details
+app.get('/:userId/preferences', selfOrAdmin, async (req, res) => {
+    try {
+        res.json({ success: true, data: await preferences.forUser(req.params.userId) });
     } catch (error) {
-        res.status(500).json({ success: false, error: 'Failed to broadcast' });
+        res.status(500).json({ success: false, error: 'Failed to get preferences' });
     }
 });
 
-// Get preferences
-app.get('/:userId/preferences', async (req, res) => {
-    res.json({
-        success: true,
-        data: {
-            email: true,
-            sms: false,
-            push: true,
-            orderUpdates: true,
-            promotions: true
-        }
-    });
+// Update preferences; only the parts given change
+app.put('/:userId/preferences', selfOrAdmin, async (req, res) => {
+    try {
+        res.json({ success: true, data: await preferences.update(req.params.userId, req.body) });
+    } catch (error) {
+        res.status(error.statusCode || 500).json({ success: false, error: error.statusCode ? error.message : 'Failed to update preferences' });
+    }
 });
 
 // Start server
@@ -181,6 +301,7 @@ mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/ecoharves
     .then(() => {
         console.log('🔔 Notification Service connected to MongoDB');
         server.listen(PORT, () => console.log(`🔔 Notification Service running on port ${PORT}`));
+        delivery.startWorker();
     })
     .catch(err => {
         console.error('Failed to start Notification Service:', err);
@@ -0,0 +1,204 @@
+/**
+ * Notification Preferences
+ * Which channels each user wants for each type of notification, when they do
+ * not want to be disturbed, and where email and SMS go. Users who never saved
+ * any get the defaults below.
+ */
+
+const mongoose = require('mongoose');
+
+const TYPES = ['order', 'payment', 'promotion', 'review', 'system'];
+const CHANNELS = ['inApp', 'email', 'sms'];
+
+// Notification types without a preference of their own
+const TYPE_ALIASES = { inventory: 'system' };
+
+const DEFAULT_CHANNELS = {
+    order: { inApp: true, email: true, sms: false },
+    payment: { inApp: true, email: true, sms: false },
+    promotion: { inApp: true, email: false, sms: false },
+    review: { inApp: true, email: true, sms: false },
+    system: { inApp: true, email: true, sms: false }
+};
+
+const DEFAULT_TIMEZONE = process.env.NOTIFICATION_DEFAULT_TIMEZONE || 'Asia/Kolkata';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+class PreferenceError extends Error {
+    constructor(message, statusCode = 400) {
+        super(message);
+        this.statusCode = statusCode;
+    }
+}
+
+const channelSchema = new mongoose.Schema(
+    Object.fromEntries(CHANNELS.map(channel => [channel, Boolean])),
+    { _id: false }
+);
+
+const preferenceSchema = new mongoose.Schema({
+    userId: { type: String, required: true, unique: true, index: true },
+    types: Object.fromEntries(TYPES.map(type => [type, channelSchema])),
+    // Email and SMS wait until these hours are over; in-app notifications do not
+    quietHours: {
+        enabled: { type: Boolean, default: false },
+        start: { type: String, default: '22:00' },
+        end: { type: String, default: '07:00' },
+        timezone: { type: String, default: DEFAULT_TIMEZONE }
+    },
+    // Where email and SMS go; when unset, the address on the user's profile
+    contact: {
+        email: String,
+        phone: String
+    }
+}, { timestamps: true });
+
+const NotificationPreference = mongoose.model('NotificationPreference', preferenceSchema);
+
+/** The preference type that governs a notification type. */
+const preferenceType = (type) => TYPE_ALIASES[type] || (TYPES.includes(type) ? type : 'system');
+
+// Saved preferences over the defaults, as plain data
+const withDefaults = (userId, saved) => ({
+    userId,
+    types: Object.fromEntries(TYPES.map(type => [type, {
+        ...DEFAULT_CHANNELS[type],
+        ...Object.fromEntries(CHANNELS
+            .filter(channel => typeof saved?.types?.[type]?.[channel] === 'boolean')
+            .map(channel => [channel, saved.types[type][channel]]))
+    }])),
+    quietHours: {
+        enabled: saved?.quietHours?.enabled ?? false,
+        start: saved?.quietHours?.start || '22:00',
+        end: saved?.quietHours?.end || '07:00',
+        timezone: saved?.quietHours?.timezone || DEFAULT_TIMEZONE
+    },
+    contact: {
+        email: saved?.contact?.email || '',
+        phone: saved?.contact?.phone || ''
+    }
+});
+
+const forUser = async (userId) => {
+    const saved = await NotificationPreference.findOne({ userId }).lean();
+    return withDefaults(userId, saved);
+};
+
+const isTimezone = (timezone) => {
+    try {
+        new Intl.DateTimeFormat('en-GB', { timeZone: timezone });
+        return true;
+    } catch (error) {
+        return false;
+    }
+};
+
+/**
+ * Save the parts of a user's preferences given in `changes`; the rest keep
+ * their saved or default values.
+ */
+const update = async (userId, changes = {}) => {
+    const set = {};
+
+    for (const [type, channels] of Object.entries(changes.types || {})) {
+        if (!TYPES.includes(type)) {
+            throw new PreferenceError(`Unknown notification type ${type}; expected one of ${TYPES.join(', ')}`);
+        }
+        for (const [channel, enabled] of Object.entries(channels || {})) {
+            if (!CHANNELS.includes(channel)) {
+                throw new PreferenceError(`Unknown channel ${channel}; expected one of ${CHANNELS.join(', ')}`);
+            }
+            if (typeof enabled !== 'boolean') {
+                throw new PreferenceError(`${type}.${channel} must be true or false`);
+            }
+            set[`types.${type}.${channel}`] = enabled;
+        }
+    }
+
+    if (changes.quietHours) {
+        const { enabled, start, end, timezone } = changes.quietHours;
+        if (enabled !== undefined) {
+            if (typeof enabled !== 'boolean') throw new PreferenceError('quietHours.enabled must be true or false');
+            set['quietHours.enabled'] = enabled;
+        }
+        for (const [name, value] of Object.entries({ start, end })) {
+            if (value === undefined) continue;
+            if (!TIME_PATTERN.test(value)) throw new PreferenceError(`quietHours.${name} must be a time as HH:MM`);
+            set[`quietHours.${name}`] = value;
+        }
+        if (timezone !== undefined) {
+            if (!isTimezone(timezone)) throw new PreferenceError(`Unknown time zone ${timezone}`);
+            set['quietHours.timezone'] = timezone;
+        }
+    }
+
+    if (changes.contact) {
+        const { email, phone } = changes.contact;
+        if (email !== undefined) {
+            const trimmed = String(email).trim();
+            if (trimmed && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed)) {
+                throw new PreferenceError('contact.email must be an email address');
+            }
+            set['contact.email'] = trimmed;
+        }
+        if (phone !== undefined) {
+            const trimmed = String(phone).trim();
+            if (trimmed && !/^\+?[\d\s-]{7,20}$/.test(trimmed)) {
+                throw new PreferenceError('contact.phone must be a phone number');
+            }
+            set['contact.phone'] = trimmed;
+        }
+    }
+
+    const saved = await NotificationPreference.findOneAndUpdate(
+        { userId },
+        { $set: set },
+        { new: true, upsert: true, setDefaultsOnInsert: true }
+    ).lean();
+    return withDefaults(userId, saved);
+};
+
+// Minutes past midnight at `date` in `timezone`
+const minutesIn = (date, timezone) => {
+    const parts = new Intl.DateTimeFormat('en-GB', {
+        timeZone: timezone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23'
+    }).formatToParts(date);
+    const part = (type) => parseInt(parts.find(p => p.type === type).value);
+    return part('hour') * 60 + part('minute');
+};
+
+const toMinutes = (time) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+/**
+ * When the user's quiet hours around `date` end, or null when `date` is not
+ * in them. Hours may run past midnight (22:00 to 07:00).
+ */
+const quietUntil = (quietHours, date = new Date()) => {
+    if (!quietHours?.enabled) return null;
+    const start = toMinutes(quietHours.start);
+    const end = toMinutes(quietHours.end);
+    if (start === end) return null;
+
+    const now = minutesIn(date, quietHours.timezone || DEFAULT_TIMEZONE);
+    const quiet = start < end ? now >= start && now < end : now >= start || now < end;
+    if (!quiet) return null;
+
+    const untilEnd = (end - now + 24 * 60) % (24 * 60);
+    const resume = new Date(date.getTime() + untilEnd * 60 * 1000);
+    resume.setSeconds(0, 0);
+    return resume;
+};
+
+module.exports = {
+    TYPES,
+    CHANNELS,
+    PreferenceError,
+    preferenceType,
+    forUser,
+    update,
+    quietUntil
+};
@@ -0,0 +1,122 @@
+/**
+ * Message Templates
+ * What each kind of notification says in the app, in an email and in an SMS.
+ * Placeholders are written {{name}} and filled from the variables sent with
+ * the notification; a missing variable renders as nothing.
+ */
+
+class TemplateError extends Error {
+    constructor(message, statusCode = 400) {
+        super(message);
+        this.statusCode = statusCode;
+    }
+}
+
+const TEMPLATES = {
+    'order.placed': {
+        type: 'order',
+        title: 'Order placed',
+        message: 'Your order {{orderNumber}} for Rs. {{total}} has been placed.',
+        email: {
+            subject: 'Your EcoHarvest order {{orderNumber}}',
+            body: 'Hi {{name}},\n\nThank you for your order {{orderNumber}}. We have received it and will let you know when it is on its way.\n\nTotal: Rs. {{total}}\n\nEcoHarvest'
+        },
+        sms: 'EcoHarvest: order {{orderNumber}} placed, total Rs. {{total}}.'
+    },
+    'order.status': {
+        type: 'order',
+        title: 'Order {{status}}',
+        message: 'Your order {{orderNumber}} is now {{status}}.',
+        email: {
+            subject: 'Order {{orderNumber}} is {{status}}',
+            body: 'Hi {{name}},\n\nYour order {{orderNumber}} is now {{status}}.\n\nEcoHarvest'
+        },
+        sms: 'EcoHarvest: order {{orderNumber}} is {{status}}.'
+    },
+    'payment.succeeded': {
+        type: 'payment',
+        title: 'Payment received',
+        message: 'We received your payment of Rs. {{amount}} for order {{orderNumber}}.',
+        email: {
+            subject: 'Payment received for order {{orderNumber}}',
+            body: 'Hi {{name}},\n\nWe received your payment of Rs. {{amount}} for order {{orderNumber}}.\n\nEcoHarvest'
+        },
+        sms: 'EcoHarvest: payment of Rs. {{amount}} received for order {{orderNumber}}.'
+    },
+    'payment.failed': {
+        type: 'payment',
+        title: 'Payment failed',
+        message: 'Your payment for order {{orderNumber}} did not go through. {{reason}}',
+        email: {
+            subject: 'Payment failed for order {{orderNumber}}',
+            body: 'Hi {{name}},\n\nYour payment for order {{orderNumber}} did not go through. {{reason}}\n\nYou can try again from your order history.\n\nEcoHarvest'
+        },
+        sms: 'EcoHarvest: payment for order {{orderNumber}} failed. Please try again.'
+    },
+    'review.received': {
+        type: 'review',
+        title: 'New review',
+        message: '{{productName}} received a {{rating}}-star review.',
+        email: {
+            subject: 'New review for {{productName}}',
+            body: 'Hi {{name}},\n\n{{productName}} received a {{rating}}-star review:\n\n"{{comment}}"\n\nEcoHarvest'
+        },
+        sms: 'EcoHarvest: {{productName}} received a {{rating}}-star review.'
+    },
+    'promotion.offer': {
+        type: 'promotion',
+        title: '{{headline}}',
+        message: '{{details}}',
+        email: {
+            subject: '{{headline}}',
+            body: 'Hi {{name}},\n\n{{details}}\n\nEcoHarvest'
+        },
+        sms: 'EcoHarvest: {{headline}}'
+    },
+    'inventory.low_stock': {
+        type: 'inventory',
+        title: 'Low stock',
+        message: '{{productName}} is down to {{available}} available (alert at {{lowStockThreshold}}).',
+        email: {
+            subject: 'Low stock: {{productName}}',
+            body: 'Hi {{name}},\n\n{{productName}} is down to {{available}} available (alert at {{lowStockThreshold}}).\n\nEcoHarvest'
+        },
+        sms: 'EcoHarvest: {{productName}} is down to {{available}} available.'
+    }
+};
+
+const fill = (text, variables) => text
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) => (variables[name] ?? '').toString())
+    .trim();
+
+/**
+ * A notification's text for every channel: from `template` when one is named,
+ * otherwise the given `title` and `message` everywhere.
+ */
+const render = ({ template, variables = {}, title, message, type }) => {
+    if (!template) {
+        if (!title || !message) throw new TemplateError('title and message are required without a template');
+        return {
+            type: type || 'system',
+            title,
+            message,
+            email: { subject: title, body: message },
+            sms: `${title}: ${message}`
+        };
+    }
+
+    const definition = TEMPLATES[template];
+    if (!definition) throw new TemplateError(`Unknown template ${template}`);
+    return {
+        type: definition.type,
+        title: fill(definition.title, variables),
+        message: fill(definition.message, variables),
+        email: {
+            subject: fill(definition.email.subject, variables),
+            body: fill(definition.email.body, variables)
+        },
+        sms: fill(definition.sms, variables)
+    };
+};
+
+module.exports = { TEMPLATES, TemplateError, render };
@@ -0,0 +1,92 @@
+/**
+ * Delivery Slots
+ * Produce is perishable, so every order is booked into a delivery window. The
+ * windows repeat daily; each holds a limited number of orders.
+ */
+
+const Order = require('../models/order.model');
+
+const DELIVERY = {
+    WINDOWS: [
+        { start: '08:00', end: '11:00' },
+        { start: '12:00', end: '15:00' },
+        { start: '16:00', end: '19:00' }
+    ],
+    DAYS_AHEAD: 5,
+    // Orders need this long to be picked and packed before their window opens
+    LEAD_TIME_HOURS: 3,
+    SLOT_CAPACITY: parseInt(process.env.DELIVERY_SLOT_CAPACITY, 10) || 20
+};
+
+const pad = (value) => String(value).padStart(2, '0');
+
+const toDateKey = (date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const startOf = (dateKey, time) => new Date(`${dateKey}T${time}:00`);
+
+const labelFor = (dateKey, window) => {
+    const day = startOf(dateKey, window.start).toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short' });
+    return `${day}, ${window.start}–${window.end}`;
+};
+
+/**
+ * Split a slot id (`YYYY-MM-DD_HH:MM`) into its date and window, or null if it
+ * does not name one of the daily windows.
+ */
+const parseSlotId = (id) => {
+    const match = /^(\d{4}-\d{2}-\d{2})_(\d{2}:\d{2})$/.exec(String(id || ''));
+    if (!match) return null;
+    const window = DELIVERY.WINDOWS.find(w => w.start === match[2]);
+    if (!window || Number.isNaN(startOf(match[1], window.start).getTime())) return null;
+    return { id: match[0], date: match[1], start: window.start, end: window.end, label: labelFor(match[1], window) };
+};
+
+const bookedCounts = async (slotIds) => {
+    const counts = await Order.aggregate([
+        { $match: { 'deliverySlot.id': { $in: slotIds }, status: { $ne: 'Cancelled' } } },
+        { $group: { _id: '$deliverySlot.id', count: { $sum: 1 } } }
+    ]);
+    return new Map(counts.map(entry => [entry._id, entry.count]));
+};
+
+/**
+ * Every window from now until DAYS_AHEAD, with how many orders each can still take.
+ */
+const listSlots = async (now = new Date()) => {
+    const earliest = new Date(now.getTime() + DELIVERY.LEAD_TIME_HOURS * 60 * 60 * 1000);
+    const slots = [];
+
+    for (let day = 0; day <= DELIVERY.DAYS_AHEAD; day++) {
+        const date = new Date(now.getFullYear(), now.getMonth(), now.getDate() + day);
+        const dateKey = toDateKey(date);
+        for (const window of DELIVERY.WINDOWS) {
+            if (startOf(dateKey, window.start) < earliest) continue;
+            slots.push(parseSlotId(`${dateKey}_${window.start}`));
+        }
+    }
+
+    const booked = await bookedCounts(slots.map(slot => slot.id));
+    return slots.map(slot => {
+        const remaining = Math.max(0, DELIVERY.SLOT_CAPACITY - (booked.get(slot.id) || 0));
+        return { ...slot, remaining, available: remaining > 0 };
+    });
+};
+
+/**
+ * Check that an order can still be booked into `slotId`.
+ * Resolves with `{ slot }` or `{ reason }`.
+ */
+const checkSlot = async (slotId, now = new Date()) => {
+    const slot = parseSlotId(slotId);
+    if (!slot) return { reason: 'Unknown delivery slot' };
+
+    const earliest = new Date(now.getTime() + DELIVERY.LEAD_TIME_HOURS * 60 * 60 * 1000);
+    if (startOf(slot.date, slot.start) < earliest) return { reason: 'This delivery slot has closed' };
+
+    const booked = await bookedCounts([slot.id]);
+    if ((booked.get(slot.id) || 0) >= DELIVERY.SLOT_CAPACITY) return { reason: 'This delivery slot is full' };
+
+    return { slot };
+};
+
+module.exports = { DELIVERY, listSlots, checkSlot };
@@ -0,0 +1,80 @@
+/**
+ * Dispatch
+ * Gathers what has to go out on a day and hands it to the planner. Orders and
+ * their weights come from here and product-service; vehicles and inventory
+ * loads are kept by the admin backend, so the caller sends them along.
+ */
+
+const Order = require('../models/order.model');
+const { ORDER_STATUS } = require('../status/transitions');
+const { loadProducts } = require('../pricing');
+const { round, unitWeightKg, areaOf, planRuns } = require('./planner');
+
+// Orders that are paid for but not yet on their way
+const READY_STATUSES = [ORDER_STATUS.CONFIRMED, ORDER_STATUS.PROCESSING];
+
+const orderStops = async (date) => {
+    const query = { status: { $in: READY_STATUSES }, vehicle: { $exists: false } };
+    if (date) query['deliverySlot.date'] = date;
+    const orders = await Order.find(query)
+        .select('orderNumber customerName shippingAddress deliverySlot items')
+        .lean();
+    if (orders.length === 0) return [];
+
+    const productIds = [...new Set(orders.flatMap(order => order.items.map(item => item.productId)))];
+    // Without the catalog every item is planned at the default weight
+    let products = new Map();
+    try {
+        products = await loadProducts(productIds);
+    } catch (error) {
+        console.error('Failed to load product weights for dispatch:', error.message);
+    }
+
+    return orders.map(order => ({
+        kind: 'order',
+        id: String(order._id),
+        label: `Order ${order.orderNumber}`,
+        contact: order.shippingAddress?.fullName || order.customerName,
+        phone: order.shippingAddress?.phone,
+        address: order.shippingAddress,
+        area: areaOf(order.shippingAddress),
+        slot: order.deliverySlot,
+        weightKg: round(order.items.reduce(
+            (sum, item) => sum + (item.quantity - (item.refundedQuantity || 0)) * unitWeightKg(products.get(item.productId)),
+            0
+        ))
+    }));
+};
+
+// Inventory loads are collected from their vendor; quantities are in kg
+const inventoryStops = (inventory) => inventory
+    .filter(item => item.quantity > 0 && String(item.status || '').toLowerCase() !== 'dispatched')
+    .map(item => ({
+        kind: 'inventory',
+        id: String(item._id),
+        label: `${item.name}${item.category ? ` (${item.category})` : ''}`,
+        contact: item.vendorName,
+        area: item.vendorName ? `Pickup: ${item.vendorName}` : 'Pickup',
+        weightKg: round(Number(item.quantity))
+    }));
+
+/**
+ * Plan the runs for a day.
+ * @param {Object} options
+ * @param {string} [options.date] - `YYYY-MM-DD`; orders booked for that day only
+ * @param {Array} options.vehicles - vehicles with `capacityKg` and `status`
+ * @param {Array} [options.inventory] - inventory loads to pick up
+ */
+const buildPlan = async ({ date, vehicles, inventory = [] }) => {
+    const stops = [...await orderStops(date), ...inventoryStops(inventory)];
+    const { runs, unassigned } = planRuns(stops, vehicles);
+    return {
+        date: date || null,
+        totalKg: round(stops.reduce((sum, stop) => sum + stop.weightKg, 0)),
+        stopCount: stops.length,
+        runs,
+        unassigned
+    };
+};
+
+module.exports = { READY_STATUSES, buildPlan };
@@ -0,0 +1,128 @@
+/**
+ * Dispatch Planner
+ * Packs the day's deliveries and pickups onto vehicles. Pure: stops and
+ * vehicles are passed in, so a plan can be previewed and printed before
+ * anything is assigned.
+ *
+ * Stops are grouped by delivery area (postal code, else city) and each area is
+ * kept on one vehicle when it fits, so a driver is not sent across town twice.
+ */
+
+const DISPATCH = {
+    // Vehicles with one of these statuses can be planned
+    AVAILABLE_STATUSES: ['available', 'active'],
+    // Assumed for products with no weight in the catalog
+    DEFAULT_ITEM_KG: parseFloat(process.env.DISPATCH_DEFAULT_ITEM_KG || '1')
+};
+
+const KG_PER_UNIT = { g: 0.001, kg: 1, lb: 0.453592, oz: 0.0283495 };
+
+const round = (value) => Math.round(value * 100) / 100;
+
+/** Weight of one unit of a catalog product, in kg. */
+const unitWeightKg = (product) => {
+    const value = product?.weight?.value;
+    if (!(value > 0)) return DISPATCH.DEFAULT_ITEM_KG;
+    return value * (KG_PER_UNIT[product.weight.unit] ?? KG_PER_UNIT.g);
+};
+
+/** Where a stop is, for grouping: postal code, else city. */
+const areaOf = (address) => {
+    if (!address) return 'Unknown area';
+    const city = (address.city || '').trim();
+    const postalCode = (address.postalCode || '').trim();
+    if (postalCode) return city ? `${city} ${postalCode}` : postalCode;
+    return city || 'Unknown area';
+};
+
+const isAvailable = (vehicle) =>
+    DISPATCH.AVAILABLE_STATUSES.includes(String(vehicle.status || '').toLowerCase()) && vehicle.capacityKg > 0;
+
+// Stops in the order the driver makes them: by delivery window, then area,
+// then street so neighbours follow each other
+const compareStops = (a, b) =>
+    (a.slot?.start || '99:99').localeCompare(b.slot?.start || '99:99')
+    || a.area.localeCompare(b.area)
+    || (a.address?.street || '').localeCompare(b.address?.street || '');
+
+const runFor = (vehicle) => ({
+    vehicle: {
+        vehicleId: String(vehicle._id),
+        plateNumber: vehicle.plateNumber,
+        make: vehicle.make,
+        model: vehicle.model,
+        type: vehicle.type,
+        capacityKg: vehicle.capacityKg
+    },
+    loadKg: 0,
+    stops: []
+});
+
+const roomIn = (run) => run.vehicle.capacityKg - run.loadKg;
+
+// The run with the least room that still takes `weightKg`, keeping big
+// vehicles free for big loads
+const bestFit = (runs, weightKg) => runs
+    .filter(run => roomIn(run) >= weightKg)
+    .sort((a, b) => roomIn(a) - roomIn(b))[0];
+
+/**
+ * Plan runs for `stops` on `vehicles`.
+ * @param {Array<{id: string, kind: string, label: string, area: string, weightKg: number}>} stops
+ * @param {Array<{_id: string, capacityKg: number, status: string}>} vehicles
+ * @returns {{runs: Array, unassigned: Array<{stop: Object, reason: string}>}}
+ */
+const planRuns = (stops, vehicles) => {
+    const runs = vehicles.filter(isAvailable).map(runFor);
+    const unassigned = [];
+    const largest = Math.max(0, ...runs.map(run => run.vehicle.capacityKg));
+
+    const areas = new Map();
+    for (const stop of stops) {
+        if (!areas.has(stop.area)) areas.set(stop.area, []);
+        areas.get(stop.area).push(stop);
+    }
+    const byWeight = [...areas.values()]
+        .map(areaStops => ({ stops: areaStops, weightKg: areaStops.reduce((sum, stop) => sum + stop.weightKg, 0) }))
+        .sort((a, b) => b.weightKg - a.weightKg);
+
+    const load = (run, stop) => {
+        run.stops.push(stop);
+        run.loadKg += stop.weightKg;
+    };
+
+    for (const area of byWeight) {
+        const whole = bestFit(runs, area.weightKg);
+        if (whole) {
+            area.stops.forEach(stop => load(whole, stop));
+            continue;
+        }
+        // Too much for one vehicle: split it, heaviest stops first
+        for (const stop of [...area.stops].sort((a, b) => b.weightKg - a.weightKg)) {
+            const run = bestFit(runs, stop.weightKg);
+            if (run) {
+                load(run, stop);
+            } else {
+                unassigned.push({
+                    stop,
+                    reason: stop.weightKg > largest ? 'Heavier than any available vehicle' : 'No vehicle has room left'
+                });
+            }
+        }
+    }
+
+    return {
+        runs: runs
+            .filter(run => run.stops.length > 0)
+            .map(run => ({
+                ...run,
+                loadKg: round(run.loadKg),
+                utilization: round(run.loadKg / run.vehicle.capacityKg),
+                areas: [...new Set(run.stops.map(stop => stop.area))],
+                stops: run.stops.sort(compareStops).map((stop, index) => ({ ...stop, sequence: index + 1 }))
+            })),
+        unassigned
+    };
+};
+
+module.exports = { DISPATCH, round, unitWeightKg, areaOf, isAvailable, planRuns };
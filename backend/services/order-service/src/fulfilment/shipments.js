@@ -0,0 +1,148 @@
+/**
+ * Shipments
+ * An order is split into one shipment per vendor. Each shipment is accepted,
+ * packed and handed over by its vendor on its own; the order's fulfilment status
+ * is derived from where its shipments are, held back by the slowest one.
+ */
+
+const {
+    ORDER_STATUS,
+    SHIPMENT_STATUS,
+    ROLES,
+    canTransition,
+    transition,
+    transitionShipment,
+    canTransitionShipment
+} = require('../status/transitions');
+
+// How order-service appears in a status history when it moves an order to
+// follow its shipments
+const FULFILMENT = { id: 'order-service', role: ROLES.SYSTEM };
+
+// Order statuses during fulfilment, in the order they are reached
+const FULFILMENT_STAGES = [
+    ORDER_STATUS.CONFIRMED,
+    ORDER_STATUS.PROCESSING,
+    ORDER_STATUS.SHIPPED,
+    ORDER_STATUS.OUT_FOR_DELIVERY,
+    ORDER_STATUS.DELIVERED
+];
+
+// The order status a shipment on its own would put the order in
+const STAGE_OF_SHIPMENT = {
+    [SHIPMENT_STATUS.PENDING]: ORDER_STATUS.CONFIRMED,
+    [SHIPMENT_STATUS.ACCEPTED]: ORDER_STATUS.PROCESSING,
+    [SHIPMENT_STATUS.PACKED]: ORDER_STATUS.PROCESSING,
+    [SHIPMENT_STATUS.SHIPPED]: ORDER_STATUS.SHIPPED,
+    [SHIPMENT_STATUS.OUT_FOR_DELIVERY]: ORDER_STATUS.OUT_FOR_DELIVERY,
+    [SHIPMENT_STATUS.DELIVERED]: ORDER_STATUS.DELIVERED
+};
+
+/** One shipment per vendor, in the order the vendors first appear in the items. */
+const splitIntoShipments = (items) => {
+    const shipments = [];
+    for (const item of items) {
+        if (!shipments.some(shipment => shipment.vendorId === item.vendorId)) {
+            shipments.push({ vendorId: item.vendorId, vendorName: item.vendorName });
+        }
+    }
+    return shipments;
+};
+
+// Orders placed before shipments existed get theirs the first time they are
+// touched
+const ensureShipments = (order) => {
+    if (order.shipments.length === 0) {
+        order.shipments = splitIntoShipments(order.items);
+    }
+};
+
+const itemsOf = (order, shipment) =>
+    order.items.filter(item => String(item.vendorId) === String(shipment.vendorId));
+
+const shipmentOf = (order, vendorId) =>
+    (order.shipments || []).find(shipment => String(shipment.vendorId) === String(vendorId));
+
+/**
+ * A vendor's view of an order: their shipment, their items and where to deliver,
+ * nothing of the other vendors'. Works on plain (lean) orders, including ones
+ * placed before shipments existed.
+ */
+const vendorView = (order, vendorId) => {
+    const shipment = shipmentOf(order, vendorId)
+        || { ...splitIntoShipments(order.items).find(s => String(s.vendorId) === String(vendorId)), status: SHIPMENT_STATUS.PENDING, statusHistory: [] };
+    const items = itemsOf(order, shipment);
+    return {
+        ...shipment,
+        orderId: order._id,
+        orderNumber: order.orderNumber,
+        orderStatus: order.status,
+        orderTime: order.orderTime,
+        customerName: order.customerName,
+        shippingAddress: order.shippingAddress,
+        deliverySlot: order.deliverySlot,
+        items,
+        subtotal: Math.round(items.reduce((sum, item) => sum + item.subtotal, 0) * 100) / 100
+    };
+};
+
+/**
+ * The order status its shipments add up to: the least advanced shipment that is
+ * still going, but Processing as soon as any vendor has started. Cancelled once
+ * every shipment is.
+ */
+const deriveOrderStatus = (order) => {
+    const active = order.shipments.filter(shipment => shipment.status !== SHIPMENT_STATUS.CANCELLED);
+    if (active.length === 0) return ORDER_STATUS.CANCELLED;
+
+    const stages = active.map(shipment => FULFILMENT_STAGES.indexOf(STAGE_OF_SHIPMENT[shipment.status]));
+    const slowest = Math.min(...stages);
+    if (slowest === 0 && stages.some(stage => stage > 0)) return ORDER_STATUS.PROCESSING;
+    return FULFILMENT_STAGES[slowest];
+};
+
+/**
+ * Move the order forward to what its shipments add up to, one stage at a time
+ * so the history shows each step. Orders not in fulfilment (unpaid, cancelled,
+ * refunded) are left alone, and an order never moves back.
+ */
+const syncOrderStatus = (order) => {
+    if (!FULFILMENT_STAGES.includes(order.status)) return;
+
+    const target = deriveOrderStatus(order);
+    if (target === ORDER_STATUS.CANCELLED) {
+        if (canTransition(order, target, FULFILMENT)) {
+            transition(order, target, FULFILMENT, 'Every shipment was cancelled');
+        }
+        return;
+    }
+
+    while (FULFILMENT_STAGES.indexOf(order.status) < FULFILMENT_STAGES.indexOf(target)) {
+        // Skip a stage where the graph allows it, e.g. Shipped straight to Delivered
+        const next = canTransition(order, target, FULFILMENT)
+            ? target
+            : FULFILMENT_STAGES[FULFILMENT_STAGES.indexOf(order.status) + 1];
+        transition(order, next, FULFILMENT, 'Updated from shipments');
+    }
+};
+
+/** Cancel every shipment that has not left its vendor yet, e.g. when the order is cancelled. */
+const cancelOpenShipments = (order, note) => {
+    for (const shipment of order.shipments) {
+        if (canTransitionShipment(order, shipment, SHIPMENT_STATUS.CANCELLED, FULFILMENT)) {
+            transitionShipment(order, shipment, SHIPMENT_STATUS.CANCELLED, FULFILMENT, note);
+        }
+    }
+};
+
+module.exports = {
+    FULFILMENT_STAGES,
+    splitIntoShipments,
+    ensureShipments,
+    itemsOf,
+    shipmentOf,
+    vendorView,
+    deriveOrderStatus,
+    syncOrderStatus,
+    cancelOpenShipments
+};
@@ -0,0 +1,165 @@
+/**
+ * Impact
+ * Sustainability figures: kilograms of produce rescued, kilograms recycled
+ * into fertilizer and the CO2e that kept out of landfill. Weights come from
+ * the catalog as dispatch takes them; what each product category counts as,
+ * and its emission factor, are set by admins in admin-service.
+ */
+
+const Order = require('../models/order.model');
+const { ORDER_STATUS, ROLES } = require('../status/transitions');
+const { loadProducts } = require('../pricing');
+const { round, unitWeightKg } = require('../dispatch/planner');
+
+const PRODUCT_SERVICE_URL = process.env.PRODUCT_SERVICE_URL || 'http://localhost:3003';
+const ADMIN_SERVICE_URL = process.env.ADMIN_SERVICE_URL || 'http://localhost:3009';
+
+// Orders that did not go ahead count for nothing
+const UNCOUNTED_STATUSES = [ORDER_STATUS.PENDING_PAYMENT, ORDER_STATUS.CANCELLED, ORDER_STATUS.REFUNDED];
+
+// Used when admin-service cannot be reached; the same as its defaults
+const FALLBACK_FACTORS = [
+    { category: '*', impact: 'rescued', co2ePerKg: 2.5 },
+    { category: 'Fertilizer', impact: 'recycled', co2ePerKg: 0.5 }
+];
+
+const NO_IMPACT = { impact: 'none', co2ePerKg: 0 };
+
+const emptyImpact = () => ({ rescuedKg: 0, recycledKg: 0, co2eKg: 0 });
+
+const addImpact = (total, impact) => {
+    total.rescuedKg += impact.rescuedKg;
+    total.recycledKg += impact.recycledKg;
+    total.co2eKg += impact.co2eKg;
+    return total;
+};
+
+const rounded = (impact) => ({
+    rescuedKg: round(impact.rescuedKg),
+    recycledKg: round(impact.recycledKg),
+    co2eKg: round(impact.co2eKg)
+});
+
+const loadFactors = async () => {
+    try {
+        const response = await fetch(`${ADMIN_SERVICE_URL}/impact/factors`);
+        if (!response.ok) throw new Error(`admin-service answered ${response.status}`);
+        const body = await response.json();
+        return body.data?.length ? body.data : FALLBACK_FACTORS;
+    } catch (error) {
+        console.error('Failed to load impact factors, using defaults:', error.message);
+        return FALLBACK_FACTORS;
+    }
+};
+
+// The factor for a category by name, or the '*' one
+const factorFor = (factors, category) => {
+    const name = String(category || '').toLowerCase();
+    return factors.find(factor => factor.category.toLowerCase() === name)
+        || factors.find(factor => factor.category === '*')
+        || NO_IMPACT;
+};
+
+/** What `kg` of a category amounts to. */
+const impactOf = (kg, factor) => ({
+    rescuedKg: factor.impact === 'rescued' ? kg : 0,
+    recycledKg: factor.impact === 'recycled' ? kg : 0,
+    co2eKg: kg * factor.co2ePerKg
+});
+
+// Units kept, after refunds, of an order's items (or one vendor's)
+const itemImpact = (item, products, factors) => {
+    const product = products.get(String(item.productId));
+    const kg = (item.quantity - (item.refundedQuantity || 0)) * unitWeightKg(product);
+    return impactOf(kg, factorFor(factors, product?.categoryName));
+};
+
+const orderImpact = (order, products, factors, vendorId) => order.items
+    .filter(item => !vendorId || item.vendorId === vendorId)
+    .reduce((total, item) => addImpact(total, itemImpact(item, products, factors)), emptyImpact());
+
+/**
+ * Impact of each of `orders` and their total. Orders that did not go ahead
+ * count for nothing; `vendorId` counts only that vendor's items.
+ * @returns {Promise<{total: Object, orders: Array<Object>}>}
+ */
+const impactOfOrders = async (orders, { vendorId, factors } = {}) => {
+    const productIds = [...new Set(orders.flatMap(order => order.items.map(item => String(item.productId))))];
+    const products = productIds.length > 0 ? await loadProducts(productIds) : new Map();
+    factors = factors || await loadFactors();
+
+    const total = emptyImpact();
+    const perOrder = orders.map(order => {
+        const impact = UNCOUNTED_STATUSES.includes(order.status)
+            ? emptyImpact()
+            : orderImpact(order, products, factors, vendorId);
+        addImpact(total, impact);
+        return { orderId: String(order._id), orderNumber: order.orderNumber, ...rounded(impact) };
+    });
+
+    return { total: rounded(total), orders: perOrder };
+};
+
+/** Impact of one order, counted whatever its status. */
+const impactOfOrder = async (order) => {
+    const productIds = [...new Set(order.items.map(item => String(item.productId)))];
+    const [products, factors] = await Promise.all([loadProducts(productIds), loadFactors()]);
+    return rounded(orderImpact(order, products, factors));
+};
+
+/** A customer's impact over all their orders. */
+const customerImpact = async (customerId) => {
+    const orders = await Order.find({ customerId }).select('orderNumber status items').sort('-createdAt').lean();
+    const { total, orders: perOrder } = await impactOfOrders(orders);
+    return {
+        ...total,
+        // Orders that counted towards it
+        orderCount: perOrder.filter(order => order.rescuedKg + order.recycledKg > 0).length,
+        orders: perOrder
+    };
+};
+
+// Kilograms of a vendor's surplus collected for recycling, from product-service.
+// Logged, not thrown: the figures from orders still stand.
+const loadDiverted = async (vendorId) => {
+    try {
+        const params = new URLSearchParams({ vendorId, from: '1970-01-01' });
+        const response = await fetch(`${PRODUCT_SERVICE_URL}/products/surplus/diverted?${params}`, {
+            headers: { 'x-user-id': 'order-service', 'x-user-role': ROLES.SYSTEM }
+        });
+        if (!response.ok) throw new Error(`product-service answered ${response.status}`);
+        const body = await response.json();
+        return body.data?.byMonth || [];
+    } catch (error) {
+        console.error(`Failed to load diverted surplus for vendor ${vendorId}:`, error.message);
+        return [];
+    }
+};
+
+/**
+ * A vendor's impact: what their sold items rescued, plus their surplus
+ * collected for recycling, with the CO2e of each destination's category.
+ */
+const vendorImpact = async (vendorId) => {
+    const [orders, diverted, factors] = await Promise.all([
+        Order.find({ 'items.vendorId': vendorId }).select('orderNumber status items').lean(),
+        loadDiverted(vendorId),
+        loadFactors()
+    ]);
+    const { total } = await impactOfOrders(orders, { vendorId, factors });
+
+    const surplus = diverted.reduce((sum, month) => addImpact(sum, {
+        rescuedKg: 0,
+        recycledKg: month.kg,
+        co2eKg: month.recycleKg * factorFor(factors, 'Recycle').co2ePerKg
+            + month.fertilizerKg * factorFor(factors, 'Fertilizer').co2ePerKg
+    }), emptyImpact());
+
+    return {
+        ...rounded(addImpact({ ...total }, surplus)),
+        sold: rounded(total),
+        surplus: rounded(surplus)
+    };
+};
+
+module.exports = { impactOfOrder, customerImpact, vendorImpact };
@@ -9,6 +9,9 @@ const helmet = require('helmet');
 const morgan = require('morgan');
 
 const orderRoutes = require('./routes/order.routes');
+const couponRoutes = require('./routes/coupon.routes');
+const returnRoutes = require('./routes/return.routes');
+const dispatchRoutes = require('./routes/dispatch.routes');
 
 const app = express();
 const PORT = process.env.PORT || 3004;
@@ -19,7 +22,8 @@ app.use(cors({
     origin: process.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3000', 'http://localhost:8000'],
     credentials: true
 }));
-app.use(express.json());
+// Return requests carry photos
+app.use(express.json({ limit: '5mb' }));
 app.use(morgan('combined'));
 
 // Health Check
@@ -32,6 +36,14 @@ app.get('/health', (req, res) => {
 });
 
 // Routes
+app.use('/coupons', couponRoutes);
+app.use('/api/coupons', couponRoutes);
+app.use('/returns', returnRoutes);
+app.use('/orders/returns', returnRoutes);
+app.use('/api/orders/returns', returnRoutes);
+app.use('/dispatch', dispatchRoutes);
+app.use('/orders/dispatch', dispatchRoutes);
+app.use('/api/orders/dispatch', dispatchRoutes);
 app.use('/', orderRoutes);
 app.use('/orders', orderRoutes);
 app.use('/api/orders', orderRoutes);
@@ -0,0 +1,33 @@
+/**
+ * Internal Calls
+ * Other services prove who they are with the shared INTERNAL_SERVICE_TOKEN in
+ * the x-internal-token header. The gateway drops that header from outside
+ * requests, so routes guarded here can only be reached from inside.
+ *
+ * payment-service has the same module; services are built from their own
+ * directory, so it is repeated rather than shared.
+ */
+
+const crypto = require('crypto');
+
+const INTERNAL_HEADER = 'x-internal-token';
+const INTERNAL_TOKEN = process.env.INTERNAL_SERVICE_TOKEN || 'your-internal-service-token';
+
+const isInternal = (req) => {
+    const given = Buffer.from(String(req.headers[INTERNAL_HEADER] || ''));
+    const expected = Buffer.from(INTERNAL_TOKEN);
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+// Routes only other services may call
+const internalOnly = (req, res, next) => {
+    if (!isInternal(req)) {
+        return res.status(403).json({ success: false, error: 'Only EcoHarvest services may call this' });
+    }
+    next();
+};
+
+// Headers for calls to other services
+const internalHeaders = () => ({ [INTERNAL_HEADER]: INTERNAL_TOKEN });
+
+module.exports = { INTERNAL_HEADER, isInternal, internalOnly, internalHeaders };
@@ -0,0 +1,97 @@
+/**
+ * Stock
+ * Product quantities belong to product-service; order-service asks it to hold
+ * units while an order is paid, sell them once it is, and move them back when
+ * the order does not go ahead or items come back.
+ */
+
+const { ROLES } = require('../status/transitions');
+const { internalHeaders } = require('../internal');
+
+const PRODUCT_SERVICE_URL = process.env.PRODUCT_SERVICE_URL || 'http://localhost:3003';
+const STOCK_URL = `${PRODUCT_SERVICE_URL}/products/stock`;
+
+// How long an unpaid order holds its units
+const RESERVATION_MINUTES = parseInt(process.env.STOCK_RESERVATION_MINUTES || '15', 10);
+
+const stockRequest = (path, body) => fetch(`${STOCK_URL}${path}`, {
+    method: 'POST',
+    headers: {
+        'Content-Type': 'application/json',
+        'x-user-id': 'order-service',
+        'x-user-role': ROLES.SYSTEM,
+        ...internalHeaders()
+    },
+    body: JSON.stringify(body || {})
+});
+
+/**
+ * Hold an order's units until it is paid. Asking again for an order whose
+ * units are still held changes nothing; one whose hold was released or ran
+ * out is held again.
+ * @returns {Promise<{shortages?: Array<{productId: string, name: string, requested: number, available: number}>}>}
+ *   shortages when some products do not have enough stock
+ * @throws when product-service cannot be reached; the order must not be placed
+ */
+const reserveStock = async (order) => {
+    const response = await stockRequest('/reservations', {
+        reference: String(order._id),
+        items: order.items.map(item => ({ productId: String(item.productId), quantity: item.quantity })),
+        minutes: RESERVATION_MINUTES
+    });
+    const body = await response.json().catch(() => ({}));
+    if (response.status === 409) return { shortages: body.data?.shortages || [] };
+    if (!response.ok) throw new Error(body.error || `product-service answered ${response.status}`);
+    return {};
+};
+
+// Failures below are logged, not thrown: the payment, cancellation or refund
+// that caused them has already happened. They are returned for the order to
+// record: what went wrong, or null.
+const reservationStep = (step) => async (order, reason) => {
+    try {
+        const response = await stockRequest(`/reservations/${order._id}/${step}`, { reason });
+        const body = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(body.error || `product-service answered ${response.status}`);
+        // A sale made from what was left after the hold lapsed may fall short
+        return body.data?.closedReason || null;
+    } catch (error) {
+        console.error(`Failed to ${step} stock for order ${order.orderNumber || order._id}:`, error.message);
+        return `Failed to ${step} stock: ${error.message}`;
+    }
+};
+
+/** Sell the units an order holds, once it is paid or placed cash on delivery. */
+const commitStock = reservationStep('commit');
+
+/** Give back the units an order holds, e.g. when its payment fails. */
+const releaseStock = reservationStep('release');
+
+/** Undo a cancelled order's stock: release what it holds, put back what it sold. */
+const cancelStock = reservationStep('cancel');
+
+/**
+ * Put items back into stock. Failures are logged per product, not thrown: the
+ * refund or cancellation that caused them has already happened.
+ * @param {Array<{productId: string, quantity: number}>} items
+ * @param {string} [reference] - the order they came back from
+ * @param {string} [reason]
+ */
+const restock = async (items, reference, reason = 'Refunded') => {
+    for (const { productId, quantity } of items) {
+        try {
+            const response = await stockRequest('/movements', {
+                productId: String(productId),
+                type: 'return',
+                quantity,
+                reference,
+                reason
+            });
+            if (!response.ok) throw new Error(`product-service answered ${response.status}`);
+        } catch (error) {
+            console.error(`Failed to restock ${quantity} of product ${productId}:`, error.message);
+        }
+    }
+};
+
+module.exports = { reserveStock, commitStock, releaseStock, cancelStock, restock };
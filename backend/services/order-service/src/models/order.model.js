@@ -3,6 +3,7 @@
  */
 
 const mongoose = require('mongoose');
+const statusChangeSchema = require('./status-change.schema');
 
 const orderItemSchema = new mongoose.Schema({
     productId: { type: String, required: true },
@@ -13,9 +14,58 @@ const orderItemSchema = new mongoose.Schema({
     quantity: { type: Number, required: true, min: 1 },
     price: { type: Number, required: true },
     discount: { type: Number, default: 0 },
-    subtotal: { type: Number, required: true }
+    subtotal: { type: Number, required: true },
+    // Units refunded so far (see refunds below)
+    refundedQuantity: { type: Number, default: 0 }
+});
+
+// A refund recorded by payment-service; its ledger holds the full entry
+const refundSchema = new mongoose.Schema({
+    refundId: { type: String, required: true },
+    paymentId: String,
+    amount: { type: Number, required: true },
+    reason: String,
+    lines: [{ itemId: String, quantity: Number, _id: false }],
+    restocked: { type: Boolean, default: false },
+    createdAt: { type: Date, default: Date.now }
+}, { _id: false });
+
+// One vendor's part of the order, fulfilled independently of the others
+// (see src/fulfilment/shipments.js)
+const shipmentSchema = new mongoose.Schema({
+    vendorId: { type: String, required: true },
+    vendorName: String,
+    status: {
+        type: String,
+        enum: ['Pending', 'Accepted', 'Packed', 'Shipped', 'Out for Delivery', 'Delivered', 'Cancelled'],
+        default: 'Pending'
+    },
+    statusHistory: [statusChangeSchema],
+    trackingNumber: String,
+    carrier: String,
+    acceptedAt: Date,
+    packedAt: Date,
+    shippedAt: Date,
+    outForDeliveryAt: Date,
+    deliveredAt: Date,
+    cancelledAt: Date,
+    // When a cancelled shipment of an unpaid (cash) order went back on sale;
+    // paid ones go back with their refund
+    restockedAt: Date
 });
 
+// The vehicle delivering the order, as it stood when it was assigned
+const vehicleSchema = new mongoose.Schema({
+    vehicleId: { type: String, required: true },
+    plateNumber: String,
+    make: String,
+    model: String,
+    type: String,
+    driverName: String,
+    driverPhone: String,
+    assignedAt: { type: Date, default: Date.now }
+}, { _id: false });
+
 const addressSchema = new mongoose.Schema({
     fullName: { type: String, required: true },
     phone: { type: String, required: true },
@@ -26,6 +76,15 @@ const addressSchema = new mongoose.Schema({
     country: { type: String, default: 'India' }
 });
 
+// The delivery window booked at checkout (see src/delivery/slots.js)
+const deliverySlotSchema = new mongoose.Schema({
+    id: { type: String, required: true },
+    date: { type: String, required: true },
+    start: { type: String, required: true },
+    end: { type: String, required: true },
+    label: String
+}, { _id: false });
+
 const orderSchema = new mongoose.Schema({
     orderNumber: { type: String, unique: true },
     customerId: { type: String, required: true, index: true },
@@ -33,15 +92,21 @@ const orderSchema = new mongoose.Schema({
     customerName: String,
 
     items: [orderItemSchema],
+    shipments: [shipmentSchema],
 
     shippingAddress: addressSchema,
     billingAddress: addressSchema,
+    deliverySlot: deliverySlotSchema,
 
     subtotal: { type: Number, required: true },
     shippingCost: { type: Number, default: 0 },
     tax: { type: Number, default: 0 },
     discount: { type: Number, default: 0 },
     totalAmount: { type: Number, required: true },
+    couponCode: String,
+
+    // The itemized quote the totals above were taken from (see src/pricing)
+    pricing: { type: mongoose.Schema.Types.Mixed },
 
     status: {
         type: String,
@@ -49,6 +114,7 @@ const orderSchema = new mongoose.Schema({
         default: 'Pending',
         index: true
     },
+    statusHistory: [statusChangeSchema],
 
     paymentMethod: {
         type: String,
@@ -57,10 +123,20 @@ const orderSchema = new mongoose.Schema({
     },
     paymentStatus: {
         type: String,
-        enum: ['pending', 'paid', 'failed', 'refunded'],
+        enum: ['pending', 'paid', 'failed', 'partially_refunded', 'refunded'],
         default: 'pending'
     },
     paymentId: String,
+    paymentFailureReason: String,
+    // Set when the units sold for the order could not all be taken from stock
+    stockShortfall: String,
+    refunds: [refundSchema],
+    refundedAmount: { type: Number, default: 0 },
+
+    // Set by checkout so a retried request returns this order instead of placing
+    // another; the fingerprint ties the key to the cart it was first sent with
+    idempotencyKey: { type: String, unique: true, sparse: true },
+    idempotencyFingerprint: String,
 
     orderTime: { type: Date, default: Date.now },
     confirmedAt: Date,
@@ -71,10 +147,17 @@ const orderSchema = new mongoose.Schema({
     trackingNumber: String,
     carrier: String,
     estimatedDelivery: Date,
+    vehicle: vehicleSchema,
 
     notes: String,
     cancellationReason: String,
 
+    // Set on orders sent out to replace items from an approved return
+    replacementFor: {
+        orderId: String,
+        returnId: String
+    },
+
     metadata: { type: Map, of: String }
 }, {
     timestamps: true
@@ -83,8 +166,10 @@ const orderSchema = new mongoose.Schema({
 // Indexes
 orderSchema.index({ customerId: 1, createdAt: -1 });
 orderSchema.index({ 'items.vendorId': 1 });
+orderSchema.index({ 'shipments.vendorId': 1, 'shipments.status': 1 });
 orderSchema.index({ status: 1, createdAt: -1 });
 orderSchema.index({ orderNumber: 1 });
+orderSchema.index({ 'deliverySlot.id': 1 });
 
 // Generate order number before saving
 orderSchema.pre('save', function (next) {
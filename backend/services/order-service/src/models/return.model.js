@@ -0,0 +1,70 @@
+/**
+ * Return Model
+ * A customer's request to return a delivered item, for a refund or a
+ * replacement. One request covers one order line.
+ */
+
+const mongoose = require('mongoose');
+const statusChangeSchema = require('./status-change.schema');
+
+const photoSchema = new mongoose.Schema({
+    contentType: { type: String, required: true },
+    data: { type: Buffer, required: true }
+}, { _id: false });
+
+const returnSchema = new mongoose.Schema({
+    rmaNumber: { type: String, unique: true },
+    orderId: { type: String, required: true, index: true },
+    orderNumber: String,
+    customerId: { type: String, required: true, index: true },
+    vendorId: { type: String, required: true, index: true },
+    vendorName: String,
+
+    // The order line (`Order.items[]._id`) and how many of its units
+    itemId: { type: String, required: true },
+    productId: String,
+    productName: String,
+    productImage: String,
+    quantity: { type: Number, required: true, min: 1 },
+
+    reason: {
+        type: String,
+        enum: ['spoiled', 'damaged', 'wrong_item', 'missing', 'not_as_described', 'other'],
+        required: true
+    },
+    details: String,
+    // Served one by one from GET /returns/:id/photos/:index
+    photos: [photoSchema],
+    resolution: { type: String, enum: ['refund', 'replacement'], default: 'refund' },
+
+    status: {
+        type: String,
+        enum: ['Requested', 'Approved', 'Rejected', 'Escalated', 'Refunded', 'Replaced'],
+        default: 'Requested',
+        index: true
+    },
+    statusHistory: [statusChangeSchema],
+    escalatedAt: Date,
+    resolvedAt: Date,
+
+    // What resolving it produced, or why that failed and can be retried
+    refundId: String,
+    refundAmount: Number,
+    replacementOrderId: String,
+    resolutionError: String
+}, {
+    timestamps: true
+});
+
+returnSchema.index({ orderId: 1, itemId: 1 });
+
+returnSchema.pre('save', function (next) {
+    if (!this.rmaNumber) {
+        this.rmaNumber = `RMA-${Date.now()}-${Math.random().toString(36).substr(2, 4).toUpperCase()}`;
+    }
+    next();
+});
+
+const Return = mongoose.model('Return', returnSchema);
+
+module.exports = Return;
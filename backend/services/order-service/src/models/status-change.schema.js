@@ -0,0 +1,18 @@
+/**
+ * Status Change Schema
+ * One move in a status history, and who made it (see src/status/transitions.js).
+ * Shared by orders, their shipments and return requests.
+ */
+
+const mongoose = require('mongoose');
+
+const statusChangeSchema = new mongoose.Schema({
+    from: String,
+    to: { type: String, required: true },
+    actorId: String,
+    actorRole: String,
+    note: String,
+    at: { type: Date, default: Date.now }
+}, { _id: false });
+
+module.exports = statusChangeSchema;
@@ -0,0 +1,336 @@
+/**
+ * Pricing Engine
+ * Turns cart lines into an itemized quote. Pure: everything it needs is passed in,
+ * so the quote endpoint, order creation and receipts all get the same numbers.
+ */
+
+const PRICING = {
+    TAX_RATE: 0.05,
+    DELIVERY_FEE: 250,
+    FREE_DELIVERY_THRESHOLD: 5000
+};
+
+const round = (value) => Math.round(value * 100) / 100;
+
+/**
+ * Work out what a coupon takes off `lines`.
+ * Returns the amount together with the reason when the coupon does not apply.
+ */
+const evaluateCoupon = (code, coupon, lines, now) => {
+    const result = { code, applied: false, discount: 0, reason: null };
+
+    if (!coupon) return { ...result, reason: 'Coupon not found' };
+    if (!coupon.isActive) return { ...result, reason: 'Coupon is no longer active' };
+    if (coupon.validFrom && new Date(coupon.validFrom) > now) return { ...result, reason: 'Coupon is not valid yet' };
+    if (coupon.validUntil && new Date(coupon.validUntil) < now) return { ...result, reason: 'Coupon has expired' };
+    if (coupon.usageLimit && coupon.usedCount >= coupon.usageLimit) {
+        return { ...result, reason: 'Coupon usage limit reached' };
+    }
+
+    const eligible = coupon.applicableProducts?.length
+        ? lines.filter(line => coupon.applicableProducts.includes(line.productId))
+        : lines;
+    const base = eligible.reduce((sum, line) => sum + line.lineTotal, 0);
+
+    if (base === 0) return { ...result, reason: 'Coupon does not apply to these products' };
+    if (coupon.minOrderValue && base < coupon.minOrderValue) {
+        return { ...result, reason: `Minimum order of Rs. ${coupon.minOrderValue} required` };
+    }
+
+    let discount = coupon.type === 'fixed' ? coupon.value : base * (coupon.value / 100);
+    if (coupon.maxDiscount) discount = Math.min(discount, coupon.maxDiscount);
+    discount = round(Math.min(discount, base));
+
+    return { ...result, applied: true, discount };
+};
+
+const money = (amount) => `Rs. ${round(amount).toFixed(2)}`;
+
+const amountOff = (discountType, value) => discountType === 'fixed' ? `${money(value)} off` : `${value}% off`;
+
+/**
+ * One-line description of what a promotion gives, shown next to it in the quote.
+ */
+const describePromotion = (promotion) => {
+    switch (promotion.type) {
+        case 'buy_x_get_y':
+            return `Buy ${promotion.buyQuantity}, get ${promotion.getQuantity} free`;
+        case 'tiered_spend':
+            return [...(promotion.tiers || [])]
+                .sort((a, b) => a.threshold - b.threshold)
+                .map(tier => `${amountOff(promotion.discountType, tier.value)} over ${money(tier.threshold)}`)
+                .join(', ');
+        case 'first_order':
+            return `${amountOff(promotion.discountType, promotion.value)} your first order`;
+        case 'category':
+            return `${amountOff(promotion.discountType, promotion.value)} selected categories`;
+        case 'coupon':
+            return promotion.value ? amountOff(promotion.discountType, promotion.value) : 'Coupon code';
+        default:
+            return amountOff(promotion.discountType, promotion.value);
+    }
+};
+
+// Lines a promotion is limited to by its product and category lists
+const scopedLines = (promotion, lines) => lines.filter(line => {
+    if (promotion.products?.length && !promotion.products.includes(line.productId)) return false;
+    if (promotion.categories?.length
+        && !promotion.categories.includes(line.category)
+        && !promotion.categories.includes(line.categoryName)) return false;
+    return true;
+});
+
+/**
+ * Work out what one promotion would take off `lines` on its own, before any
+ * stacking rules. `context` carries what the customer-specific rules need.
+ */
+const evaluatePromotion = (promotion, lines, { customerId, isFirstOrder, now }) => {
+    const result = { discount: 0, reason: null };
+
+    if (!promotion.isActive) return { ...result, reason: 'Promotion is no longer active' };
+    if (promotion.validFrom && new Date(promotion.validFrom) > now) return { ...result, reason: 'Promotion has not started yet' };
+    if (promotion.validUntil && new Date(promotion.validUntil) < now) return { ...result, reason: 'Promotion has ended' };
+    if (promotion.usageLimit && promotion.usedCount >= promotion.usageLimit) {
+        return { ...result, reason: 'Promotion usage limit reached' };
+    }
+    if ((promotion.perCustomerLimit || promotion.type === 'first_order') && !customerId) {
+        return { ...result, reason: 'Log in to use this promotion' };
+    }
+    if (promotion.perCustomerLimit && (promotion.customerUses || 0) >= promotion.perCustomerLimit) {
+        return { ...result, reason: `Already used ${promotion.customerUses} of ${promotion.perCustomerLimit} times allowed` };
+    }
+    if (promotion.type === 'first_order' && !isFirstOrder) {
+        return { ...result, reason: 'Only for your first order' };
+    }
+
+    const eligible = scopedLines(promotion, lines);
+    const base = eligible.reduce((sum, line) => sum + line.lineTotal, 0);
+
+    if (base === 0) return { ...result, reason: 'No products in the cart qualify' };
+    if (promotion.minOrderValue && base < promotion.minOrderValue) {
+        return { ...result, reason: `Spend ${money(promotion.minOrderValue - base)} more on qualifying products` };
+    }
+
+    let discount;
+    if (promotion.type === 'buy_x_get_y') {
+        const buy = promotion.buyQuantity || 0;
+        const get = promotion.getQuantity || 0;
+        if (buy < 1 || get < 1) return { ...result, reason: 'Promotion is misconfigured' };
+
+        // Each line qualifies on its own: buying 2 apples and 1 pear is not "buy 3"
+        discount = eligible.reduce((sum, line) => {
+            const freeUnits = Math.floor(line.quantity / (buy + get)) * get;
+            return sum + freeUnits * line.discountedUnitPrice;
+        }, 0);
+        if (discount === 0) {
+            return { ...result, reason: `Add ${buy + get} of the same product to get ${get} free` };
+        }
+    } else if (promotion.type === 'tiered_spend') {
+        const tiers = [...(promotion.tiers || [])].sort((a, b) => b.threshold - a.threshold);
+        const tier = tiers.find(t => base >= t.threshold);
+        if (!tier) {
+            const lowest = tiers[tiers.length - 1];
+            return { ...result, reason: lowest ? `Spend ${money(lowest.threshold - base)} more to unlock` : 'Promotion has no tiers' };
+        }
+        discount = promotion.discountType === 'fixed' ? tier.value : base * (tier.value / 100);
+    } else {
+        discount = promotion.discountType === 'fixed' ? promotion.value : base * (promotion.value / 100);
+    }
+
+    if (promotion.maxDiscount) discount = Math.min(discount, promotion.maxDiscount);
+    return { ...result, discount: round(Math.min(discount, base)) };
+};
+
+const discountOf = (entries) => round(entries.reduce((sum, entry) => sum + entry.discount, 0));
+
+// A candidate as the quote lists it, not applied yet
+const entryOf = ({ promotion, evaluation }) => ({
+    id: promotion.id,
+    name: promotion.name,
+    code: promotion.code || null,
+    type: promotion.type,
+    summary: describePromotion(promotion),
+    stackable: promotion.stackable !== false,
+    exclusive: !!promotion.exclusive,
+    applied: false,
+    discount: 0,
+    reason: evaluation.reason
+});
+
+// Take qualifying candidates in rank order: a non-stackable one only if no other
+// non-stackable one was taken, and never past the subtotal
+const combine = (ranked, subtotal) => {
+    let nonStackableTaken = null;
+    let remaining = subtotal;
+
+    return ranked.map(candidate => {
+        const entry = entryOf(candidate);
+        if (entry.reason) return entry;
+        if (!entry.stackable && nonStackableTaken) {
+            return { ...entry, reason: `Does not stack with ${nonStackableTaken}` };
+        }
+        if (remaining <= 0) {
+            return { ...entry, reason: 'Order is already fully discounted' };
+        }
+
+        const discount = round(Math.min(candidate.evaluation.discount, remaining));
+        remaining = round(remaining - discount);
+        if (!entry.stackable) nonStackableTaken = entry.name;
+        return { ...entry, applied: true, discount, reason: null };
+    });
+};
+
+/**
+ * Decide which promotions apply together.
+ *
+ * Candidates that qualify are taken in priority order (then by size of discount):
+ * a non-stackable one applies only if no other non-stackable one was taken, and
+ * stackable ones always apply. An exclusive promotion applies on its own, so the
+ * best exclusive one is weighed against everything else together and the
+ * customer gets whichever saves more; on a tie the combination stands. The
+ * total never exceeds the subtotal. Every candidate comes back, in priority
+ * order, with `applied` and, if not, the reason.
+ */
+const resolvePromotions = (candidates, subtotal) => {
+    const ranked = [...candidates].sort((a, b) =>
+        (b.priority || 0) - (a.priority || 0) || b.evaluation.discount - a.evaluation.discount);
+
+    const shared = combine(ranked.filter(candidate => !candidate.promotion.exclusive), subtotal);
+    const alone = ranked
+        .filter(candidate => candidate.promotion.exclusive)
+        .map(candidate => combine([candidate], subtotal)[0]);
+    const best = alone
+        .filter(entry => entry.applied)
+        .reduce((top, entry) => (!top || entry.discount > top.discount ? entry : top), null);
+    const winner = best && best.discount > discountOf(shared.filter(entry => entry.applied)) ? best : null;
+
+    const byId = new Map([...shared, ...alone].map(entry => [entry.id, entry]));
+    return ranked.map(({ promotion }) => {
+        const entry = byId.get(promotion.id);
+        if (winner) {
+            if (entry === winner || entry.reason) return entry;
+            return { ...entry, applied: false, discount: 0, reason: `Cannot be combined with ${winner.name}` };
+        }
+        if (entry.exclusive && entry.applied) {
+            return { ...entry, applied: false, discount: 0, reason: 'Cannot be combined with other promotions' };
+        }
+        return entry;
+    });
+};
+
+/**
+ * Build an itemized quote.
+ *
+ * @param {Array<{productId: string, quantity: number}>} items - requested cart lines
+ * @param {Object} inputs
+ * @param {Map<string, Object>} inputs.products - catalog entries by product id
+ * @param {Map<string, number>} inputs.discounts - active discount percentage by product id
+ * @param {string} [inputs.couponCode] - code entered by the customer
+ * @param {Object|null} [inputs.coupon] - the legacy coupon matching `couponCode`, if any
+ * @param {Array<Object>} [inputs.promotions] - automatic promotions plus any matching `couponCode`
+ * @param {string} [inputs.customerId] - who the quote is for; guests have none
+ * @param {boolean} [inputs.isFirstOrder] - the customer has no earlier orders
+ */
+const buildQuote = (items, {
+    products,
+    discounts,
+    couponCode,
+    coupon = null,
+    promotions = [],
+    customerId = null,
+    isFirstOrder = false,
+    now = new Date()
+}) => {
+    const lines = [];
+    const unavailable = [];
+
+    for (const item of items) {
+        const product = products.get(item.productId);
+        const quantity = Math.max(1, parseInt(item.quantity, 10) || 1);
+
+        if (!product || ['Out of Stock', 'Discontinued'].includes(product.status)) {
+            unavailable.push(item.productId);
+            continue;
+        }
+
+        const unitPrice = round(product.price);
+        const discountPercentage = discounts.get(item.productId) || 0;
+        const discountedUnitPrice = round(unitPrice * (1 - discountPercentage / 100));
+
+        lines.push({
+            productId: item.productId,
+            name: product.name,
+            imageUrl: product.imageUrl,
+            vendorId: product.vendorId,
+            vendorName: product.vendorName,
+            category: product.category ? String(product.category._id || product.category) : null,
+            categoryName: product.categoryName || product.category?.name || null,
+            quantity,
+            unitPrice,
+            discountPercentage,
+            discountedUnitPrice,
+            lineDiscount: round((unitPrice - discountedUnitPrice) * quantity),
+            lineTotal: round(discountedUnitPrice * quantity)
+        });
+    }
+
+    const subtotal = round(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+    const productDiscount = round(lines.reduce((sum, line) => sum + line.lineDiscount, 0));
+
+    const context = { customerId, isFirstOrder, now };
+    const candidates = promotions.map(promotion => ({
+        promotion: { ...promotion, id: String(promotion._id) },
+        priority: promotion.priority,
+        evaluation: evaluatePromotion(promotion, lines, context)
+    }));
+
+    // A code matching no promotion may still be a plain coupon. It competes as a
+    // non-stackable promotion, so it never combines with another coupon-like deal.
+    const codePromotion = couponCode ? promotions.find(p => p.code === couponCode) : null;
+    if (couponCode && !codePromotion) {
+        const evaluation = evaluateCoupon(couponCode, coupon, lines, now);
+        candidates.push({
+            promotion: {
+                id: `coupon:${couponCode}`,
+                name: `Coupon ${couponCode}`,
+                code: couponCode,
+                type: 'coupon',
+                discountType: coupon?.type,
+                value: coupon?.value,
+                stackable: false
+            },
+            priority: 0,
+            evaluation: { discount: evaluation.discount, reason: evaluation.reason }
+        });
+    }
+
+    const promotionResults = resolvePromotions(candidates, subtotal);
+    const promotionDiscount = round(promotionResults.reduce((sum, p) => sum + p.discount, 0));
+
+    const entered = couponCode ? promotionResults.find(p => p.code === couponCode) : null;
+    const couponResult = entered
+        ? { code: couponCode, applied: entered.applied, discount: entered.discount, reason: entered.reason }
+        : null;
+
+    const taxable = Math.max(0, subtotal - promotionDiscount);
+    const tax = round(taxable * PRICING.TAX_RATE);
+    const deliveryFee = lines.length === 0 || subtotal >= PRICING.FREE_DELIVERY_THRESHOLD ? 0 : PRICING.DELIVERY_FEE;
+
+    return {
+        lines,
+        unavailable,
+        subtotal,
+        productDiscount,
+        coupon: couponResult,
+        promotions: promotionResults,
+        promotionDiscount,
+        taxRate: PRICING.TAX_RATE,
+        tax,
+        deliveryFee,
+        freeDeliveryThreshold: PRICING.FREE_DELIVERY_THRESHOLD,
+        total: round(taxable + tax + deliveryFee),
+        computedAt: now.toISOString()
+    };
+};
+
+module.exports = { PRICING, buildQuote, evaluateCoupon, evaluatePromotion, resolvePromotions };
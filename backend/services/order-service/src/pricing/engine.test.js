@@ -0,0 +1,186 @@
+const { PRICING, buildQuote, evaluateCoupon, evaluatePromotion, resolvePromotions } = require('./engine');
+
+const NOW = new Date('2026-06-01T12:00:00Z');
+
+const line = (productId, quantity, unitPrice, extra = {}) => ({
+    productId,
+    quantity,
+    unitPrice,
+    discountedUnitPrice: unitPrice,
+    lineTotal: unitPrice * quantity,
+    ...extra
+});
+
+const promotion = (id, fields) => ({
+    _id: id,
+    name: id,
+    isActive: true,
+    type: 'percentage',
+    discountType: 'percentage',
+    ...fields
+});
+
+// A candidate as buildQuote hands it to resolvePromotions
+const candidate = (id, discount, fields = {}) => ({
+    promotion: { id, name: id, type: 'percentage', discountType: 'fixed', value: discount, ...fields },
+    priority: fields.priority,
+    evaluation: { discount, reason: null }
+});
+
+const byId = (results) => Object.fromEntries(results.map(result => [result.id, result]));
+
+describe('evaluateCoupon', () => {
+    const coupon = { isActive: true, type: 'percentage', value: 10 };
+
+    it('takes the percentage off the eligible lines', () => {
+        const result = evaluateCoupon('SAVE10', coupon, [line('a', 2, 100)], NOW);
+        expect(result).toEqual({ code: 'SAVE10', applied: true, discount: 20, reason: null });
+    });
+
+    it('caps the discount at maxDiscount and at the eligible total', () => {
+        expect(evaluateCoupon('X', { ...coupon, maxDiscount: 5 }, [line('a', 2, 100)], NOW).discount).toBe(5);
+        expect(evaluateCoupon('X', { isActive: true, type: 'fixed', value: 500 }, [line('a', 1, 80)], NOW).discount).toBe(80);
+    });
+
+    it('says why an expired or too small order does not qualify', () => {
+        expect(evaluateCoupon('X', { ...coupon, validUntil: '2026-05-01' }, [line('a', 1, 100)], NOW).reason)
+            .toBe('Coupon has expired');
+        expect(evaluateCoupon('X', { ...coupon, minOrderValue: 500 }, [line('a', 1, 100)], NOW).reason)
+            .toBe('Minimum order of Rs. 500 required');
+    });
+});
+
+describe('evaluatePromotion', () => {
+    const context = { customerId: 'c1', isFirstOrder: false, now: NOW };
+
+    it('gives buy-x-get-y units per line, not across lines', () => {
+        const bogof = promotion('bogof', { type: 'buy_x_get_y', buyQuantity: 1, getQuantity: 1 });
+        expect(evaluatePromotion(bogof, [line('a', 3, 50), line('b', 1, 40)], context).discount).toBe(50);
+        expect(evaluatePromotion(bogof, [line('a', 1, 50), line('b', 1, 40)], context).reason)
+            .toBe('Add 2 of the same product to get 1 free');
+    });
+
+    it('picks the highest tier the spend reaches', () => {
+        const tiered = promotion('tiers', {
+            type: 'tiered_spend',
+            discountType: 'fixed',
+            tiers: [{ threshold: 500, value: 50 }, { threshold: 1000, value: 150 }]
+        });
+        expect(evaluatePromotion(tiered, [line('a', 6, 100)], context).discount).toBe(50);
+        expect(evaluatePromotion(tiered, [line('a', 12, 100)], context).discount).toBe(150);
+        expect(evaluatePromotion(tiered, [line('a', 4, 100)], context).reason).toBe('Spend Rs. 100.00 more to unlock');
+    });
+
+    it('keeps first-order promotions to signed-in first orders', () => {
+        const welcome = promotion('welcome', { type: 'first_order', value: 10 });
+        expect(evaluatePromotion(welcome, [line('a', 1, 100)], { ...context, customerId: null }).reason)
+            .toBe('Log in to use this promotion');
+        expect(evaluatePromotion(welcome, [line('a', 1, 100)], context).reason).toBe('Only for your first order');
+        expect(evaluatePromotion(welcome, [line('a', 1, 100)], { ...context, isFirstOrder: true }).discount).toBe(10);
+    });
+});
+
+describe('resolvePromotions', () => {
+    it('stacks stackable promotions but only one non-stackable one', () => {
+        const results = byId(resolvePromotions([
+            candidate('stack', 10, { priority: 3 }),
+            candidate('first', 30, { priority: 2, stackable: false }),
+            candidate('second', 40, { priority: 1, stackable: false })
+        ], 1000));
+
+        expect(results.stack).toMatchObject({ applied: true, discount: 10 });
+        expect(results.first).toMatchObject({ applied: true, discount: 30 });
+        expect(results.second).toMatchObject({ applied: false, reason: 'Does not stack with first' });
+    });
+
+    it('never discounts past the subtotal', () => {
+        const results = byId(resolvePromotions([
+            candidate('big', 80, { priority: 2 }),
+            candidate('more', 50, { priority: 1 }),
+            candidate('none', 5)
+        ], 100));
+
+        expect(results.big.discount).toBe(80);
+        expect(results.more.discount).toBe(20);
+        expect(results.none).toMatchObject({ applied: false, reason: 'Order is already fully discounted' });
+    });
+
+    it('applies an exclusive promotion ranked after a stackable one when it saves more', () => {
+        const results = byId(resolvePromotions([
+            candidate('stack', 20, { priority: 5 }),
+            candidate('exclusive', 100, { priority: 1, exclusive: true })
+        ], 1000));
+
+        expect(results.exclusive).toMatchObject({ applied: true, discount: 100 });
+        expect(results.stack).toMatchObject({ applied: false, discount: 0, reason: 'Cannot be combined with exclusive' });
+    });
+
+    it('keeps the other promotions when together they save more than the exclusive one', () => {
+        const results = byId(resolvePromotions([
+            candidate('exclusive', 50, { priority: 5, exclusive: true }),
+            candidate('a', 30, { priority: 1 }),
+            candidate('b', 30, { priority: 1 })
+        ], 1000));
+
+        expect(results.a.applied && results.b.applied).toBe(true);
+        expect(results.exclusive).toMatchObject({ applied: false, reason: 'Cannot be combined with other promotions' });
+    });
+
+    it('applies only the best of several exclusive promotions', () => {
+        const results = byId(resolvePromotions([
+            candidate('small', 40, { priority: 9, exclusive: true }),
+            candidate('large', 60, { priority: 1, exclusive: true })
+        ], 1000));
+
+        expect(results.large).toMatchObject({ applied: true, discount: 60 });
+        expect(results.small).toMatchObject({ applied: false, reason: 'Cannot be combined with large' });
+    });
+
+    it('returns every candidate in priority order, keeping why the unqualified ones failed', () => {
+        const results = resolvePromotions([
+            candidate('low', 10, { priority: 1 }),
+            { ...candidate('ended', 0, { priority: 5 }), evaluation: { discount: 0, reason: 'Promotion has ended' } },
+            candidate('high', 10, { priority: 9 })
+        ], 1000);
+
+        expect(results.map(result => result.id)).toEqual(['high', 'ended', 'low']);
+        expect(results[1]).toMatchObject({ applied: false, reason: 'Promotion has ended' });
+    });
+});
+
+describe('buildQuote', () => {
+    const products = new Map([
+        ['apple', { name: 'Apple', price: 100, status: 'In Stock', vendorId: 'v1' }],
+        ['pear', { name: 'Pear', price: 50, status: 'Out of Stock', vendorId: 'v1' }]
+    ]);
+
+    it('prices lines with product discounts, tax and delivery', () => {
+        const quote = buildQuote([{ productId: 'apple', quantity: 3 }, { productId: 'pear', quantity: 1 }], {
+            products,
+            discounts: new Map([['apple', 10]]),
+            now: NOW
+        });
+
+        expect(quote.unavailable).toEqual(['pear']);
+        expect(quote.subtotal).toBe(270);
+        expect(quote.productDiscount).toBe(30);
+        expect(quote.tax).toBe(270 * PRICING.TAX_RATE);
+        expect(quote.deliveryFee).toBe(PRICING.DELIVERY_FEE);
+        expect(quote.total).toBe(270 + 270 * PRICING.TAX_RATE + PRICING.DELIVERY_FEE);
+    });
+
+    it('treats a code matching no promotion as a non-stackable coupon', () => {
+        const quote = buildQuote([{ productId: 'apple', quantity: 60 }], {
+            products,
+            discounts: new Map(),
+            couponCode: 'SAVE10',
+            coupon: { isActive: true, type: 'percentage', value: 10 },
+            promotions: [promotion('flat', { value: 5, stackable: false, priority: 1 })],
+            now: NOW
+        });
+
+        expect(quote.deliveryFee).toBe(0);
+        expect(quote.coupon).toEqual({ code: 'SAVE10', applied: false, discount: 0, reason: 'Does not stack with flat' });
+        expect(quote.promotionDiscount).toBe(300);
+    });
+});
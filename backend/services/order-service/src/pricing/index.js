@@ -0,0 +1,116 @@
+/**
+ * Pricing
+ * Loads prices, product discounts, promotions and coupons from the services that own them
+ * and hands them to the pricing engine. Never trusts prices sent by the client.
+ */
+
+const Order = require('../models/order.model');
+const { PRICING, buildQuote } = require('./engine');
+
+const PRODUCT_SERVICE_URL = process.env.PRODUCT_SERVICE_URL || 'http://localhost:3003';
+const ADMIN_SERVICE_URL = process.env.ADMIN_SERVICE_URL || 'http://localhost:3009';
+
+const fetchJson = async (url) => {
+    const response = await fetch(url);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+        throw new Error(`${url} answered ${response.status}`);
+    }
+    return response.json();
+};
+
+const loadProducts = async (productIds) => {
+    const ids = productIds.join(',');
+    const body = await fetchJson(`${PRODUCT_SERVICE_URL}/products?ids=${ids}&limit=${productIds.length}`);
+    return new Map((body?.data || []).map(product => [String(product._id), product]));
+};
+
+const loadDiscounts = async (productIds) => {
+    const body = await fetchJson(`${ADMIN_SERVICE_URL}/product-discounts/active?productIds=${productIds.join(',')}`);
+    const discounts = new Map();
+    for (const discount of body?.data || []) {
+        // Overlapping discounts on one product: the customer gets the best one
+        discounts.set(discount.productId, Math.max(discounts.get(discount.productId) || 0, discount.percentage));
+    }
+    return discounts;
+};
+
+const loadCoupon = async (code) => {
+    const body = await fetchJson(`${ADMIN_SERVICE_URL}/discounts/code/${encodeURIComponent(code)}`);
+    return body?.data || null;
+};
+
+const loadPromotions = async (customerId, code) => {
+    const params = new URLSearchParams();
+    if (customerId) params.set('customerId', customerId);
+    if (code) params.set('code', code);
+    const body = await fetchJson(`${ADMIN_SERVICE_URL}/promotions/applicable?${params}`);
+    return body?.data || [];
+};
+
+const hasNoOrders = async (customerId) => {
+    if (!customerId) return false;
+    const previous = await Order.countDocuments({ customerId, status: { $ne: 'Cancelled' } });
+    return previous === 0;
+};
+
+/**
+ * Quote a cart from live catalog data.
+ * @param {Array<{productId: string, quantity: number}>} items
+ * @param {string} [couponCode]
+ * @param {string} [customerId] - needed for first-order and per-customer promotions
+ */
+const quoteCart = async (items, couponCode, customerId) => {
+    const productIds = [...new Set(items.map(item => item.productId))];
+    const code = couponCode ? String(couponCode).trim().toUpperCase() : null;
+    const customer = customerId ? String(customerId) : null;
+
+    if (productIds.length === 0) {
+        return buildQuote([], { products: new Map(), discounts: new Map(), couponCode: code });
+    }
+
+    const [products, discounts, coupon, promotions, isFirstOrder] = await Promise.all([
+        loadProducts(productIds),
+        loadDiscounts(productIds),
+        code ? loadCoupon(code) : null,
+        loadPromotions(customer, code),
+        hasNoOrders(customer)
+    ]);
+
+    return buildQuote(items, {
+        products,
+        discounts,
+        couponCode: code,
+        coupon,
+        promotions,
+        customerId: customer,
+        isFirstOrder
+    });
+};
+
+/**
+ * Record the promotions a placed order used so usage limits see it.
+ * Failures are logged, not thrown: the order already exists.
+ */
+const recordRedemptions = async (order, quote) => {
+    const applied = (quote.promotions || []).filter(p => p.applied);
+    if (applied.length === 0) return;
+
+    try {
+        const response = await fetch(`${ADMIN_SERVICE_URL}/promotions/redemptions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                customerId: order.customerId,
+                orderId: String(order._id),
+                promotionIds: applied.filter(p => !p.id.startsWith('coupon:')).map(p => p.id),
+                couponCode: applied.find(p => p.id.startsWith('coupon:'))?.code
+            })
+        });
+        if (!response.ok) throw new Error(`admin-service answered ${response.status}`);
+    } catch (error) {
+        console.error(`Failed to record promotions for order ${order.orderNumber}:`, error.message);
+    }
+};
+
+module.exports = { PRICING, loadProducts, quoteCart, recordRedemptions };
@@ -0,0 +1,42 @@
+/**
+ * Refunds
+ * Money goes back through payment-service, which records each refund on the
+ * order (POST /orders/:id/refunds) and restocks the units it returns when
+ * asked to.
+ */
+
+const { internalHeaders } = require('./internal');
+
+const PAYMENT_SERVICE_URL = process.env.PAYMENT_SERVICE_URL || 'http://localhost:3006';
+
+/**
+ * Refund order lines at what the customer paid for them.
+ * @param {Object} order
+ * @param {Array<{itemId: string, quantity: number}>} lines
+ * @param {{reason?: string, restock?: boolean, actor: {id: string, role: string}}} details
+ *   `actor` is who the refund is made for, as payment-service records it
+ * @returns {Promise<Object>} the refund payment-service made
+ * @throws when the order has no payment or payment-service refuses
+ */
+const refundLines = async (order, lines, { reason, restock = false, actor }) => {
+    if (!order.paymentId) {
+        throw new Error('The order has no recorded payment; refund it by hand');
+    }
+    const response = await fetch(`${PAYMENT_SERVICE_URL}/${order.paymentId}/refund`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...internalHeaders(),
+            'x-user-id': actor.id,
+            'x-user-role': actor.role
+        },
+        body: JSON.stringify({ reason, lines, restock })
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || !body.success) {
+        throw new Error(body.error || `payment-service answered ${response.status}`);
+    }
+    return body.data.refund;
+};
+
+module.exports = { refundLines };
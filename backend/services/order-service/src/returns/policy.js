@@ -0,0 +1,91 @@
+/**
+ * Return Policy
+ * Which delivered items may still be returned, and how many of them. Most of
+ * what we sell is perishable, so the window is counted in hours from delivery.
+ */
+
+const { ORDER_STATUS, SHIPMENT_STATUS, RETURN_STATUS } = require('../status/transitions');
+const { shipmentOf } = require('../fulfilment/shipments');
+
+const RETURN_WINDOW_HOURS = parseInt(process.env.RETURN_WINDOW_HOURS || '72', 10);
+
+const REASONS = {
+    spoiled: 'Arrived spoiled',
+    damaged: 'Damaged in transit',
+    wrong_item: 'Wrong item',
+    missing: 'Missing from the delivery',
+    not_as_described: 'Not as described',
+    other: 'Other'
+};
+
+// Photos arrive as data URLs; each is kept with the request
+const PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const MAX_PHOTOS = 3;
+const MAX_PHOTO_BYTES = 1024 * 1024;
+
+// When the item reached the customer: its shipment's delivery, or the order's
+// for orders placed before shipments existed
+const deliveredAtFor = (order, item) => {
+    const shipment = shipmentOf(order, item.vendorId);
+    if (shipment) {
+        return shipment.status === SHIPMENT_STATUS.DELIVERED ? shipment.deliveredAt : null;
+    }
+    return order.status === ORDER_STATUS.DELIVERED ? order.deliveredAt : null;
+};
+
+// Rejected, and past escalating: an admin's decision is final
+const isFinallyRejected = (rma) => rma.status === RETURN_STATUS.REJECTED && Boolean(rma.escalatedAt);
+
+/**
+ * How many units of an order line can still be returned: those delivered
+ * within the window, less units already refunded or in another request that
+ * was not turned down for good. A request its vendor rejected keeps its units
+ * until an admin has decided on it too, since the customer may still escalate
+ * it and have it approved.
+ * @returns {{quantity: number, reason?: string}}
+ */
+const returnableQuantity = (order, item, requests) => {
+    const deliveredAt = deliveredAtFor(order, item);
+    if (!deliveredAt) {
+        return { quantity: 0, reason: 'Only delivered items can be returned' };
+    }
+    if (Date.now() - new Date(deliveredAt).getTime() > RETURN_WINDOW_HOURS * 60 * 60 * 1000) {
+        return { quantity: 0, reason: `Returns must be requested within ${RETURN_WINDOW_HOURS} hours of delivery` };
+    }
+
+    const requested = requests
+        .filter(rma => rma.itemId === String(item._id) && !isFinallyRejected(rma))
+        .reduce((sum, rma) => sum + rma.quantity, 0);
+    const quantity = Math.max(0, item.quantity - (item.refundedQuantity || 0) - requested);
+    return quantity > 0 ? { quantity } : { quantity: 0, reason: 'Every unit of this item is already being returned' };
+};
+
+/**
+ * Decode the photos sent with a request.
+ * @returns {{photos: Array<{contentType: string, data: Buffer}>}} or `{error}`
+ */
+const parsePhotos = (dataUrls = []) => {
+    if (!Array.isArray(dataUrls) || dataUrls.length > MAX_PHOTOS) {
+        return { error: `Attach at most ${MAX_PHOTOS} photos` };
+    }
+    const photos = [];
+    for (const dataUrl of dataUrls) {
+        const match = /^data:([\w/+.-]+);base64,(.+)$/.exec(String(dataUrl));
+        if (!match || !PHOTO_TYPES.includes(match[1])) {
+            return { error: 'Photos must be JPEG, PNG or WebP images' };
+        }
+        const data = Buffer.from(match[2], 'base64');
+        if (data.length > MAX_PHOTO_BYTES) {
+            return { error: 'Each photo must be under 1 MB' };
+        }
+        photos.push({ contentType: match[1], data });
+    }
+    return { photos };
+};
+
+module.exports = {
+    RETURN_WINDOW_HOURS,
+    REASONS,
+    returnableQuantity,
+    parsePhotos
+};
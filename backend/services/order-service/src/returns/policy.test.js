@@ -0,0 +1,76 @@
+const { RETURN_WINDOW_HOURS, returnableQuantity, parsePhotos } = require('./policy');
+const { ORDER_STATUS, SHIPMENT_STATUS, RETURN_STATUS } = require('../status/transitions');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const item = { _id: 'item1', vendorId: 'VND-1', quantity: 5, refundedQuantity: 0 };
+
+const deliveredOrder = (hoursAgo = 1, line = item) => ({
+    status: ORDER_STATUS.DELIVERED,
+    items: [line],
+    shipments: [{
+        vendorId: 'VND-1',
+        status: SHIPMENT_STATUS.DELIVERED,
+        deliveredAt: new Date(Date.now() - hoursAgo * HOUR_MS)
+    }]
+});
+
+const request = (status, quantity, extra = {}) => ({ itemId: 'item1', status, quantity, ...extra });
+
+describe('returnableQuantity', () => {
+    it('allows every unit of a line delivered within the window', () => {
+        expect(returnableQuantity(deliveredOrder(), item, [])).toEqual({ quantity: 5 });
+    });
+
+    it('refuses items not delivered yet or delivered too long ago', () => {
+        const shipped = { ...deliveredOrder(), shipments: [{ vendorId: 'VND-1', status: SHIPMENT_STATUS.SHIPPED }] };
+        expect(returnableQuantity(shipped, item, [])).toEqual({ quantity: 0, reason: 'Only delivered items can be returned' });
+        expect(returnableQuantity(deliveredOrder(RETURN_WINDOW_HOURS + 1), item, []).quantity).toBe(0);
+    });
+
+    it('uses the order delivery for orders placed before shipments existed', () => {
+        const legacy = { status: ORDER_STATUS.DELIVERED, deliveredAt: new Date(), items: [item], shipments: [] };
+        expect(returnableQuantity(legacy, item, []).quantity).toBe(5);
+    });
+
+    it('takes off refunded units and units in open or approved requests', () => {
+        const refunded = { ...item, refundedQuantity: 1 };
+        const requests = [
+            request(RETURN_STATUS.REQUESTED, 1),
+            request(RETURN_STATUS.APPROVED, 1),
+            { ...request(RETURN_STATUS.REQUESTED, 3), itemId: 'item2' }
+        ];
+        expect(returnableQuantity(deliveredOrder(1, refunded), refunded, requests)).toEqual({ quantity: 2 });
+    });
+
+    it('keeps the units of a rejection the customer can still escalate', () => {
+        const requests = [request(RETURN_STATUS.REJECTED, 2), request(RETURN_STATUS.ESCALATED, 1)];
+        expect(returnableQuantity(deliveredOrder(), item, requests)).toEqual({ quantity: 2 });
+    });
+
+    it('frees the units once an admin has rejected the request for good', () => {
+        const requests = [request(RETURN_STATUS.REJECTED, 2, { escalatedAt: new Date() })];
+        expect(returnableQuantity(deliveredOrder(), item, requests)).toEqual({ quantity: 5 });
+    });
+
+    it('says so when every unit is already being returned', () => {
+        expect(returnableQuantity(deliveredOrder(), item, [request(RETURN_STATUS.REQUESTED, 5)]))
+            .toEqual({ quantity: 0, reason: 'Every unit of this item is already being returned' });
+    });
+});
+
+describe('parsePhotos', () => {
+    const png = `data:image/png;base64,${Buffer.from('photo').toString('base64')}`;
+
+    it('decodes image data URLs', () => {
+        const { photos } = parsePhotos([png]);
+        expect(photos).toHaveLength(1);
+        expect(photos[0].contentType).toBe('image/png');
+        expect(photos[0].data.toString()).toBe('photo');
+    });
+
+    it('refuses other file types and too many photos', () => {
+        expect(parsePhotos(['data:text/plain;base64,aGk=']).error).toBe('Photos must be JPEG, PNG or WebP images');
+        expect(parsePhotos([png, png, png, png]).error).toBe('Attach at most 3 photos');
+    });
+});
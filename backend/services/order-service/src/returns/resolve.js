@@ -0,0 +1,95 @@
+/**
+ * Resolving Returns
+ * An approved return is either refunded through payment-service or replaced by
+ * a new order for the same item at no charge. A failure is kept on the request
+ * so it can be retried; neither step is repeated once it has succeeded.
+ */
+
+const Order = require('../models/order.model');
+const { ORDER_STATUS, RETURN_STATUS, ROLES, recordStatus, transitionReturn } = require('../status/transitions');
+const { ensureShipments } = require('../fulfilment/shipments');
+const { REASONS } = require('./policy');
+const { refundLines } = require('../refunds');
+const { reserveStock, commitStock } = require('../inventory/stock');
+
+// How order-service appears in a return's and a replacement order's history
+const RETURNS = { id: 'order-service', role: ROLES.SYSTEM };
+
+// Returned goods are not put back into stock: most are perishable and come
+// back spoiled or damaged
+const refund = async (rma, order, actor) => {
+    const made = await refundLines(order, [{ itemId: rma.itemId, quantity: rma.quantity }], {
+        reason: `${rma.rmaNumber}: ${REASONS[rma.reason]}`,
+        actor: { id: actor.id || RETURNS.id, role: actor.role }
+    });
+    rma.refundId = made.refundId;
+    rma.refundAmount = made.amount;
+};
+
+const replace = async (rma, order) => {
+    const item = order.items.id(rma.itemId);
+    const replacement = new Order({
+        customerId: order.customerId,
+        customerEmail: order.customerEmail,
+        customerName: order.customerName,
+        items: [{
+            productId: item.productId,
+            productName: item.productName,
+            productImage: item.productImage,
+            vendorId: item.vendorId,
+            vendorName: item.vendorName,
+            quantity: rma.quantity,
+            price: item.price,
+            discount: item.price * rma.quantity,
+            subtotal: 0
+        }],
+        shippingAddress: order.shippingAddress,
+        billingAddress: order.billingAddress,
+        deliverySlot: order.deliverySlot,
+        subtotal: 0,
+        totalAmount: 0,
+        paymentMethod: order.paymentMethod,
+        paymentStatus: 'paid',
+        notes: `Replacement for ${rma.rmaNumber}`,
+        replacementFor: { orderId: String(order._id), returnId: String(rma._id) }
+    });
+    ensureShipments(replacement);
+    recordStatus(replacement, ORDER_STATUS.CONFIRMED, RETURNS, `Replacement for ${rma.rmaNumber}`);
+
+    // The replacement is sold like any other order; an unsaved one's hold
+    // simply runs out
+    const { shortages } = await reserveStock(replacement);
+    if (shortages) {
+        throw new Error(`Not enough ${item.productName} in stock for a replacement`);
+    }
+    await replacement.save();
+    await commitStock(replacement);
+    rma.replacementOrderId = String(replacement._id);
+};
+
+/**
+ * Refund or replace an approved return, then save it. `actor` is whoever
+ * approved it; refunds are made in their name.
+ */
+const resolveReturn = async (rma, actor) => {
+    try {
+        const order = await Order.findById(rma.orderId);
+        if (!order) throw new Error('Order not found');
+
+        if (rma.resolution === 'replacement') {
+            if (!rma.replacementOrderId) await replace(rma, order);
+            transitionReturn(rma, RETURN_STATUS.REPLACED, RETURNS, `Replacement order ${rma.replacementOrderId}`);
+        } else {
+            if (!rma.refundId) await refund(rma, order, actor);
+            transitionReturn(rma, RETURN_STATUS.REFUNDED, RETURNS, `Refund ${rma.refundId}`);
+        }
+        rma.resolutionError = undefined;
+    } catch (error) {
+        console.error(`Failed to resolve return ${rma.rmaNumber}:`, error.message);
+        rma.resolutionError = error.message;
+    }
+    await rma.save();
+    return rma;
+};
+
+module.exports = { resolveReturn };
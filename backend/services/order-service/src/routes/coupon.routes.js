@@ -0,0 +1,44 @@
+/**
+ * Coupon Routes
+ * Checks a code against a cart and explains every promotion rule that was
+ * considered, so the customer can see why a code did or did not apply.
+ */
+
+const express = require('express');
+const router = express.Router();
+const { quoteCart } = require('../pricing');
+
+// Validate a coupon or promotion code for a cart
+router.post('/validate', async (req, res) => {
+    try {
+        const { code, products = [], customerId } = req.body;
+        if (!code || !String(code).trim()) {
+            return res.status(400).json({ success: false, error: 'Coupon code is required' });
+        }
+
+        const items = products
+            .filter(item => item && item.productId)
+            .map(item => ({ productId: String(item.productId), quantity: item.quantity }));
+        const quote = await quoteCart(items, code, customerId || req.headers['x-user-id']);
+
+        const data = {
+            code: quote.coupon.code,
+            valid: quote.coupon.applied,
+            reason: quote.coupon.reason,
+            discountAmount: quote.promotionDiscount,
+            finalAmount: quote.total,
+            promotions: quote.promotions,
+            quote
+        };
+
+        if (!quote.coupon.applied) {
+            return res.status(400).json({ success: false, error: quote.coupon.reason, data });
+        }
+        res.json({ success: true, data });
+    } catch (error) {
+        console.error('Validate coupon error:', error);
+        res.status(500).json({ success: false, error: 'Failed to validate coupon' });
+    }
+});
+
+module.exports = router;
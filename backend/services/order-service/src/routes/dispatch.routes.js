@@ -0,0 +1,84 @@
+/**
+ * Dispatch Routes
+ * Plan the day's delivery runs and put orders on the vehicles of a plan.
+ * Admins only.
+ */
+
+const express = require('express');
+const router = express.Router();
+const Order = require('../models/order.model');
+const { ROLES, actorOf } = require('../status/transitions');
+const { READY_STATUSES, buildPlan } = require('../dispatch');
+const { publishTracking } = require('../tracking/publish');
+
+router.use(async (req, res, next) => {
+    try {
+        if ((await actorOf(req)).role !== ROLES.ADMIN) {
+            return res.status(403).json({ success: false, error: 'Only admins can plan dispatch' });
+        }
+    } catch (error) {
+        return res.status(error.statusCode || 500).json({ success: false, error: error.message });
+    }
+    next();
+});
+
+/**
+ * Plan runs without assigning anything.
+ * Body: date (`YYYY-MM-DD`, optional), vehicles and inventory loads.
+ */
+router.post('/plan', async (req, res) => {
+    try {
+        const { date, vehicles, inventory } = req.body;
+        if (!Array.isArray(vehicles)) {
+            return res.status(400).json({ success: false, error: 'vehicles must be a list' });
+        }
+        if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+            return res.status(400).json({ success: false, error: 'date must be YYYY-MM-DD' });
+        }
+
+        const plan = await buildPlan({ date, vehicles, inventory: Array.isArray(inventory) ? inventory : [] });
+        res.json({ success: true, data: plan });
+    } catch (error) {
+        console.error('Plan dispatch error:', error);
+        res.status(500).json({ success: false, error: 'Failed to plan dispatch' });
+    }
+});
+
+/**
+ * Assign the orders of planned runs to their vehicles.
+ * Body: runs, each `{vehicle, orderIds}` as returned by /plan. Orders that
+ * have moved on since the plan was made are skipped and listed.
+ */
+router.post('/assign', async (req, res) => {
+    try {
+        const { runs } = req.body;
+        if (!Array.isArray(runs)) {
+            return res.status(400).json({ success: false, error: 'runs must be a list' });
+        }
+
+        let assigned = 0;
+        const skipped = [];
+        for (const { vehicle, orderIds = [] } of runs) {
+            if (!vehicle?.vehicleId) continue;
+            const orders = await Order.find({ _id: { $in: orderIds } });
+            for (const order of orders) {
+                if (!READY_STATUSES.includes(order.status)) {
+                    skipped.push({ orderId: String(order._id), orderNumber: order.orderNumber, reason: `Order is ${order.status}` });
+                    continue;
+                }
+                const { vehicleId, plateNumber, make, model, type } = vehicle;
+                order.vehicle = { vehicleId, plateNumber, make, model, type, assignedAt: new Date() };
+                await order.save();
+                publishTracking(order);
+                assigned++;
+            }
+        }
+
+        res.json({ success: true, message: `${assigned} orders assigned`, data: { assigned, skipped } });
+    } catch (error) {
+        console.error('Assign dispatch error:', error);
+        res.status(500).json({ success: false, error: 'Failed to assign runs' });
+    }
+});
+
+module.exports = router;
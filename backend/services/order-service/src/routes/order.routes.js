@@ -2,9 +2,135 @@
  * Order Routes
  */
 
+const crypto = require('crypto');
 const express = require('express');
 const router = express.Router();
 const Order = require('../models/order.model');
+const { quoteCart, recordRedemptions } = require('../pricing');
+const { listSlots, checkSlot } = require('../delivery/slots');
+const { reserveStock, commitStock, releaseStock, cancelStock, restock } = require('../inventory/stock');
+const { TRACKING_FIELDS, trackingOf, publishTracking } = require('../tracking/publish');
+const { impactOfOrder, customerImpact, vendorImpact } = require('../impact');
+const { internalOnly } = require('../internal');
+const { refundLines } = require('../refunds');
+const {
+    ORDER_STATUS,
+    SHIPMENT_STATUS,
+    ROLES,
+    TRANSITIONS,
+    SHIPMENT_TRANSITIONS,
+    actorOf,
+    isParty,
+    nextStatuses,
+    nextShipmentStatuses,
+    transition,
+    canTransition,
+    recordStatus,
+    transitionShipment
+} = require('../status/transitions');
+const {
+    FULFILMENT_STAGES,
+    ensureShipments,
+    itemsOf,
+    shipmentOf,
+    vendorView,
+    syncOrderStatus,
+    cancelOpenShipments
+} = require('../fulfilment/shipments');
+
+// How payment-service appears in an order's status history
+const PAYMENT_SERVICE = { id: 'payment-service', role: ROLES.SYSTEM };
+// ...and order-service itself, refunding a cancelled shipment
+const ORDER_SERVICE = { id: 'order-service', role: ROLES.SYSTEM };
+
+const isPaid = (order) => ['paid', 'partially_refunded', 'refunded'].includes(order.paymentStatus);
+
+// Lines of a shipment not refunded yet, as payment-service and product-service take them
+const openLines = (order, shipment) => itemsOf(order, shipment)
+    .map(item => ({ item, quantity: item.quantity - item.refundedQuantity }))
+    .filter(({ quantity }) => quantity > 0);
+
+// Keep on the order what its sale could not take from stock, for an admin to sort out
+const recordShortfall = async (order, shortfall) => {
+    if (!shortfall) return;
+    order.stockShortfall = shortfall;
+    await order.save();
+};
+
+// A cancelled order's units go back on sale unless it was paid for: paid
+// orders get theirs back through refunds, which restock what they return.
+// Shipments cancelled earlier on their own are already back.
+const returnCancelledStock = (order, reason) => {
+    if (isPaid(order)) return;
+    if (!order.shipments.some(shipment => shipment.restockedAt)) {
+        cancelStock(order, reason || 'Order cancelled');
+        return;
+    }
+    const lines = order.shipments
+        .filter(shipment => !shipment.restockedAt)
+        .flatMap(shipment => openLines(order, shipment))
+        .map(({ item, quantity }) => ({ productId: item.productId, quantity }));
+    restock(lines, String(order._id), reason || 'Order cancelled');
+};
+
+/**
+ * Give back a shipment its vendor cancelled: a paid order has the shipment's
+ * lines refunded, which restocks them; an unpaid (cash) one puts them straight
+ * back on sale, unless the whole order was cancelled with it. Failures are
+ * logged, not thrown: the cancellation has already happened.
+ */
+const returnCancelledShipment = async (order, shipment, reason) => {
+    const lines = openLines(order, shipment);
+    if (lines.length === 0) return;
+    try {
+        if (isPaid(order)) {
+            await refundLines(order, lines.map(({ item, quantity }) => ({ itemId: String(item._id), quantity })), {
+                reason: `Shipment cancelled${reason ? `: ${reason}` : ''}`,
+                restock: true,
+                actor: ORDER_SERVICE
+            });
+        } else if (order.status !== ORDER_STATUS.CANCELLED) {
+            await restock(
+                lines.map(({ item, quantity }) => ({ productId: item.productId, quantity })),
+                String(order._id),
+                reason || 'Shipment cancelled'
+            );
+            shipment.restockedAt = new Date();
+            await order.save();
+        }
+    } catch (error) {
+        console.error(`Failed to give back cancelled shipment of order ${order.orderNumber || order._id}:`, error.message);
+    }
+};
+
+// Shipments only move while their order is being fulfilled, not before it is
+// paid or after it is cancelled
+const shipmentMoves = (order, shipment, actor) =>
+    FULFILMENT_STAGES.includes(order.status) ? nextShipmentStatuses(order, shipment, actor) : [];
+
+const cartLines = (items = []) => items
+    .filter(item => item && item.productId)
+    .map(item => ({ productId: String(item.productId), quantity: item.quantity }));
+
+// Payment method names used by the storefront, mapped onto the order model's enum
+const STOREFRONT_PAYMENT_METHODS = {
+    cash_on_delivery: 'cod',
+    card: 'card',
+    bank_transfer: 'netbanking',
+    qr_code: 'upi'
+};
+
+// What an idempotency key is bound to: replaying the key with a different cart
+// is a client bug, not a retry.
+const fingerprintOf = ({ customerId, items, couponCode, deliverySlot }) => crypto
+    .createHash('sha256')
+    .update(JSON.stringify({
+        customerId,
+        items: cartLines(items).sort((a, b) => a.productId.localeCompare(b.productId)),
+        couponCode: couponCode ? String(couponCode).trim().toUpperCase() : null,
+        deliverySlot: deliverySlot?.id || deliverySlot || null
+    }))
+    .digest('hex');
 
 // Get all orders (admin) or user's orders
 router.get('/', async (req, res) => {
@@ -37,15 +163,50 @@ router.get('/', async (req, res) => {
     }
 });
 
-// Get order by ID
+// Delivery windows customers can book at checkout
+router.get('/delivery-slots', async (req, res) => {
+    try {
+        const slots = await listSlots();
+        res.json({ success: true, data: slots });
+    } catch (error) {
+        console.error('Get delivery slots error:', error);
+        res.status(500).json({ success: false, error: 'Failed to get delivery slots' });
+    }
+});
+
+// The order and shipment status graphs: for each status, the statuses it may
+// move to and the roles allowed to make each move
+router.get('/status-transitions', (req, res) => {
+    res.json({ success: true, data: { order: TRANSITIONS, shipment: SHIPMENT_TRANSITIONS } });
+});
+
+// Get order by ID. `nextStatuses` lists the moves the caller may make, on the
+// order and on each shipment.
 router.get('/:id', async (req, res) => {
     try {
         const order = await Order.findById(req.params.id);
         if (!order) {
             return res.status(404).json({ success: false, error: 'Order not found' });
         }
-        res.json({ success: true, data: order });
+        const actor = await actorOf(req);
+        if (!isParty(order, actor)) {
+            return res.status(403).json({ success: false, error: 'Not allowed to see this order' });
+        }
+        res.json({
+            success: true,
+            data: {
+                ...order.toObject(),
+                nextStatuses: nextStatuses(order, actor),
+                shipments: order.shipments.map(shipment => ({
+                    ...shipment.toObject(),
+                    nextStatuses: shipmentMoves(order, shipment, actor)
+                }))
+            }
+        });
     } catch (error) {
+        if (error.statusCode) {
+            return res.status(error.statusCode).json({ success: false, error: error.message });
+        }
         console.error('Get order error:', error);
         res.status(500).json({ success: false, error: 'Failed to fetch order' });
     }
@@ -64,6 +225,16 @@ router.get('/user/:userId', async (req, res) => {
     }
 });
 
+// A customer's sustainability impact over all their orders, and per order
+router.get('/user/:userId/impact', async (req, res) => {
+    try {
+        res.json({ success: true, data: await customerImpact(req.params.userId) });
+    } catch (error) {
+        console.error('Get customer impact error:', error);
+        res.status(500).json({ success: false, error: 'Failed to get impact' });
+    }
+});
+
 // Get orders by vendor
 router.get('/vendor/:vendorId', async (req, res) => {
     try {
@@ -77,43 +248,194 @@ router.get('/vendor/:vendorId', async (req, res) => {
     }
 });
 
-// Create order
-router.post('/', async (req, res) => {
+// A vendor's sustainability impact: items sold and surplus sent for recycling
+router.get('/vendor/:vendorId/impact', async (req, res) => {
+    try {
+        res.json({ success: true, data: await vendorImpact(req.params.vendorId) });
+    } catch (error) {
+        console.error('Get vendor impact error:', error);
+        res.status(500).json({ success: false, error: 'Failed to get impact' });
+    }
+});
+
+// A vendor's shipments, newest order first, with only that vendor's items
+router.get('/vendor/:vendorId/shipments', async (req, res) => {
+    try {
+        const { vendorId } = req.params;
+        const { status } = req.query;
+        const orders = await Order.find({ 'items.vendorId': vendorId })
+            .sort('-createdAt')
+            .lean();
+
+        const actor = await actorOf(req);
+        const shipments = orders
+            .map(order => {
+                const view = vendorView(order, vendorId);
+                return { ...view, nextStatuses: shipmentMoves(order, view, actor) };
+            })
+            .filter(shipment => !status || shipment.status === status);
+
+        res.json({ success: true, data: shipments });
+    } catch (error) {
+        if (error.statusCode) {
+            return res.status(error.statusCode).json({ success: false, error: error.message });
+        }
+        console.error('Get vendor shipments error:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch shipments' });
+    }
+});
+
+// Price a cart. The cart and checkout pages show this quote as is.
+router.post('/quote', async (req, res) => {
+    try {
+        const { items, couponCode, customerId } = req.body;
+        const quote = await quoteCart(cartLines(items), couponCode, customerId || req.headers['x-user-id']);
+        res.json({ success: true, data: quote });
+    } catch (error) {
+        console.error('Quote error:', error);
+        res.status(500).json({ success: false, error: 'Failed to price cart' });
+    }
+});
+
+/**
+ * Create an order from a fresh quote.
+ *
+ * Send an `Idempotency-Key` header (or `idempotencyKey` in the body) that is
+ * unique per checkout attempt: repeating the request with the same key answers
+ * with the order created the first time instead of placing another one.
+ */
+const createOrder = async (req, res) => {
     try {
         const {
             customerId,
             customerEmail,
             customerName,
             items,
+            couponCode,
+            expectedTotal,
+            deliverySlot,
             shippingAddress,
             billingAddress,
             paymentMethod = 'cod',
             notes
         } = req.body;
 
-        // Calculate totals
-        const subtotal = items.reduce((sum, item) => sum + item.subtotal, 0);
-        const shippingCost = subtotal > 500 ? 0 : 50; // Free shipping above 500
-        const tax = Math.round(subtotal * 0.18); // 18% GST
-        const totalAmount = subtotal + shippingCost + tax;
+        const buyerId = customerId || req.headers['x-user-id'];
+        const idempotencyKey = req.headers['idempotency-key'] || req.body.idempotencyKey;
+        const fingerprint = idempotencyKey
+            ? fingerprintOf({ customerId: buyerId, items, couponCode, deliverySlot })
+            : undefined;
+
+        if (idempotencyKey) {
+            const existing = await Order.findOne({ idempotencyKey });
+            if (existing) return replayOrder(res, existing, fingerprint);
+        }
+
+        // Prices always come from a fresh quote, never from the request body
+        const quote = await quoteCart(cartLines(items), couponCode, buyerId);
 
-        const order = await Order.create({
-            customerId: customerId || req.headers['x-user-id'],
+        if (quote.lines.length === 0) {
+            return res.status(400).json({ success: false, error: 'Order has no items' });
+        }
+        if (quote.unavailable.length > 0) {
+            return res.status(409).json({
+                success: false,
+                error: 'Some products are no longer available',
+                data: quote
+            });
+        }
+        // The customer confirmed a total; refuse to charge a different one
+        if (expectedTotal !== undefined && Math.abs(Number(expectedTotal) - quote.total) >= 0.01) {
+            return res.status(409).json({
+                success: false,
+                error: 'Prices have changed since the cart was priced',
+                data: quote
+            });
+        }
+
+        let slot;
+        if (deliverySlot) {
+            const check = await checkSlot(deliverySlot.id || deliverySlot);
+            if (check.reason) {
+                return res.status(409).json({ success: false, error: check.reason, code: 'SLOT_UNAVAILABLE' });
+            }
+            slot = check.slot;
+        }
+
+        const order = new Order({
+            idempotencyKey,
+            idempotencyFingerprint: fingerprint,
+            customerId: buyerId,
             customerEmail,
             customerName,
-            items,
+            items: quote.lines.map(line => ({
+                productId: line.productId,
+                productName: line.name,
+                productImage: line.imageUrl,
+                vendorId: line.vendorId,
+                vendorName: line.vendorName,
+                quantity: line.quantity,
+                price: line.unitPrice,
+                discount: line.lineDiscount,
+                subtotal: line.lineTotal
+            })),
             shippingAddress,
             billingAddress: billingAddress || shippingAddress,
-            subtotal,
-            shippingCost,
-            tax,
-            totalAmount,
+            deliverySlot: slot,
+            subtotal: quote.subtotal,
+            shippingCost: quote.deliveryFee,
+            tax: quote.tax,
+            discount: quote.promotionDiscount,
+            totalAmount: quote.total,
+            couponCode: quote.coupon?.applied ? quote.coupon.code : undefined,
+            pricing: quote,
             paymentMethod,
-            notes,
-            status: paymentMethod === 'cod' ? 'Confirmed' : 'Pending Payment'
+            notes
         });
+        ensureShipments(order);
+        recordStatus(
+            order,
+            paymentMethod === 'cod' ? ORDER_STATUS.CONFIRMED : ORDER_STATUS.PENDING_PAYMENT,
+            { id: buyerId, role: ROLES.CUSTOMER },
+            'Order placed'
+        );
+
+        // Hold the units before the order exists, so two buyers cannot both
+        // get the last one
+        let reservation;
+        try {
+            reservation = await reserveStock(order);
+        } catch (error) {
+            console.error('Reserve stock error:', error.message);
+            return res.status(503).json({ success: false, error: 'Stock could not be checked, please try again' });
+        }
+        if (reservation.shortages) {
+            return res.status(409).json({
+                success: false,
+                error: 'Some products do not have enough stock',
+                code: 'OUT_OF_STOCK',
+                data: { shortages: reservation.shortages }
+            });
+        }
+
+        try {
+            await order.save();
+        } catch (error) {
+            releaseStock(order, 'Order was not placed');
+            // A concurrent request with the same key won the race
+            if (error.code === 11000 && idempotencyKey) {
+                const existing = await Order.findOne({ idempotencyKey });
+                if (existing) return replayOrder(res, existing, fingerprint);
+            }
+            throw error;
+        }
 
         console.log(`Order created: ${order.orderNumber}`);
+        // Cash on delivery is a sale straight away; others sell once paid
+        if (paymentMethod === 'cod') {
+            await recordShortfall(order, await commitStock(order));
+        }
+        await recordRedemptions(order, quote);
 
         res.status(201).json({
             success: true,
@@ -124,46 +446,260 @@ router.post('/', async (req, res) => {
         console.error('Create order error:', error);
         res.status(500).json({ success: false, error: 'Failed to create order' });
     }
+};
+
+const replayOrder = (res, order, fingerprint) => {
+    if (order.idempotencyFingerprint && order.idempotencyFingerprint !== fingerprint) {
+        return res.status(422).json({
+            success: false,
+            error: 'Idempotency key was already used for a different order'
+        });
+    }
+    res.json({ success: true, message: 'Order already placed', data: order, replayed: true });
+};
+
+// Create order
+router.post('/', createOrder);
+
+// Create order from the storefront checkout, which posts its cart as is
+router.post('/checkout', (req, res) => {
+    const { cart, paymentMethod, ...rest } = req.body;
+    req.body = {
+        ...rest,
+        items: rest.items || cart?.products,
+        paymentMethod: STOREFRONT_PAYMENT_METHODS[paymentMethod] || paymentMethod
+    };
+    return createOrder(req, res);
 });
 
-// Update order status
-router.put('/:id/status', async (req, res) => {
+// Record the outcome of a payment attempt; payment-service only. Safe to
+// repeat; a second, different successful payment for an order that is already
+// paid is refused.
+router.put('/:id/payment', internalOnly, async (req, res) => {
     try {
-        const { status, trackingNumber, carrier } = req.body;
+        const { paymentId, status, reason } = req.body;
+        if (!paymentId || !['completed', 'failed'].includes(status)) {
+            return res.status(400).json({ success: false, error: 'paymentId and a completed or failed status are required' });
+        }
 
-        const updateData = { status };
+        const order = await Order.findById(req.params.id);
+        if (!order) {
+            return res.status(404).json({ success: false, error: 'Order not found' });
+        }
 
-        // Set timestamps based on status
-        if (status === 'Confirmed') updateData.confirmedAt = new Date();
-        if (status === 'Shipped') {
-            updateData.shippedAt = new Date();
-            if (trackingNumber) updateData.trackingNumber = trackingNumber;
-            if (carrier) updateData.carrier = carrier;
+        if (order.paymentStatus === 'paid') {
+            if (order.paymentId === paymentId) {
+                return res.json({ success: true, data: order });
+            }
+            return res.status(409).json({ success: false, error: 'Order is already paid', data: order });
         }
-        if (status === 'Delivered') updateData.deliveredAt = new Date();
-        if (status === 'Cancelled') updateData.cancelledAt = new Date();
 
-        const order = await Order.findByIdAndUpdate(
-            req.params.id,
-            { $set: updateData },
-            { new: true }
-        );
+        if (status === 'completed') {
+            order.paymentStatus = 'paid';
+            order.paymentId = paymentId;
+            order.paymentFailureReason = undefined;
+            if (canTransition(order, ORDER_STATUS.CONFIRMED, PAYMENT_SERVICE)) {
+                transition(order, ORDER_STATUS.CONFIRMED, PAYMENT_SERVICE, `Paid (${paymentId})`);
+            }
+        } else {
+            order.paymentStatus = 'failed';
+            order.paymentId = paymentId;
+            order.paymentFailureReason = reason;
+        }
+        await order.save();
+        publishTracking(order);
+
+        // Payment-service holds the units again before each attempt, so this
+        // sells held units; anything it could not sell is kept on the order
+        if (status === 'completed') {
+            await recordShortfall(order, await commitStock(order));
+        } else {
+            await releaseStock(order, reason ? `Payment failed: ${reason}` : 'Payment failed');
+        }
+
+        res.json({ success: true, data: order });
+    } catch (error) {
+        console.error('Record payment error:', error);
+        res.status(500).json({ success: false, error: 'Failed to record payment' });
+    }
+});
+
+/**
+ * Hold an unpaid order's units again before payment-service starts a payment
+ * attempt: a failed payment gave them back, and the hold runs out. Answers
+ * 409 with the shortages when some are no longer in stock, so the customer is
+ * not charged for them.
+ */
+router.post('/:id/stock-hold', internalOnly, async (req, res) => {
+    try {
+        const order = await Order.findById(req.params.id);
+        if (!order) {
+            return res.status(404).json({ success: false, error: 'Order not found' });
+        }
+        if (order.paymentStatus === 'paid' || order.status === ORDER_STATUS.CANCELLED) {
+            return res.status(409).json({ success: false, error: `Order is already ${order.paymentStatus === 'paid' ? 'paid' : 'cancelled'}` });
+        }
+
+        const { shortages } = await reserveStock(order);
+        if (shortages) {
+            return res.status(409).json({
+                success: false,
+                error: 'Some products do not have enough stock',
+                code: 'OUT_OF_STOCK',
+                data: { shortages }
+            });
+        }
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Hold stock error:', error);
+        res.status(503).json({ success: false, error: 'Could not hold stock for this order' });
+    }
+});
+
+// Record a refund made by payment-service: marks the refunded units on the
+// order's items and puts them back into stock when asked. Safe to repeat.
+router.post('/:id/refunds', internalOnly, async (req, res) => {
+    try {
+        const { refundId, paymentId, amount, reason, lines = [], restock: putBack, paymentStatus } = req.body;
+        if (!refundId || !(amount > 0)) {
+            return res.status(400).json({ success: false, error: 'refundId and a positive amount are required' });
+        }
+
+        const order = await Order.findById(req.params.id);
+        if (!order) {
+            return res.status(404).json({ success: false, error: 'Order not found' });
+        }
+        if (order.refunds.some(refund => refund.refundId === refundId)) {
+            return res.json({ success: true, data: order });
+        }
+
+        const returned = [];
+        for (const line of lines) {
+            const item = order.items.id(line.itemId);
+            if (!item) continue;
+            // Units already refunded, or never sold, do not go back on the shelf
+            const quantity = Math.min(item.quantity - item.refundedQuantity, Math.floor(Number(line.quantity)) || 0);
+            if (quantity <= 0) continue;
+            item.refundedQuantity += quantity;
+            returned.push({ productId: item.productId, quantity });
+        }
+
+        order.refunds.push({ refundId, paymentId, amount, reason, lines, restocked: Boolean(putBack) && returned.length > 0 });
+        order.refundedAmount = Math.round((order.refundedAmount + amount) * 100) / 100;
+        if (['partially_refunded', 'refunded'].includes(paymentStatus)) {
+            order.paymentStatus = paymentStatus;
+        }
+        if (order.items.every(item => item.refundedQuantity >= item.quantity)
+            && canTransition(order, ORDER_STATUS.REFUNDED, PAYMENT_SERVICE)) {
+            transition(order, ORDER_STATUS.REFUNDED, PAYMENT_SERVICE, reason ? `Refunded: ${reason}` : 'Refunded');
+        }
+        await order.save();
+        publishTracking(order);
+
+        if (putBack && returned.length > 0) {
+            await restock(returned, String(order._id));
+        }
+
+        res.json({ success: true, data: order });
+    } catch (error) {
+        console.error('Record refund error:', error);
+        res.status(500).json({ success: false, error: 'Failed to record refund' });
+    }
+});
 
+/**
+ * Move an order to another status. Only moves in the status graph are allowed,
+ * and only for the roles listed there: answers 409 for a move the graph does
+ * not have and 403 for one the caller may not make. Fulfilment statuses follow
+ * the shipments; move those instead.
+ */
+router.put('/:id/status', async (req, res) => {
+    try {
+        const { status, note } = req.body;
+
+        const order = await Order.findById(req.params.id);
         if (!order) {
             return res.status(404).json({ success: false, error: 'Order not found' });
         }
 
+        ensureShipments(order);
+        transition(order, status, await actorOf(req), note);
+        if (status === ORDER_STATUS.CANCELLED) {
+            cancelOpenShipments(order, note);
+        }
+        await order.save();
+        publishTracking(order);
+        if (status === ORDER_STATUS.CANCELLED) {
+            returnCancelledStock(order, note);
+        }
+
         res.json({
             success: true,
             message: 'Order status updated',
             data: order
         });
     } catch (error) {
+        if (error.statusCode) {
+            return res.status(error.statusCode).json({ success: false, error: error.message });
+        }
         console.error('Update status error:', error);
         res.status(500).json({ success: false, error: 'Failed to update order' });
     }
 });
 
+/**
+ * Move one vendor's shipment: vendors accept, pack and hand it over (Shipped,
+ * with the tracking number and carrier). The order's own status then follows
+ * its shipments. Same answers as the order status route.
+ */
+router.put('/:id/shipments/:vendorId/status', async (req, res) => {
+    try {
+        const { status, note, trackingNumber, carrier } = req.body;
+
+        const order = await Order.findById(req.params.id);
+        if (!order) {
+            return res.status(404).json({ success: false, error: 'Order not found' });
+        }
+        if (!FULFILMENT_STAGES.includes(order.status)) {
+            return res.status(409).json({ success: false, error: `Shipments cannot move while the order is ${order.status}` });
+        }
+
+        ensureShipments(order);
+        const shipment = shipmentOf(order, req.params.vendorId);
+        if (!shipment) {
+            return res.status(404).json({ success: false, error: 'Shipment not found' });
+        }
+
+        transitionShipment(order, shipment, status, await actorOf(req), note);
+        if (status === SHIPMENT_STATUS.SHIPPED) {
+            if (trackingNumber) shipment.trackingNumber = trackingNumber;
+            if (carrier) shipment.carrier = carrier;
+        }
+        syncOrderStatus(order);
+        await order.save();
+        publishTracking(order);
+        if (status === SHIPMENT_STATUS.CANCELLED) {
+            await returnCancelledShipment(order, shipment, note);
+        }
+        // The last open shipment was cancelled, so the whole order was
+        if (order.status === ORDER_STATUS.CANCELLED) {
+            returnCancelledStock(order, note);
+        }
+
+        res.json({
+            success: true,
+            message: 'Shipment status updated',
+            data: order
+        });
+    } catch (error) {
+        if (error.statusCode) {
+            return res.status(error.statusCode).json({ success: false, error: error.message });
+        }
+        console.error('Update shipment error:', error);
+        res.status(500).json({ success: false, error: 'Failed to update shipment' });
+    }
+});
+
 // Cancel order
 router.post('/:id/cancel', async (req, res) => {
     try {
@@ -174,18 +710,13 @@ router.post('/:id/cancel', async (req, res) => {
             return res.status(404).json({ success: false, error: 'Order not found' });
         }
 
-        // Check if order can be cancelled
-        if (['Shipped', 'Out for Delivery', 'Delivered'].includes(order.status)) {
-            return res.status(400).json({
-                success: false,
-                error: 'Order cannot be cancelled at this stage'
-            });
-        }
-
-        order.status = 'Cancelled';
-        order.cancelledAt = new Date();
+        ensureShipments(order);
+        transition(order, ORDER_STATUS.CANCELLED, await actorOf(req), reason);
+        cancelOpenShipments(order, reason);
         order.cancellationReason = reason;
         await order.save();
+        publishTracking(order);
+        returnCancelledStock(order, reason);
 
         res.json({
             success: true,
@@ -193,27 +724,93 @@ router.post('/:id/cancel', async (req, res) => {
             data: order
         });
     } catch (error) {
+        if (error.statusCode) {
+            return res.status(error.statusCode).json({
+                success: false,
+                error: error.statusCode === 409 ? 'Order cannot be cancelled at this stage' : error.message
+            });
+        }
         console.error('Cancel order error:', error);
         res.status(500).json({ success: false, error: 'Failed to cancel order' });
     }
 });
 
-// Get order tracking
+/**
+ * Assign the vehicle delivering an order (admin). Vehicles are managed
+ * elsewhere, so the body carries what the customer is shown of it:
+ * vehicleId, plateNumber, make, model, type, driverName and driverPhone.
+ * A null vehicleId takes the vehicle off the order.
+ */
+router.put('/:id/vehicle', async (req, res) => {
+    try {
+        if ((await actorOf(req)).role !== ROLES.ADMIN) {
+            return res.status(403).json({ success: false, error: 'Only admins can assign vehicles' });
+        }
+        const { vehicleId, plateNumber, make, model, type, driverName, driverPhone } = req.body;
+
+        const order = await Order.findById(req.params.id);
+        if (!order) {
+            return res.status(404).json({ success: false, error: 'Order not found' });
+        }
+        if ([ORDER_STATUS.DELIVERED, ORDER_STATUS.CANCELLED, ORDER_STATUS.REFUNDED].includes(order.status)) {
+            return res.status(409).json({ success: false, error: `Order is already ${order.status}` });
+        }
+
+        order.vehicle = vehicleId
+            ? { vehicleId, plateNumber, make, model, type, driverName, driverPhone, assignedAt: new Date() }
+            : undefined;
+        await order.save();
+        publishTracking(order);
+
+        res.json({ success: true, message: vehicleId ? 'Vehicle assigned' : 'Vehicle removed', data: order });
+    } catch (error) {
+        if (error.statusCode) {
+            return res.status(error.statusCode).json({ success: false, error: error.message });
+        }
+        console.error('Assign vehicle error:', error);
+        res.status(500).json({ success: false, error: 'Failed to assign vehicle' });
+    }
+});
+
+// Get order tracking: the same view pushed live to the order's socket room.
+// Only the order's customer, its vendors and admins may follow it; the
+// notification service asks here before letting a socket join the room.
 router.get('/:id/tracking', async (req, res) => {
     try {
+        const actor = await actorOf(req);
         const order = await Order.findById(req.params.id)
-            .select('orderNumber status trackingNumber carrier shippedAt estimatedDelivery')
+            .select([...TRACKING_FIELDS, 'customerId', 'items.vendorId'].join(' '))
             .lean();
 
         if (!order) {
             return res.status(404).json({ success: false, error: 'Order not found' });
         }
+        if (!isParty(order, actor)) {
+            return res.status(403).json({ success: false, error: 'Not allowed to track this order' });
+        }
 
-        res.json({ success: true, data: order });
+        res.json({ success: true, data: trackingOf(order) });
     } catch (error) {
+        if (error.statusCode) {
+            return res.status(error.statusCode).json({ success: false, error: error.message });
+        }
         console.error('Get tracking error:', error);
         res.status(500).json({ success: false, error: 'Failed to get tracking info' });
     }
 });
 
+// An order's sustainability impact, as its receipt shows it
+router.get('/:id/impact', async (req, res) => {
+    try {
+        const order = await Order.findById(req.params.id).select('items').lean();
+        if (!order) {
+            return res.status(404).json({ success: false, error: 'Order not found' });
+        }
+        res.json({ success: true, data: await impactOfOrder(order) });
+    } catch (error) {
+        console.error('Get order impact error:', error);
+        res.status(500).json({ success: false, error: 'Failed to get impact' });
+    }
+});
+
 module.exports = router;
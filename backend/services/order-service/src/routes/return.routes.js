@@ -0,0 +1,285 @@
+/**
+ * Return Routes
+ * Customers ask to return a delivered item with a reason and photos; the
+ * item's vendor approves or rejects, and an admin arbitrates a rejection the
+ * customer disputes. Approved returns are refunded or replaced straight away.
+ */
+
+const express = require('express');
+const router = express.Router();
+const Order = require('../models/order.model');
+const Return = require('../models/return.model');
+const {
+    RETURN_STATUS,
+    ROLES,
+    actorOf,
+    isVendor,
+    isReturnParty,
+    nextReturnStatuses,
+    transitionReturn
+} = require('../status/transitions');
+const { REASONS, RETURN_WINDOW_HOURS, returnableQuantity, parsePhotos } = require('../returns/policy');
+const { resolveReturn } = require('../returns/resolve');
+
+// Requests are listed without their photos; those are fetched one at a time
+const WITHOUT_PHOTOS = '-photos.data';
+
+const summaryOf = (rma, actor) => {
+    const data = typeof rma.toObject === 'function' ? rma.toObject() : rma;
+    return {
+        ...data,
+        photos: undefined,
+        photoCount: (rma.photos || []).length,
+        nextStatuses: nextReturnStatuses(rma, actor)
+    };
+};
+
+const NOT_YOURS = { success: false, error: 'Not allowed to see these returns' };
+
+const sendError = (res, error, fallback) => {
+    if (error.statusCode) {
+        return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ success: false, error: fallback });
+};
+
+// Reasons a return can be requested for, and how long after delivery
+router.get('/policy', (req, res) => {
+    res.json({ success: true, data: { reasons: REASONS, windowHours: RETURN_WINDOW_HOURS } });
+});
+
+// Every return request (admin), optionally by status; disputed ones first
+router.get('/', async (req, res) => {
+    try {
+        const actor = await actorOf(req);
+        if (actor.role !== ROLES.ADMIN) {
+            return res.status(403).json(NOT_YOURS);
+        }
+        const { status } = req.query;
+        const query = status ? { status } : {};
+        const requests = await Return.find(query).select(WITHOUT_PHOTOS).sort('-createdAt').lean();
+        const escalated = requests.filter(rma => rma.status === RETURN_STATUS.ESCALATED);
+        const rest = requests.filter(rma => rma.status !== RETURN_STATUS.ESCALATED);
+        res.json({ success: true, data: [...escalated, ...rest].map(rma => summaryOf(rma, actor)) });
+    } catch (error) {
+        sendError(res, error, 'Failed to fetch returns');
+    }
+});
+
+// A customer's return requests
+router.get('/user/:userId', async (req, res) => {
+    try {
+        const actor = await actorOf(req);
+        if (actor.role !== ROLES.ADMIN && String(actor.id) !== String(req.params.userId)) {
+            return res.status(403).json(NOT_YOURS);
+        }
+        const requests = await Return.find({ customerId: req.params.userId })
+            .select(WITHOUT_PHOTOS)
+            .sort('-createdAt')
+            .lean();
+        res.json({ success: true, data: requests.map(rma => summaryOf(rma, actor)) });
+    } catch (error) {
+        sendError(res, error, 'Failed to fetch returns');
+    }
+});
+
+// Return requests for a vendor's items
+router.get('/vendor/:vendorId', async (req, res) => {
+    try {
+        const actor = await actorOf(req);
+        if (actor.role !== ROLES.ADMIN && !(actor.role === ROLES.VENDOR && isVendor(actor, req.params.vendorId))) {
+            return res.status(403).json(NOT_YOURS);
+        }
+        const requests = await Return.find({ vendorId: req.params.vendorId })
+            .select(WITHOUT_PHOTOS)
+            .sort('-createdAt')
+            .lean();
+        res.json({ success: true, data: requests.map(rma => summaryOf(rma, actor)) });
+    } catch (error) {
+        sendError(res, error, 'Failed to fetch returns');
+    }
+});
+
+/**
+ * Ask to return units of one delivered order line.
+ * Body: orderId, itemId, quantity, reason (see GET /policy), details,
+ * resolution ('refund' or 'replacement') and photos as data URLs.
+ */
+router.post('/', async (req, res) => {
+    try {
+        const { orderId, itemId, quantity = 1, reason, details, resolution = 'refund', photos: dataUrls } = req.body;
+        const actor = await actorOf(req);
+
+        if (!REASONS[reason]) {
+            return res.status(400).json({ success: false, error: 'Choose a reason for the return' });
+        }
+        if (!['refund', 'replacement'].includes(resolution)) {
+            return res.status(400).json({ success: false, error: 'Ask for a refund or a replacement' });
+        }
+        const { photos, error: photoError } = parsePhotos(dataUrls);
+        if (photoError) {
+            return res.status(400).json({ success: false, error: photoError });
+        }
+        if (reason === 'spoiled' && photos.length === 0) {
+            return res.status(400).json({ success: false, error: 'Attach a photo of the spoiled item' });
+        }
+
+        const order = await Order.findById(orderId);
+        if (!order) {
+            return res.status(404).json({ success: false, error: 'Order not found' });
+        }
+        if (actor.role !== ROLES.ADMIN && String(order.customerId) !== String(actor.id)) {
+            return res.status(403).json({ success: false, error: 'Not allowed to return items from this order' });
+        }
+        const item = order.items.id(itemId);
+        if (!item) {
+            return res.status(404).json({ success: false, error: 'Order has no such item' });
+        }
+
+        const existing = await Return.find({ orderId: String(order._id) }).select(WITHOUT_PHOTOS).lean();
+        const returnable = returnableQuantity(order, item, existing);
+        const units = Number(quantity);
+        if (!Number.isInteger(units) || units < 1 || units > returnable.quantity) {
+            return res.status(409).json({
+                success: false,
+                error: returnable.reason || `Only ${returnable.quantity} of ${item.productName} can be returned`
+            });
+        }
+
+        const rma = new Return({
+            orderId: String(order._id),
+            orderNumber: order.orderNumber,
+            customerId: order.customerId,
+            vendorId: item.vendorId,
+            vendorName: item.vendorName,
+            itemId: String(item._id),
+            productId: item.productId,
+            productName: item.productName,
+            productImage: item.productImage,
+            quantity: units,
+            reason,
+            details,
+            photos,
+            resolution
+        });
+        rma.statusHistory.push({ to: RETURN_STATUS.REQUESTED, actorId: actor.id, actorRole: actor.role, note: REASONS[reason] });
+        await rma.save();
+
+        res.status(201).json({ success: true, message: 'Return requested', data: summaryOf(rma, actor) });
+    } catch (error) {
+        sendError(res, error, 'Failed to request return');
+    }
+});
+
+// Get a return request
+router.get('/:returnId', async (req, res) => {
+    try {
+        const actor = await actorOf(req);
+        const rma = await Return.findById(req.params.returnId).select(WITHOUT_PHOTOS);
+        if (!rma) {
+            return res.status(404).json({ success: false, error: 'Return not found' });
+        }
+        if (!isReturnParty(rma, actor)) {
+            return res.status(403).json(NOT_YOURS);
+        }
+        res.json({ success: true, data: summaryOf(rma, actor) });
+    } catch (error) {
+        sendError(res, error, 'Failed to fetch return');
+    }
+});
+
+// One of the photos attached to a return request, for its customer, vendor or an admin
+router.get('/:returnId/photos/:index', async (req, res) => {
+    try {
+        const actor = await actorOf(req);
+        const rma = await Return.findById(req.params.returnId).select('photos customerId vendorId').lean();
+        if (rma && !isReturnParty(rma, actor)) {
+            return res.status(403).json(NOT_YOURS);
+        }
+        const photo = rma?.photos?.[parseInt(req.params.index, 10)];
+        if (!photo) {
+            return res.status(404).json({ success: false, error: 'Photo not found' });
+        }
+        res.type(photo.contentType).send(photo.data.buffer || photo.data);
+    } catch (error) {
+        sendError(res, error, 'Failed to fetch photo');
+    }
+});
+
+/**
+ * Approve or reject a return: `decision` is 'approve' or 'reject'. Vendors
+ * decide on their own items through the vendor route, admins on anything
+ * including disputed requests. An approval refunds or replaces the item before
+ * answering.
+ */
+router.put(['/:returnId/decision', '/vendor/:vendorId/:returnId/decision'], async (req, res) => {
+    try {
+        const { decision, note } = req.body;
+        if (!['approve', 'reject'].includes(decision)) {
+            return res.status(400).json({ success: false, error: "decision must be 'approve' or 'reject'" });
+        }
+
+        const rma = await Return.findById(req.params.returnId).select(WITHOUT_PHOTOS);
+        if (!rma) {
+            return res.status(404).json({ success: false, error: 'Return not found' });
+        }
+
+        const actor = await actorOf(req);
+        transitionReturn(rma, decision === 'approve' ? RETURN_STATUS.APPROVED : RETURN_STATUS.REJECTED, actor, note);
+        if (decision === 'approve') {
+            await resolveReturn(rma, actor);
+        } else {
+            await rma.save();
+        }
+
+        res.json({ success: true, message: `Return ${rma.status.toLowerCase()}`, data: summaryOf(rma, actor) });
+    } catch (error) {
+        sendError(res, error, 'Failed to decide return');
+    }
+});
+
+// Take a rejected return to an admin. Only once: an admin's decision is final.
+router.post('/:returnId/escalate', async (req, res) => {
+    try {
+        const rma = await Return.findById(req.params.returnId).select(WITHOUT_PHOTOS);
+        if (!rma) {
+            return res.status(404).json({ success: false, error: 'Return not found' });
+        }
+        if (rma.escalatedAt) {
+            return res.status(409).json({ success: false, error: 'An admin has already decided on this return' });
+        }
+
+        const actor = await actorOf(req);
+        transitionReturn(rma, RETURN_STATUS.ESCALATED, actor, req.body.note);
+        await rma.save();
+
+        res.json({ success: true, message: 'Return sent to an admin', data: summaryOf(rma, actor) });
+    } catch (error) {
+        sendError(res, error, 'Failed to escalate return');
+    }
+});
+
+// Retry the refund or replacement of an approved return that failed
+router.post('/:returnId/resolve', async (req, res) => {
+    try {
+        const rma = await Return.findById(req.params.returnId).select(WITHOUT_PHOTOS);
+        if (!rma) {
+            return res.status(404).json({ success: false, error: 'Return not found' });
+        }
+        const actor = await actorOf(req);
+        if (actor.role !== ROLES.ADMIN) {
+            return res.status(403).json({ success: false, error: 'Only admins can retry a return' });
+        }
+        if (rma.status !== RETURN_STATUS.APPROVED) {
+            return res.status(409).json({ success: false, error: `Return is ${rma.status}, not awaiting a refund or replacement` });
+        }
+
+        await resolveReturn(rma, actor);
+        res.json({ success: true, data: summaryOf(rma, actor) });
+    } catch (error) {
+        sendError(res, error, 'Failed to resolve return');
+    }
+});
+
+module.exports = router;
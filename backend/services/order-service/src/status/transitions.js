@@ -0,0 +1,349 @@
+/**
+ * Order Status Transitions
+ * The moves an order, its shipments and its return requests may make between
+ * statuses, who may make each one, and the history they leave behind.
+ *
+ * The statuses are ORDER_STATUS from packages/shared/constants.js. Services are
+ * built from their own directory, so they are repeated here rather than imported.
+ */
+
+const { isInternal } = require('../internal');
+const { vendorIdsOf } = require('../vendors');
+
+const ORDER_STATUS = {
+    PENDING: 'Pending',
+    PENDING_PAYMENT: 'Pending Payment',
+    CONFIRMED: 'Confirmed',
+    PROCESSING: 'Processing',
+    SHIPPED: 'Shipped',
+    OUT_FOR_DELIVERY: 'Out for Delivery',
+    DELIVERED: 'Delivered',
+    CANCELLED: 'Cancelled',
+    REFUNDED: 'Refunded'
+};
+
+// A vendor's part of an order (see src/fulfilment/shipments.js)
+const SHIPMENT_STATUS = {
+    PENDING: 'Pending',
+    ACCEPTED: 'Accepted',
+    PACKED: 'Packed',
+    SHIPPED: 'Shipped',
+    OUT_FOR_DELIVERY: 'Out for Delivery',
+    DELIVERED: 'Delivered',
+    CANCELLED: 'Cancelled'
+};
+
+// A customer's request to return an item (see src/returns)
+const RETURN_STATUS = {
+    REQUESTED: 'Requested',
+    APPROVED: 'Approved',
+    REJECTED: 'Rejected',
+    ESCALATED: 'Escalated',
+    REFUNDED: 'Refunded',
+    REPLACED: 'Replaced'
+};
+
+// `System` is another service acting on an order, e.g. payment-service
+// confirming it once paid, or order-service itself following the shipments
+const ROLES = {
+    CUSTOMER: 'Customer',
+    VENDOR: 'Vendor',
+    ADMIN: 'Admin',
+    SYSTEM: 'System'
+};
+
+const { CUSTOMER, VENDOR, ADMIN, SYSTEM } = ROLES;
+
+// Business accounts shop like customers
+const ROLE_ALIASES = { Company: CUSTOMER };
+
+/**
+ * For each status, the statuses it may move to and the roles allowed to make
+ * that move. Anything not listed is refused. Refunds are made by admins in
+ * payment-service, which then records them here as System. Fulfilment, from
+ * Processing to Delivered, follows the order's shipments and is only moved by
+ * System.
+ */
+const TRANSITIONS = {
+    [ORDER_STATUS.PENDING]: {
+        [ORDER_STATUS.PENDING_PAYMENT]: [SYSTEM],
+        [ORDER_STATUS.CONFIRMED]: [ADMIN, SYSTEM],
+        [ORDER_STATUS.CANCELLED]: [CUSTOMER, ADMIN, SYSTEM]
+    },
+    [ORDER_STATUS.PENDING_PAYMENT]: {
+        [ORDER_STATUS.CONFIRMED]: [ADMIN, SYSTEM],
+        [ORDER_STATUS.CANCELLED]: [CUSTOMER, ADMIN, SYSTEM]
+    },
+    [ORDER_STATUS.CONFIRMED]: {
+        [ORDER_STATUS.PROCESSING]: [SYSTEM],
+        [ORDER_STATUS.CANCELLED]: [CUSTOMER, ADMIN, SYSTEM],
+        [ORDER_STATUS.REFUNDED]: [ADMIN, SYSTEM]
+    },
+    [ORDER_STATUS.PROCESSING]: {
+        [ORDER_STATUS.SHIPPED]: [SYSTEM],
+        [ORDER_STATUS.CANCELLED]: [ADMIN, SYSTEM],
+        [ORDER_STATUS.REFUNDED]: [ADMIN, SYSTEM]
+    },
+    [ORDER_STATUS.SHIPPED]: {
+        [ORDER_STATUS.OUT_FOR_DELIVERY]: [SYSTEM],
+        [ORDER_STATUS.DELIVERED]: [SYSTEM],
+        [ORDER_STATUS.REFUNDED]: [ADMIN, SYSTEM]
+    },
+    [ORDER_STATUS.OUT_FOR_DELIVERY]: {
+        [ORDER_STATUS.DELIVERED]: [SYSTEM],
+        [ORDER_STATUS.REFUNDED]: [ADMIN, SYSTEM]
+    },
+    [ORDER_STATUS.DELIVERED]: {
+        [ORDER_STATUS.REFUNDED]: [ADMIN, SYSTEM]
+    },
+    [ORDER_STATUS.CANCELLED]: {
+        [ORDER_STATUS.REFUNDED]: [ADMIN, SYSTEM]
+    },
+    [ORDER_STATUS.REFUNDED]: {}
+};
+
+// Vendors accept, pack and hand over their own shipment; delivery is then
+// recorded by an admin or the delivery side
+const SHIPMENT_TRANSITIONS = {
+    [SHIPMENT_STATUS.PENDING]: {
+        [SHIPMENT_STATUS.ACCEPTED]: [VENDOR, ADMIN],
+        [SHIPMENT_STATUS.CANCELLED]: [VENDOR, ADMIN, SYSTEM]
+    },
+    [SHIPMENT_STATUS.ACCEPTED]: {
+        [SHIPMENT_STATUS.PACKED]: [VENDOR, ADMIN],
+        [SHIPMENT_STATUS.CANCELLED]: [ADMIN, SYSTEM]
+    },
+    [SHIPMENT_STATUS.PACKED]: {
+        [SHIPMENT_STATUS.SHIPPED]: [VENDOR, ADMIN],
+        [SHIPMENT_STATUS.CANCELLED]: [ADMIN, SYSTEM]
+    },
+    [SHIPMENT_STATUS.SHIPPED]: {
+        [SHIPMENT_STATUS.OUT_FOR_DELIVERY]: [ADMIN, SYSTEM],
+        [SHIPMENT_STATUS.DELIVERED]: [ADMIN, SYSTEM]
+    },
+    [SHIPMENT_STATUS.OUT_FOR_DELIVERY]: {
+        [SHIPMENT_STATUS.DELIVERED]: [ADMIN, SYSTEM]
+    },
+    [SHIPMENT_STATUS.DELIVERED]: {},
+    [SHIPMENT_STATUS.CANCELLED]: {}
+};
+
+// The vendor decides first; a customer may take a rejection to an admin once,
+// whose decision is final. Approved returns are then refunded or replaced.
+const RETURN_TRANSITIONS = {
+    [RETURN_STATUS.REQUESTED]: {
+        [RETURN_STATUS.APPROVED]: [VENDOR, ADMIN],
+        [RETURN_STATUS.REJECTED]: [VENDOR, ADMIN]
+    },
+    [RETURN_STATUS.REJECTED]: {
+        [RETURN_STATUS.ESCALATED]: [CUSTOMER]
+    },
+    [RETURN_STATUS.ESCALATED]: {
+        [RETURN_STATUS.APPROVED]: [ADMIN],
+        [RETURN_STATUS.REJECTED]: [ADMIN]
+    },
+    [RETURN_STATUS.APPROVED]: {
+        [RETURN_STATUS.REFUNDED]: [ADMIN, SYSTEM],
+        [RETURN_STATUS.REPLACED]: [ADMIN, SYSTEM]
+    },
+    [RETURN_STATUS.REFUNDED]: {},
+    [RETURN_STATUS.REPLACED]: {}
+};
+
+// Timestamp fields stamped when an order reaches a status
+const STATUS_TIMESTAMPS = {
+    [ORDER_STATUS.CONFIRMED]: 'confirmedAt',
+    [ORDER_STATUS.SHIPPED]: 'shippedAt',
+    [ORDER_STATUS.DELIVERED]: 'deliveredAt',
+    [ORDER_STATUS.CANCELLED]: 'cancelledAt'
+};
+
+const RETURN_TIMESTAMPS = {
+    [RETURN_STATUS.ESCALATED]: 'escalatedAt',
+    [RETURN_STATUS.REFUNDED]: 'resolvedAt',
+    [RETURN_STATUS.REPLACED]: 'resolvedAt'
+};
+
+const SHIPMENT_TIMESTAMPS = {
+    [SHIPMENT_STATUS.ACCEPTED]: 'acceptedAt',
+    [SHIPMENT_STATUS.PACKED]: 'packedAt',
+    [SHIPMENT_STATUS.SHIPPED]: 'shippedAt',
+    [SHIPMENT_STATUS.OUT_FOR_DELIVERY]: 'outForDeliveryAt',
+    [SHIPMENT_STATUS.DELIVERED]: 'deliveredAt',
+    [SHIPMENT_STATUS.CANCELLED]: 'cancelledAt'
+};
+
+class TransitionError extends Error {
+    constructor(message, statusCode) {
+        super(message);
+        this.statusCode = statusCode;
+    }
+}
+
+// Who is acting: another service calling with the internal token, or the user
+// whose token the gateway verified. The gateway drops identity headers it did
+// not set itself, so a call without them is refused rather than guessed at.
+// A vendor acts under the ids of the signed-in user (see src/vendors.js), and
+// may not use a route that names another vendor.
+const actorOf = async (req) => {
+    if (isInternal(req)) return { id: 'internal', role: SYSTEM };
+    const id = req.headers['x-user-id'];
+    const role = ROLE_ALIASES[req.headers['x-user-role']] || req.headers['x-user-role'];
+    if (!id || !role) {
+        throw new TransitionError('Sign in to continue', 401);
+    }
+    if (role !== VENDOR) return { id, role };
+
+    const vendorIds = await vendorIdsOf(id);
+    if (req.params.vendorId && !vendorIds.includes(String(req.params.vendorId))) {
+        throw new TransitionError('Vendors can only act for themselves', 403);
+    }
+    return { id, role, vendorIds };
+};
+
+const isVendor = (actor, vendorId) => (actor.vendorIds || [String(actor.id)]).includes(String(vendorId));
+
+// Customers act on their own orders only, vendors on orders with their items
+const isParty = (order, actor) => {
+    if (actor.role === CUSTOMER) return String(order.customerId) === String(actor.id);
+    if (actor.role === VENDOR) return order.items.some(item => isVendor(actor, item.vendorId));
+    return true;
+};
+
+// A return concerns the customer who asked and the vendor who sold the item
+const isReturnParty = (rma, actor) => {
+    if (actor.role === CUSTOMER) return String(rma.customerId) === String(actor.id);
+    if (actor.role === VENDOR) return isVendor(actor, rma.vendorId);
+    return true;
+};
+
+// ...and vendors on their own shipment only
+const isShipmentParty = (order, shipment, actor) =>
+    actor.role === VENDOR ? isVendor(actor, shipment.vendorId) : isParty(order, actor);
+
+const movesFrom = (graph, status, actor) => Object.entries(graph[status] || {})
+    .filter(([, roles]) => roles.includes(actor.role))
+    .map(([next]) => next);
+
+const assertMove = (graph, what, from, to, actor, party) => {
+    if (!graph[to]) {
+        throw new TransitionError(`Unknown ${what} status: ${to}`, 400);
+    }
+    const roles = (graph[from] || {})[to];
+    if (!roles) {
+        throw new TransitionError(`This ${what} cannot go from ${from} to ${to}`, 409);
+    }
+    if (!roles.includes(actor.role) || !party) {
+        throw new TransitionError(`Not allowed to move this ${what} to ${to}`, 403);
+    }
+};
+
+// Append to a status history, stamping the matching timestamp
+const record = (target, timestamps, from, to, actor, note) => {
+    target.statusHistory.push({
+        from,
+        to,
+        actorId: actor.id,
+        actorRole: actor.role,
+        note,
+        at: new Date()
+    });
+    target.status = to;
+    if (timestamps[to]) target[timestamps[to]] = new Date();
+};
+
+/** Statuses `actor` may move `order` to next. */
+const nextStatuses = (order, actor) => isParty(order, actor) ? movesFrom(TRANSITIONS, order.status, actor) : [];
+
+/** Statuses `actor` may move one of `order`'s shipments to next. */
+const nextShipmentStatuses = (order, shipment, actor) =>
+    isShipmentParty(order, shipment, actor) ? movesFrom(SHIPMENT_TRANSITIONS, shipment.status, actor) : [];
+
+/**
+ * Check that `actor` may move `order` to `to`.
+ * @throws {TransitionError} with the HTTP status to answer with
+ */
+const assertTransition = (order, to, actor) =>
+    assertMove(TRANSITIONS, 'order', order.status, to, actor, isParty(order, actor));
+
+// Append to the order's status history without checking the graph, e.g. for
+// the status an order is created with
+const recordStatus = (order, to, actor, note) =>
+    record(order, STATUS_TIMESTAMPS, order.isNew ? undefined : order.status, to, actor, note);
+
+/**
+ * Move `order` to `to` on behalf of `actor`, stamping the matching timestamp
+ * and recording the move in its history. The caller saves the order.
+ * @throws {TransitionError} if the move is not allowed
+ */
+const transition = (order, to, actor, note) => {
+    assertTransition(order, to, actor);
+    recordStatus(order, to, actor, note);
+};
+
+/** Whether `actor` could move `order` to `to`, without throwing. */
+const canTransition = (order, to, actor) => {
+    try {
+        assertTransition(order, to, actor);
+        return true;
+    } catch (error) {
+        return false;
+    }
+};
+
+/**
+ * Move one of `order`'s shipments to `to` on behalf of `actor`. The caller
+ * brings the order's own status in line (see syncOrderStatus) and saves it.
+ * @throws {TransitionError} if the move is not allowed
+ */
+const transitionShipment = (order, shipment, to, actor, note) => {
+    assertMove(SHIPMENT_TRANSITIONS, 'shipment', shipment.status, to, actor, isShipmentParty(order, shipment, actor));
+    record(shipment, SHIPMENT_TIMESTAMPS, shipment.status, to, actor, note);
+};
+
+/** Statuses `actor` may move a return request to next. */
+const nextReturnStatuses = (rma, actor) =>
+    isReturnParty(rma, actor) ? movesFrom(RETURN_TRANSITIONS, rma.status, actor) : [];
+
+/**
+ * Move a return request to `to` on behalf of `actor`. The caller saves it.
+ * @throws {TransitionError} if the move is not allowed
+ */
+const transitionReturn = (rma, to, actor, note) => {
+    assertMove(RETURN_TRANSITIONS, 'return', rma.status, to, actor, isReturnParty(rma, actor));
+    record(rma, RETURN_TIMESTAMPS, rma.status, to, actor, note);
+};
+
+/** Whether `actor` could move the shipment to `to`, without throwing. */
+const canTransitionShipment = (order, shipment, to, actor) => {
+    try {
+        assertMove(SHIPMENT_TRANSITIONS, 'shipment', shipment.status, to, actor, isShipmentParty(order, shipment, actor));
+        return true;
+    } catch (error) {
+        return false;
+    }
+};
+
+module.exports = {
+    ORDER_STATUS,
+    SHIPMENT_STATUS,
+    RETURN_STATUS,
+    ROLES,
+    TRANSITIONS,
+    SHIPMENT_TRANSITIONS,
+    RETURN_TRANSITIONS,
+    TransitionError,
+    actorOf,
+    isVendor,
+    isParty,
+    isReturnParty,
+    nextStatuses,
+    nextShipmentStatuses,
+    transition,
+    canTransition,
+    recordStatus,
+    transitionShipment,
+    canTransitionShipment,
+    nextReturnStatuses,
+    transitionReturn
+};
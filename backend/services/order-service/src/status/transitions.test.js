@@ -0,0 +1,150 @@
+const {
+    ORDER_STATUS,
+    SHIPMENT_STATUS,
+    RETURN_STATUS,
+    ROLES,
+    TRANSITIONS,
+    SHIPMENT_TRANSITIONS,
+    RETURN_TRANSITIONS,
+    actorOf,
+    nextStatuses,
+    nextShipmentStatuses,
+    nextReturnStatuses,
+    transition,
+    canTransition,
+    transitionShipment,
+    transitionReturn
+} = require('./transitions');
+const { internalHeaders } = require('../internal');
+
+const customer = { id: 'c1', role: ROLES.CUSTOMER };
+const vendor = { id: 'u1', role: ROLES.VENDOR, vendorIds: ['u1', 'VND-1'] };
+const admin = { id: 'a1', role: ROLES.ADMIN };
+const system = { id: 'order-service', role: ROLES.SYSTEM };
+
+const orderIn = (status) => ({
+    status,
+    customerId: 'c1',
+    items: [{ vendorId: 'VND-1' }, { vendorId: 'VND-2' }],
+    statusHistory: []
+});
+
+const shipmentIn = (status, vendorId = 'VND-1') => ({ vendorId, status, statusHistory: [] });
+
+const returnIn = (status) => ({ status, customerId: 'c1', vendorId: 'VND-1', statusHistory: [] });
+
+const failure = (move) => {
+    try {
+        move();
+    } catch (error) {
+        return { statusCode: error.statusCode, message: error.message };
+    }
+    throw new Error('expected the move to be refused');
+};
+
+describe('status graphs', () => {
+    it.each([
+        ['order', TRANSITIONS, ORDER_STATUS],
+        ['shipment', SHIPMENT_TRANSITIONS, SHIPMENT_STATUS],
+        ['return', RETURN_TRANSITIONS, RETURN_STATUS]
+    ])('the %s graph covers every status and only moves between them', (what, graph, statuses) => {
+        expect(Object.keys(graph).sort()).toEqual(Object.values(statuses).sort());
+        for (const moves of Object.values(graph)) {
+            for (const [to, roles] of Object.entries(moves)) {
+                expect(Object.values(statuses)).toContain(to);
+                expect(roles.every(role => Object.values(ROLES).includes(role))).toBe(true);
+            }
+        }
+    });
+
+    it('ends at Refunded for orders, and at Delivered or Cancelled for shipments', () => {
+        expect(TRANSITIONS[ORDER_STATUS.REFUNDED]).toEqual({});
+        expect(SHIPMENT_TRANSITIONS[SHIPMENT_STATUS.DELIVERED]).toEqual({});
+        expect(SHIPMENT_TRANSITIONS[SHIPMENT_STATUS.CANCELLED]).toEqual({});
+    });
+});
+
+describe('order transitions', () => {
+    it('records an allowed move with its timestamp', () => {
+        const order = orderIn(ORDER_STATUS.PENDING_PAYMENT);
+        transition(order, ORDER_STATUS.CONFIRMED, system, 'Paid');
+
+        expect(order.status).toBe(ORDER_STATUS.CONFIRMED);
+        expect(order.confirmedAt).toBeInstanceOf(Date);
+        expect(order.statusHistory).toEqual([expect.objectContaining({
+            from: ORDER_STATUS.PENDING_PAYMENT,
+            to: ORDER_STATUS.CONFIRMED,
+            actorRole: ROLES.SYSTEM,
+            note: 'Paid'
+        })]);
+    });
+
+    it('answers 409 for a move the graph does not have and 403 for a role it does not allow', () => {
+        expect(failure(() => transition(orderIn(ORDER_STATUS.DELIVERED), ORDER_STATUS.PENDING, admin)).statusCode).toBe(409);
+        expect(failure(() => transition(orderIn(ORDER_STATUS.PROCESSING), ORDER_STATUS.CANCELLED, customer)).statusCode).toBe(403);
+        expect(failure(() => transition(orderIn(ORDER_STATUS.PENDING), 'Lost', admin)).statusCode).toBe(400);
+    });
+
+    it('lets customers cancel only their own orders, before fulfilment starts', () => {
+        expect(canTransition(orderIn(ORDER_STATUS.CONFIRMED), ORDER_STATUS.CANCELLED, customer)).toBe(true);
+        expect(canTransition(orderIn(ORDER_STATUS.CONFIRMED), ORDER_STATUS.CANCELLED, { ...customer, id: 'c2' })).toBe(false);
+        expect(canTransition(orderIn(ORDER_STATUS.PROCESSING), ORDER_STATUS.CANCELLED, customer)).toBe(false);
+    });
+
+    it('lists the moves open to the caller', () => {
+        expect(nextStatuses(orderIn(ORDER_STATUS.CONFIRMED), admin)).toEqual([ORDER_STATUS.CANCELLED, ORDER_STATUS.REFUNDED]);
+        expect(nextStatuses(orderIn(ORDER_STATUS.CONFIRMED), vendor)).toEqual([]);
+    });
+});
+
+describe('shipment transitions', () => {
+    it('lets a vendor move only their own shipment, under any of their ids', () => {
+        const order = orderIn(ORDER_STATUS.CONFIRMED);
+        const own = shipmentIn(SHIPMENT_STATUS.PENDING);
+        transitionShipment(order, own, SHIPMENT_STATUS.ACCEPTED, vendor);
+        expect(own.status).toBe(SHIPMENT_STATUS.ACCEPTED);
+
+        const other = shipmentIn(SHIPMENT_STATUS.PENDING, 'VND-2');
+        expect(failure(() => transitionShipment(order, other, SHIPMENT_STATUS.ACCEPTED, vendor)).statusCode).toBe(403);
+        expect(nextShipmentStatuses(order, other, vendor)).toEqual([]);
+    });
+
+    it('lets vendors cancel only before accepting', () => {
+        const order = orderIn(ORDER_STATUS.PROCESSING);
+        expect(nextShipmentStatuses(order, shipmentIn(SHIPMENT_STATUS.PENDING), vendor))
+            .toEqual([SHIPMENT_STATUS.ACCEPTED, SHIPMENT_STATUS.CANCELLED]);
+        expect(nextShipmentStatuses(order, shipmentIn(SHIPMENT_STATUS.ACCEPTED), vendor)).toEqual([SHIPMENT_STATUS.PACKED]);
+    });
+});
+
+describe('return transitions', () => {
+    it('lets the customer escalate a rejection, and only an admin decide it', () => {
+        const rma = returnIn(RETURN_STATUS.REJECTED);
+        expect(nextReturnStatuses(rma, vendor)).toEqual([]);
+        transitionReturn(rma, RETURN_STATUS.ESCALATED, customer, 'It was spoiled');
+
+        expect(rma.escalatedAt).toBeInstanceOf(Date);
+        expect(nextReturnStatuses(rma, vendor)).toEqual([]);
+        expect(nextReturnStatuses(rma, admin)).toEqual([RETURN_STATUS.APPROVED, RETURN_STATUS.REJECTED]);
+    });
+
+    it("keeps vendors to their own items' returns", () => {
+        expect(nextReturnStatuses(returnIn(RETURN_STATUS.REQUESTED), vendor)).toEqual([RETURN_STATUS.APPROVED, RETURN_STATUS.REJECTED]);
+        expect(nextReturnStatuses({ ...returnIn(RETURN_STATUS.REQUESTED), vendorId: 'VND-2' }, vendor)).toEqual([]);
+    });
+});
+
+describe('actorOf', () => {
+    const request = (headers, params = {}) => ({ headers, params });
+
+    it('refuses calls without an identity the gateway verified', async () => {
+        await expect(actorOf(request({}))).rejects.toMatchObject({ statusCode: 401 });
+        await expect(actorOf(request({ 'x-user-role': ROLES.ADMIN }))).rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('treats business accounts as customers and internal calls as System', async () => {
+        await expect(actorOf(request({ 'x-user-id': 'b1', 'x-user-role': 'Company' })))
+            .resolves.toEqual({ id: 'b1', role: ROLES.CUSTOMER });
+        await expect(actorOf(request(internalHeaders()))).resolves.toMatchObject({ role: ROLES.SYSTEM });
+    });
+});
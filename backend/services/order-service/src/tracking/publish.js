@@ -0,0 +1,43 @@
+/**
+ * Tracking
+ * What a customer following an order sees, and pushing it to them live.
+ * notification-service holds the socket connections: every client tracking an
+ * order has joined its room there, and order-service posts each new state to it.
+ */
+
+const NOTIFICATION_SERVICE_URL = process.env.NOTIFICATION_SERVICE_URL || 'http://localhost:3008';
+
+// Fields of an order that make up its tracking view
+const TRACKING_FIELDS = [
+    'orderNumber', 'status', 'statusHistory', 'orderTime', 'confirmedAt', 'shippedAt', 'deliveredAt', 'cancelledAt',
+    'trackingNumber', 'carrier', 'estimatedDelivery', 'deliverySlot', 'shipments', 'vehicle'
+];
+
+/** The tracking view of an order document or lean object. */
+const trackingOf = (order) => {
+    const data = typeof order.toObject === 'function' ? order.toObject() : order;
+    const tracking = { _id: data._id };
+    for (const field of TRACKING_FIELDS) {
+        tracking[field] = data[field];
+    }
+    return tracking;
+};
+
+/**
+ * Push an order's tracking view to everyone following it. Failures are logged,
+ * not thrown: the change is saved and the page catches up when it reconnects.
+ */
+const publishTracking = async (order) => {
+    try {
+        const response = await fetch(`${NOTIFICATION_SERVICE_URL}/tracking/${order._id}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(trackingOf(order))
+        });
+        if (!response.ok) throw new Error(`notification-service answered ${response.status}`);
+    } catch (error) {
+        console.error(`Failed to publish tracking for order ${order._id}:`, error.message);
+    }
+};
+
+module.exports = { TRACKING_FIELDS, trackingOf, publishTracking };
@@ -0,0 +1,32 @@
+/**
+ * Vendors
+ * Order items name their vendor by vendor-service's entity id, or on older
+ * products by the vendor's user id. Vendors sign in as users, so the ids a
+ * vendor acts under are looked up from the signed-in user, never taken from
+ * the route.
+ */
+
+const VENDOR_SERVICE_URL = process.env.VENDOR_SERVICE_URL || 'http://localhost:3007';
+
+/**
+ * The ids a vendor user's items may carry: their user id and, once they have
+ * registered as a vendor, their entity id. A failed lookup is logged and
+ * leaves the user id alone, so a vendor is never given someone else's items.
+ */
+const vendorIdsOf = async (userId) => {
+    const ids = [String(userId)];
+    try {
+        const response = await fetch(`${VENDOR_SERVICE_URL}/${encodeURIComponent(userId)}`);
+        if (response.ok) {
+            const [, entity] = await response.json();
+            if (entity?.entityId) ids.push(String(entity.entityId));
+        } else if (response.status !== 404) {
+            throw new Error(`vendor-service answered ${response.status}`);
+        }
+    } catch (error) {
+        console.error(`Failed to look up the vendor for user ${userId}:`, error.message);
+    }
+    return ids;
+};
+
+module.exports = { vendorIdsOf };
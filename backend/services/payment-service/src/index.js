@@ -1,6 +1,6 @@
 /**
- * Payment Service - Mock Payment Gateway
- * Simulates payment processing for portfolio demonstration
+ * Payment Service
+ * Takes payments through a pluggable provider; the local mock provider is the default
  */
 
 const express = require('express');
@@ -8,14 +8,20 @@ const mongoose = require('mongoose');
 const cors = require('cors');
 const helmet = require('helmet');
 const { v4: uuidv4 } = require('uuid');
+const { GATEWAY, getProvider, providerNameFor } = require('./providers');
+const hostedFields = require('./providers/hosted-fields');
+const { Refund, priceRefundLines, round } = require('./refunds');
+const { isInternal, internalHeaders } = require('./internal');
 
 const app = express();
 const PORT = process.env.PORT || 3006;
+const ORDER_SERVICE_URL = process.env.ORDER_SERVICE_URL || 'http://localhost:3004';
 
 // Middleware
 app.use(helmet());
 app.use(cors({ origin: '*', credentials: true }));
-app.use(express.json());
+// Webhook signatures are computed over the body exactly as it was sent
+app.use(express.json({ verify: (req, res, buf) => { req.rawBody = buf.toString('utf8'); } }));
 
 // Payment Schema
 const paymentSchema = new mongoose.Schema({
@@ -31,57 +37,232 @@ const paymentSchema = new mongoose.Schema({
     },
     status: {
         type: String,
-        enum: ['initiated', 'processing', 'completed', 'failed', 'refunded', 'cancelled'],
+        enum: ['initiated', 'processing', 'completed', 'failed', 'partially_refunded', 'refunded', 'cancelled'],
         default: 'initiated'
     },
+    // Which provider took the payment and its id there
+    provider: { type: String, default: 'mock' },
+    providerPaymentId: { type: String, index: true },
     gatewayResponse: { type: mongoose.Schema.Types.Mixed },
+    cardBrand: String,
     cardLast4: String,
     upiId: String,
-    refundAmount: Number,
-    refundReason: String,
+    // Running total of the refund ledger (see src/refunds.js)
+    refundedAmount: { type: Number, default: 0 },
     refundedAt: Date,
+    // Copy of the order's itemized quote; receipts are printed from it
+    pricing: { type: mongoose.Schema.Types.Mixed },
+    failedReason: String,
+    // One per checkout attempt; a repeated initiate with the same key gets this payment back
+    idempotencyKey: { type: String, unique: true, sparse: true },
     metadata: { type: Map, of: String }
 }, { timestamps: true });
 
 const Payment = mongoose.model('Payment', paymentSchema);
 
+// Fetch an order from order-service; resolves null when it does not exist
+const fetchOrder = async (orderId) => {
+    const response = await fetch(`${ORDER_SERVICE_URL}/orders/${orderId}`, { headers: internalHeaders() });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+        throw new Error(`Order service answered ${response.status}`);
+    }
+    const { data } = await response.json();
+    return data;
+};
+
+// Have order-service hold the order's units for this attempt: a failed payment
+// gave them back, and the hold runs out. Answers its refusal as it came.
+const holdStock = async (orderId) => {
+    const response = await fetch(`${ORDER_SERVICE_URL}/orders/${orderId}/stock-hold`, {
+        method: 'POST',
+        headers: internalHeaders()
+    });
+    if (response.ok) return null;
+    const body = await response.json().catch(() => ({}));
+    return { status: response.status, body: { success: false, error: 'Could not hold stock for this order', ...body } };
+};
+
+// Add `amount` to a payment's refunded total in one guarded update, so two
+// refunds made at once can never together pass what was captured. Resolves
+// to the payment, or null when it is not refundable or too little is left.
+const claimRefund = (paymentId, amount) => Payment.findOneAndUpdate(
+    {
+        paymentId,
+        status: { $in: ['completed', 'partially_refunded'] },
+        $expr: { $lte: [{ $round: [{ $add: ['$refundedAmount', amount] }, 2] }, '$amount'] }
+    },
+    [
+        { $set: { refundedAmount: { $round: [{ $add: ['$refundedAmount', amount] }, 2] }, refundedAt: '$$NOW' } },
+        { $set: { status: { $cond: [{ $gte: ['$refundedAmount', '$amount'] }, 'refunded', 'partially_refunded'] } } }
+    ],
+    { new: true }
+);
+
+// Give back a claim whose refund the provider did not make
+const releaseRefund = (paymentId, amount) => Payment.updateOne({ paymentId }, [
+    { $set: { refundedAmount: { $round: [{ $subtract: ['$refundedAmount', amount] }, 2] } } },
+    { $set: { status: { $cond: [{ $gt: ['$refundedAmount', 0] }, 'partially_refunded', 'completed'] } } }
+]);
+
+// Tell order-service how a payment attempt ended. Order-service treats a repeat
+// as a no-op, so this is called on every settle, including replays.
+const reportToOrder = async (payment) => {
+    try {
+        const response = await fetch(`${ORDER_SERVICE_URL}/orders/${payment.orderId}/payment`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json', ...internalHeaders() },
+            body: JSON.stringify({
+                paymentId: payment.paymentId,
+                status: payment.status,
+                reason: payment.failedReason
+            })
+        });
+        if (!response.ok) throw new Error(`Order service answered ${response.status}`);
+    } catch (error) {
+        console.error(`Failed to report payment ${payment.paymentId} to order-service:`, error.message);
+    }
+};
+
+// Payment method names used by the storefront
+const STOREFRONT_METHODS = {
+    cash_on_delivery: 'cod',
+    card: 'card',
+    bank_transfer: 'netbanking',
+    qr_code: 'upi'
+};
+
+// Record what the provider said about a payment
+const applyResult = (payment, result) => {
+    payment.status = result.status;
+    payment.failedReason = result.status === 'failed' ? result.failedReason : undefined;
+    if (result.cardBrand) payment.cardBrand = result.cardBrand;
+    if (result.cardLast4) payment.cardLast4 = result.cardLast4;
+    payment.gatewayResponse = {
+        ...payment.gatewayResponse,
+        transactionId: result.transactionId || payment.gatewayResponse?.transactionId,
+        processedAt: new Date()
+    };
+};
+
+// Cash orders are confirmed at creation and paid on delivery
+const reportIfSettled = async (payment) => {
+    if (payment.method !== 'cod' && ['completed', 'failed'].includes(payment.status)) {
+        await reportToOrder(payment);
+    }
+};
+
+/**
+ * Charge a payment through its provider. A payment that already has a final
+ * status, or is waiting on the provider's webhook, is returned as is, so
+ * retrying a request never charges twice.
+ */
+const settlePayment = async (payment, details) => {
+    if (payment.status === 'initiated') {
+        if (details?.upiId) payment.upiId = details.upiId;
+        const result = await getProvider(payment.provider).confirm(payment, details);
+        applyResult(payment, result);
+        await payment.save();
+        console.log(`Payment ${payment.status}: ${payment.paymentId}`);
+    }
+
+    await reportIfSettled(payment);
+    return payment;
+};
+
+const summaryOf = (payment) => ({
+    paymentId: payment.paymentId,
+    orderId: payment.orderId,
+    status: payment.status,
+    amount: payment.amount,
+    currency: payment.currency,
+    method: payment.method,
+    transactionId: payment.gatewayResponse?.transactionId,
+    cardBrand: payment.cardBrand,
+    cardLast4: payment.cardLast4,
+    failedReason: payment.failedReason
+});
+
 // Health Check
 app.get('/health', (req, res) => {
-    res.json({ status: 'healthy', service: 'payment-service', gateway: 'mock' });
+    res.json({ status: 'healthy', service: 'payment-service', gateway: GATEWAY });
 });
 
+// Card entry for the mock provider; real providers host their own
+if (GATEWAY === 'mock') {
+    app.use('/hosted-fields', hostedFields);
+}
+
 // Initiate payment
 app.post('/initiate', async (req, res) => {
     try {
-        const { orderId, userId, amount, method, cardDetails, upiId } = req.body;
+        const { orderId, userId } = req.body;
+        const method = req.body.method || STOREFRONT_METHODS[req.body.paymentMethod];
+        const idempotencyKey = req.headers['idempotency-key'] || req.body.idempotencyKey;
+
+        if (idempotencyKey) {
+            const existing = await Payment.findOne({ idempotencyKey });
+            if (existing) {
+                if (existing.orderId !== orderId) {
+                    return res.status(422).json({ success: false, error: 'Idempotency key was already used for another order' });
+                }
+                return res.json({ success: true, data: summaryOf(existing), replayed: true });
+            }
+        }
 
-        const payment = await Payment.create({
+        // Charge what the order was priced at, not an amount sent by the client
+        const order = await fetchOrder(orderId);
+        if (!order) {
+            return res.status(404).json({ success: false, error: 'Order not found' });
+        }
+        if (order.paymentStatus === 'paid') {
+            return res.status(409).json({ success: false, error: 'Order is already paid' });
+        }
+        if (order.status === 'Cancelled') {
+            return res.status(409).json({ success: false, error: 'Order has been cancelled' });
+        }
+
+        // An attempt the provider is still settling may yet succeed; starting
+        // another could charge the customer twice
+        const processing = await Payment.findOne({ orderId, status: 'processing' });
+        if (processing) {
+            return res.status(409).json({
+                success: false,
+                error: 'A payment for this order is still being processed',
+                data: summaryOf(processing)
+            });
+        }
+
+        // Never charge for units that are no longer there
+        const refused = await holdStock(orderId);
+        if (refused) {
+            return res.status(refused.status).json(refused.body);
+        }
+
+        // Only the newest attempt for an order may be processed
+        await Payment.updateMany({ orderId, status: 'initiated' }, { $set: { status: 'cancelled' } });
+
+        const payment = new Payment({
             orderId,
             userId: userId || req.headers['x-user-id'],
-            amount,
+            amount: order.totalAmount,
+            pricing: order.pricing,
             method,
+            provider: providerNameFor(method),
             status: 'initiated',
-            cardLast4: cardDetails?.number?.slice(-4),
-            upiId
+            idempotencyKey
         });
+        const { providerPaymentId, nextAction } = await getProvider(payment.provider).initiate(payment);
+        payment.providerPaymentId = providerPaymentId;
+        await payment.save();
 
-        // Simulate payment gateway response
-        const mockGatewayResponse = {
-            gatewayPaymentId: `mock_${uuidv4()}`,
-            redirectUrl: `http://localhost:3000/payment-success?paymentId=${payment.paymentId}`,
-            qrCode: method === 'upi' ? 'upi://pay?pa=ecoharvest@upi&pn=EcoHarvest' : null
-        };
-
-        console.log(`Payment initiated: ${payment.paymentId} for order ${orderId}`);
+        console.log(`Payment initiated: ${payment.paymentId} for order ${orderId} via ${payment.provider}`);
 
         res.status(201).json({
             success: true,
             data: {
-                paymentId: payment.paymentId,
-                amount: payment.amount,
-                currency: payment.currency,
-                status: payment.status,
-                ...mockGatewayResponse
+                ...summaryOf(payment),
+                nextAction
             }
         });
     } catch (error) {
@@ -90,33 +271,18 @@ app.post('/initiate', async (req, res) => {
     }
 });
 
-// Confirm/Complete payment (Mock - always succeeds for demo)
+// Confirm/Complete payment
 app.post('/confirm', async (req, res) => {
     try {
-        const { paymentId, gatewayResponse } = req.body;
+        const { paymentId, token, upiId } = req.body;
 
         const payment = await Payment.findOne({ paymentId });
         if (!payment) {
             return res.status(404).json({ success: false, error: 'Payment not found' });
         }
 
-        // Simulate processing delay
-        await new Promise(resolve => setTimeout(resolve, 500));
-
-        // Mock success (90% success rate for realism)
-        const isSuccess = Math.random() > 0.1;
-
-        payment.status = isSuccess ? 'completed' : 'failed';
-        payment.gatewayResponse = {
-            ...gatewayResponse,
-            mockStatus: isSuccess ? 'SUCCESS' : 'FAILED',
-            transactionId: `txn_${uuidv4()}`,
-            processedAt: new Date()
-        };
-
-        await payment.save();
-
-        console.log(`Payment ${isSuccess ? 'completed' : 'failed'}: ${paymentId}`);
+        await settlePayment(payment, { token, upiId });
+        const isSuccess = payment.status === 'completed';
 
         res.json({
             success: isSuccess,
@@ -125,7 +291,7 @@ app.post('/confirm', async (req, res) => {
                 orderId: payment.orderId,
                 status: payment.status,
                 amount: payment.amount,
-                transactionId: payment.gatewayResponse.transactionId
+                transactionId: payment.gatewayResponse?.transactionId
             },
             message: isSuccess ? 'Payment successful' : 'Payment failed'
         });
@@ -135,6 +301,75 @@ app.post('/confirm', async (req, res) => {
     }
 });
 
+// Process a payment from the storefront checkout. Always answers 200 with the
+// payment's status; a declined payment is a result, not an error. Cards are
+// paid with a token from the hosted fields, never with the card number.
+app.post('/process/:paymentId', async (req, res) => {
+    try {
+        const payment = await Payment.findOne({ paymentId: req.params.paymentId });
+        if (!payment) {
+            return res.status(404).json({ success: false, error: 'Payment not found' });
+        }
+        if (payment.status === 'cancelled') {
+            return res.status(409).json({ success: false, error: 'A newer payment attempt exists for this order' });
+        }
+
+        if (req.body.cardNumber) {
+            return res.status(400).json({ success: false, error: 'Send a card token from the hosted fields, not card details' });
+        }
+
+        await settlePayment(payment, { token: req.body.token, upiId: req.body.upiId });
+
+        res.json({ success: true, data: summaryOf(payment) });
+    } catch (error) {
+        console.error('Process payment error:', error);
+        res.status(500).json({ success: false, error: 'Failed to process payment' });
+    }
+});
+
+// Payment method names used by the storefront, by ours
+const STOREFRONT_METHOD_NAMES = Object.fromEntries(
+    Object.entries(STOREFRONT_METHODS).map(([storefront, method]) => [method, storefront])
+);
+
+const receiptNumberOf = (payment) => `RCP-${payment.paymentId.slice(-10).toUpperCase()}`;
+
+// A payment as the admin dashboard lists it
+const listingOf = (payment) => {
+    const quote = payment.pricing || {};
+    return {
+        _id: payment._id,
+        paymentId: payment.paymentId,
+        orderId: payment.orderId,
+        userId: payment.userId,
+        transactionId: payment.gatewayResponse?.transactionId || payment.paymentId,
+        receiptNumber: receiptNumberOf(payment),
+        paymentMethod: STOREFRONT_METHOD_NAMES[payment.method] || payment.method,
+        amount: {
+            subtotal: quote.subtotal ?? payment.amount,
+            discount: quote.promotionDiscount ?? 0,
+            tax: quote.tax ?? 0,
+            deliveryFee: quote.deliveryFee ?? 0,
+            total: payment.amount
+        },
+        refundedAmount: payment.refundedAmount || 0,
+        couponCode: quote.coupon?.applied ? quote.coupon.code : undefined,
+        status: payment.status,
+        createdAt: payment.createdAt
+    };
+};
+
+// All payments, newest first (admin)
+app.get('/', async (req, res) => {
+    try {
+        const payments = await Payment.find().sort('-createdAt').lean();
+        res.json({ success: true, data: payments.map(listingOf) });
+    } catch (error) {
+        console.error('List payments error:', error);
+        res.status(500).json({ success: false, error: 'Failed to get payments' });
+    }
+});
+
 // Get payment by ID
 app.get('/:paymentId', async (req, res) => {
     try {
@@ -148,6 +383,71 @@ app.get('/:paymentId', async (req, res) => {
     }
 });
 
+// Receipt for a payment, itemized from the quote the order was placed with
+app.get('/:paymentId/receipt', async (req, res) => {
+    try {
+        const payment = await Payment.findOne({ paymentId: req.params.paymentId }).lean();
+        if (!payment) {
+            return res.status(404).json({ success: false, error: 'Payment not found' });
+        }
+        if (!['completed', 'partially_refunded', 'refunded'].includes(payment.status)) {
+            return res.status(400).json({ success: false, error: 'Payment has not been completed' });
+        }
+
+        const quote = payment.pricing || {};
+        const refunds = await Refund.find({ paymentId: payment.paymentId }).sort('createdAt').lean();
+        const refundedUnits = (productId) => refunds
+            .flatMap(refund => refund.lines)
+            .filter(line => line.productId === productId)
+            .reduce((sum, line) => sum + line.quantity, 0);
+
+        res.json({
+            success: true,
+            data: {
+                receiptNumber: receiptNumberOf(payment),
+                transactionId: payment.gatewayResponse?.transactionId,
+                orderId: payment.orderId,
+                items: (quote.lines || []).map(line => ({
+                    productName: line.name,
+                    quantity: line.quantity,
+                    unitPrice: line.discountedUnitPrice,
+                    total: line.lineTotal,
+                    refundedQuantity: refundedUnits(line.productId)
+                })),
+                amounts: {
+                    subtotal: quote.subtotal ?? payment.amount,
+                    discount: quote.promotionDiscount ?? 0,
+                    tax: quote.tax ?? 0,
+                    deliveryFee: quote.deliveryFee ?? 0,
+                    total: payment.amount,
+                    refunded: payment.refundedAmount || 0,
+                    netTotal: round(payment.amount - (payment.refundedAmount || 0))
+                },
+                refunds: refunds.map(refund => ({
+                    refundId: refund.refundId,
+                    amount: refund.amount,
+                    reason: refund.reason,
+                    createdAt: refund.createdAt,
+                    lines: refund.lines.map(line => ({
+                        productName: line.productName,
+                        quantity: line.quantity,
+                        amount: line.amount
+                    }))
+                })),
+                couponCode: quote.coupon?.applied ? quote.coupon.code : null,
+                promotions: (quote.promotions || [])
+                    .filter(promotion => promotion.applied)
+                    .map(promotion => ({ name: promotion.name, discount: promotion.discount })),
+                paymentMethod: payment.method,
+                issuedAt: payment.updatedAt
+            }
+        });
+    } catch (error) {
+        console.error('Get receipt error:', error);
+        res.status(500).json({ success: false, error: 'Failed to get receipt' });
+    }
+});
+
 // Get payments by user
 app.get('/user/:userId', async (req, res) => {
     try {
@@ -160,10 +460,54 @@ app.get('/user/:userId', async (req, res) => {
     }
 });
 
-// Refund payment
+// Tell order-service about a refund so it can mark the items and restock them.
+// Order-service ignores a refund it has already recorded.
+const reportRefundToOrder = async (payment, refund) => {
+    try {
+        const response = await fetch(`${ORDER_SERVICE_URL}/orders/${payment.orderId}/refunds`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...internalHeaders() },
+            body: JSON.stringify({
+                refundId: refund.refundId,
+                paymentId: payment.paymentId,
+                amount: refund.amount,
+                reason: refund.reason,
+                lines: refund.lines.map(line => ({ itemId: line.itemId, quantity: line.quantity })),
+                restock: refund.restock,
+                paymentStatus: payment.status
+            })
+        });
+        if (!response.ok) throw new Error(`Order service answered ${response.status}`);
+    } catch (error) {
+        console.error(`Failed to report refund ${refund.refundId} to order-service:`, error.message);
+    }
+};
+
+// Refunds recorded against a payment, oldest first
+app.get('/:paymentId/refunds', async (req, res) => {
+    try {
+        const refunds = await Refund.find({ paymentId: req.params.paymentId }).sort('createdAt').lean();
+        res.json({ success: true, data: refunds });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to get refunds' });
+    }
+});
+
+/**
+ * Refund a payment, in full or in part.
+ *
+ * Body: `lines` ([{itemId, quantity}]) refunds those order items at what the
+ * customer paid for them; `amount` alone refunds a plain amount; neither refunds
+ * everything not refunded yet. `restock` puts refunded items back into stock.
+ * Admins only, or order-service refunding an approved return.
+ */
 app.post('/:paymentId/refund', async (req, res) => {
     try {
-        const { reason, amount } = req.body;
+        if (!isInternal(req) && req.headers['x-user-role'] !== 'Admin') {
+            return res.status(403).json({ success: false, error: 'Only admins can refund payments' });
+        }
+
+        const { reason, amount, lines, restock = false } = req.body;
         const { paymentId } = req.params;
 
         const payment = await Payment.findOne({ paymentId });
@@ -171,27 +515,84 @@ app.post('/:paymentId/refund', async (req, res) => {
             return res.status(404).json({ success: false, error: 'Payment not found' });
         }
 
-        if (payment.status !== 'completed') {
+        if (!['completed', 'partially_refunded'].includes(payment.status)) {
             return res.status(400).json({ success: false, error: 'Only completed payments can be refunded' });
         }
 
-        const refundAmount = amount || payment.amount;
+        const remaining = round(payment.amount - payment.refundedAmount);
+        const previous = await Refund.find({ paymentId }).lean();
+        let refundLines = [];
+        let refundAmount;
 
-        payment.status = 'refunded';
-        payment.refundAmount = refundAmount;
-        payment.refundReason = reason;
-        payment.refundedAt = new Date();
-        await payment.save();
+        if (Array.isArray(lines) && lines.length > 0) {
+            const order = await fetchOrder(payment.orderId);
+            const priced = priceRefundLines(order || {}, lines, previous);
+            if (priced.error) {
+                return res.status(400).json({ success: false, error: priced.error });
+            }
+            refundLines = priced.lines;
+            // Rounding per line must not take the total past what is left
+            refundAmount = Math.min(priced.amount, remaining);
+        } else if (amount !== undefined) {
+            refundAmount = round(Number(amount));
+        } else {
+            // Everything that is left, items and delivery alike
+            const order = await fetchOrder(payment.orderId);
+            const rest = (order?.items || []).map(item => ({
+                itemId: String(item._id),
+                quantity: item.quantity - previous
+                    .flatMap(refund => refund.lines)
+                    .filter(line => line.itemId === String(item._id))
+                    .reduce((sum, line) => sum + line.quantity, 0)
+            })).filter(line => line.quantity > 0);
+            refundLines = priceRefundLines(order || {}, rest, previous).lines || [];
+            refundAmount = remaining;
+        }
+
+        if (!(refundAmount > 0) || refundAmount > remaining) {
+            return res.status(400).json({
+                success: false,
+                error: `Refund must be more than 0 and at most Rs. ${remaining.toFixed(2)}`
+            });
+        }
+
+        const claimed = await claimRefund(paymentId, refundAmount);
+        if (!claimed) {
+            return res.status(409).json({ success: false, error: 'Another refund for this payment was made meanwhile; try again' });
+        }
+
+        let providerRefund;
+        try {
+            providerRefund = await getProvider(payment.provider).refund(payment, refundAmount, reason);
+        } catch (error) {
+            await releaseRefund(paymentId, refundAmount);
+            throw error;
+        }
+
+        const refund = await Refund.create({
+            paymentId,
+            orderId: payment.orderId,
+            amount: refundAmount,
+            reason,
+            lines: refundLines,
+            restock: Boolean(restock) && refundLines.length > 0,
+            provider: payment.provider,
+            providerRefundId: providerRefund.refundId,
+            status: providerRefund.status === 'manual' ? 'manual' : 'succeeded',
+            createdBy: req.headers['x-user-id']
+        });
 
-        console.log(`Payment refunded: ${paymentId}, amount: ${refundAmount}`);
+        console.log(`Payment ${claimed.status}: ${paymentId}, refund ${refund.refundId} of ${refundAmount}`);
+        await reportRefundToOrder(claimed, refund);
 
         res.json({
             success: true,
             message: 'Refund processed successfully',
             data: {
-                paymentId: payment.paymentId,
-                refundAmount,
-                status: payment.status
+                paymentId: claimed.paymentId,
+                status: claimed.status,
+                refundedAmount: claimed.refundedAmount,
+                refund
             }
         });
     } catch (error) {
@@ -200,10 +601,43 @@ app.post('/:paymentId/refund', async (req, res) => {
     }
 });
 
-// Webhook endpoint (mock)
-app.post('/webhook/mock', async (req, res) => {
-    console.log('Mock webhook received:', req.body);
-    res.json({ success: true, received: true });
+// Webhooks from providers that settle payments asynchronously. Events for a
+// payment that already has a final status are acknowledged and ignored.
+app.post('/webhook/:provider', async (req, res) => {
+    let event;
+    try {
+        event = getProvider(req.params.provider).verifyWebhook(req.rawBody || '', req.headers);
+    } catch (error) {
+        console.warn(`Rejected ${req.params.provider} webhook:`, error.message);
+        return res.status(400).json({ success: false, error: error.message });
+    }
+
+    try {
+        const payment = await Payment.findOne({
+            provider: req.params.provider,
+            providerPaymentId: event.data?.providerPaymentId
+        });
+        if (!payment) {
+            return res.status(404).json({ success: false, error: 'Payment not found' });
+        }
+
+        if (['initiated', 'processing'].includes(payment.status)
+            && ['payment.succeeded', 'payment.failed'].includes(event.type)) {
+            applyResult(payment, {
+                status: event.type === 'payment.succeeded' ? 'completed' : 'failed',
+                transactionId: event.data.transactionId,
+                failedReason: event.data.failedReason
+            });
+            await payment.save();
+            console.log(`Payment ${payment.status} by webhook ${event.id}: ${payment.paymentId}`);
+            await reportIfSettled(payment);
+        }
+
+        res.json({ success: true, received: true });
+    } catch (error) {
+        console.error('Webhook error:', error);
+        res.status(500).json({ success: false, error: 'Failed to handle webhook' });
+    }
 });
 
 // Start server
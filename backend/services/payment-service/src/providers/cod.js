@@ -0,0 +1,17 @@
+/**
+ * Cash on Delivery
+ * Nothing is charged online: the driver collects the money, so every payment
+ * "succeeds" here and refunds are paid out by hand.
+ */
+
+const { v4: uuidv4 } = require('uuid');
+
+module.exports = {
+    name: 'cod',
+    initiate: async () => ({ providerPaymentId: `cod_${uuidv4().replace(/-/g, '')}`, nextAction: null }),
+    confirm: async () => ({ status: 'completed', transactionId: `cod_${uuidv4()}` }),
+    refund: async () => ({ refundId: `re_cod_${uuidv4().replace(/-/g, '')}`, status: 'manual' }),
+    verifyWebhook: () => {
+        throw new Error('Cash on delivery does not send webhooks');
+    }
+};
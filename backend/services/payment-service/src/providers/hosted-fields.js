@@ -0,0 +1,134 @@
+/**
+ * Hosted Card Fields (mock provider)
+ * The storefront embeds `/hosted-fields/card` in an iframe, loaded straight
+ * from this service's origin rather than through the storefront's proxy. Card
+ * details are typed into this page and exchanged for a token here; the
+ * storefront only ever receives the token, brand and last four digits through
+ * postMessage, and checks that they came from this origin.
+ */
+
+const crypto = require('crypto');
+const express = require('express');
+const mock = require('./mock');
+
+const router = express.Router();
+
+// Pages allowed to embed the fields and receive tokens
+const STOREFRONT_ORIGINS = (process.env.STOREFRONT_ORIGINS || 'http://localhost:3000')
+    .split(',')
+    .map(origin => origin.trim());
+
+const page = (nonce, origin) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<style nonce="${nonce}">
+  body { margin: 0; background: transparent; font-family: system-ui, sans-serif; font-size: 14px; color: #111827; }
+  label { display: block; font-weight: 500; color: #374151; margin: 0 0 6px; }
+  input { box-sizing: border-box; width: 100%; padding: 12px 16px; border: 1px solid #e5e7eb; border-radius: 12px; font-size: 14px; outline: none; }
+  input:focus { border-color: #FDAA1C; box-shadow: 0 0 0 2px #FDAA1C; }
+  .field { margin-bottom: 14px; }
+  .row { display: grid; grid-template-columns: 1fr 1fr; gap: 14px; }
+  .error { color: #dc2626; min-height: 18px; }
+  .hint { color: #6b7280; font-size: 12px; }
+</style>
+</head>
+<body>
+  <div class="field"><label for="number">Card Number</label><input id="number" inputmode="numeric" autocomplete="cc-number" placeholder="4242 4242 4242 4242" maxlength="23"></div>
+  <div class="field"><label for="name">Card Holder Name</label><input id="name" autocomplete="cc-name" placeholder="John Doe"></div>
+  <div class="row">
+    <div class="field"><label for="expiry">Expiry</label><input id="expiry" inputmode="numeric" autocomplete="cc-exp" placeholder="MM/YY" maxlength="5"></div>
+    <div class="field"><label for="cvc">CVV</label><input id="cvc" inputmode="numeric" autocomplete="cc-csc" placeholder="123" maxlength="4"></div>
+  </div>
+  <p class="error" id="error"></p>
+  <p class="hint">Sandbox: 4242 4242 4242 4242 pays, 4000 0000 0000 0002 is declined, 4000 0000 0000 0077 settles after a few seconds.</p>
+<script nonce="${nonce}">
+  (function () {
+    var parentOrigin = ${JSON.stringify(origin)};
+    var fields = ['number', 'name', 'expiry', 'cvc'].reduce(function (all, id) {
+      all[id] = document.getElementById(id);
+      return all;
+    }, {});
+    var errorEl = document.getElementById('error');
+    var timer = null;
+    // Bumped on every edit so an answer for an older card is dropped
+    var edits = 0;
+
+    function send(message) {
+      message.source = 'ecoharvest-hosted-fields';
+      window.parent.postMessage(message, parentOrigin);
+    }
+
+    fields.number.addEventListener('input', function () {
+      var digits = fields.number.value.replace(/\\D/g, '').slice(0, 19);
+      fields.number.value = digits.replace(/(.{4})/g, '$1 ').trim();
+    });
+    fields.expiry.addEventListener('input', function () {
+      var digits = fields.expiry.value.replace(/\\D/g, '').slice(0, 4);
+      fields.expiry.value = digits.length > 2 ? digits.slice(0, 2) + '/' + digits.slice(2) : digits;
+    });
+
+    function tokenize() {
+      var number = fields.number.value.replace(/\\D/g, '');
+      if (number.length < 12 || fields.expiry.value.length !== 5 || fields.cvc.value.length < 3 || !fields.name.value.trim()) return;
+      var edit = edits;
+      fetch('tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ number: number, expiry: fields.expiry.value, cvc: fields.cvc.value, name: fields.name.value })
+      })
+        .then(function (response) { return response.json(); })
+        .then(function (body) {
+          if (edit !== edits) return;
+          if (!body.success) {
+            errorEl.textContent = body.error;
+            return;
+          }
+          errorEl.textContent = '';
+          send({ type: 'token', token: body.data.token, brand: body.data.brand, last4: body.data.last4 });
+        })
+        .catch(function () { errorEl.textContent = 'Could not check your card. Please try again.'; });
+    }
+
+    Object.keys(fields).forEach(function (id) {
+      fields[id].addEventListener('input', function () {
+        edits += 1;
+        send({ type: 'cleared' });
+        clearTimeout(timer);
+        timer = setTimeout(tokenize, 500);
+      });
+    });
+
+    send({ type: 'ready', height: document.body.scrollHeight });
+  })();
+</script>
+</body>
+</html>`;
+
+router.get('/card', (req, res) => {
+    const origin = req.query.origin;
+    if (!STOREFRONT_ORIGINS.includes(origin)) {
+        return res.status(400).send('Unknown storefront origin');
+    }
+
+    const nonce = crypto.randomBytes(16).toString('base64');
+    res.removeHeader('X-Frame-Options');
+    res.setHeader('Content-Security-Policy', [
+        "default-src 'none'",
+        `script-src 'nonce-${nonce}'`,
+        `style-src 'nonce-${nonce}'`,
+        "connect-src 'self'",
+        `frame-ancestors ${STOREFRONT_ORIGINS.join(' ')}`
+    ].join('; '));
+    res.type('html').send(page(nonce, origin));
+});
+
+router.post('/tokens', (req, res) => {
+    try {
+        res.status(201).json({ success: true, data: mock.tokenize(req.body) });
+    } catch (error) {
+        res.status(400).json({ success: false, error: error.message });
+    }
+});
+
+module.exports = router;
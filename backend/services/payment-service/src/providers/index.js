@@ -0,0 +1,34 @@
+/**
+ * Payment Providers
+ * Every provider implements the same interface, so the routes never depend on
+ * which gateway is behind a payment:
+ *
+ *   initiate(payment)                  -> { providerPaymentId, nextAction }
+ *   confirm(payment, details)          -> { status, transactionId, failedReason?, cardBrand?, cardLast4? }
+ *   refund(payment, amount, reason)    -> { refundId, status }
+ *   verifyWebhook(rawBody, headers)    -> event, or throws when it cannot be trusted
+ *
+ * `status` is 'completed', 'failed', or 'processing' when the outcome arrives
+ * later by webhook. The online provider is picked with PAYMENT_GATEWAY.
+ */
+
+const mock = require('./mock');
+const cod = require('./cod');
+
+const PROVIDERS = { mock, cod };
+
+const getProvider = (name) => {
+    const provider = PROVIDERS[name];
+    if (!provider) {
+        throw new Error(`Unknown payment provider "${name}"`);
+    }
+    return provider;
+};
+
+const GATEWAY = process.env.PAYMENT_GATEWAY || 'mock';
+getProvider(GATEWAY);
+
+// Name of the provider that takes a new payment made with `method`
+const providerNameFor = (method) => (method === 'cod' ? 'cod' : GATEWAY);
+
+module.exports = { GATEWAY, getProvider, providerNameFor };
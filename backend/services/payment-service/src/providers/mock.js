@@ -0,0 +1,211 @@
+/**
+ * Mock Provider
+ * A local sandbox gateway. Outcomes are decided by magic test card numbers and
+ * UPI ids, so every scenario can be reproduced on demand. Asynchronous payments
+ * are settled later through a signed webhook to `/webhook/mock`, the same way a
+ * real gateway would do it.
+ */
+
+const crypto = require('crypto');
+const { v4: uuidv4 } = require('uuid');
+
+const WEBHOOK_SECRET = process.env.MOCK_WEBHOOK_SECRET || 'whsec_mock_local';
+const WEBHOOK_URL = process.env.MOCK_WEBHOOK_URL || `http://localhost:${process.env.PORT || 3006}/webhook/mock`;
+// How long "pending" payments take to settle
+const WEBHOOK_DELAY_MS = parseInt(process.env.MOCK_WEBHOOK_DELAY_MS, 10) || 3000;
+// Signed webhooks older than this are refused, so a captured one cannot be replayed later
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+const TOKEN_TTL_MS = 15 * 60 * 1000;
+
+const TEST_CARDS = {
+    '4242424242424242': { outcome: 'succeeded' },
+    '5555555555554444': { outcome: 'succeeded' },
+    '4000000000000077': { outcome: 'pending' },
+    '4000000000000002': { outcome: 'failed', reason: 'Your card was declined' },
+    '4000000000009995': { outcome: 'failed', reason: 'Your card has insufficient funds' },
+    '4000000000000069': { outcome: 'failed', reason: 'Your card has expired' },
+    '4000000000000127': { outcome: 'failed', reason: 'Your card\'s security code is incorrect' }
+};
+
+const TEST_UPI_IDS = {
+    'success@upi': { outcome: 'succeeded' },
+    'pending@upi': { outcome: 'pending' },
+    'failure@upi': { outcome: 'failed', reason: 'The payment was declined in the UPI app' }
+};
+
+// Card tokens issued by the hosted fields. Only what the outcome needs is kept;
+// the card number itself is never stored.
+const tokens = new Map();
+
+const luhnValid = (number) => {
+    let sum = 0;
+    [...number].reverse().forEach((digit, index) => {
+        let value = Number(digit);
+        if (index % 2 === 1) {
+            value *= 2;
+            if (value > 9) value -= 9;
+        }
+        sum += value;
+    });
+    return sum % 10 === 0;
+};
+
+const brandOf = (number) => {
+    if (number.startsWith('4')) return 'Visa';
+    if (/^5[1-5]/.test(number) || /^2[2-7]/.test(number)) return 'MasterCard';
+    if (/^3[47]/.test(number)) return 'Amex';
+    return 'Card';
+};
+
+/**
+ * Exchange card details for a single-use token. Called by the hosted fields
+ * page only. Throws a message fit for the customer when the card is unusable.
+ */
+const tokenize = ({ number, expiry, cvc }) => {
+    const digits = String(number || '').replace(/\D/g, '');
+    if (digits.length < 12 || digits.length > 19 || !luhnValid(digits)) {
+        throw new Error('Your card number is invalid');
+    }
+
+    const [month, year] = String(expiry || '').split('/').map(Number);
+    const expiresAt = new Date(2000 + year, month, 1);
+    if (!month || month > 12 || !year || expiresAt <= new Date()) {
+        throw new Error('Your card\'s expiry date is invalid');
+    }
+    if (!/^\d{3,4}$/.test(String(cvc || ''))) {
+        throw new Error('Your card\'s security code is invalid');
+    }
+
+    // Any other valid number behaves like a card that pays
+    const card = TEST_CARDS[digits] || { outcome: 'succeeded' };
+    const token = `tok_mock_${uuidv4().replace(/-/g, '')}`;
+    const details = { ...card, brand: brandOf(digits), last4: digits.slice(-4), expiresAt: Date.now() + TOKEN_TTL_MS };
+    tokens.set(token, details);
+
+    return { token, brand: details.brand, last4: details.last4 };
+};
+
+// Tokens are single-use
+const redeemToken = (token) => {
+    const details = tokens.get(token);
+    tokens.delete(token);
+    if (!details || details.expiresAt < Date.now()) return null;
+    return details;
+};
+
+const sign = (payload, timestamp) => crypto
+    .createHmac('sha256', WEBHOOK_SECRET)
+    .update(`${timestamp}.${payload}`)
+    .digest('hex');
+
+// Deliver an event to our own webhook endpoint, signed like a gateway would
+const sendWebhook = async (event) => {
+    const payload = JSON.stringify(event);
+    const timestamp = Math.floor(Date.now() / 1000);
+    try {
+        const response = await fetch(WEBHOOK_URL, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'x-mock-signature': `t=${timestamp},v1=${sign(payload, timestamp)}`
+            },
+            body: payload
+        });
+        if (!response.ok) throw new Error(`webhook answered ${response.status}`);
+    } catch (error) {
+        console.error(`Mock webhook ${event.type} for ${event.data.providerPaymentId} failed:`, error.message);
+    }
+};
+
+const settleLater = (providerPaymentId, transactionId) => {
+    setTimeout(() => sendWebhook({
+        id: `evt_${uuidv4().replace(/-/g, '')}`,
+        type: 'payment.succeeded',
+        data: { providerPaymentId, transactionId }
+    }), WEBHOOK_DELAY_MS);
+};
+
+const initiate = async (payment) => ({
+    providerPaymentId: `mock_${uuidv4().replace(/-/g, '')}`,
+    nextAction: payment.method === 'card'
+        ? { type: 'card_token' }
+        : payment.method === 'upi'
+            ? { type: 'upi_collect', qrCode: 'upi://pay?pa=ecoharvest@upi&pn=EcoHarvest' }
+            : null
+});
+
+/**
+ * Charge a payment.
+ * @param {object} payment
+ * @param {{token?: string, upiId?: string}} details
+ */
+const confirm = async (payment, { token, upiId } = {}) => {
+    let scenario = { outcome: 'succeeded' };
+    let card = {};
+
+    if (payment.method === 'card') {
+        const details = token ? redeemToken(token) : null;
+        if (!details) {
+            return { status: 'failed', failedReason: 'Your card details have expired. Please enter them again.' };
+        }
+        scenario = details;
+        card = { cardBrand: details.brand, cardLast4: details.last4 };
+    } else if (payment.method === 'upi') {
+        if (!upiId) {
+            return { status: 'failed', failedReason: 'A UPI id is required' };
+        }
+        scenario = TEST_UPI_IDS[String(upiId).toLowerCase()] || { outcome: 'succeeded' };
+    }
+
+    const transactionId = `txn_${uuidv4()}`;
+    if (scenario.outcome === 'pending') {
+        settleLater(payment.providerPaymentId, transactionId);
+        return { status: 'processing', transactionId, ...card };
+    }
+    if (scenario.outcome === 'failed') {
+        return { status: 'failed', transactionId, failedReason: scenario.reason, ...card };
+    }
+    return { status: 'completed', transactionId, ...card };
+};
+
+const refund = async (payment, amount) => {
+    if (amount > payment.amount) {
+        throw new Error('Refund exceeds the amount paid');
+    }
+    return { refundId: `re_mock_${uuidv4().replace(/-/g, '')}`, status: 'succeeded' };
+};
+
+/**
+ * Check a webhook's signature and age.
+ * @returns the event, or throws when it cannot be trusted
+ */
+const verifyWebhook = (rawBody, headers) => {
+    const header = headers['x-mock-signature'] || '';
+    const parts = Object.fromEntries(header.split(',').map(part => part.split('=')));
+    const timestamp = Number(parts.t);
+
+    if (!timestamp || !parts.v1) {
+        throw new Error('Missing webhook signature');
+    }
+    if (Math.abs(Date.now() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+        throw new Error('Webhook timestamp is too old');
+    }
+
+    const expected = Buffer.from(sign(rawBody, timestamp), 'hex');
+    const received = Buffer.from(parts.v1, 'hex');
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+        throw new Error('Webhook signature does not match');
+    }
+    return JSON.parse(rawBody);
+};
+
+module.exports = {
+    name: 'mock',
+    initiate,
+    confirm,
+    refund,
+    verifyWebhook,
+    tokenize,
+    TEST_CARDS,
+    TEST_UPI_IDS
+};
@@ -0,0 +1,88 @@
+/**
+ * Refunds
+ * Every refund is a ledger entry against a payment. A refund is either for whole
+ * order lines (e.g. one spoiled item) or for a plain amount; line refunds give
+ * back what the customer actually paid for those units, promotions and tax included.
+ */
+
+const mongoose = require('mongoose');
+const { v4: uuidv4 } = require('uuid');
+
+const refundLineSchema = new mongoose.Schema({
+    // The order item (`Order.items[]._id` in order-service)
+    itemId: { type: String, required: true },
+    productId: String,
+    productName: String,
+    quantity: { type: Number, required: true, min: 1 },
+    amount: { type: Number, required: true }
+}, { _id: false });
+
+const refundSchema = new mongoose.Schema({
+    refundId: { type: String, unique: true, default: () => `ref_${uuidv4().replace(/-/g, '')}` },
+    paymentId: { type: String, required: true, index: true },
+    orderId: { type: String, required: true, index: true },
+    amount: { type: Number, required: true },
+    reason: String,
+    lines: [refundLineSchema],
+    // Whether the refunded items go back into stock
+    restock: { type: Boolean, default: false },
+    provider: String,
+    providerRefundId: String,
+    // 'manual' when the money is paid back by hand, e.g. for cash on delivery
+    status: { type: String, enum: ['succeeded', 'manual'], default: 'succeeded' },
+    createdBy: String
+}, { timestamps: true });
+
+const Refund = mongoose.model('Refund', refundSchema);
+
+const round = (value) => Math.round(value * 100) / 100;
+
+// What one unit of an order item cost the customer after order-level
+// promotions and tax. Delivery is not refunded per line.
+const paidPerUnit = (order, item) => {
+    const quote = order.pricing || {};
+    const subtotal = quote.subtotal || order.subtotal || 0;
+    const promotionShare = subtotal > 0 ? (quote.promotionDiscount || 0) / subtotal : 0;
+    const taxRate = quote.taxRate || 0;
+    return (item.subtotal / item.quantity) * (1 - promotionShare) * (1 + taxRate);
+};
+
+/**
+ * Price a line refund and check it against what was already refunded.
+ * @param {object} order - from order-service
+ * @param {Array<{itemId: string, quantity: number}>} requested
+ * @param {Array<object>} previous - earlier refunds for the payment
+ * @returns {{lines: Array, amount: number}} or `{error}`
+ */
+const priceRefundLines = (order, requested, previous) => {
+    const alreadyRefunded = new Map();
+    for (const refund of previous) {
+        for (const line of refund.lines) {
+            alreadyRefunded.set(line.itemId, (alreadyRefunded.get(line.itemId) || 0) + line.quantity);
+        }
+    }
+
+    const lines = [];
+    for (const { itemId, quantity } of requested) {
+        const item = (order.items || []).find(i => String(i._id) === String(itemId));
+        if (!item) {
+            return { error: `Order has no item ${itemId}` };
+        }
+        const units = Number(quantity);
+        const refundable = item.quantity - (alreadyRefunded.get(String(item._id)) || 0);
+        if (!Number.isInteger(units) || units < 1 || units > refundable) {
+            return { error: `Only ${refundable} of ${item.productName} can still be refunded` };
+        }
+        lines.push({
+            itemId: String(item._id),
+            productId: item.productId,
+            productName: item.productName,
+            quantity: units,
+            amount: round(paidPerUnit(order, item) * units)
+        });
+    }
+
+    return { lines, amount: round(lines.reduce((sum, line) => sum + line.amount, 0)) };
+};
+
+module.exports = { Refund, priceRefundLines, round };
@@ -2,9 +2,11 @@
  * Product Controller
  */
 
+const mongoose = require('mongoose');
 const Product = require('../models/product.model');
 const Category = require('../models/category.model');
 const { publishEvent } = require('../utils/messaging');
+const ledger = require('../utils/ledger');
 const { createLogger } = require('../utils/logger');
 
 const logger = createLogger('product-controller');
@@ -23,13 +25,19 @@ exports.getAllProducts = async (req, res) => {
             minPrice,
             maxPrice,
             status = 'In Stock',
-            search
+            search,
+            ids
         } = req.query;
 
         const query = {};
 
+        // Look up specific products (e.g. for pricing a cart) whatever their status
+        if (ids) {
+            query._id = { $in: ids.split(',').filter(id => mongoose.isValidObjectId(id)) };
+        }
+
         // Filter by status
-        if (status && status !== 'all') {
+        if (status && status !== 'all' && !ids) {
             query.status = status;
         }
 
@@ -136,7 +144,9 @@ exports.createProduct = async (req, res) => {
             images,
             tags,
             attributes,
-            isOrganic
+            isOrganic,
+            perishable,
+            batch
         } = req.body;
 
         // Get category info
@@ -151,13 +161,14 @@ exports.createProduct = async (req, res) => {
         // Generate SKU
         const sku = `ECO-${Date.now()}-${Math.random().toString(36).substr(2, 6).toUpperCase()}`;
 
-        const product = await Product.create({
+        let product = await Product.create({
             name,
             subtitle,
             description,
             price,
             originalPrice,
-            quantity,
+            // Opening stock is received through the ledger below
+            quantity: 0,
             category,
             categoryName,
             vendorId: vendorId || req.user?.id,
@@ -167,10 +178,20 @@ exports.createProduct = async (req, res) => {
             tags,
             attributes,
             isOrganic,
+            // Stock that arrives with a best-before is perishable
+            perishable: perishable ?? Boolean(batch?.bestBefore),
             sku,
             status: quantity > 0 ? 'In Stock' : 'Out of Stock'
         });
 
+        if (quantity > 0) {
+            product = await ledger.move(product._id, 'receive', { onHand: Number(quantity) }, {
+                reason: 'Opening stock',
+                batch,
+                actor: req.user && { id: String(req.user.id), role: req.user.role }
+            });
+        }
+
         // Publish product created event
         await publishEvent('product.created', {
             productId: product._id,
@@ -199,9 +220,12 @@ exports.createProduct = async (req, res) => {
  */
 exports.updateProduct = async (req, res) => {
     try {
-        const product = await Product.findByIdAndUpdate(
+        // Stock only changes through the ledger: an edited quantity is a count
+        const { quantity, reserved, soldCount, ...changes } = req.body;
+
+        let product = await Product.findByIdAndUpdate(
             req.params.id,
-            { $set: req.body },
+            { $set: changes },
             { new: true, runValidators: true }
         );
 
@@ -212,6 +236,13 @@ exports.updateProduct = async (req, res) => {
             });
         }
 
+        if (quantity !== undefined && Number(quantity) !== product.quantity) {
+            product = await ledger.adjustTo(product._id, Number(quantity), {
+                reason: 'Quantity edited',
+                actor: req.user && { id: String(req.user.id), role: req.user.role }
+            });
+        }
+
         // Publish product updated event
         await publishEvent('product.updated', {
             productId: product._id,
@@ -224,6 +255,9 @@ exports.updateProduct = async (req, res) => {
             data: product
         });
     } catch (error) {
+        if (error.statusCode) {
+            return res.status(error.statusCode).json({ success: false, error: error.message, data: error.data });
+        }
         logger.error('Update product error:', error);
         res.status(500).json({
             success: false,
@@ -266,41 +300,32 @@ exports.deleteProduct = async (req, res) => {
 };
 
 /**
- * Update inventory
+ * Update inventory. Kept for older callers: increments are received stock,
+ * decrements and `set` are adjustments, all recorded in the stock ledger.
  */
 exports.updateInventory = async (req, res) => {
     try {
-        const { quantity, operation = 'set' } = req.body;
-
-        let update;
-        if (operation === 'increment') {
-            update = { $inc: { quantity: quantity } };
-        } else if (operation === 'decrement') {
-            update = { $inc: { quantity: -quantity } };
-        } else {
-            update = { $set: { quantity: quantity } };
-        }
-
-        const product = await Product.findByIdAndUpdate(
-            req.params.id,
-            update,
-            { new: true }
-        );
-
-        if (!product) {
-            return res.status(404).json({
+        const { quantity, operation = 'set', reason } = req.body;
+        const units = Number(quantity);
+        if (!(Number.isInteger(units) && units >= 0)) {
+            return res.status(400).json({
                 success: false,
-                error: 'Product not found'
+                error: 'quantity must be a whole number of units'
             });
         }
 
-        // Check for low stock
-        if (product.quantity <= product.lowStockThreshold && product.quantity > 0) {
-            await publishEvent('inventory.low', {
-                productId: product._id,
-                vendorId: product.vendorId,
-                quantity: product.quantity
-            });
+        const details = {
+            reason: reason || `Inventory ${operation}`,
+            actor: req.user && { id: String(req.user.id), role: req.user.role }
+        };
+
+        let product;
+        if (operation === 'increment') {
+            product = await ledger.move(req.params.id, 'receive', { onHand: units }, details);
+        } else if (operation === 'decrement') {
+            product = await ledger.move(req.params.id, 'adjust', { onHand: -units }, details);
+        } else {
+            product = await ledger.adjustTo(req.params.id, units, details);
         }
 
         res.json({
@@ -309,6 +334,9 @@ exports.updateInventory = async (req, res) => {
             data: { quantity: product.quantity, status: product.status }
         });
     } catch (error) {
+        if (error.statusCode) {
+            return res.status(error.statusCode).json({ success: false, error: error.message, data: error.data });
+        }
         logger.error('Update inventory error:', error);
         res.status(500).json({
             success: false,
@@ -337,6 +365,11 @@ exports.updateStatus = async (req, res) => {
             });
         }
 
+        await publishEvent('product.updated', {
+            productId: product._id,
+            vendorId: product.vendorId
+        });
+
         res.json({
             success: true,
             message: 'Status updated',
@@ -0,0 +1,386 @@
+/**
+ * Stock Controller
+ * Stock levels, the movement ledger and checkout reservations. Every change
+ * goes through the ledger in utils/ledger.js.
+ */
+
+const mongoose = require('mongoose');
+const Product = require('../models/product.model');
+const StockMovement = require('../models/stock-movement.model');
+const Reservation = require('../models/reservation.model');
+const Batch = require('../models/batch.model');
+const { BATCH_STATUS } = require('../models/batch.model');
+const ledger = require('../utils/ledger');
+const { publishEvent } = require('../utils/messaging');
+const { batchView, startOfDay, writtenOffUnits } = require('../utils/batches');
+const { createLogger } = require('../utils/logger');
+const { vendorIdsOf, canManage } = require('../utils/vendors');
+const { ROLES } = require('../middleware/auth.middleware');
+
+const logger = createLogger('stock-controller');
+
+// Movements a vendor or admin records by hand; the rest come from checkouts
+const MANUAL_TYPES = ['receive', 'return', 'adjust'];
+
+// How far ahead the expiry report looks unless asked otherwise
+const EXPIRY_REPORT_DAYS = parseInt(process.env.EXPIRY_REPORT_DAYS || '14', 10);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const actorOf = (req) => req.user ? { id: String(req.user.id), role: req.user.role } : undefined;
+
+const NOT_YOURS = { success: false, error: "Only the product's vendor or an admin can change its stock" };
+
+// The vendor ids whose stock a caller may read: every vendor's (null) for
+// admins and other services, a vendor's own, and none for anyone else
+const readableVendorIds = async (user) => {
+    if ([ROLES.ADMIN, ROLES.SYSTEM].includes(user?.role)) return null;
+    if (user?.role !== ROLES.VENDOR) return [];
+    return vendorIdsOf(user.id);
+};
+
+// Narrow a stock query to what the caller may read; false when they asked for another vendor's
+const scopeToCaller = async (req, query, vendorId) => {
+    const readable = await readableVendorIds(req.user);
+    if (!readable) {
+        if (vendorId) query.vendorId = vendorId;
+        return true;
+    }
+    if (vendorId && !readable.includes(String(vendorId))) return false;
+    query.vendorId = vendorId ? String(vendorId) : { $in: readable };
+    return readable.length > 0;
+};
+
+const NOT_YOUR_STOCK = { success: false, error: 'Vendors can only see their own stock' };
+
+const handleError = (res, error, fallback) => {
+    if (error.statusCode) {
+        return res.status(error.statusCode).json({ success: false, error: error.message, data: error.data });
+    }
+    logger.error(`${fallback}: ${error.message}`);
+    res.status(500).json({ success: false, error: fallback });
+};
+
+/**
+ * Get stock levels, optionally for one vendor (`vendorId`) and only those at or
+ * under their low-stock threshold (`lowOnly=true`); lowest first. Vendors see
+ * their own products only.
+ */
+exports.getLevels = async (req, res) => {
+    try {
+        const { vendorId, lowOnly } = req.query;
+        const query = {};
+        if (!(await scopeToCaller(req, query, vendorId))) {
+            return res.status(403).json(NOT_YOUR_STOCK);
+        }
+        if (lowOnly === 'true') {
+            query.status = { $ne: 'Discontinued' };
+            query.$expr = { $lte: [{ $subtract: ['$quantity', { $ifNull: ['$reserved', 0] }] }, '$lowStockThreshold'] };
+        }
+
+        const products = await Product.find(query)
+            .select('name sku vendorId imageUrl status quantity reserved lowStockThreshold')
+            .lean();
+        const levels = products.map(ledger.stockLevel).sort((a, b) => a.available - b.available);
+
+        res.json({ success: true, data: levels });
+    } catch (error) {
+        handleError(res, error, 'Failed to get stock levels');
+    }
+};
+
+/**
+ * Get the ledger for a product (`productId`) or vendor (`vendorId`), newest
+ * first. Vendors see their own products' movements only.
+ */
+exports.getMovements = async (req, res) => {
+    try {
+        const { productId, vendorId, type, limit = 50 } = req.query;
+        if (!productId && !vendorId) {
+            return res.status(400).json({ success: false, error: 'productId or vendorId is required' });
+        }
+        if (productId && !mongoose.isValidObjectId(productId)) {
+            return res.status(400).json({ success: false, error: 'Invalid ID format' });
+        }
+
+        const query = productId ? { productId } : {};
+        if (!(await scopeToCaller(req, query, vendorId))) {
+            return res.status(403).json(NOT_YOUR_STOCK);
+        }
+        if (type) query.type = type;
+
+        const movements = await StockMovement.find(query)
+            .sort('-createdAt')
+            .limit(Math.min(parseInt(limit) || 50, 500))
+            .lean();
+
+        res.json({ success: true, data: movements });
+    } catch (error) {
+        handleError(res, error, 'Failed to get stock movements');
+    }
+};
+
+/**
+ * Record a movement by hand: `receive` or `return` units, or `adjust` by a
+ * signed `quantity` or to a `counted` figure. Adjustments need a reason.
+ * Received units open a batch when `batch` ({code, harvestDate, bestBefore})
+ * is given.
+ */
+exports.recordMovement = async (req, res) => {
+    try {
+        const { productId, type, quantity, counted, reason, reference, batch } = req.body;
+        if (!MANUAL_TYPES.includes(type)) {
+            return res.status(400).json({ success: false, error: `type must be one of ${MANUAL_TYPES.join(', ')}` });
+        }
+        if (!mongoose.isValidObjectId(productId)) {
+            return res.status(400).json({ success: false, error: 'Invalid ID format' });
+        }
+        if (type === 'adjust' && !reason?.trim()) {
+            return res.status(400).json({ success: false, error: 'Adjustments need a reason' });
+        }
+
+        if (batch && type !== 'receive') {
+            return res.status(400).json({ success: false, error: 'Only received units can open a batch' });
+        }
+        if (batch?.bestBefore && batch?.harvestDate && new Date(batch.bestBefore) < new Date(batch.harvestDate)) {
+            return res.status(400).json({ success: false, error: 'Best-before cannot be earlier than the harvest date' });
+        }
+
+        const owned = await Product.findById(productId).select('vendorId').lean();
+        if (!owned) {
+            return res.status(404).json({ success: false, error: 'Product not found' });
+        }
+        if (!(await canManage(req.user, owned))) {
+            return res.status(403).json(NOT_YOURS);
+        }
+
+        const details = { reason: reason?.trim(), reference, actor: actorOf(req), batch };
+        let product;
+        if (type === 'adjust' && counted !== undefined) {
+            if (!(Number.isInteger(counted) && counted >= 0)) {
+                return res.status(400).json({ success: false, error: 'counted must be a whole number of units' });
+            }
+            product = await ledger.adjustTo(productId, counted, details);
+        } else {
+            const units = Number(quantity);
+            const valid = type === 'adjust' ? Number.isInteger(units) && units !== 0 : Number.isInteger(units) && units > 0;
+            if (!valid) {
+                return res.status(400).json({ success: false, error: 'quantity must be a whole, non-zero number of units' });
+            }
+            product = await ledger.move(productId, type, { onHand: units }, details);
+        }
+
+        res.status(201).json({ success: true, data: ledger.stockLevel(product) });
+    } catch (error) {
+        handleError(res, error, 'Failed to record stock movement');
+    }
+};
+
+/**
+ * Set the level at which a product's vendor is alerted
+ */
+exports.updateThreshold = async (req, res) => {
+    try {
+        const threshold = Number(req.body.lowStockThreshold);
+        if (!(Number.isInteger(threshold) && threshold >= 0)) {
+            return res.status(400).json({ success: false, error: 'lowStockThreshold must be a whole number of units' });
+        }
+
+        if (!mongoose.isValidObjectId(req.params.productId)) {
+            return res.status(400).json({ success: false, error: 'Invalid ID format' });
+        }
+
+        const owned = await Product.findById(req.params.productId).select('vendorId').lean();
+        if (!owned) {
+            return res.status(404).json({ success: false, error: 'Product not found' });
+        }
+        if (!(await canManage(req.user, owned))) {
+            return res.status(403).json(NOT_YOURS);
+        }
+
+        const product = await Product.findByIdAndUpdate(
+            req.params.productId,
+            { lowStockThreshold: threshold },
+            { new: true }
+        );
+
+        res.json({ success: true, data: ledger.stockLevel(product) });
+    } catch (error) {
+        handleError(res, error, 'Failed to update threshold');
+    }
+};
+
+/**
+ * Get batches for a product (`productId`) or vendor (`vendorId`), optionally of
+ * one `status`, in the order they will be sold from
+ */
+exports.getBatches = async (req, res) => {
+    try {
+        const { productId, vendorId, status } = req.query;
+        if (!productId && !vendorId) {
+            return res.status(400).json({ success: false, error: 'productId or vendorId is required' });
+        }
+        if (productId && !mongoose.isValidObjectId(productId)) {
+            return res.status(400).json({ success: false, error: 'Invalid ID format' });
+        }
+
+        const query = productId ? { productId } : { vendorId };
+        if (status) query.status = status;
+
+        const batches = await Batch.find(query).sort({ bestBefore: 1, createdAt: 1 }).lean();
+        const products = await Product.find({ _id: { $in: batches.map(b => b.productId) } }).select('name').lean();
+        const names = new Map(products.map(p => [String(p._id), p]));
+
+        res.json({ success: true, data: batches.map(b => batchView(b, names.get(String(b.productId)))) });
+    } catch (error) {
+        handleError(res, error, 'Failed to get batches');
+    }
+};
+
+/**
+ * Expiry report for a vendor: batches with units left whose best-before falls
+ * within `days` (default 14), with a suggested markdown, and batches that
+ * expired over the past `days` with the units written off. Soonest first.
+ */
+exports.getExpiryReport = async (req, res) => {
+    try {
+        const { vendorId } = req.query;
+        const days = Math.min(Math.max(parseInt(req.query.days) || EXPIRY_REPORT_DAYS, 1), 365);
+        if (!vendorId) {
+            return res.status(400).json({ success: false, error: 'vendorId is required' });
+        }
+
+        const today = startOfDay();
+        const horizon = new Date(today.getTime() + (days + 1) * DAY_MS);
+        const since = new Date(today.getTime() - days * DAY_MS);
+
+        const batches = await Batch.find({
+            vendorId,
+            $or: [
+                { status: BATCH_STATUS.ACTIVE, remaining: { $gt: 0 }, bestBefore: { $lt: horizon } },
+                { status: BATCH_STATUS.EXPIRED, bestBefore: { $gte: since } }
+            ]
+        }).sort({ bestBefore: 1 }).lean();
+
+        const products = await Product.find({ _id: { $in: batches.map(b => b.productId) } })
+            .select('name price originalPrice')
+            .lean();
+        const byId = new Map(products.map(p => [String(p._id), p]));
+
+        const writtenOff = await writtenOffUnits(
+            batches.filter(b => b.status === BATCH_STATUS.EXPIRED).map(b => b._id)
+        );
+
+        const rows = batches.map(batch => {
+            const product = byId.get(String(batch.productId));
+            return {
+                ...batchView(batch, product),
+                price: product?.price,
+                writtenOff: writtenOff.get(String(batch._id)) || 0
+            };
+        });
+
+        res.json({ success: true, data: rows });
+    } catch (error) {
+        handleError(res, error, 'Failed to get expiry report');
+    }
+};
+
+/**
+ * Mark a product down by `percent` to move a batch near its best-before. The
+ * price before any markdown is kept as the original price.
+ */
+exports.applyMarkdown = async (req, res) => {
+    try {
+        const percent = Number(req.body.percent);
+        if (!(percent > 0 && percent < 100)) {
+            return res.status(400).json({ success: false, error: 'percent must be between 0 and 100' });
+        }
+        if (!mongoose.isValidObjectId(req.params.batchId)) {
+            return res.status(400).json({ success: false, error: 'Invalid ID format' });
+        }
+
+        const batch = await Batch.findById(req.params.batchId).lean();
+        if (!batch) {
+            return res.status(404).json({ success: false, error: 'Batch not found' });
+        }
+        const product = await Product.findById(batch.productId);
+        if (!product) {
+            return res.status(404).json({ success: false, error: 'Product not found' });
+        }
+        if (!(await canManage(req.user, product))) {
+            return res.status(403).json(NOT_YOURS);
+        }
+
+        const original = product.originalPrice || product.price;
+        product.originalPrice = original;
+        product.price = Math.round(original * (100 - percent)) / 100;
+        await product.save();
+
+        await publishEvent('product.updated', { productId: product._id, vendorId: product.vendorId });
+
+        res.json({ success: true, data: product });
+    } catch (error) {
+        handleError(res, error, 'Failed to apply markdown');
+    }
+};
+
+/**
+ * Hold stock for a checkout. Body: `reference` (the order id), `items`
+ * ({productId, quantity}) and optionally `minutes` to hold it for. Answers 409
+ * with the shortages when any product is short.
+ */
+exports.createReservation = async (req, res) => {
+    try {
+        const { reference, items, minutes } = req.body;
+        const reservation = await ledger.reserve(reference, items, {
+            minutes: parseInt(minutes) || undefined,
+            actor: actorOf(req)
+        });
+        res.status(201).json({ success: true, data: reservation });
+    } catch (error) {
+        handleError(res, error, 'Failed to reserve stock');
+    }
+};
+
+exports.getReservation = async (req, res) => {
+    try {
+        const reservation = await Reservation.findOne({ reference: req.params.reference }).lean();
+        if (!reservation) {
+            return res.status(404).json({ success: false, error: 'Reservation not found' });
+        }
+        res.json({ success: true, data: reservation });
+    } catch (error) {
+        handleError(res, error, 'Failed to get reservation');
+    }
+};
+
+// Sell the reserved units once the checkout is paid
+exports.commitReservation = async (req, res) => {
+    try {
+        const reservation = await ledger.commit(req.params.reference, { actor: actorOf(req) });
+        res.json({ success: true, data: reservation });
+    } catch (error) {
+        handleError(res, error, 'Failed to sell reserved stock');
+    }
+};
+
+// Give the units back, e.g. when payment fails
+exports.releaseReservation = async (req, res) => {
+    try {
+        const reservation = await ledger.release(req.params.reference, req.body.reason, { actor: actorOf(req) });
+        res.json({ success: true, data: reservation });
+    } catch (error) {
+        handleError(res, error, 'Failed to release reservation');
+    }
+};
+
+// The order was cancelled: release held units or put sold ones back
+exports.cancelReservation = async (req, res) => {
+    try {
+        const reservation = await ledger.cancel(req.params.reference, req.body.reason, { actor: actorOf(req) });
+        res.json({ success: true, data: reservation });
+    } catch (error) {
+        handleError(res, error, 'Failed to cancel reservation');
+    }
+};
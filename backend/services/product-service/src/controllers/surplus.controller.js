@@ -0,0 +1,320 @@
+/**
+ * Surplus Controller
+ * Unsold and expired vendor stock routed to recycling or fertilizer: declared
+ * by the vendor, scheduled for pickup and collected by an admin, and reported
+ * as kilograms diverted from landfill.
+ */
+
+const mongoose = require('mongoose');
+const Product = require('../models/product.model');
+const Batch = require('../models/batch.model');
+const { BATCH_STATUS } = require('../models/batch.model');
+const Surplus = require('../models/surplus.model');
+const { SURPLUS_STATUS, SURPLUS_DESTINATIONS, SURPLUS_SOURCES } = require('../models/surplus.model');
+const ledger = require('../utils/ledger');
+const { writtenOffUnits } = require('../utils/batches');
+const { publishEvent } = require('../utils/messaging');
+const { canManage } = require('../utils/vendors');
+const { createLogger } = require('../utils/logger');
+
+const logger = createLogger('surplus-controller');
+
+const KG_PER_UNIT = { g: 0.001, kg: 1, lb: 0.4536, oz: 0.02835 };
+
+const actorOf = (req) => req.user ? { id: String(req.user.id), role: req.user.role } : undefined;
+
+const NOT_YOURS = { success: false, error: "Only the product's vendor or an admin can declare or withdraw its surplus" };
+
+const handleError = (res, error, fallback) => {
+    if (error.statusCode) {
+        return res.status(error.statusCode).json({ success: false, error: error.message, data: error.data });
+    }
+    logger.error(`${fallback}: ${error.message}`);
+    res.status(500).json({ success: false, error: fallback });
+};
+
+// What `units` of a product weigh, from its listed weight; undefined when it has none
+const estimateKg = (product, units) => {
+    const { value, unit = 'g' } = product.weight || {};
+    if (!(value > 0)) return undefined;
+    return Math.round(value * KG_PER_UNIT[unit] * units * 100) / 100;
+};
+
+// Move a declaration on only from one of `from`, so two admins cannot both do it
+const transition = (id, from, update) => Surplus.findOneAndUpdate(
+    { _id: id, status: { $in: from } },
+    update,
+    { new: true }
+);
+
+const refuseTransition = async (res, id, action) => {
+    const surplus = await Surplus.findById(id).lean();
+    if (!surplus) return res.status(404).json({ success: false, error: 'Surplus not found' });
+    res.status(409).json({ success: false, error: `Cannot ${action} surplus that is ${surplus.status}` });
+};
+
+/**
+ * List declarations, optionally for one vendor (`vendorId`) and of one
+ * `status`; newest first
+ */
+exports.getSurplus = async (req, res) => {
+    try {
+        const { vendorId, status } = req.query;
+        const query = {};
+        if (vendorId) query.vendorId = vendorId;
+        if (status) query.status = status;
+
+        const surplus = await Surplus.find(query).sort('-createdAt').lean();
+        res.json({ success: true, data: surplus });
+    } catch (error) {
+        handleError(res, error, 'Failed to get surplus');
+    }
+};
+
+/**
+ * Declare surplus. Either a `batchId` — an expired batch sends what was
+ * written off, an active one what is left of it — or a `productId` and
+ * `units` of undated stock. Units still on hand leave stock as an adjustment.
+ * `estimatedKg` defaults to the product's listed weight.
+ */
+exports.declareSurplus = async (req, res) => {
+    try {
+        const { batchId, productId, units, estimatedKg, notes } = req.body;
+        const id = new mongoose.Types.ObjectId();
+
+        let batch;
+        let source = SURPLUS_SOURCES.UNSOLD;
+        let count = Number(units);
+        if (batchId) {
+            if (!mongoose.isValidObjectId(batchId)) {
+                return res.status(400).json({ success: false, error: 'Invalid ID format' });
+            }
+            batch = await Batch.findById(batchId).lean();
+            if (!batch) {
+                return res.status(404).json({ success: false, error: 'Batch not found' });
+            }
+            if (batch.status === BATCH_STATUS.EXPIRED) {
+                source = SURPLUS_SOURCES.EXPIRED;
+                const declared = await Surplus.exists({ batchId, source, status: { $ne: SURPLUS_STATUS.CANCELLED } });
+                if (declared) {
+                    return res.status(409).json({ success: false, error: 'This batch is already declared surplus' });
+                }
+                count = (await writtenOffUnits([batch._id])).get(String(batch._id)) || 0;
+            } else if (!units) {
+                count = batch.remaining;
+            }
+        } else if (!mongoose.isValidObjectId(productId)) {
+            return res.status(400).json({ success: false, error: 'Invalid ID format' });
+        }
+        if (!(Number.isInteger(count) && count > 0)) {
+            return res.status(400).json({ success: false, error: 'units must be a whole, positive number' });
+        }
+
+        const product = await Product.findById(batch ? batch.productId : productId).lean();
+        if (!product) {
+            return res.status(404).json({ success: false, error: 'Product not found' });
+        }
+        if (!(await canManage(req.user, product))) {
+            return res.status(403).json(NOT_YOURS);
+        }
+
+        const kg = estimatedKg === undefined || estimatedKg === '' ? estimateKg(product, count) : Number(estimatedKg);
+        if (kg !== undefined && !(kg >= 0)) {
+            return res.status(400).json({ success: false, error: 'estimatedKg must be a weight in kilograms' });
+        }
+
+        if (source === SURPLUS_SOURCES.UNSOLD) {
+            await ledger.move(product._id, 'adjust', { onHand: -count }, {
+                reason: 'Declared surplus',
+                reference: String(id),
+                batchId: batch?._id,
+                actor: actorOf(req)
+            });
+        }
+
+        const surplus = await Surplus.create({
+            _id: id,
+            vendorId: product.vendorId,
+            vendorName: product.vendorName,
+            productId: product._id,
+            productName: product.name,
+            batchId: batch?._id,
+            batchCode: batch?.code,
+            source,
+            units: count,
+            estimatedKg: kg,
+            notes
+        });
+
+        await publishEvent('surplus.declared', {
+            surplusId: surplus._id,
+            vendorId: surplus.vendorId,
+            productId: surplus.productId,
+            units: surplus.units
+        });
+
+        res.status(201).json({ success: true, data: surplus });
+    } catch (error) {
+        handleError(res, error, 'Failed to declare surplus');
+    }
+};
+
+/**
+ * Route declared surplus to `destination` (Recycle or Fertilizer) and book a
+ * vehicle (`vehicleId`) to pick it up on `pickupDate`. Can be repeated to
+ * reschedule until it is collected.
+ */
+exports.scheduleSurplus = async (req, res) => {
+    try {
+        const { destination, vehicleId, pickupDate } = req.body;
+        if (!SURPLUS_DESTINATIONS.includes(destination)) {
+            return res.status(400).json({ success: false, error: `destination must be one of ${SURPLUS_DESTINATIONS.join(', ')}` });
+        }
+        if (!vehicleId || !pickupDate || isNaN(new Date(pickupDate))) {
+            return res.status(400).json({ success: false, error: 'vehicleId and a valid pickupDate are required' });
+        }
+
+        const surplus = await transition(
+            req.params.id,
+            [SURPLUS_STATUS.DECLARED, SURPLUS_STATUS.SCHEDULED],
+            { destination, vehicleId, pickupDate: new Date(pickupDate), status: SURPLUS_STATUS.SCHEDULED }
+        );
+        if (!surplus) return refuseTransition(res, req.params.id, 'schedule');
+
+        res.json({ success: true, data: surplus });
+    } catch (error) {
+        handleError(res, error, 'Failed to schedule pickup');
+    }
+};
+
+/**
+ * Record a scheduled pickup as collected, with the weight weighed
+ * (`collectedKg`) and the admin inventory item it was received as
+ * (`inventoryItemId`)
+ */
+exports.collectSurplus = async (req, res) => {
+    try {
+        const collectedKg = Number(req.body.collectedKg);
+        if (!(collectedKg > 0)) {
+            return res.status(400).json({ success: false, error: 'collectedKg must be a positive weight' });
+        }
+
+        const surplus = await transition(req.params.id, [SURPLUS_STATUS.SCHEDULED], {
+            collectedKg,
+            collectedAt: new Date(),
+            inventoryItemId: req.body.inventoryItemId,
+            status: SURPLUS_STATUS.COLLECTED
+        });
+        if (!surplus) return refuseTransition(res, req.params.id, 'collect');
+
+        await publishEvent('surplus.collected', {
+            surplusId: surplus._id,
+            vendorId: surplus.vendorId,
+            destination: surplus.destination,
+            collectedKg
+        });
+
+        res.json({ success: true, data: surplus });
+    } catch (error) {
+        handleError(res, error, 'Failed to record collection');
+    }
+};
+
+/**
+ * Withdraw a declaration before it is collected. Unsold units go back on hand.
+ */
+exports.cancelSurplus = async (req, res) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(400).json({ success: false, error: 'Invalid ID format' });
+        }
+        const declared = await Surplus.findById(req.params.id).select('vendorId').lean();
+        if (!declared) {
+            return res.status(404).json({ success: false, error: 'Surplus not found' });
+        }
+        if (!(await canManage(req.user, declared))) {
+            return res.status(403).json(NOT_YOURS);
+        }
+
+        const surplus = await transition(
+            req.params.id,
+            [SURPLUS_STATUS.DECLARED, SURPLUS_STATUS.SCHEDULED],
+            { status: SURPLUS_STATUS.CANCELLED, notes: req.body.reason }
+        );
+        if (!surplus) return refuseTransition(res, req.params.id, 'cancel');
+
+        if (surplus.source === SURPLUS_SOURCES.UNSOLD) {
+            await ledger.move(surplus.productId, 'adjust', { onHand: surplus.units }, {
+                reason: 'Surplus withdrawn',
+                reference: String(surplus._id),
+                actor: actorOf(req)
+            });
+        }
+
+        res.json({ success: true, data: surplus });
+    } catch (error) {
+        handleError(res, error, 'Failed to cancel surplus');
+    }
+};
+
+/**
+ * Kilograms diverted from landfill: collected surplus between `from` and `to`
+ * (inclusive dates, default the past twelve months), optionally for one
+ * `vendorId`, in total, per vendor and per month
+ */
+exports.getDiverted = async (req, res) => {
+    try {
+        const to = req.query.to ? new Date(req.query.to) : new Date();
+        const from = req.query.from
+            ? new Date(req.query.from)
+            : new Date(to.getFullYear() - 1, to.getMonth() + 1, 1);
+        if (isNaN(from) || isNaN(to) || from > to) {
+            return res.status(400).json({ success: false, error: 'from must be a date on or before to' });
+        }
+        const end = new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1);
+
+        const match = { status: SURPLUS_STATUS.COLLECTED, collectedAt: { $gte: from, $lt: end } };
+        if (req.query.vendorId) match.vendorId = req.query.vendorId;
+
+        const [byVendor, byMonth] = await Promise.all([
+            Surplus.aggregate([
+                { $match: match },
+                {
+                    $group: {
+                        _id: '$vendorId',
+                        vendorName: { $last: '$vendorName' },
+                        kg: { $sum: '$collectedKg' },
+                        pickups: { $sum: 1 }
+                    }
+                },
+                { $sort: { kg: -1 } }
+            ]),
+            Surplus.aggregate([
+                { $match: match },
+                {
+                    $group: {
+                        _id: { $dateToString: { format: '%Y-%m', date: '$collectedAt' } },
+                        kg: { $sum: '$collectedKg' },
+                        recycleKg: { $sum: { $cond: [{ $eq: ['$destination', 'Recycle'] }, '$collectedKg', 0] } },
+                        fertilizerKg: { $sum: { $cond: [{ $eq: ['$destination', 'Fertilizer'] }, '$collectedKg', 0] } },
+                        pickups: { $sum: 1 }
+                    }
+                },
+                { $sort: { _id: 1 } }
+            ])
+        ]);
+
+        res.json({
+            success: true,
+            data: {
+                from,
+                to,
+                totalKg: byVendor.reduce((sum, row) => sum + row.kg, 0),
+                byVendor: byVendor.map(({ _id, ...row }) => ({ vendorId: _id, ...row })),
+                byMonth: byMonth.map(({ _id, ...row }) => ({ month: _id, ...row }))
+            }
+        });
+    } catch (error) {
+        handleError(res, error, 'Failed to get diverted weight');
+    }
+};
@@ -11,6 +11,9 @@ const morgan = require('morgan');
 
 const productRoutes = require('./routes/product.routes');
 const categoryRoutes = require('./routes/category.routes');
+const stockRoutes = require('./routes/stock.routes');
+const surplusRoutes = require('./routes/surplus.routes');
+const { releaseExpired, expireBatches } = require('./utils/ledger');
 const { errorHandler, notFoundHandler } = require('./middleware/error.middleware');
 const { createLogger } = require('./utils/logger');
 const { connectToRabbitMQ, subscribeToEvents } = require('./utils/messaging');
@@ -19,6 +22,11 @@ const app = express();
 const PORT = process.env.PORT || 3003;
 const logger = createLogger('product-service');
 
+// How often holds that ran out are given back
+const RESERVATION_SWEEP_MS = parseInt(process.env.STOCK_RESERVATION_SWEEP_MS || '60000', 10);
+// How often batches past their best-before are written off
+const BATCH_SWEEP_MS = parseInt(process.env.BATCH_EXPIRY_SWEEP_MS || '3600000', 10);
+
 // Middleware
 app.use(helmet());
 app.use(cors({
@@ -40,6 +48,12 @@ app.get('/health', (req, res) => {
 });
 
 // Routes
+app.use('/stock', stockRoutes);
+app.use('/products/stock', stockRoutes);
+app.use('/api/products/stock', stockRoutes);
+app.use('/surplus', surplusRoutes);
+app.use('/products/surplus', surplusRoutes);
+app.use('/api/products/surplus', surplusRoutes);
 app.use('/', productRoutes);
 app.use('/products', productRoutes);
 app.use('/api/products', productRoutes);
@@ -61,6 +75,13 @@ const startServer = async () => {
         await subscribeToEvents();
         logger.info('Message queue connected');
 
+        setInterval(() => {
+            releaseExpired().catch(error => logger.error('Failed to release expired reservations:', error));
+        }, RESERVATION_SWEEP_MS);
+        setInterval(() => {
+            expireBatches().catch(error => logger.error('Failed to expire batches:', error));
+        }, BATCH_SWEEP_MS);
+
         app.listen(PORT, () => {
             logger.info(`
 ╔════════════════════════════════════════════════════════════╗
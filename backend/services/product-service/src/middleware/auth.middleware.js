@@ -6,6 +6,14 @@ const jwt = require('jsonwebtoken');
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
 
+// Roles as the gateway forwards them; `System` is another service, e.g.
+// order-service moving stock for a checkout
+exports.ROLES = {
+    ADMIN: 'Admin',
+    VENDOR: 'Vendor',
+    SYSTEM: 'System'
+};
+
 exports.authMiddleware = (req, res, next) => {
     try {
         // Check for user ID from gateway
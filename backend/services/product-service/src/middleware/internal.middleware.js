@@ -0,0 +1,25 @@
+/**
+ * Internal Middleware for Product Service
+ * Other services prove who they are with the shared INTERNAL_SERVICE_TOKEN in
+ * the x-internal-token header, which the gateway drops from outside requests.
+ * order-service and payment-service check it the same way.
+ */
+
+const crypto = require('crypto');
+
+const INTERNAL_HEADER = 'x-internal-token';
+const INTERNAL_TOKEN = process.env.INTERNAL_SERVICE_TOKEN || 'your-internal-service-token';
+
+exports.isInternal = (req) => {
+    const given = Buffer.from(String(req.headers[INTERNAL_HEADER] || ''));
+    const expected = Buffer.from(INTERNAL_TOKEN);
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+// Routes only other services may call
+exports.internalOnly = (req, res, next) => {
+    if (!exports.isInternal(req)) {
+        return res.status(403).json({ success: false, error: 'Only EcoHarvest services may call this' });
+    }
+    next();
+};
@@ -0,0 +1,61 @@
+/**
+ * Batch Model
+ * Units of a product received together, with when they were harvested and
+ * when they must be sold by. Stock received without a batch is not tracked
+ * here; a product's batches never hold more than it has on hand.
+ */
+
+const mongoose = require('mongoose');
+
+const BATCH_STATUS = {
+    ACTIVE: 'active',
+    // Everything in it was sold or written off
+    DEPLETED: 'depleted',
+    // Past its best-before; what was left was written off
+    EXPIRED: 'expired'
+};
+
+const batchSchema = new mongoose.Schema({
+    productId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Product',
+        required: true
+    },
+    vendorId: {
+        type: String,
+        index: true
+    },
+    code: {
+        type: String,
+        required: true,
+        trim: true
+    },
+    harvestDate: Date,
+    bestBefore: Date,
+    received: {
+        type: Number,
+        required: true,
+        min: [1, 'A batch needs at least one unit']
+    },
+    remaining: {
+        type: Number,
+        required: true,
+        min: [0, 'Remaining cannot be negative']
+    },
+    status: {
+        type: String,
+        enum: Object.values(BATCH_STATUS),
+        default: BATCH_STATUS.ACTIVE
+    }
+}, {
+    timestamps: true
+});
+
+// First-expiring-first-out: the order batches are taken from
+batchSchema.index({ productId: 1, status: 1, bestBefore: 1, createdAt: 1 });
+batchSchema.index({ status: 1, bestBefore: 1 });
+
+const Batch = mongoose.model('Batch', batchSchema);
+
+module.exports = Batch;
+module.exports.BATCH_STATUS = BATCH_STATUS;
@@ -42,6 +42,12 @@ const productSchema = new mongoose.Schema({
         min: [0, 'Quantity cannot be negative'],
         default: 0
     },
+    // Units on hand held for checkouts that are being paid; see Reservation
+    reserved: {
+        type: Number,
+        min: [0, 'Reserved cannot be negative'],
+        default: 0
+    },
     category: {
         type: mongoose.Schema.Types.ObjectId,
         ref: 'Category',
@@ -131,6 +137,11 @@ const productSchema = new mongoose.Schema({
         type: Boolean,
         default: false
     },
+    // Sold in dated batches, first-expiring-first-out
+    perishable: {
+        type: Boolean,
+        default: false
+    },
     lowStockThreshold: {
         type: Number,
         default: 10
@@ -173,9 +184,14 @@ productSchema.virtual('discountPercentage').get(function () {
     return this.discount || 0;
 });
 
+// Virtual for units that can still be bought
+productSchema.virtual('available').get(function () {
+    return Math.max(0, this.quantity - (this.reserved || 0));
+});
+
 // Virtual for isLowStock
 productSchema.virtual('isLowStock').get(function () {
-    return this.quantity <= this.lowStockThreshold && this.quantity > 0;
+    return this.available <= this.lowStockThreshold && this.quantity > 0;
 });
 
 productSchema.set('toJSON', { virtuals: true });
@@ -0,0 +1,49 @@
+/**
+ * Reservation Model
+ * Units held for one checkout so nobody else can buy them while it is being
+ * paid. A reservation is sold when payment completes, and released when it
+ * fails, the order is cancelled or the hold runs out.
+ */
+
+const mongoose = require('mongoose');
+
+const RESERVATION_STATUS = {
+    ACTIVE: 'active',
+    COMMITTED: 'committed',
+    RELEASED: 'released',
+    EXPIRED: 'expired',
+    // Sold, then put back when the order was cancelled
+    RETURNED: 'returned'
+};
+
+const reservationSchema = new mongoose.Schema({
+    // One reservation per checkout, usually the order id
+    reference: {
+        type: String,
+        required: true,
+        unique: true
+    },
+    items: [{
+        productId: { type: mongoose.Schema.Types.ObjectId, ref: 'Product', required: true },
+        quantity: { type: Number, required: true, min: 1 }
+    }],
+    status: {
+        type: String,
+        enum: Object.values(RESERVATION_STATUS),
+        default: RESERVATION_STATUS.ACTIVE
+    },
+    expiresAt: {
+        type: Date,
+        required: true
+    },
+    closedReason: String
+}, {
+    timestamps: true
+});
+
+reservationSchema.index({ status: 1, expiresAt: 1 });
+
+const Reservation = mongoose.model('Reservation', reservationSchema);
+
+module.exports = Reservation;
+module.exports.RESERVATION_STATUS = RESERVATION_STATUS;
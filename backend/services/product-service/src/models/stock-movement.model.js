@@ -0,0 +1,69 @@
+/**
+ * Stock Movement Model
+ * The ledger behind a product's stock. Every change to the units on hand or
+ * reserved is one movement, with the balances it left behind; movements are
+ * only ever added, never changed or removed.
+ */
+
+const mongoose = require('mongoose');
+
+const MOVEMENT_TYPES = ['receive', 'reserve', 'release', 'sell', 'return', 'adjust'];
+
+const stockMovementSchema = new mongoose.Schema({
+    productId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Product',
+        required: true
+    },
+    vendorId: {
+        type: String,
+        index: true
+    },
+    type: {
+        type: String,
+        enum: MOVEMENT_TYPES,
+        required: true
+    },
+    // Signed change to the units on hand and to the units reserved
+    change: {
+        onHand: { type: Number, default: 0 },
+        reserved: { type: Number, default: 0 }
+    },
+    // Both counts right after the movement
+    balance: {
+        onHand: { type: Number, required: true },
+        reserved: { type: Number, required: true }
+    },
+    reason: {
+        type: String,
+        trim: true,
+        maxlength: [500, 'Reason cannot exceed 500 characters']
+    },
+    // What caused it, such as the order a reservation was made for
+    reference: String,
+    // Batches the units came out of or went into
+    batches: [{
+        batchId: { type: mongoose.Schema.Types.ObjectId, ref: 'Batch' },
+        code: String,
+        quantity: Number
+    }],
+    actor: {
+        id: String,
+        role: String
+    }
+}, {
+    timestamps: { createdAt: true, updatedAt: false }
+});
+
+stockMovementSchema.index({ productId: 1, createdAt: -1 });
+
+const appendOnly = function (next) {
+    next(new Error('Stock movements cannot be changed or removed'));
+};
+stockMovementSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'], appendOnly);
+stockMovementSchema.pre(['deleteOne', 'deleteMany', 'findOneAndDelete'], appendOnly);
+
+const StockMovement = mongoose.model('StockMovement', stockMovementSchema);
+
+module.exports = StockMovement;
+module.exports.MOVEMENT_TYPES = MOVEMENT_TYPES;
@@ -0,0 +1,92 @@
+/**
+ * Surplus Model
+ * Vendor stock that will not be sold, on its way to recycling or fertilizer
+ * instead of landfill. A vendor declares it, an admin routes it and schedules
+ * a vehicle to pick it up, and the weight collected is what was diverted.
+ */
+
+const mongoose = require('mongoose');
+
+const SURPLUS_STATUS = {
+    DECLARED: 'declared',
+    SCHEDULED: 'scheduled',
+    COLLECTED: 'collected',
+    CANCELLED: 'cancelled'
+};
+
+// Where it goes: the admin inventory categories other than Resale
+const SURPLUS_DESTINATIONS = ['Recycle', 'Fertilizer'];
+
+const SURPLUS_SOURCES = {
+    // A batch past its best-before, already written off by the ledger
+    EXPIRED: 'expired',
+    // Units still on hand that will not sell; taken out of stock when declared
+    UNSOLD: 'unsold'
+};
+
+const surplusSchema = new mongoose.Schema({
+    vendorId: {
+        type: String,
+        required: true,
+        index: true
+    },
+    vendorName: String,
+    productId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Product',
+        required: true
+    },
+    productName: String,
+    batchId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Batch'
+    },
+    batchCode: String,
+    source: {
+        type: String,
+        enum: Object.values(SURPLUS_SOURCES),
+        required: true
+    },
+    units: {
+        type: Number,
+        required: true,
+        min: [1, 'Surplus needs at least one unit']
+    },
+    // The vendor's estimate when declared, and what was weighed at pickup
+    estimatedKg: {
+        type: Number,
+        min: [0, 'Weight cannot be negative']
+    },
+    collectedKg: {
+        type: Number,
+        min: [0, 'Weight cannot be negative']
+    },
+    destination: {
+        type: String,
+        enum: SURPLUS_DESTINATIONS
+    },
+    vehicleId: String,
+    pickupDate: Date,
+    collectedAt: Date,
+    // The admin inventory item it became
+    inventoryItemId: String,
+    notes: String,
+    status: {
+        type: String,
+        enum: Object.values(SURPLUS_STATUS),
+        default: SURPLUS_STATUS.DECLARED
+    }
+}, {
+    timestamps: true
+});
+
+surplusSchema.index({ status: 1, pickupDate: 1 });
+surplusSchema.index({ status: 1, collectedAt: 1 });
+surplusSchema.index({ batchId: 1 });
+
+const Surplus = mongoose.model('Surplus', surplusSchema);
+
+module.exports = Surplus;
+module.exports.SURPLUS_STATUS = SURPLUS_STATUS;
+module.exports.SURPLUS_DESTINATIONS = SURPLUS_DESTINATIONS;
+module.exports.SURPLUS_SOURCES = SURPLUS_SOURCES;
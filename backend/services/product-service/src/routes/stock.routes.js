@@ -0,0 +1,30 @@
+/**
+ * Stock Routes
+ */
+
+const express = require('express');
+const router = express.Router();
+const stockController = require('../controllers/stock.controller');
+const { authMiddleware } = require('../middleware/auth.middleware');
+const { internalOnly } = require('../middleware/internal.middleware');
+
+router.use(authMiddleware);
+
+router.get('/levels', stockController.getLevels);
+router.get('/movements', stockController.getMovements);
+router.post('/movements', stockController.recordMovement);
+router.put('/:productId/threshold', stockController.updateThreshold);
+
+// Dated batches and what is about to expire
+router.get('/batches', stockController.getBatches);
+router.get('/expiry-report', stockController.getExpiryReport);
+router.post('/batches/:batchId/markdown', stockController.applyMarkdown);
+
+// Checkout reservations, keyed by order id; only order-service places orders
+router.post('/reservations', internalOnly, stockController.createReservation);
+router.get('/reservations/:reference', internalOnly, stockController.getReservation);
+router.post('/reservations/:reference/commit', internalOnly, stockController.commitReservation);
+router.post('/reservations/:reference/release', internalOnly, stockController.releaseReservation);
+router.post('/reservations/:reference/cancel', internalOnly, stockController.cancelReservation);
+
+module.exports = router;
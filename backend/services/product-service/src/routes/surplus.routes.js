@@ -0,0 +1,20 @@
+/**
+ * Surplus Routes
+ */
+
+const express = require('express');
+const router = express.Router();
+const surplusController = require('../controllers/surplus.controller');
+const { authMiddleware, authorize, ROLES } = require('../middleware/auth.middleware');
+
+router.use(authMiddleware);
+
+router.get('/', surplusController.getSurplus);
+router.get('/diverted', surplusController.getDiverted);
+router.post('/', surplusController.declareSurplus);
+// Pickups are arranged and received by an admin
+router.put('/:id/schedule', authorize(ROLES.ADMIN), surplusController.scheduleSurplus);
+router.put('/:id/collect', authorize(ROLES.ADMIN), surplusController.collectSurplus);
+router.put('/:id/cancel', surplusController.cancelSurplus);
+
+module.exports = router;
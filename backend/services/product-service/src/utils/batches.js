@@ -0,0 +1,171 @@
+/**
+ * Batches
+ * Which dated batches units come out of and go back into. Units leave
+ * first-expiring-first-out (FEFO): the batch with the nearest best-before goes
+ * first, undated batches last. Called by the stock ledger only.
+ */
+
+const Batch = require('../models/batch.model');
+const { BATCH_STATUS } = require('../models/batch.model');
+const StockMovement = require('../models/stock-movement.model');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Suggested markdown as a batch nears its best-before: the first tier its days
+// left fall within. Override with e.g. MARKDOWN_TIERS="1:50,3:30,7:15".
+const MARKDOWN_TIERS = (process.env.MARKDOWN_TIERS || '1:50,3:30,7:15')
+    .split(',')
+    .map(tier => tier.split(':').map(Number))
+    .map(([withinDays, percent]) => ({ withinDays, percent }))
+    .sort((a, b) => a.withinDays - b.withinDays);
+
+const startOfDay = (date = new Date()) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/** Whole days from today to a batch's best-before; negative once past, null if undated. */
+const daysLeft = (batch, now = new Date()) => batch.bestBefore
+    ? Math.round((startOfDay(new Date(batch.bestBefore)) - startOfDay(now)) / DAY_MS)
+    : null;
+
+/** Percent off to suggest for a batch with `days` left, or null. */
+const markdownFor = (days) => {
+    if (days === null || days < 0) return null;
+    return MARKDOWN_TIERS.find(tier => days <= tier.withinDays)?.percent ?? null;
+};
+
+const fefo = (a, b) =>
+    (a.bestBefore ? new Date(a.bestBefore).getTime() : Infinity) - (b.bestBefore ? new Date(b.bestBefore).getTime() : Infinity)
+    || new Date(a.createdAt) - new Date(b.createdAt);
+
+const batchCode = () => {
+    const day = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    return `B-${day}-${Math.random().toString(36).slice(2, 6).toUpperCase()}`;
+};
+
+/**
+ * Record received units as a new batch.
+ * @param {Object} product
+ * @param {number} quantity
+ * @param {{code?: string, harvestDate?: string, bestBefore?: string}} batch
+ * @returns {Promise<Array<{batchId, code: string, quantity: number}>>}
+ */
+const receiveBatch = async (product, quantity, { code, harvestDate, bestBefore }) => {
+    const batch = await Batch.create({
+        productId: product._id,
+        vendorId: product.vendorId,
+        code: code?.trim() || batchCode(),
+        harvestDate: harvestDate || undefined,
+        bestBefore: bestBefore || undefined,
+        received: quantity,
+        remaining: quantity
+    });
+    return [{ batchId: batch._id, code: batch.code, quantity }];
+};
+
+/**
+ * Take `quantity` units out of a product's batches, FEFO, or out of one batch
+ * when `batchId` is given. Units beyond what the batches hold came from stock
+ * received without a batch and are not listed.
+ */
+const takeFromBatches = async (productId, quantity, { batchId } = {}) => {
+    const query = { productId, status: BATCH_STATUS.ACTIVE, remaining: { $gt: 0 } };
+    if (batchId) query._id = batchId;
+    const batches = (await Batch.find(query).lean()).sort(fefo);
+
+    const taken = [];
+    let left = quantity;
+    for (const batch of batches) {
+        if (left <= 0) break;
+        const take = Math.min(left, batch.remaining);
+        const updated = await Batch.findOneAndUpdate(
+            { _id: batch._id, remaining: { $gte: take } },
+            { $inc: { remaining: -take } },
+            { new: true }
+        );
+        // Another movement got there first; the next batch covers it
+        if (!updated) continue;
+        if (updated.remaining === 0) {
+            await Batch.updateOne({ _id: batch._id, status: BATCH_STATUS.ACTIVE }, { status: BATCH_STATUS.DEPLETED });
+        }
+        taken.push({ batchId: batch._id, code: batch.code, quantity: take });
+        left -= take;
+    }
+    return taken;
+};
+
+/**
+ * Put units that come back from an order into the batches they were sold
+ * from, as far as earlier returns for the order have not already. Expired
+ * batches are not refilled.
+ */
+const returnToBatches = async (productId, reference, quantity) => {
+    const movements = await StockMovement.find({ productId, reference, type: { $in: ['sell', 'return'] } }).lean();
+    const open = new Map();
+    for (const movement of movements) {
+        const sign = movement.type === 'sell' ? 1 : -1;
+        for (const entry of movement.batches || []) {
+            const key = String(entry.batchId);
+            const current = open.get(key) || { batchId: entry.batchId, code: entry.code, quantity: 0 };
+            current.quantity += sign * entry.quantity;
+            open.set(key, current);
+        }
+    }
+
+    const restored = [];
+    let left = quantity;
+    for (const entry of open.values()) {
+        if (left <= 0) break;
+        const put = Math.min(left, entry.quantity);
+        if (put <= 0) continue;
+        const updated = await Batch.findOneAndUpdate(
+            { _id: entry.batchId, status: { $ne: BATCH_STATUS.EXPIRED } },
+            { $inc: { remaining: put }, status: BATCH_STATUS.ACTIVE }
+        );
+        if (!updated) continue;
+        restored.push({ batchId: entry.batchId, code: entry.code, quantity: put });
+        left -= put;
+    }
+    return restored;
+};
+
+/** Units written off per batch when it expired, from the ledger, by batch id. */
+const writtenOffUnits = async (batchIds) => {
+    if (batchIds.length === 0) return new Map();
+    const writeOffs = await StockMovement.aggregate([
+        { $match: { type: 'adjust', 'batches.batchId': { $in: batchIds } } },
+        { $unwind: '$batches' },
+        { $match: { 'batches.batchId': { $in: batchIds } } },
+        { $group: { _id: '$batches.batchId', units: { $sum: '$batches.quantity' } } }
+    ]);
+    return new Map(writeOffs.map(w => [String(w._id), w.units]));
+};
+
+/** A batch as the expiry report shows it. */
+const batchView = (batch, product, now = new Date()) => {
+    const days = daysLeft(batch, now);
+    return {
+        batchId: batch._id,
+        productId: batch.productId,
+        productName: product?.name,
+        vendorId: batch.vendorId,
+        code: batch.code,
+        harvestDate: batch.harvestDate,
+        bestBefore: batch.bestBefore,
+        received: batch.received,
+        remaining: batch.remaining,
+        status: batch.status,
+        daysLeft: days,
+        suggestedMarkdown: batch.status === BATCH_STATUS.ACTIVE ? markdownFor(days) : null
+    };
+};
+
+module.exports = {
+    MARKDOWN_TIERS,
+    startOfDay,
+    daysLeft,
+    markdownFor,
+    receiveBatch,
+    takeFromBatches,
+    returnToBatches,
+    writtenOffUnits,
+    batchView
+};
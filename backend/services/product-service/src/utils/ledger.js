@@ -0,0 +1,349 @@
+/**
+ * Stock Ledger
+ * The only way product stock changes. Each change is applied with a guarded
+ * update, so two buyers can never take the same unit, and recorded as a
+ * StockMovement.
+ *
+ * A product has units on hand (`quantity`) and units reserved for checkouts
+ * being paid (`reserved`); what is left can be bought.
+ *
+ * Units on hand may sit in dated batches: received units open a batch when
+ * they carry one, units leaving come out of the nearest best-before first, and
+ * units coming back from an order refill the batches they were sold from.
+ */
+
+const Product = require('../models/product.model');
+const StockMovement = require('../models/stock-movement.model');
+const Reservation = require('../models/reservation.model');
+const Batch = require('../models/batch.model');
+const { BATCH_STATUS } = require('../models/batch.model');
+const { RESERVATION_STATUS } = require('../models/reservation.model');
+const { publishEvent } = require('./messaging');
+const { notifyLowStock } = require('./notify');
+const { startOfDay, receiveBatch, takeFromBatches, returnToBatches } = require('./batches');
+const { createLogger } = require('./logger');
+const { ROLES } = require('../middleware/auth.middleware');
+
+const logger = createLogger('stock-ledger');
+
+// How long a checkout holds its units unless it asks for another time
+const RESERVATION_MINUTES = parseInt(process.env.STOCK_RESERVATION_MINUTES || '15', 10);
+
+class StockError extends Error {
+    constructor(message, statusCode, data) {
+        super(message);
+        this.name = 'StockError';
+        this.statusCode = statusCode;
+        this.data = data;
+    }
+}
+
+const RESERVED = { $ifNull: ['$reserved', 0] };
+
+const availableOf = (product) => product.quantity - (product.reserved || 0);
+
+// Out of Stock follows the units on hand, as the product's save hook does
+const syncStatus = async (product) => {
+    let status;
+    if (product.quantity === 0 && product.status !== 'Out of Stock') status = 'Out of Stock';
+    if (product.quantity > 0 && product.status === 'Out of Stock') status = 'In Stock';
+    if (status) {
+        await Product.updateOne({ _id: product._id }, { status });
+        product.status = status;
+        // Selling out takes a product off the storefront's search
+        await publishEvent('product.updated', { productId: product._id, vendorId: product.vendorId });
+    }
+};
+
+/**
+ * Apply one movement to a product. Refused with 409 when it would leave fewer
+ * units on hand than are reserved, or a negative reservation.
+ * @param {string} productId
+ * @param {string} type - one of StockMovement.MOVEMENT_TYPES
+ * @param {{onHand?: number, reserved?: number}} change - signed unit changes
+ * @param {{reason?: string, reference?: string, actor?: {id: string, role: string},
+ *   batch?: {code?: string, harvestDate?: string, bestBefore?: string}, batchId?: string}} [details]
+ *   `batch` opens a batch for received units; `batchId` takes units out of that batch only
+ * @returns {Promise<Object>} the product after the movement
+ */
+const move = async (productId, type, { onHand = 0, reserved = 0 }, { reason, reference, actor, batch, batchId } = {}) => {
+    // Units sold leave the catalog's sold count in step
+    const sold = type === 'sell' || type === 'return' ? -onHand : 0;
+
+    const product = await Product.findOneAndUpdate(
+        {
+            _id: productId,
+            $expr: {
+                $and: [
+                    { $gte: [{ $add: ['$quantity', onHand] }, { $add: [RESERVED, reserved] }] },
+                    { $gte: [{ $add: [RESERVED, reserved] }, 0] }
+                ]
+            }
+        },
+        { $inc: { quantity: onHand, reserved, soldCount: sold } },
+        { new: true }
+    );
+
+    if (!product) {
+        const current = await Product.findById(productId).lean();
+        if (!current) throw new StockError('Product not found', 404);
+        throw new StockError('Not enough stock', 409, {
+            productId,
+            name: current.name,
+            requested: Math.max(-onHand, reserved),
+            available: availableOf(current)
+        });
+    }
+
+    await syncStatus(product);
+
+    let batches = [];
+    if (onHand < 0) batches = await takeFromBatches(product._id, -onHand, { batchId });
+    else if (onHand > 0 && type === 'receive' && batch) batches = await receiveBatch(product, onHand, batch);
+    else if (onHand > 0 && type === 'return' && reference) batches = await returnToBatches(product._id, reference, onHand);
+
+    await StockMovement.create({
+        productId: product._id,
+        vendorId: product.vendorId,
+        type,
+        change: { onHand, reserved },
+        balance: { onHand: product.quantity, reserved: product.reserved },
+        reason,
+        reference,
+        actor,
+        batches
+    });
+
+    // Alert once, when the units left to sell first drop to the threshold
+    const available = availableOf(product);
+    const before = available - onHand + reserved;
+    if (available <= product.lowStockThreshold && before > product.lowStockThreshold) {
+        await publishEvent('inventory.low', {
+            productId: product._id,
+            vendorId: product.vendorId,
+            quantity: available
+        });
+        notifyLowStock(product, available);
+    }
+
+    return product;
+};
+
+/** Move the units on hand to a counted figure, as one `adjust` movement. */
+const adjustTo = async (productId, counted, details) => {
+    const product = await Product.findById(productId).lean();
+    if (!product) throw new StockError('Product not found', 404);
+    const delta = counted - product.quantity;
+    if (delta === 0) return Product.findById(productId);
+    return move(productId, 'adjust', { onHand: delta }, details);
+};
+
+// One line per product
+const mergeItems = (items) => {
+    const merged = new Map();
+    for (const { productId, quantity } of items) {
+        const units = parseInt(quantity, 10);
+        if (!productId || !(units > 0)) throw new StockError('Each item needs a productId and a positive quantity', 400);
+        merged.set(String(productId), (merged.get(String(productId)) || 0) + units);
+    }
+    return [...merged].map(([productId, quantity]) => ({ productId, quantity }));
+};
+
+// Claim a reservation for a change of status, so a commit and a release racing
+// each other cannot both move its units
+const claim = (reference, from, to, closedReason) => Reservation.findOneAndUpdate(
+    { reference, status: from },
+    { status: to, closedReason },
+    { new: true }
+);
+
+/**
+ * Hold `items` for a checkout. All or nothing: when any product is short the
+ * units already held are released and 409 lists the shortages. Repeating it
+ * for a reservation that is still active returns that reservation; a released
+ * or expired one is held again.
+ */
+const reserve = async (reference, items, { minutes = RESERVATION_MINUTES, actor } = {}) => {
+    if (!reference) throw new StockError('A reservation needs a reference', 400);
+    const lines = mergeItems(items || []);
+    if (lines.length === 0) throw new StockError('Nothing to reserve', 400);
+
+    const existing = await Reservation.findOne({ reference });
+    if (existing?.status === RESERVATION_STATUS.ACTIVE) return existing;
+    if (existing && ![RESERVATION_STATUS.RELEASED, RESERVATION_STATUS.EXPIRED].includes(existing.status)) {
+        throw new StockError(`Reservation is already ${existing.status}`, 409);
+    }
+
+    const held = [];
+    const shortages = [];
+    for (const line of lines) {
+        try {
+            await move(line.productId, 'reserve', { reserved: line.quantity }, { reference, actor });
+            held.push(line);
+        } catch (error) {
+            if (error.statusCode !== 409 && error.statusCode !== 404) throw error;
+            shortages.push(error.data || { productId: line.productId, requested: line.quantity, available: 0 });
+        }
+    }
+
+    if (shortages.length > 0) {
+        for (const line of held) {
+            await move(line.productId, 'release', { reserved: -line.quantity }, { reference, actor, reason: 'Reservation failed' });
+        }
+        throw new StockError('Some products do not have enough stock', 409, { shortages });
+    }
+
+    const expiresAt = new Date(Date.now() + minutes * 60 * 1000);
+    return Reservation.findOneAndUpdate(
+        { reference },
+        { items: lines, status: RESERVATION_STATUS.ACTIVE, expiresAt, closedReason: undefined },
+        { upsert: true, new: true }
+    );
+};
+
+/**
+ * Sell a checkout's units. An active reservation turns its held units into
+ * sales; one that was released or expired meanwhile sells from what is left,
+ * since the customer has paid. Repeating it is safe.
+ */
+const commit = async (reference, { actor } = {}) => {
+    const reservation = await Reservation.findOne({ reference });
+    if (!reservation) throw new StockError('Reservation not found', 404);
+    if (reservation.status === RESERVATION_STATUS.COMMITTED) return reservation;
+
+    const wasHeld = reservation.status === RESERVATION_STATUS.ACTIVE;
+    const claimed = await claim(reference, reservation.status, RESERVATION_STATUS.COMMITTED);
+    if (!claimed) return Reservation.findOne({ reference });
+
+    const failures = [];
+    for (const line of claimed.items) {
+        try {
+            await move(
+                line.productId,
+                'sell',
+                { onHand: -line.quantity, reserved: wasHeld ? -line.quantity : 0 },
+                { reference, actor }
+            );
+        } catch (error) {
+            failures.push(`${line.productId}: ${error.message}`);
+        }
+    }
+    if (failures.length > 0) {
+        claimed.closedReason = `Could not sell ${failures.join('; ')}`;
+        await claimed.save();
+        logger.error(`Reservation ${reference} sold short: ${claimed.closedReason}`);
+    }
+    return claimed;
+};
+
+/** Give an active reservation's units back; `status` says why it closed. */
+const release = async (reference, reason, { actor, status = RESERVATION_STATUS.RELEASED } = {}) => {
+    const claimed = await claim(reference, RESERVATION_STATUS.ACTIVE, status, reason);
+    if (!claimed) {
+        const reservation = await Reservation.findOne({ reference });
+        if (!reservation) throw new StockError('Reservation not found', 404);
+        return reservation;
+    }
+    for (const line of claimed.items) {
+        await move(line.productId, 'release', { reserved: -line.quantity }, { reference, actor, reason });
+    }
+    return claimed;
+};
+
+/**
+ * Undo a checkout that will not go ahead: releases its reservation, or puts
+ * units it already sold back on hand.
+ */
+const cancel = async (reference, reason, { actor } = {}) => {
+    const reservation = await Reservation.findOne({ reference });
+    if (!reservation) throw new StockError('Reservation not found', 404);
+    if (reservation.status === RESERVATION_STATUS.ACTIVE) return release(reference, reason, { actor });
+
+    const claimed = await claim(reference, RESERVATION_STATUS.COMMITTED, RESERVATION_STATUS.RETURNED, reason);
+    if (!claimed) return reservation;
+    for (const line of claimed.items) {
+        await move(line.productId, 'return', { onHand: line.quantity }, { reference, actor, reason });
+    }
+    return claimed;
+};
+
+/** Release every reservation whose hold has run out. */
+const releaseExpired = async () => {
+    const expired = await Reservation.find({ status: RESERVATION_STATUS.ACTIVE, expiresAt: { $lte: new Date() } })
+        .select('reference')
+        .lean();
+    for (const { reference } of expired) {
+        try {
+            await release(reference, 'Reservation expired', {
+                actor: { id: 'product-service', role: ROLES.SYSTEM },
+                status: RESERVATION_STATUS.EXPIRED
+            });
+        } catch (error) {
+            logger.error(`Failed to release expired reservation ${reference}: ${error.message}`);
+        }
+    }
+    return expired.length;
+};
+
+/**
+ * Write off what is left of every batch past its best-before, as `adjust`
+ * movements, and mark the batches expired. Units held for checkouts are left
+ * alone; the checkout sells them or gives them back.
+ */
+const expireBatches = async () => {
+    const actor = { id: 'product-service', role: ROLES.SYSTEM };
+    const expired = await Batch.find({ status: BATCH_STATUS.ACTIVE, bestBefore: { $lt: startOfDay() } }).lean();
+    for (const batch of expired) {
+        try {
+            const product = await Product.findById(batch.productId).lean();
+            const writeOff = product ? Math.min(batch.remaining, Math.max(availableOf(product), 0)) : 0;
+            if (writeOff > 0) {
+                await move(batch.productId, 'adjust', { onHand: -writeOff }, {
+                    reason: `Batch ${batch.code} expired`,
+                    batchId: batch._id,
+                    actor
+                });
+            }
+            await Batch.updateOne({ _id: batch._id, status: BATCH_STATUS.ACTIVE }, { status: BATCH_STATUS.EXPIRED });
+            await publishEvent('inventory.batch_expired', {
+                productId: batch.productId,
+                vendorId: batch.vendorId,
+                batchId: batch._id,
+                code: batch.code,
+                writtenOff: writeOff
+            });
+        } catch (error) {
+            logger.error(`Failed to expire batch ${batch.code}: ${error.message}`);
+        }
+    }
+    return expired.length;
+};
+
+/** A product's stock as the dashboard shows it. */
+const stockLevel = (product) => ({
+    productId: product._id,
+    name: product.name,
+    sku: product.sku,
+    vendorId: product.vendorId,
+    imageUrl: product.imageUrl,
+    status: product.status,
+    onHand: product.quantity,
+    reserved: product.reserved || 0,
+    available: availableOf(product),
+    lowStockThreshold: product.lowStockThreshold,
+    isLow: availableOf(product) <= product.lowStockThreshold
+});
+
+module.exports = {
+    RESERVATION_MINUTES,
+    StockError,
+    move,
+    adjustTo,
+    reserve,
+    commit,
+    release,
+    cancel,
+    releaseExpired,
+    expireBatches,
+    stockLevel
+};
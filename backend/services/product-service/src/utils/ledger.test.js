@@ -0,0 +1,128 @@
+jest.mock('./messaging');
+jest.mock('./notify');
+jest.mock('./batches');
+
+const Product = require('../models/product.model');
+const StockMovement = require('../models/stock-movement.model');
+const Reservation = require('../models/reservation.model');
+const { RESERVATION_STATUS } = require('../models/reservation.model');
+const { publishEvent } = require('./messaging');
+const { takeFromBatches } = require('./batches');
+const { StockError, move, reserve, stockLevel } = require('./ledger');
+
+const lean = (value) => ({ lean: () => Promise.resolve(value) });
+
+const product = (fields) => ({
+    _id: 'p1',
+    name: 'Apples',
+    vendorId: 'VND-1',
+    status: 'In Stock',
+    quantity: 10,
+    reserved: 0,
+    lowStockThreshold: 2,
+    ...fields
+});
+
+beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+    jest.spyOn(Product, 'updateOne').mockResolvedValue({});
+    jest.spyOn(StockMovement, 'create').mockResolvedValue({});
+    takeFromBatches.mockResolvedValue([]);
+});
+
+describe('move', () => {
+    it('applies the change only while units on hand still cover the reservations', async () => {
+        const update = jest.spyOn(Product, 'findOneAndUpdate').mockResolvedValue(product({ quantity: 7 }));
+
+        await move('p1', 'sell', { onHand: -3 }, { reference: 'ORD-1' });
+
+        const [filter, change] = update.mock.calls[0];
+        expect(filter._id).toBe('p1');
+        expect(filter.$expr.$and).toEqual([
+            { $gte: [{ $add: ['$quantity', -3] }, { $add: [{ $ifNull: ['$reserved', 0] }, 0] }] },
+            { $gte: [{ $add: [{ $ifNull: ['$reserved', 0] }, 0] }, 0] }
+        ]);
+        expect(change).toEqual({ $inc: { quantity: -3, reserved: 0, soldCount: 3 } });
+        expect(takeFromBatches).toHaveBeenCalledWith('p1', 3, { batchId: undefined });
+        expect(StockMovement.create).toHaveBeenCalledWith(expect.objectContaining({
+            type: 'sell',
+            balance: { onHand: 7, reserved: 0 },
+            reference: 'ORD-1'
+        }));
+    });
+
+    it('answers 409 with what is left when the guard refuses the change', async () => {
+        jest.spyOn(Product, 'findOneAndUpdate').mockResolvedValue(null);
+        jest.spyOn(Product, 'findById').mockReturnValue(lean(product({ quantity: 4, reserved: 3 })));
+
+        const error = await move('p1', 'reserve', { reserved: 2 }).catch(caught => caught);
+
+        expect(error).toBeInstanceOf(StockError);
+        expect(error.statusCode).toBe(409);
+        expect(error.data).toEqual({ productId: 'p1', name: 'Apples', requested: 2, available: 1 });
+        expect(StockMovement.create).not.toHaveBeenCalled();
+    });
+
+    it('answers 404 for a product that does not exist', async () => {
+        jest.spyOn(Product, 'findOneAndUpdate').mockResolvedValue(null);
+        jest.spyOn(Product, 'findById').mockReturnValue(lean(null));
+
+        await expect(move('p1', 'sell', { onHand: -1 })).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('raises a low stock alert only when the units left first reach the threshold', async () => {
+        jest.spyOn(Product, 'findOneAndUpdate').mockResolvedValue(product({ quantity: 1 }));
+        await move('p1', 'sell', { onHand: -1 });
+        expect(publishEvent).not.toHaveBeenCalledWith('inventory.low', expect.anything());
+
+        jest.spyOn(Product, 'findOneAndUpdate').mockResolvedValue(product({ quantity: 3, reserved: 1 }));
+        await move('p1', 'reserve', { reserved: 1 });
+        expect(publishEvent).toHaveBeenCalledWith('inventory.low', expect.objectContaining({ quantity: 2 }));
+    });
+
+    it('marks a product out of stock when its last unit leaves', async () => {
+        jest.spyOn(Product, 'findOneAndUpdate').mockResolvedValue(product({ quantity: 0 }));
+        await move('p1', 'sell', { onHand: -1 });
+        expect(Product.updateOne).toHaveBeenCalledWith({ _id: 'p1' }, { status: 'Out of Stock' });
+    });
+});
+
+describe('reserve', () => {
+    it('releases the units it held and lists the shortages when any product is short', async () => {
+        jest.spyOn(Reservation, 'findOne').mockResolvedValue(null);
+        const upsert = jest.spyOn(Reservation, 'findOneAndUpdate');
+        jest.spyOn(Product, 'findById').mockReturnValue(lean(product({ _id: 'p2', quantity: 1 })));
+        const update = jest.spyOn(Product, 'findOneAndUpdate')
+            .mockResolvedValueOnce(product({ reserved: 2 }))
+            .mockResolvedValueOnce(null)
+            .mockResolvedValueOnce(product());
+
+        const error = await reserve('CHK-1', [{ productId: 'p1', quantity: 2 }, { productId: 'p2', quantity: 5 }])
+            .catch(caught => caught);
+
+        expect(error.statusCode).toBe(409);
+        expect(error.data.shortages).toEqual([{ productId: 'p2', name: 'Apples', requested: 5, available: 1 }]);
+        expect(update.mock.calls[2][1]).toEqual({ $inc: { quantity: 0, reserved: -2, soldCount: 0 } });
+        expect(upsert).not.toHaveBeenCalled();
+    });
+
+    it('returns a reservation that is still active without holding more units', async () => {
+        const active = { reference: 'CHK-1', status: RESERVATION_STATUS.ACTIVE };
+        jest.spyOn(Reservation, 'findOne').mockResolvedValue(active);
+        const update = jest.spyOn(Product, 'findOneAndUpdate');
+
+        await expect(reserve('CHK-1', [{ productId: 'p1', quantity: 1 }])).resolves.toBe(active);
+        expect(update).not.toHaveBeenCalled();
+    });
+
+    it('refuses lines without a positive quantity', async () => {
+        await expect(reserve('CHK-1', [{ productId: 'p1', quantity: 0 }])).rejects.toMatchObject({ statusCode: 400 });
+    });
+});
+
+describe('stockLevel', () => {
+    it('counts reserved units out of what can be sold', () => {
+        expect(stockLevel(product({ quantity: 5, reserved: 3 }))).toMatchObject({ onHand: 5, reserved: 3, available: 2, isLow: true });
+    });
+});
@@ -0,0 +1,52 @@
+/**
+ * Vendor notifications, sent through notification-service. Products carry the
+ * vendor's entity id; notifications go to the vendor's user account.
+ */
+
+const { createLogger } = require('./logger');
+
+const logger = createLogger('notify');
+
+const NOTIFICATION_SERVICE_URL = process.env.NOTIFICATION_SERVICE_URL || 'http://localhost:3008';
+const VENDOR_SERVICE_URL = process.env.VENDOR_SERVICE_URL || 'http://localhost:3007';
+
+// The user behind a vendor entity; products created without a vendor entity
+// carry the user id itself
+const vendorUserId = async (vendorId) => {
+    try {
+        const response = await fetch(`${VENDOR_SERVICE_URL}/?entityId=${encodeURIComponent(vendorId)}`);
+        const body = await response.json();
+        return body?.data?.[0]?.userId || vendorId;
+    } catch (error) {
+        return vendorId;
+    }
+};
+
+/**
+ * Tell a product's vendor that it is running low. Failures are logged, not
+ * thrown: the stock movement that caused it has already happened.
+ */
+const notifyLowStock = async (product, available) => {
+    try {
+        const userId = await vendorUserId(product.vendorId);
+        const response = await fetch(`${NOTIFICATION_SERVICE_URL}/send`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                userId,
+                ...(available > 0
+                    ? {
+                        template: 'inventory.low_stock',
+                        variables: { productName: product.name, available, lowStockThreshold: product.lowStockThreshold }
+                    }
+                    : { title: 'Out of stock', message: `${product.name} has no stock left to sell.`, type: 'inventory' }),
+                data: { productId: product._id, available, lowStockThreshold: product.lowStockThreshold }
+            })
+        });
+        if (!response.ok) throw new Error(`notification-service answered ${response.status}`);
+    } catch (error) {
+        logger.error(`Failed to send low stock alert for product ${product._id}: ${error.message}`);
+    }
+};
+
+module.exports = { notifyLowStock };
@@ -0,0 +1,43 @@
+/**
+ * Vendors
+ * Products name their vendor by vendor-service's entity id, or, when created
+ * without one, by the vendor's user id. Vendors sign in as users, so the ids a
+ * vendor may act under are looked up from the signed-in user.
+ */
+
+const { createLogger } = require('./logger');
+const { ROLES } = require('../middleware/auth.middleware');
+
+const logger = createLogger('vendors');
+
+const VENDOR_SERVICE_URL = process.env.VENDOR_SERVICE_URL || 'http://localhost:3007';
+
+/**
+ * The ids a vendor user's products may carry: their user id and, once they
+ * have registered as a vendor, their entity id. A failed lookup is logged and
+ * leaves the user id alone, so a vendor is never given someone else's products.
+ */
+const vendorIdsOf = async (userId) => {
+    const ids = [String(userId)];
+    try {
+        const response = await fetch(`${VENDOR_SERVICE_URL}/${encodeURIComponent(userId)}`);
+        if (response.ok) {
+            const [, entity] = await response.json();
+            if (entity?.entityId) ids.push(String(entity.entityId));
+        } else if (response.status !== 404) {
+            throw new Error(`vendor-service answered ${response.status}`);
+        }
+    } catch (error) {
+        logger.error(`Failed to look up the vendor for user ${userId}: ${error.message}`);
+    }
+    return ids;
+};
+
+// Vendors manage their own products' stock; admins and other services any product's
+const canManage = async (user, product) => {
+    if ([ROLES.ADMIN, ROLES.SYSTEM].includes(user?.role)) return true;
+    if (user?.role !== ROLES.VENDOR) return false;
+    return (await vendorIdsOf(user.id)).includes(String(product.vendorId));
+};
+
+module.exports = { vendorIdsOf, canManage };
@@ -0,0 +1,174 @@
+/**
+ * Search Analytics
+ * What shoppers search for and what they do next: per query and per day, how
+ * often it was searched, how often it found nothing, and the clicks and
+ * add-to-carts that followed. Kept in Redis as one hash a day, so a date
+ * range is a handful of reads.
+ */
+
+const redis = require('./utils/redis');
+
+const DAY_KEY = (day) => `search:stats:${day}`;
+// Marks a shopper's event as counted for the day
+const SEEN_KEY = (day, shopper, metric, query) => `search:seen:${day}:${shopper}:${metric}|${query}`;
+// Days of analytics kept
+const RETENTION_DAYS = parseInt(process.env.SEARCH_ANALYTICS_RETENTION_DAYS || '400');
+const MAX_RANGE_DAYS = 366;
+
+const METRICS = ['searches', 'zero', 'results', 'clicks', 'carts'];
+const EVENT_METRICS = { click: 'clicks', add_to_cart: 'carts' };
+
+// Queries searched at least this often can be listed as low click-through
+const LOW_CTR_MIN_SEARCHES = parseInt(process.env.SEARCH_LOW_CTR_MIN_SEARCHES || '5');
+const LOW_CTR_THRESHOLD = 0.1;
+
+const MAX_QUERY_LENGTH = 100;
+
+class AnalyticsError extends Error {
+    constructor(message, statusCode = 400) {
+        super(message);
+        this.statusCode = statusCode;
+    }
+}
+
+/** A query as analytics counts it: trimmed, lower case, single-spaced. */
+const normalizeQuery = (query) => String(query || '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .slice(0, MAX_QUERY_LENGTH);
+
+const toDay = (date) => date.toISOString().slice(0, 10);
+
+// Fields are "<metric>|<query>"; queries may hold any other character
+const field = (metric, query) => `${metric}|${query}`;
+
+const increment = async (metricCounts, query) => {
+    const key = DAY_KEY(toDay(new Date()));
+    const pipeline = redis.pipeline();
+    for (const [metric, count] of Object.entries(metricCounts)) {
+        if (count) pipeline.hincrby(key, field(metric, query), count);
+    }
+    pipeline.expire(key, RETENTION_DAYS * 24 * 60 * 60);
+    await pipeline.exec();
+};
+
+/** Count a search for `query` that found `total` products. */
+const recordSearch = async (query, total) => {
+    const normalized = normalizeQuery(query);
+    if (!normalized) return;
+    await Promise.all([
+        increment({ searches: 1, zero: total === 0 ? 1 : 0, results: total }, normalized),
+        redis.zincrby('search:popular', 1, normalized)
+    ]);
+};
+
+/**
+ * Count what a shopper did with a query's results. Each shopper counts once a
+ * day per query and event type, and only for queries searched that day, so
+ * repeated events cannot inflate the rates.
+ * @param {'click'|'add_to_cart'} type
+ * @param {string} shopper - user id, or client address for guests
+ * @returns {Promise<boolean>} whether the event was counted
+ */
+const recordEvent = async (type, query, shopper) => {
+    const metric = EVENT_METRICS[type];
+    const normalized = normalizeQuery(query);
+    if (!metric) throw new AnalyticsError(`type must be one of ${Object.keys(EVENT_METRICS).join(', ')}`);
+    if (!normalized) throw new AnalyticsError('query is required');
+
+    const day = toDay(new Date());
+    const searched = await redis.hexists(DAY_KEY(day), field('searches', normalized));
+    if (!searched) return false;
+    const first = await redis.set(SEEN_KEY(day, shopper, metric, normalized), 1, 'EX', 24 * 60 * 60, 'NX');
+    if (!first) return false;
+
+    await increment({ [metric]: 1 }, normalized);
+    return true;
+};
+
+const daysBetween = (from, to) => {
+    const days = [];
+    for (let day = new Date(from); day <= to && days.length < MAX_RANGE_DAYS; day.setUTCDate(day.getUTCDate() + 1)) {
+        days.push(toDay(day));
+    }
+    return days;
+};
+
+const ratio = (part, whole) => (whole > 0 ? Math.round((part / whole) * 1000) / 1000 : 0);
+
+/**
+ * Queries between `from` and `to` (YYYY-MM-DD, both included; the past 30
+ * days by default): the most searched, those that found nothing, and those
+ * shoppers rarely clicked through from.
+ */
+const report = async ({ from, to, limit = 20 } = {}) => {
+    const end = to ? new Date(`${to}T00:00:00Z`) : new Date(`${toDay(new Date())}T00:00:00Z`);
+    const start = from ? new Date(`${from}T00:00:00Z`) : new Date(end.getTime() - 29 * 24 * 60 * 60 * 1000);
+    if (isNaN(start) || isNaN(end) || start > end) {
+        throw new AnalyticsError('from must be a date on or before to');
+    }
+
+    const days = daysBetween(start, end);
+    const pipeline = redis.pipeline();
+    days.forEach(day => pipeline.hgetall(DAY_KEY(day)));
+    const results = await pipeline.exec();
+
+    const queries = new Map();
+    for (const [error, hash] of results) {
+        if (error) throw error;
+        for (const [key, value] of Object.entries(hash || {})) {
+            const separator = key.indexOf('|');
+            const metric = key.slice(0, separator);
+            const query = key.slice(separator + 1);
+            if (!METRICS.includes(metric)) continue;
+            const row = queries.get(query) || Object.fromEntries(METRICS.map(name => [name, 0]));
+            row[metric] += parseInt(value) || 0;
+            queries.set(query, row);
+        }
+    }
+
+    const rows = [...queries].map(([query, row]) => ({
+        query,
+        searches: row.searches,
+        zeroResults: row.zero,
+        averageResults: row.searches > 0 ? Math.round((row.results / row.searches) * 10) / 10 : 0,
+        clicks: row.clicks,
+        addToCarts: row.carts,
+        clickThroughRate: ratio(row.clicks, row.searches),
+        conversionRate: ratio(row.carts, row.searches)
+    }));
+
+    const totals = rows.reduce((sum, row) => ({
+        searches: sum.searches + row.searches,
+        zeroResults: sum.zeroResults + row.zeroResults,
+        clicks: sum.clicks + row.clicks,
+        addToCarts: sum.addToCarts + row.addToCarts
+    }), { searches: 0, zeroResults: 0, clicks: 0, addToCarts: 0 });
+
+    return {
+        from: days[0],
+        to: days[days.length - 1],
+        totals: {
+            ...totals,
+            uniqueQueries: rows.filter(row => row.searches > 0).length,
+            clickThroughRate: ratio(totals.clicks, totals.searches),
+            conversionRate: ratio(totals.addToCarts, totals.searches)
+        },
+        // What counts as low click-through
+        lowClickThrough: { minSearches: LOW_CTR_MIN_SEARCHES, threshold: LOW_CTR_THRESHOLD },
+        topQueries: rows.filter(row => row.searches > 0)
+            .sort((a, b) => b.searches - a.searches)
+            .slice(0, limit),
+        zeroResultQueries: rows.filter(row => row.zeroResults > 0)
+            .sort((a, b) => b.zeroResults - a.zeroResults)
+            .slice(0, limit),
+        lowClickThroughQueries: rows
+            .filter(row => row.searches >= LOW_CTR_MIN_SEARCHES && row.zeroResults < row.searches
+                && row.clickThroughRate < LOW_CTR_THRESHOLD)
+            .sort((a, b) => a.clickThroughRate - b.clickThroughRate || b.searches - a.searches)
+            .slice(0, limit)
+    };
+};
+
+module.exports = { recordSearch, recordEvent, report };
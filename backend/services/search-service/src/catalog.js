@@ -0,0 +1,50 @@
+/**
+ * Catalog
+ * Fills the search index from product-service and keeps it fresh: product
+ * events re-read the one product, and a periodic full reindex catches
+ * anything an event did not say (ratings, bulk imports).
+ */
+
+const index = require('./search');
+
+const PRODUCT_SERVICE_URL = process.env.PRODUCT_SERVICE_URL || 'http://localhost:3003';
+const PAGE_SIZE = 100;
+
+const fetchProducts = async (params) => {
+    const response = await fetch(`${PRODUCT_SERVICE_URL}/products?${new URLSearchParams(params)}`);
+    if (!response.ok) throw new Error(`product-service answered ${response.status}`);
+    return response.json();
+};
+
+/** Rebuild the index from every product in the catalog. */
+const reindex = async () => {
+    const products = [];
+    for (let page = 1; ; page++) {
+        const body = await fetchProducts({ status: 'all', sort: '_id', limit: PAGE_SIZE, page });
+        products.push(...body.data);
+        if (page >= (body.pagination?.totalPages || 1)) break;
+    }
+    index.replaceAll(products);
+    console.log(`Indexed ${index.size()} of ${products.length} products`);
+};
+
+/** Re-read one product, dropping it from the index when it is gone. */
+const refresh = async (productId) => {
+    // Looked up by id so it is found whatever its status, and not counted as a view
+    const body = await fetchProducts({ ids: String(productId), status: 'all' });
+    const product = body.data?.[0];
+    if (product) index.upsert(product);
+    else index.remove(productId);
+};
+
+/** Apply a product-service event to the index. */
+const handleEvent = async (routingKey, event) => {
+    if (!event.productId) return;
+    if (routingKey === 'product.deleted') {
+        index.remove(event.productId);
+        return;
+    }
+    await refresh(event.productId);
+};
+
+module.exports = { reindex, refresh, handleEvent };
@@ -1,41 +1,29 @@
 /**
  * Search Service - Product Search & Discovery
- * Uses Redis for caching, designed for Elasticsearch integration
+ * Searches an in-memory index of the product-service catalog, kept fresh by
+ * product events. Uses Redis for caching results and counting searches.
  */
 
 const express = require('express');
 const cors = require('cors');
 const helmet = require('helmet');
-const Redis = require('ioredis');
+const redis = require('./utils/redis');
+const index = require('./search');
+const catalog = require('./catalog');
+const analytics = require('./analytics');
+const { connectToRabbitMQ, subscribeToEvents } = require('./utils/messaging');
 
 const app = express();
 const PORT = process.env.PORT || 3011;
-
-// Redis for caching search results
-const redis = new Redis({
-    host: process.env.REDIS_HOST || 'localhost',
-    port: process.env.REDIS_PORT || 6379
-});
-
-redis.on('connect', () => console.log('Redis connected'));
-redis.on('error', (err) => console.error('Redis error:', err));
+// Full reindex, for what product events do not cover
+const REINDEX_INTERVAL_MS = parseInt(process.env.SEARCH_REINDEX_MS || String(15 * 60 * 1000));
 
 // Middleware
 app.use(helmet());
 app.use(cors({ origin: '*', credentials: true }));
 app.use(express.json());
-
-// Mock product data for search (would normally come from Elasticsearch)
-const mockProducts = [
-    { id: '1', name: 'Organic Apples', category: 'Fruits', price: 150, rating: 4.5 },
-    { id: '2', name: 'Fresh Bananas', category: 'Fruits', price: 60, rating: 4.2 },
-    { id: '3', name: 'Green Spinach', category: 'Vegetables', price: 40, rating: 4.8 },
-    { id: '4', name: 'Organic Tomatoes', category: 'Vegetables', price: 80, rating: 4.3 },
-    { id: '5', name: 'Brown Rice', category: 'Grains', price: 120, rating: 4.6 },
-    { id: '6', name: 'Organic Honey', category: 'Pantry', price: 350, rating: 4.9 },
-    { id: '7', name: 'Fresh Milk', category: 'Dairy', price: 55, rating: 4.4 },
-    { id: '8', name: 'Free Range Eggs', category: 'Dairy', price: 90, rating: 4.7 }
-];
+// Behind the gateway: req.ip is the client it forwarded for
+app.set('trust proxy', 1);
 
 // Popular search terms
 const popularSearches = [
@@ -49,88 +37,32 @@ const popularSearches = [
 
 // Health Check
 app.get('/health', (req, res) => {
-    res.json({ status: 'healthy', service: 'search-service' });
+    res.json({ status: 'healthy', service: 'search-service', indexed: index.size() });
 });
 
-// Search products
+// Search products. Query: q, category, vendor (ids, comma-separated),
+// minPrice, maxPrice, minRating, sortBy (relevance, price_asc, price_desc,
+// rating, newest), page and limit.
 app.get('/products', async (req, res) => {
     try {
-        const { q, category, minPrice, maxPrice, sortBy = 'relevance', page = 1, limit = 20 } = req.query;
+        const { q, page = 1 } = req.query;
 
-        // Check cache
-        const cacheKey = `search:${JSON.stringify(req.query)}`;
+        // Check cache; a changed index makes a new key
+        const cacheKey = `search:${index.version()}:${JSON.stringify(req.query)}`;
         const cached = await redis.get(cacheKey);
-        if (cached) {
-            return res.json(JSON.parse(cached));
-        }
-
-        // Filter products
-        let results = [...mockProducts];
-
-        if (q) {
-            const query = q.toLowerCase();
-            results = results.filter(p =>
-                p.name.toLowerCase().includes(query) ||
-                p.category.toLowerCase().includes(query)
-            );
-
-            // Track search analytics
-            await redis.zincrby('search:popular', 1, q.toLowerCase());
-        }
-
-        if (category) {
-            results = results.filter(p => p.category.toLowerCase() === category.toLowerCase());
-        }
-
-        if (minPrice) {
-            results = results.filter(p => p.price >= parseFloat(minPrice));
-        }
+        const response = cached ? JSON.parse(cached) : { success: true, ...index.search(req.query) };
 
-        if (maxPrice) {
-            results = results.filter(p => p.price <= parseFloat(maxPrice));
+        if (!cached) {
+            // Cache for 5 minutes
+            await redis.setex(cacheKey, 300, JSON.stringify(response));
         }
 
-        // Sort
-        switch (sortBy) {
-            case 'price_asc':
-                results.sort((a, b) => a.price - b.price);
-                break;
-            case 'price_desc':
-                results.sort((a, b) => b.price - a.price);
-                break;
-            case 'rating':
-                results.sort((a, b) => b.rating - a.rating);
-                break;
-            default:
-                // relevance - keep original order
-                break;
+        // Track search analytics; turning pages is the same search
+        if (q && parseInt(page) === 1) {
+            analytics.recordSearch(q, response.pagination.total)
+                .catch(error => console.error('Failed to record search:', error.message));
         }
 
-        // Paginate
-        const start = (page - 1) * limit;
-        const paginatedResults = results.slice(start, start + parseInt(limit));
-
-        const response = {
-            success: true,
-            data: paginatedResults,
-            pagination: {
-                page: parseInt(page),
-                limit: parseInt(limit),
-                total: results.length,
-                totalPages: Math.ceil(results.length / limit)
-            },
-            facets: {
-                categories: [...new Set(mockProducts.map(p => p.category))],
-                priceRange: {
-                    min: Math.min(...mockProducts.map(p => p.price)),
-                    max: Math.max(...mockProducts.map(p => p.price))
-                }
-            }
-        };
-
-        // Cache for 5 minutes
-        await redis.setex(cacheKey, 300, JSON.stringify(response));
-
         res.json(response);
     } catch (error) {
         console.error('Search error:', error);
@@ -138,20 +70,16 @@ app.get('/products', async (req, res) => {
     }
 });
 
-// Auto-complete suggestions
+// Auto-complete suggestions: matching products and their categories
 app.get('/suggestions', async (req, res) => {
     try {
-        const { q } = req.query;
+        const q = String(req.query.q || '').trim();
 
-        if (!q || q.length < 2) {
-            return res.json({ success: true, data: [] });
+        if (q.length < 2) {
+            return res.json({ success: true, data: { products: [], categories: [] } });
         }
 
-        const query = q.toLowerCase();
-        const suggestions = mockProducts
-            .filter(p => p.name.toLowerCase().includes(query))
-            .map(p => p.name)
-            .slice(0, 5);
+        const suggestions = index.suggest(q, { limit: Math.min(parseInt(req.query.limit) || 5, 10) });
 
         res.json({ success: true, data: suggestions });
     } catch (error) {
@@ -179,31 +107,65 @@ app.get('/popular', async (req, res) => {
     }
 });
 
-// Search analytics
-app.get('/analytics', async (req, res) => {
+// What a shopper did with a search's results. Body: type (click or
+// add_to_cart), query and productId. Repeats the same day are not counted.
+app.post('/events', async (req, res) => {
     try {
-        const topSearches = await redis.zrevrange('search:popular', 0, 19, 'WITHSCORES');
-
-        const analytics = [];
-        for (let i = 0; i < topSearches.length; i += 2) {
-            analytics.push({ term: topSearches[i], count: parseInt(topSearches[i + 1]) });
+        const { type, query } = req.body;
+        const shopper = req.headers['x-user-id'] || req.ip;
+        const counted = await analytics.recordEvent(type, query, shopper);
+        res.status(counted ? 201 : 200).json({ success: true, data: { counted } });
+    } catch (error) {
+        if (error.statusCode) {
+            return res.status(error.statusCode).json({ success: false, error: error.message });
         }
+        console.error('Record search event error:', error);
+        res.status(500).json({ success: false, error: 'Failed to record event' });
+    }
+});
 
-        res.json({
-            success: true,
-            data: {
-                topSearches: analytics,
-                totalSearches: analytics.reduce((sum, a) => sum + a.count, 0)
-            }
-        });
+// Search analytics: top, zero-result and low click-through queries. Query:
+// from and to (YYYY-MM-DD), limit. Admins only.
+app.get('/analytics', async (req, res) => {
+    try {
+        if (req.headers['x-user-role'] !== 'Admin') {
+            return res.status(403).json({ success: false, error: 'Admin access required' });
+        }
+        const { from, to, limit } = req.query;
+        const data = await analytics.report({ from, to, limit: Math.min(parseInt(limit) || 20, 100) });
+        res.json({ success: true, data });
     } catch (error) {
+        if (error.statusCode) {
+            return res.status(error.statusCode).json({ success: false, error: error.message });
+        }
+        console.error('Search analytics error:', error);
         res.status(500).json({ success: false, error: 'Failed to get analytics' });
     }
 });
 
+// Fill the index, trying again until product-service answers
+const reindex = async () => {
+    try {
+        await catalog.reindex();
+    } catch (error) {
+        console.error('Reindex failed:', error.message);
+        if (index.size() === 0) setTimeout(reindex, 10000);
+    }
+};
+
 // Start server
-app.listen(PORT, () => {
-    console.log(`🔍 Search Service running on port ${PORT}`);
-});
+const startServer = async () => {
+    await connectToRabbitMQ();
+    await subscribeToEvents('search-service-products', ['product.*'], catalog.handleEvent);
+
+    await reindex();
+    setInterval(reindex, REINDEX_INTERVAL_MS);
+
+    app.listen(PORT, () => {
+        console.log(`🔍 Search Service running on port ${PORT}`);
+    });
+};
+
+startServer();
 
 module.exports = app;
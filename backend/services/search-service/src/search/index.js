@@ -0,0 +1,289 @@
+/**
+ * Search Index
+ * The product catalog held in memory for searching: typo-tolerant matching
+ * with synonyms, filters, facets over what matched, and the spans of each
+ * name that matched for highlighting. Kept in step with product-service by
+ * catalog.js; only products on sale are indexed.
+ */
+
+const { terms, tokenize, matchScore } = require('./text');
+
+const SEARCHABLE_STATUSES = ['In Stock', 'Active'];
+
+// How much a match counts for in each field
+const FIELD_WEIGHTS = { name: 4, tags: 2, category: 2, subtitle: 1.5, vendor: 1, description: 0.5 };
+
+// Suggestions are names, so only what describes the product by name counts
+const SUGGEST_WEIGHTS = { name: 4, tags: 2, category: 2 };
+
+const RATING_STEPS = [4, 3, 2, 1];
+
+const SORTS = ['relevance', 'price_asc', 'price_desc', 'rating', 'newest'];
+
+const MAX_LIMIT = 48;
+
+const documents = new Map();
+// Every term in the index, with how many products use it
+const vocabulary = new Map();
+// Bumped on every change, so cached results can be told apart
+let version = 0;
+
+const countTerms = (doc, delta) => {
+    for (const fieldTerms of Object.values(doc.fields)) {
+        for (const term of fieldTerms) {
+            const count = (vocabulary.get(term) || 0) + delta;
+            if (count > 0) vocabulary.set(term, count);
+            else vocabulary.delete(term);
+        }
+    }
+};
+
+// A catalog product as the storefront shows it
+const toHit = (product) => ({
+    _id: String(product._id),
+    vendorId: product.vendorId,
+    vendorName: product.vendorName || '',
+    name: product.name,
+    subtitle: product.subtitle || '',
+    quantity: Math.max((product.quantity || 0) - (product.reserved || 0), 0),
+    unitPrice: product.price,
+    MRP: product.originalPrice || product.price,
+    category: product.categoryName || product.category?.name || '',
+    imageUrl: product.imageUrl || product.images?.[0]?.url || '',
+    status: product.status,
+    averageRating: Number(product.averageRating) || 0,
+    numberOfReviews: product.reviewCount || 0,
+    perishable: Boolean(product.perishable),
+    createdAt: product.createdAt
+});
+
+const toDocument = (product) => {
+    const hit = toHit(product);
+    return {
+        hit,
+        fields: {
+            name: new Set(terms(hit.name)),
+            subtitle: new Set(terms(hit.subtitle)),
+            category: new Set(terms(hit.category)),
+            tags: new Set(terms((product.tags || []).join(' '))),
+            vendor: new Set(terms(hit.vendorName)),
+            description: new Set(terms(product.description))
+        },
+        soldCount: product.soldCount || 0
+    };
+};
+
+const remove = (productId) => {
+    const doc = documents.get(String(productId));
+    if (!doc) return false;
+    countTerms(doc, -1);
+    documents.delete(String(productId));
+    version++;
+    return true;
+};
+
+/** Index a product as it now is, or drop it when it is no longer on sale. */
+const upsert = (product) => {
+    remove(product._id);
+    if (!SEARCHABLE_STATUSES.includes(product.status)) return;
+    const doc = toDocument(product);
+    documents.set(doc.hit._id, doc);
+    countTerms(doc, 1);
+    version++;
+};
+
+/** Swap the whole index for `products`. */
+const replaceAll = (products) => {
+    documents.clear();
+    vocabulary.clear();
+    products.forEach(upsert);
+    version++;
+};
+
+// For each query term, the score of every indexed term it matches. Worked out
+// once per query over the vocabulary rather than per product.
+const matchTable = (queryTerms) => queryTerms.map((queryTerm, i) => {
+    const prefix = i === queryTerms.length - 1;
+    const scores = new Map();
+    for (const term of vocabulary.keys()) {
+        const score = matchScore(queryTerm, term, { prefix });
+        if (score > 0) scores.set(term, score);
+    }
+    return scores;
+});
+
+// A product's relevance: every query term must match some field; each counts
+// for its best match. Zero when any term is missing.
+const relevance = (doc, table, weights = FIELD_WEIGHTS) => {
+    let total = 0;
+    for (const scores of table) {
+        let best = 0;
+        for (const [field, weight] of Object.entries(weights)) {
+            for (const term of doc.fields[field]) {
+                const score = scores.get(term);
+                if (score) best = Math.max(best, score * weight);
+            }
+        }
+        if (best === 0) return 0;
+        total += best;
+    }
+    return total;
+};
+
+/** [start, end) spans of `text` that matched the query. */
+const highlight = (text, table) => tokenize(text)
+    .filter(token => table.some(scores => scores.has(token.term)))
+    .map(token => [token.start, token.end]);
+
+const parseFilters = ({ category, vendor, minPrice, maxPrice, minRating }) => ({
+    category: category ? String(category).toLowerCase() : null,
+    vendors: vendor ? String(vendor).split(',').filter(Boolean) : [],
+    minPrice: minPrice !== undefined && minPrice !== '' ? parseFloat(minPrice) : null,
+    maxPrice: maxPrice !== undefined && maxPrice !== '' ? parseFloat(maxPrice) : null,
+    minRating: minRating ? parseFloat(minRating) : null
+});
+
+// Filters a hit passes, by facet
+const passes = (hit, filters) => ({
+    category: !filters.category || hit.category.toLowerCase() === filters.category,
+    vendor: filters.vendors.length === 0 || filters.vendors.includes(hit.vendorId),
+    price: (filters.minPrice === null || hit.unitPrice >= filters.minPrice)
+        && (filters.maxPrice === null || hit.unitPrice <= filters.maxPrice),
+    rating: filters.minRating === null || hit.averageRating >= filters.minRating
+});
+
+// Passes every filter but `except`, so a facet counts what choosing each of its
+// values would give
+const passesAllBut = (checks, except) => Object.entries(checks)
+    .every(([facet, ok]) => facet === except || ok);
+
+const facetsOf = (matches) => {
+    const categories = new Map();
+    const vendors = new Map();
+    const ratings = RATING_STEPS.map(min => ({ min, count: 0 }));
+    let minPrice = Infinity;
+    let maxPrice = -Infinity;
+
+    for (const { doc, checks } of matches) {
+        const { hit } = doc;
+        if (passesAllBut(checks, 'category') && hit.category) {
+            categories.set(hit.category, (categories.get(hit.category) || 0) + 1);
+        }
+        if (passesAllBut(checks, 'vendor')) {
+            const vendor = vendors.get(hit.vendorId) || { value: hit.vendorId, label: hit.vendorName || 'Vendor', count: 0 };
+            vendor.count++;
+            vendors.set(hit.vendorId, vendor);
+        }
+        if (passesAllBut(checks, 'rating')) {
+            ratings.forEach(step => { if (hit.averageRating >= step.min) step.count++; });
+        }
+        if (passesAllBut(checks, 'price')) {
+            minPrice = Math.min(minPrice, hit.unitPrice);
+            maxPrice = Math.max(maxPrice, hit.unitPrice);
+        }
+    }
+
+    return {
+        categories: [...categories].map(([value, count]) => ({ value, count }))
+            .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)),
+        vendors: [...vendors.values()].sort((a, b) => b.count - a.count || a.label.localeCompare(b.label)),
+        ratings,
+        price: minPrice === Infinity ? { min: 0, max: 0 } : { min: minPrice, max: maxPrice }
+    };
+};
+
+const COMPARE = {
+    relevance: (a, b) => b.score - a.score
+        || b.doc.hit.averageRating - a.doc.hit.averageRating
+        || b.doc.soldCount - a.doc.soldCount,
+    price_asc: (a, b) => a.doc.hit.unitPrice - b.doc.hit.unitPrice,
+    price_desc: (a, b) => b.doc.hit.unitPrice - a.doc.hit.unitPrice,
+    rating: (a, b) => b.doc.hit.averageRating - a.doc.hit.averageRating
+        || b.doc.hit.numberOfReviews - a.doc.hit.numberOfReviews,
+    newest: (a, b) => new Date(b.doc.hit.createdAt || 0) - new Date(a.doc.hit.createdAt || 0)
+};
+
+/**
+ * Products matching `q` and the filters, a page at a time, with facets.
+ * Without `q` every product on sale matches, best sellers first.
+ * @param {{q?: string, category?: string, vendor?: string, minPrice?: string,
+ *   maxPrice?: string, minRating?: string, sortBy?: string, page?: string, limit?: string}} params
+ */
+const search = (params) => {
+    const queryTerms = terms(params.q).slice(0, 10);
+    const table = matchTable(queryTerms);
+    const filters = parseFilters(params);
+    const sortBy = SORTS.includes(params.sortBy) ? params.sortBy : 'relevance';
+    const page = Math.max(parseInt(params.page) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(params.limit) || 20, 1), MAX_LIMIT);
+
+    const matches = [];
+    for (const doc of documents.values()) {
+        const score = queryTerms.length > 0 ? relevance(doc, table) : 1;
+        if (score > 0) matches.push({ doc, score, checks: passes(doc.hit, filters) });
+    }
+
+    const results = matches
+        .filter(match => passesAllBut(match.checks))
+        .sort(COMPARE[sortBy]);
+
+    const data = results.slice((page - 1) * limit, page * limit).map(({ doc }) => ({
+        ...doc.hit,
+        highlights: queryTerms.length > 0
+            ? { name: highlight(doc.hit.name, table), subtitle: highlight(doc.hit.subtitle, table) }
+            : { name: [], subtitle: [] }
+    }));
+
+    return {
+        data,
+        pagination: { page, limit, total: results.length, totalPages: Math.ceil(results.length / limit) },
+        facets: facetsOf(matches)
+    };
+};
+
+/**
+ * What to suggest while `q` is being typed: the products whose names start
+ * with, or are close to, it, and the categories most of them are in.
+ * @returns {{products: Array<Object>, categories: Array<{value: string, count: number}>}}
+ */
+const suggest = (q, { limit = 5, categoryLimit = 3 } = {}) => {
+    const queryTerms = terms(q).slice(0, 10);
+    if (queryTerms.length === 0) return { products: [], categories: [] };
+    const table = matchTable(queryTerms);
+    const matches = [...documents.values()]
+        .map(doc => ({ doc, score: relevance(doc, table, SUGGEST_WEIGHTS) }))
+        .filter(match => match.score > 0)
+        .sort(COMPARE.relevance);
+
+    const categories = new Map();
+    for (const { doc } of matches) {
+        if (doc.hit.category) categories.set(doc.hit.category, (categories.get(doc.hit.category) || 0) + 1);
+    }
+
+    return {
+        products: matches.slice(0, limit).map(({ doc }) => ({
+            _id: doc.hit._id,
+            name: doc.hit.name,
+            imageUrl: doc.hit.imageUrl,
+            unitPrice: doc.hit.unitPrice,
+            category: doc.hit.category,
+            highlights: highlight(doc.hit.name, table)
+        })),
+        categories: [...categories]
+            .map(([value, count]) => ({ value, count }))
+            .sort((a, b) => b.count - a.count)
+            .slice(0, categoryLimit)
+    };
+};
+
+module.exports = {
+    SEARCHABLE_STATUSES,
+    SORTS,
+    upsert,
+    remove,
+    replaceAll,
+    search,
+    suggest,
+    size: () => documents.size,
+    version: () => version
+};
@@ -0,0 +1,25 @@
+/**
+ * Synonyms
+ * Words shoppers use for the same produce. A search for any word in a group
+ * also finds products named with the others.
+ */
+
+module.exports = [
+    ['brinjal', 'eggplant', 'aubergine'],
+    ['okra', 'ladyfinger', 'bandakka', 'bhindi'],
+    ['capsicum', 'pepper'],
+    ['chilli', 'chili', 'chile'],
+    ['coriander', 'cilantro'],
+    ['courgette', 'zucchini'],
+    ['rocket', 'arugula'],
+    ['beetroot', 'beet'],
+    ['maize', 'corn'],
+    ['chickpea', 'chickpeas', 'garbanzo', 'kadala'],
+    ['curd', 'yogurt', 'yoghurt'],
+    ['prawn', 'prawns', 'shrimp'],
+    ['jackfruit', 'jak', 'kos'],
+    ['pumpkin', 'squash'],
+    ['papaya', 'pawpaw'],
+    ['spinach', 'nivithi'],
+    ['manioc', 'cassava', 'manyokka']
+];
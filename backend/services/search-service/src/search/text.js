@@ -0,0 +1,93 @@
+/**
+ * Text
+ * Splitting product text and queries into comparable terms, and telling how
+ * closely a query term matches a product's.
+ */
+
+const SYNONYMS = require('./synonyms');
+
+// How much each kind of match counts for
+const MATCH_WEIGHT = { exact: 1, synonym: 0.9, prefix: 0.7, fuzzy: 0.5 };
+
+// Terms shorter than this only match exactly or as a prefix
+const MIN_FUZZY_LENGTH = 4;
+
+/** Lower case, without accents, so "Jalapeño" finds "jalapeno". */
+const normalize = (text) => String(text || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+/**
+ * Terms of `text` with where each sits in it, for highlighting.
+ * @returns {Array<{term: string, start: number, end: number}>}
+ */
+const tokenize = (text) => {
+    const source = String(text || '');
+    return [...source.matchAll(/[\p{L}\p{M}\p{N}]+/gu)].map(match => ({
+        term: normalize(match[0]),
+        start: match.index,
+        end: match.index + match[0].length
+    }));
+};
+
+const terms = (text) => tokenize(text).map(token => token.term);
+
+// Single words that mean the same, by word
+const SYNONYMS_OF = new Map();
+for (const group of SYNONYMS) {
+    const words = group.map(normalize);
+    for (const word of words) {
+        SYNONYMS_OF.set(word, [...(SYNONYMS_OF.get(word) || []), ...words.filter(other => other !== word)]);
+    }
+}
+
+/** Other words for `term`, e.g. "eggplant" for "brinjal". */
+const synonymsOf = (term) => SYNONYMS_OF.get(term) || [];
+
+// Edits allowed for a term of this length: one typo, two in long words
+const allowedEdits = (length) => (length < MIN_FUZZY_LENGTH ? 0 : length < 8 ? 1 : 2);
+
+/**
+ * Damerau-Levenshtein distance between `a` and `b`, giving up once it
+ * exceeds `max`.
+ */
+const editDistance = (a, b, max) => {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+    let beforePrevious = null;
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+            // Swapped neighbours count as one edit
+            if (beforePrevious && i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                value = Math.min(value, beforePrevious[j - 2] + 1);
+            }
+            current.push(value);
+            rowMin = Math.min(rowMin, value);
+        }
+        if (rowMin > max) return max + 1;
+        beforePrevious = previous;
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+/**
+ * How well query term `query` matches product term `term`, from 0 (not at
+ * all) to 1 (the same word). `prefix` lets the last term of a query still
+ * being typed match the start of a word.
+ */
+const matchScore = (query, term, { prefix = false } = {}) => {
+    if (query === term) return MATCH_WEIGHT.exact;
+    if (synonymsOf(query).includes(term)) return MATCH_WEIGHT.synonym;
+    if ((prefix || query.length >= 3) && term.startsWith(query)) return MATCH_WEIGHT.prefix;
+    const max = allowedEdits(query.length);
+    if (max > 0 && editDistance(query, term, max) <= max) return MATCH_WEIGHT.fuzzy;
+    return 0;
+};
+
+module.exports = { normalize, tokenize, terms, synonymsOf, editDistance, matchScore };
@@ -0,0 +1,78 @@
+/**
+ * RabbitMQ Messaging Utilities
+ */
+
+const amqp = require('amqplib');
+
+const EXCHANGE = 'ecoharvest.events';
+
+let channel = null;
+let connection = null;
+const subscriptions = [];
+
+// Bind and consume one subscription on the current channel
+const consume = async ({ queue, routingKeys, handler }) => {
+    await channel.assertQueue(queue, { durable: true });
+    for (const routingKey of routingKeys) {
+        await channel.bindQueue(queue, EXCHANGE, routingKey);
+    }
+
+    await channel.consume(queue, async (msg) => {
+        if (!msg) return;
+        try {
+            const content = JSON.parse(msg.content.toString());
+            await handler(msg.fields.routingKey, content);
+            channel.ack(msg);
+        } catch (error) {
+            console.error(`Error processing ${msg.fields.routingKey}:`, error.message);
+            // Not requeued: the periodic reindex picks up what was missed
+            channel.nack(msg, false, false);
+        }
+    });
+};
+
+/**
+ * Connect to RabbitMQ, resubscribing after a reconnect
+ */
+async function connectToRabbitMQ() {
+    try {
+        const url = process.env.RABBITMQ_URL || 'amqp://localhost:5672';
+        connection = await amqp.connect(url);
+        channel = await connection.createChannel();
+
+        await channel.assertExchange(EXCHANGE, 'topic', { durable: true });
+
+        console.log('Connected to RabbitMQ');
+
+        connection.on('error', (err) => {
+            console.error('RabbitMQ connection error:', err.message);
+        });
+
+        connection.on('close', () => {
+            console.warn('RabbitMQ connection closed, reconnecting...');
+            channel = null;
+            setTimeout(connectToRabbitMQ, 5000);
+        });
+
+        for (const subscription of subscriptions) {
+            await consume(subscription);
+        }
+
+        return channel;
+    } catch (error) {
+        console.error('Failed to connect to RabbitMQ:', error.message);
+        setTimeout(connectToRabbitMQ, 5000);
+    }
+}
+
+/**
+ * Subscribe to events matching `routingKeys` (topic patterns) on a durable
+ * queue. `handler` gets the routing key and the event.
+ */
+async function subscribeToEvents(queue, routingKeys, handler) {
+    const subscription = { queue, routingKeys, handler };
+    subscriptions.push(subscription);
+    if (channel) await consume(subscription);
+}
+
+module.exports = { connectToRabbitMQ, subscribeToEvents };
@@ -105,6 +105,17 @@ app.put('/:userId', async (req, res) => {
     }
 });
 
+// List addresses, default first
+app.get('/:userId/addresses', async (req, res) => {
+    try {
+        const profile = await UserProfile.findOne({ userId: req.params.userId }).lean();
+        const addresses = [...(profile?.addresses || [])].sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+        res.json({ success: true, data: addresses });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to get addresses' });
+    }
+});
+
 // Add address
 app.post('/:userId/addresses', async (req, res) => {
     try {
@@ -76,8 +76,9 @@ app.get('/health', (req, res) => {
 // Get all vendors
 app.get('/', async (req, res) => {
     try {
-        const { status, page = 1, limit = 20 } = req.query;
+        const { status, entityId, page = 1, limit = 20 } = req.query;
         const query = status ? { status } : {};
+        if (entityId) query.entityId = entityId;
 
         const vendors = await Vendor.find(query)
             .sort('-createdAt')
@@ -5,70 +5,20 @@ import Navigation from "../components/Navigation";
 import Footer from "../components/Footer";
 import Max from "../components/Max";
 import { useState, useEffect } from "react";
-import axios from "axios";
 import { useRouter } from "next/navigation";
 import Loading from "../components/Loading";
-
-const BASE_URL = "/api/proxy";
-
-interface Product {
-  _id: string;
-  name: string;
-  subtitle: string;
-  imageUrl: string;
-  unitPrice: number;
-  rating?: number;
-  averageRating?: number;
-  category?: string;
-  productCategory_id?: string;
-  brand?: string;
-  MRP?: number;
-  numberOfReviews?: number;
-}
-
-interface CartItem {
-  _id: string;
-  productId: string;
-  quantity: number;
-  unitPrice: number;
-}
-
-interface Cart {
-  products: CartItem[];
-  totalAmount: number;
-}
-
-interface UserInformation {
-  id: string;
-  username: string;
-  firstName: string;
-  lastName: string;
-  role: string;
-  email: string;
-  phoneNumber: string;
-  address: string;
-  dateOfBirth: string;
-  type: string;
-  createdTimestamp: string;
-}
-
-interface Notification {
-  _id: string;
-  title: string;
-  message: string;
-  createdAt: string;
-}
+import ImpactSummary from "../components/ImpactSummary";
+import NotificationSettings from "../components/NotificationSettings";
+import { CUSTOMER, IMPACT, NOTIFICATION } from "../lib/api";
+import { useSession } from "../lib/session";
+import { CustomerDetails, CustomerImpact, Notification } from "../lib/types";
 
 export default function AccountManagement() {
-  const [id, setId] = useState<string>("");
-  const [role, setRole] = useState<string>("");
-  const [userLoggedIn, setUserLoggedIn] = useState<boolean>(false);
-  const [cart, setCart] = useState<Cart>({ products: [], totalAmount: 0 });
-  const [productsDetail, setProductsDetail] = useState<Product[]>([]);
-  const [numberOfCartItems, setNumberOfCartItems] = useState<number>(0);
+  const { id } = useSession();
   const [editProfile, setEditProfile] = useState<boolean>(false);
-  const [userInformation, setUserInformation] = useState<UserInformation | null>(null);
+  const [userInformation, setUserInformation] = useState<CustomerDetails | null>(null);
   const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [impact, setImpact] = useState<CustomerImpact | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
 
   const [firstName, setFirstName] = useState<string>("");
@@ -83,99 +33,48 @@ export default function AccountManagement() {
   const router = useRouter();
 
   useEffect(() => {
+    if (!id) return;
     const fetchData = async () => {
       try {
-        const cookieRes = await axios.get<{ id: string; role: string }>(
-          `${BASE_URL}/check-cookie/`,
-          { withCredentials: true }
-        );
-
-        setId(cookieRes.data.id);
-        setRole(cookieRes.data.role);
-
-        const userRes = await axios.get<UserInformation[]>(
-          `${BASE_URL}/customers/details/${cookieRes.data.id}`,
-          { withCredentials: true }
-        );
-        setUserInformation(userRes.data[2]);
-        setFirstName(userRes.data[2].firstName);
-        setLastName(userRes.data[2].lastName);
-        setEmail(userRes.data[2].email);
-        setPhoneNumber(userRes.data[2].phoneNumber);
-        setAddress(userRes.data[2].address);
-        setDateOfBirth(userRes.data[2].dateOfBirth);
-        setUsername(userRes.data[2].username);
-
-        const notifRes = await axios.get<Notification[]>(
-          `${BASE_URL}/notification/${cookieRes.data.id}`,
-          { withCredentials: true }
-        );
-        setNotifications(notifRes.data);
-
-        if (cookieRes.data.role === "Customer") {
-          setUserLoggedIn(true);
-          try {
-            const cartRes = await axios.get<{ cart: Cart; products: Product[] }>(
-              `${BASE_URL}/cart/${cookieRes.data.id}`,
-              { withCredentials: true }
-            );
-            setCart(cartRes.data.cart);
-            setProductsDetail(cartRes.data.products);
-            setNumberOfCartItems(cartRes.data.cart.products.length);
-          } catch {
-            console.log("Cart Empty");
-          }
-        } else if (cookieRes.data.role === "Vendor") {
-          router.push("/vendor");
-        } else if (cookieRes.data.role === "Admin") {
-          router.push("/admin");
-        }
+        const details = await CUSTOMER.DETAILS(id);
+        const profile = details[2];
+        setUserInformation(profile);
+        setFirstName(profile.firstName);
+        setLastName(profile.lastName);
+        setEmail(profile.email);
+        setPhoneNumber(profile.phoneNumber);
+        setAddress(profile.address);
+        setDateOfBirth(profile.dateOfBirth);
+        setUsername(profile.username);
+
+        setNotifications(await NOTIFICATION.LIST(id));
         setLoading(false);
+
+        // The account works without it
+        IMPACT.CUSTOMER(id)
+          .then((response) => setImpact(response.data))
+          .catch((err) => console.error("Error fetching impact:", err));
       } catch {
         router.push("/login");
       }
     };
 
     fetchData();
-  }, [router]);
-
-  useEffect(() => {
-    const fetchCart = async () => {
-      if (!userLoggedIn || !id) return;
-      try {
-        const cartRes = await axios.get<{ cart: Cart; products: Product[] }>(
-          `${BASE_URL}/cart/${id}`,
-          { withCredentials: true }
-        );
-        setCart(cartRes.data.cart);
-        setProductsDetail(cartRes.data.products);
-        setNumberOfCartItems(cartRes.data.cart.products.length);
-      } catch {
-        console.log("Cart Empty");
-      }
-    };
-
-    fetchCart();
-  }, [id, userLoggedIn]);
+  }, [id, router]);
 
   const handleUpdateProfile = async () => {
     try {
-      const response = await axios.post(
-        `${BASE_URL}/customers/update`,
-        {
-          id,
-          firstName,
-          lastName,
-          email,
-          phoneNumber,
-          address,
-          dateOfBirth,
-          username,
-          password,
-        },
-        { withCredentials: true }
-      );
-      console.log("Profile updated successfully:", response.data);
+      await CUSTOMER.UPDATE({
+        id,
+        firstName,
+        lastName,
+        email,
+        phoneNumber,
+        address,
+        dateOfBirth,
+        username,
+        password,
+      });
       setUserInformation({
         ...userInformation!,
         firstName,
@@ -204,13 +103,7 @@ export default function AccountManagement() {
 
   return (
     <div className="bg-gradient-to-br from-gray-50 to-gray-100 min-h-screen">
-      <Navigation
-        numberOfCartItems={numberOfCartItems}
-        productsDetail={productsDetail}
-        cart={cart}
-        id={id}
-        userLoggedIn={userLoggedIn}
-      />
+      <Navigation />
 
       <div className="flex items-center justify-center text-gray-900 min-h-screen pt-[12vh] sm:pt-[15vh] pb-8">
         <div className="w-[95%] lg:w-[90%] xl:w-[85%] flex flex-col lg:flex-row gap-6 mt-8">
@@ -231,6 +124,13 @@ export default function AccountManagement() {
               </div>
             </div>
 
+            {impact && (
+              <ImpactSummary
+                impact={impact}
+                caption={`Across ${impact.orderCount} order${impact.orderCount === 1 ? "" : "s"} with EcoHarvest`}
+              />
+            )}
+
             {/* Profile Info Card */}
             {userInformation && (
               <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 sm:p-8">
@@ -466,6 +366,8 @@ export default function AccountManagement() {
                 </div>
               </div>
             )}
+
+            {id && <NotificationSettings userId={id} />}
           </div>
 
           {/* Notifications Sidebar */}
@@ -0,0 +1,296 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { ArrowPathIcon, PrinterIcon, TruckIcon } from '@heroicons/react/24/outline';
+import { DISPATCH, FLEET, INVENTORY, VEHICLE } from '../../lib/api';
+import { hasAvailableStatus, toDateKey, unavailableReason } from '../../lib/fleet';
+import { DispatchPlan, DispatchRun, DispatchStop, InventoryItem, Vehicle, VehicleProfile } from '../../lib/types';
+
+const vehicleLabel = (vehicle: DispatchRun['vehicle']): string =>
+  [vehicle.plateNumber, [vehicle.make, vehicle.model].filter(Boolean).join(' ')].filter(Boolean).join(' · ') ||
+  vehicle.vehicleId;
+
+const addressOf = (stop: DispatchStop): string =>
+  stop.address ? [stop.address.street, stop.address.city, stop.address.postalCode].filter(Boolean).join(', ') : stop.area;
+
+const utilizationColor = (utilization: number): string =>
+  utilization > 0.9 ? 'bg-red-500' : utilization > 0.6 ? 'bg-yellow-500' : 'bg-green-500';
+
+// Groups the day's orders and inventory pickups by area onto the available
+// vehicles, within their capacity, and prints a run sheet for each driver.
+export default function DispatchPlanner() {
+  const [date, setDate] = useState<string>(toDateKey(new Date()));
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [profiles, setProfiles] = useState<VehicleProfile[]>([]);
+  const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  const [plan, setPlan] = useState<DispatchPlan | null>(null);
+  const [planning, setPlanning] = useState<boolean>(false);
+  const [dispatching, setDispatching] = useState<boolean>(false);
+
+  const load = async (): Promise<void> => {
+    try {
+      const [vehicleData, inventoryData, profileData] = await Promise.all([
+        VEHICLE.LIST(),
+        INVENTORY.LIST(),
+        FLEET.PROFILES().catch(() => null),
+      ]);
+      setVehicles(Array.isArray(vehicleData) ? vehicleData : []);
+      setInventory(Array.isArray(inventoryData) ? inventoryData : []);
+      setProfiles(profileData?.data ?? []);
+    } catch (error) {
+      console.error('Failed to load vehicles and inventory:', error);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  // Vehicles with expired documents or blocked on the day are not planned
+  const excluded = vehicles
+    .filter(hasAvailableStatus)
+    .map((vehicle) => ({
+      vehicle,
+      reason: unavailableReason(vehicle, profiles.find((p) => p.vehicleId === vehicle._id), date),
+    }))
+    .filter(({ reason }) => reason);
+
+  const handlePlan = async (): Promise<void> => {
+    setPlanning(true);
+    try {
+      const response = await DISPATCH.PLAN({
+        date,
+        vehicles: vehicles.filter((vehicle) => !excluded.some((e) => e.vehicle._id === vehicle._id)),
+        inventory,
+      });
+      setPlan(response.data);
+    } catch (error: any) {
+      alert(error.message || 'Failed to plan dispatch');
+    } finally {
+      setPlanning(false);
+    }
+  };
+
+  // Orders get their vehicle in order-service; inventory loads and vehicles are
+  // updated the same way a single item is dispatched from the Products tab
+  const handleDispatch = async (): Promise<void> => {
+    if (!plan || plan.runs.length === 0) return;
+    if (!confirm(`Dispatch ${plan.runs.length} vehicle${plan.runs.length === 1 ? '' : 's'}?`)) return;
+
+    setDispatching(true);
+    try {
+      const response = await DISPATCH.ASSIGN(
+        plan.runs.map((run) => ({
+          vehicle: run.vehicle,
+          orderIds: run.stops.filter((stop) => stop.kind === 'order').map((stop) => stop.id),
+        }))
+      );
+
+      for (const run of plan.runs) {
+        for (const stop of run.stops.filter((s) => s.kind === 'inventory')) {
+          await INVENTORY.UPDATE(stop.id, {
+            vehicle: run.vehicle.vehicleId,
+            status: 'Dispatched',
+            dispatchedTime: new Date(),
+          });
+        }
+        await VEHICLE.UPDATE(run.vehicle.vehicleId, { status: 'Assigned' });
+      }
+
+      // For utilization reports; a failure here does not undo the dispatch
+      await FLEET.RECORD_TRIPS(
+        plan.runs.map((run) => ({
+          vehicleId: run.vehicle.vehicleId,
+          date,
+          loadKg: run.loadKg,
+          capacityKg: run.vehicle.capacityKg,
+          stops: run.stops.length,
+        }))
+      ).catch((error) => console.error('Failed to record trips:', error));
+
+      const { assigned, skipped } = response.data;
+      alert(
+        `${assigned} orders dispatched.` +
+          (skipped.length ? `\nSkipped: ${skipped.map((s) => `${s.orderNumber} (${s.reason})`).join(', ')}` : '')
+      );
+      setPlan(null);
+      load();
+    } catch (error: any) {
+      alert(error.message || 'Failed to dispatch');
+    } finally {
+      setDispatching(false);
+    }
+  };
+
+  const handlePrint = (): void => {
+    if (!plan) return;
+    const doc = new jsPDF();
+
+    plan.runs.forEach((run, index) => {
+      if (index > 0) doc.addPage();
+      doc.setFontSize(16);
+      doc.text(`Run Sheet — ${plan.date ?? 'All days'}`, 15, 18);
+      doc.setFontSize(11);
+      doc.text(`Vehicle: ${vehicleLabel(run.vehicle)}${run.vehicle.type ? ` (${run.vehicle.type})` : ''}`, 15, 27);
+      doc.text(
+        `Load: ${run.loadKg} kg of ${run.vehicle.capacityKg} kg (${Math.round(run.utilization * 100)}%) · ${run.stops.length} stops`,
+        15,
+        33
+      );
+      doc.text(`Areas: ${run.areas.join(', ')}`, 15, 39, { maxWidth: 180 });
+
+      autoTable(doc, {
+        head: [['#', 'Stop', 'Contact', 'Address', 'Window', 'Kg', 'Signature']],
+        body: run.stops.map((stop) => [
+          stop.sequence ?? '',
+          stop.kind === 'inventory' ? `Pickup: ${stop.label}` : stop.label,
+          [stop.contact, stop.phone].filter(Boolean).join('\n'),
+          addressOf(stop),
+          stop.slot ? `${stop.slot.start}–${stop.slot.end}` : '',
+          stop.weightKg,
+          '',
+        ]),
+        startY: 46,
+        styles: { cellPadding: 1.5, fontSize: 9 },
+        headStyles: { fillColor: [234, 179, 8], textColor: 0, fontStyle: 'bold' },
+        columnStyles: { 3: { cellWidth: 50 }, 6: { cellWidth: 25 } },
+      });
+    });
+
+    doc.save(`run-sheets-${plan.date ?? 'all'}.pdf`);
+  };
+
+  return (
+    <>
+      <div className="mb-4 flex flex-wrap justify-between items-center gap-3">
+        <h1 className="text-2xl font-semibold">Dispatch Planner</h1>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => {
+              setDate(e.target.value);
+              setPlan(null);
+            }}
+            className="rounded-lg border border-gray-300 px-3 py-2"
+          />
+          <button
+            onClick={handlePlan}
+            disabled={planning}
+            className="flex items-center rounded-lg bg-orange-600 px-4 py-2 text-white font-semibold disabled:opacity-50"
+          >
+            <ArrowPathIcon className={`w-5 h-5 mr-2 ${planning ? 'animate-spin' : ''}`} />
+            Plan Runs
+          </button>
+          {plan && plan.runs.length > 0 && (
+            <>
+              <button
+                onClick={handlePrint}
+                aria-label="Print run sheets"
+                className="flex items-center rounded-lg bg-gray-100 px-4 py-2 text-gray-700 hover:bg-gray-200"
+              >
+                <PrinterIcon className="w-5 h-5 mr-2" />
+                Run Sheets
+              </button>
+              <button
+                onClick={handleDispatch}
+                disabled={dispatching}
+                className="flex items-center rounded-lg bg-green-600 px-4 py-2 text-white font-semibold disabled:opacity-50"
+              >
+                <TruckIcon className="w-5 h-5 mr-2" />
+                {dispatching ? 'Dispatching...' : 'Dispatch'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {excluded.length > 0 && (
+        <p className="mb-3 text-sm text-yellow-700">
+          Not planned: {excluded.map(({ vehicle, reason }) => `${vehicle.plateNumber || vehicle._id} (${reason})`).join(', ')}
+        </p>
+      )}
+
+      {!plan ? (
+        <p className="text-sm text-gray-500">
+          Plans orders booked for the day and inventory waiting for pickup onto available vehicles. Nothing is
+          assigned until you dispatch.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {plan.stopCount} stops · {plan.totalKg} kg · {plan.runs.length} vehicle{plan.runs.length === 1 ? '' : 's'}
+          </p>
+
+          {plan.runs.map((run) => (
+            <div key={run.vehicle.vehicleId} className="rounded-lg border border-gray-200">
+              <div className="flex flex-wrap items-center justify-between gap-3 bg-gray-50 px-4 py-3 rounded-t-lg">
+                <div>
+                  <p className="font-semibold">{vehicleLabel(run.vehicle)}</p>
+                  <p className="text-xs text-gray-500">{run.areas.join(', ')}</p>
+                </div>
+                <div className="w-56">
+                  <div className="flex justify-between text-xs text-gray-600 mb-1">
+                    <span>{run.loadKg} kg</span>
+                    <span>{run.vehicle.capacityKg} kg</span>
+                  </div>
+                  <div className="h-2 rounded-full bg-gray-200">
+                    <div
+                      className={`h-2 rounded-full ${utilizationColor(run.utilization)}`}
+                      style={{ width: `${Math.min(100, run.utilization * 100)}%` }}
+                    />
+                  </div>
+                </div>
+              </div>
+              <table className="min-w-full divide-y text-sm">
+                <thead>
+                  <tr>
+                    {['#', 'Stop', 'Contact', 'Address', 'Window', 'Kg'].map((h) => (
+                      <th key={h} className="px-4 py-2 text-left font-medium">
+                        {h}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {run.stops.map((stop) => (
+                    <tr key={`${stop.kind}-${stop.id}`}>
+                      <td className="px-4 py-2">{stop.sequence}</td>
+                      <td className="px-4 py-2">{stop.kind === 'inventory' ? `Pickup: ${stop.label}` : stop.label}</td>
+                      <td className="px-4 py-2">
+                        {stop.contact}
+                        {stop.phone && <span className="block text-xs text-gray-500">{stop.phone}</span>}
+                      </td>
+                      <td className="px-4 py-2">{addressOf(stop)}</td>
+                      <td className="px-4 py-2">{stop.slot ? `${stop.slot.start}–${stop.slot.end}` : '—'}</td>
+                      <td className="px-4 py-2">{stop.weightKg}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+
+          {plan.unassigned.length > 0 && (
+            <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3">
+              <p className="font-semibold text-red-800 mb-2">Could not be planned</p>
+              <ul className="text-sm text-red-700 space-y-1">
+                {plan.unassigned.map(({ stop, reason }) => (
+                  <li key={`${stop.kind}-${stop.id}`}>
+                    {stop.label} ({stop.weightKg} kg, {stop.area}) — {reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {plan.runs.length === 0 && plan.unassigned.length === 0 && (
+            <p className="text-sm text-gray-500">Nothing is waiting for dispatch on this day.</p>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
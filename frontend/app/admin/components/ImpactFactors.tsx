@@ -0,0 +1,149 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { IMPACT } from '../../lib/api';
+import { ImpactFactor } from '../../lib/types';
+
+const IMPACTS: ImpactFactor['impact'][] = ['rescued', 'recycled', 'none'];
+
+// What each product category counts as in customers' and vendors' impact
+// figures, and the kilograms of CO2e avoided per kilogram of it. The '*'
+// row applies to any category not listed.
+export default function ImpactFactors() {
+  const [factors, setFactors] = useState<ImpactFactor[]>([]);
+  const [saving, setSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    const load = async (): Promise<void> => {
+      try {
+        const response = await IMPACT.FACTORS();
+        setFactors(response.data);
+      } catch (error) {
+        console.error('Failed to load impact factors:', error);
+      }
+    };
+    load();
+  }, []);
+
+  const update = (index: number, changes: Partial<ImpactFactor>): void => {
+    setFactors((prev) => prev.map((factor, i) => (i === index ? { ...factor, ...changes } : factor)));
+  };
+
+  const addRow = (): void => {
+    setFactors((prev) => [...prev, { category: '', impact: 'rescued', co2ePerKg: 0 }]);
+  };
+
+  const removeRow = (index: number): void => {
+    setFactors((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const save = async (): Promise<void> => {
+    const cleaned = factors.map((factor) => ({ ...factor, category: factor.category.trim() }));
+    if (cleaned.some((factor) => !factor.category)) {
+      alert('Every row needs a category');
+      return;
+    }
+    if (new Set(cleaned.map((factor) => factor.category.toLowerCase())).size !== cleaned.length) {
+      alert('Each category can only be listed once');
+      return;
+    }
+    if (cleaned.some((factor) => !(factor.co2ePerKg >= 0))) {
+      alert('CO2e per kg cannot be negative');
+      return;
+    }
+    setSaving(true);
+    try {
+      const response = await IMPACT.SET_FACTORS(cleaned);
+      setFactors(response.data);
+      alert('Emission factors saved');
+    } catch (error: any) {
+      alert(error.message || 'Failed to save emission factors');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-8">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Emission Factors</h2>
+          <p className="text-sm text-gray-500">
+            Used for the impact shown to customers and vendors. &apos;*&apos; covers any other category.
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={addRow}
+            className="flex items-center px-4 py-2 bg-gray-100 rounded-lg text-gray-700 hover:bg-gray-200"
+          >
+            <PlusIcon className="w-5 h-5 mr-2" />
+            Add Category
+          </button>
+          <button
+            onClick={save}
+            disabled={saving}
+            className="px-4 py-2 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+
+      <table className="w-full text-left">
+        <thead className="bg-gray-50">
+          <tr>
+            {['Category', 'Counts as', 'kg CO2e per kg', ''].map((heading) => (
+              <th key={heading} className="py-3 px-4 text-sm font-semibold text-gray-600">
+                {heading}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {factors.map((factor, index) => (
+            <tr key={factor._id ?? `new-${index}`} className="border-b">
+              <td className="py-2 px-4">
+                <input
+                  value={factor.category}
+                  onChange={(e) => update(index, { category: e.target.value })}
+                  className="w-full p-2 border rounded"
+                  placeholder="e.g. Vegetables"
+                />
+              </td>
+              <td className="py-2 px-4">
+                <select
+                  value={factor.impact}
+                  onChange={(e) => update(index, { impact: e.target.value as ImpactFactor['impact'] })}
+                  className="w-full p-2 border rounded"
+                >
+                  {IMPACTS.map((impact) => (
+                    <option key={impact} value={impact}>
+                      {impact}
+                    </option>
+                  ))}
+                </select>
+              </td>
+              <td className="py-2 px-4">
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={factor.co2ePerKg}
+                  onChange={(e) => update(index, { co2ePerKg: Number(e.target.value) })}
+                  className="w-32 p-2 border rounded"
+                />
+              </td>
+              <td className="py-2 px-4 text-right">
+                <button onClick={() => removeRow(index)} className="text-red-600 hover:text-red-800">
+                  <TrashIcon className="w-5 h-5" />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
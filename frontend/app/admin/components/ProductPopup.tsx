@@ -2,8 +2,9 @@
 
 import { useState, useEffect } from 'react';
 import toast, { Toaster } from 'react-hot-toast';
-import { Vehicle, InventoryItem, Category } from './types';
-import { INVENTORY, VEHICLE } from './api';
+import { Vehicle, InventoryItem, InventoryCategory as Category } from '../../lib/types';
+import { FLEET, INVENTORY, VEHICLE } from '../../lib/api';
+import { dispatchable } from '../../lib/fleet';
 
 const CATEGORIES: Category[] = ['Resale', 'Recycle', 'Fertilizer'];
 
@@ -39,8 +40,14 @@ export default function ProductPopup({ open, onClose, onSaved, initial }: Produc
   useEffect(() => {
     (async () => {
       try {
-        const { data } = await VEHICLE.LIST(); 
-        setVehicles(data.filter((v: Vehicle) => v.status === 'Available'));
+        // Vehicles with expired insurance or registration, or blocked today, are left out
+        const [data, profiles] = await Promise.all([
+          VEHICLE.LIST(),
+          FLEET.PROFILES()
+            .then((response) => response.data)
+            .catch(() => []),
+        ]);
+        setVehicles(dispatchable(data, profiles));
       } catch (error) {
         toast.error('Failed to load vehicles');
       }
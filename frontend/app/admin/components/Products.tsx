@@ -1,14 +1,14 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { INVENTORY, VEHICLE } from './api';
+import { INVENTORY, VEHICLE } from '../../lib/api';
 import ProductPopup from './ProductPopup';
 import ConfirmDialog from './ConfirmDialog';
 import SearchBar from './SearchBar';
 import { generatePDF } from './pdfUtils';
 import Script from 'next/script';
 import { PrinterIcon } from '@heroicons/react/24/solid';
-import { InventoryItem, Vehicle } from './types';
+import { InventoryItem, Vehicle } from '../../lib/types';
 
 export default function Products() {
   const [items, setItems] = useState<InventoryItem[]>([]);
@@ -24,7 +24,7 @@ export default function Products() {
 
   // Load inventory from API
   const load = async (): Promise<void> => {
-  const { data } = await INVENTORY.LIST();
+  const data = await INVENTORY.LIST();
   const itemsArray = Array.isArray(data) ? data : [];
   setItems(itemsArray as InventoryItem[]);
   setFilteredItems(itemsArray as InventoryItem[]);
@@ -62,6 +62,10 @@ export default function Products() {
       alert('Assign a vehicle first');
       return;
     }
+    if (prod.vehicle.capacityKg && prod.quantity > prod.vehicle.capacityKg) {
+      alert(`${prod.quantity} kg is more than this vehicle carries (${prod.vehicle.capacityKg} kg)`);
+      return;
+    }
 
     await INVENTORY.UPDATE(prod._id, {
       status: 'Dispatched',
@@ -0,0 +1,228 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { ORDER, PAYMENT } from '../../lib/api';
+import { Order, Payment, RefundRequest } from '../../lib/types';
+
+interface RefundModalProps {
+  payment: Payment;
+  onClose: () => void;
+  onRefunded: () => void;
+}
+
+type RefundMode = 'items' | 'amount' | 'full';
+
+const RefundModal: React.FC<RefundModalProps> = ({ payment, onClose, onRefunded }) => {
+  const [order, setOrder] = useState<Order | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [mode, setMode] = useState<RefundMode>('items');
+  // Units to refund, by order item id
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [amount, setAmount] = useState<string>('');
+  const [reason, setReason] = useState<string>('');
+  const [restock, setRestock] = useState<boolean>(true);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+
+  const remaining = payment.amount.total - (payment.refundedAmount || 0);
+
+  useEffect(() => {
+    const fetchOrder = async () => {
+      try {
+        const response = await ORDER.GET(String(payment.orderId));
+        setOrder(response.data);
+      } catch (error) {
+        console.error('Error fetching order:', error);
+        // Without the order only a plain amount can be refunded
+        setMode('amount');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchOrder();
+  }, [payment.orderId]);
+
+  const items = order?.items ?? [];
+  const selectedLines = Object.entries(quantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([itemId, quantity]) => ({ itemId, quantity }));
+
+  const handleSubmit = async (): Promise<void> => {
+    if (!reason.trim()) {
+      alert('Please give a reason for the refund');
+      return;
+    }
+
+    const body: RefundRequest = { reason: reason.trim(), restock: restock && mode !== 'amount' };
+    if (mode === 'items') {
+      if (selectedLines.length === 0) {
+        alert('Choose at least one item to refund');
+        return;
+      }
+      body.lines = selectedLines;
+    } else if (mode === 'amount') {
+      const value = parseFloat(amount);
+      if (!(value > 0) || value > remaining) {
+        alert(`Enter an amount between 0 and Rs. ${remaining.toFixed(2)}`);
+        return;
+      }
+      body.amount = value;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await PAYMENT.REFUND(payment.paymentId!, body);
+      alert(`Refunded Rs. ${response.data.refund.amount.toFixed(2)}`);
+      onRefunded();
+    } catch (error: any) {
+      console.error('Error refunding payment:', error);
+      alert(error.message || 'Failed to refund payment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200 flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Refund Payment</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              {payment.receiptNumber} · Paid Rs. {payment.amount.total.toFixed(2)}
+              {!!payment.refundedAmount && ` · Refunded Rs. ${payment.refundedAmount.toFixed(2)}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="flex gap-2">
+            {([
+              ['items', 'Items'],
+              ['amount', 'Amount'],
+              ['full', 'Everything left'],
+            ] as [RefundMode, string][]).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setMode(value)}
+                disabled={value === 'items' && !order}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 ${mode === value
+                  ? 'bg-green-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {loading ? (
+            <div className="text-center py-6">
+              <RefreshCw className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+            </div>
+          ) : mode === 'items' ? (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Item</th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-500">Paid each</th>
+                  <th className="px-3 py-2 text-center font-medium text-gray-500">Refunded</th>
+                  <th className="px-3 py-2 text-center font-medium text-gray-500">Refund</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {items.map((item) => {
+                  const refundable = item.quantity - (item.refundedQuantity || 0);
+                  return (
+                    <tr key={item._id}>
+                      <td className="px-3 py-2 text-gray-900">{item.productName}</td>
+                      <td className="px-3 py-2 text-right text-gray-600">Rs. {(item.subtotal / item.quantity).toFixed(2)}</td>
+                      <td className="px-3 py-2 text-center text-gray-600">{item.refundedQuantity || 0} / {item.quantity}</td>
+                      <td className="px-3 py-2 text-center">
+                        <input
+                          type="number"
+                          min={0}
+                          max={refundable}
+                          disabled={refundable === 0}
+                          value={quantities[item._id] ?? 0}
+                          onChange={(e) => {
+                            const value = Math.max(0, Math.min(refundable, parseInt(e.target.value) || 0));
+                            setQuantities({ ...quantities, [item._id]: value });
+                          }}
+                          className="w-20 px-2 py-1 border border-gray-300 rounded-lg text-center disabled:bg-gray-100"
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          ) : mode === 'amount' ? (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Amount (Rs.)</label>
+              <input
+                type="number"
+                min={0}
+                max={remaining}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">Up to Rs. {remaining.toFixed(2)}. No items are marked as returned.</p>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">
+              Refunds the remaining Rs. {remaining.toFixed(2)}, including delivery, and marks every item as returned.
+            </p>
+          )}
+
+          {mode === 'items' && (
+            <p className="text-xs text-gray-500">
+              Items are refunded at what the customer paid for them, with promotions and tax applied.
+            </p>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+            <input
+              type="text"
+              placeholder="e.g. Spoiled on arrival"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+          </div>
+
+          {mode !== 'amount' && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={restock} onChange={(e) => setRestock(e.target.checked)} />
+              Put refunded items back into stock
+            </label>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <button
+              onClick={handleSubmit}
+              disabled={submitting}
+              className="flex-1 bg-purple-600 text-white py-2 px-4 rounded-lg hover:bg-purple-700 disabled:bg-gray-400 transition-colors font-medium"
+            >
+              {submitting ? 'Refunding...' : 'Refund'}
+            </button>
+            <button
+              onClick={onClose}
+              className="flex-1 bg-gray-200 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RefundModal;
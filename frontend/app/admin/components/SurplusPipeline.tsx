@@ -0,0 +1,419 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { ArrowPathIcon, PrinterIcon, TruckIcon } from '@heroicons/react/24/outline';
+import { FLEET, INVENTORY, SURPLUS, VEHICLE } from '../../lib/api';
+import { dispatchable, toDateKey } from '../../lib/fleet';
+import {
+  DivertedReport,
+  Surplus,
+  SurplusDestination,
+  SurplusPickup,
+  SurplusStatus,
+  Vehicle,
+  VehicleProfile,
+} from '../../lib/types';
+
+const DESTINATIONS: SurplusDestination[] = ['Recycle', 'Fertilizer'];
+
+const STATUS_STYLES: Record<SurplusStatus, string> = {
+  declared: 'bg-yellow-100 text-yellow-800',
+  scheduled: 'bg-blue-100 text-blue-800',
+  collected: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+const yearAgo = (): string => {
+  const now = new Date();
+  return toDateKey(new Date(now.getFullYear() - 1, now.getMonth() + 1, 1));
+};
+
+const kg = (value?: number): string => (value === undefined ? '-' : `${Math.round(value * 100) / 100} kg`);
+
+// Unsold and expired vendor stock on its way to recycling or fertilizer: route
+// each declaration, book a vehicle to pick it up, and receive what is collected
+// into the Recycle or Fertilizer inventory. Below, the kilograms diverted from
+// landfill per vendor and per month.
+export default function SurplusPipeline() {
+  const [surplus, setSurplus] = useState<Surplus[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [profiles, setProfiles] = useState<VehicleProfile[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, SurplusPickup>>({});
+  const [showClosed, setShowClosed] = useState<boolean>(false);
+  const [from, setFrom] = useState<string>(yearAgo());
+  const [to, setTo] = useState<string>(toDateKey(new Date()));
+  const [report, setReport] = useState<DivertedReport | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  const load = async (): Promise<void> => {
+    try {
+      const [surplusData, vehicleData, profileData] = await Promise.all([
+        SURPLUS.LIST(),
+        VEHICLE.LIST(),
+        FLEET.PROFILES().catch(() => null),
+      ]);
+      setSurplus(surplusData.data);
+      setVehicles(Array.isArray(vehicleData) ? vehicleData : []);
+      setProfiles(profileData?.data ?? []);
+    } catch (error) {
+      console.error('Failed to load surplus:', error);
+    }
+  };
+
+  const loadReport = async (): Promise<void> => {
+    if (!from || !to || from > to) {
+      alert('Pick a start date on or before the end date');
+      return;
+    }
+    setLoading(true);
+    try {
+      const response = await SURPLUS.DIVERTED({ from, to });
+      setReport(response.data);
+    } catch (error: any) {
+      alert(error.message || 'Failed to load diverted weight');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+    loadReport();
+  }, []);
+
+  const draftOf = (item: Surplus): SurplusPickup =>
+    drafts[item._id] ?? {
+      destination: item.destination ?? 'Recycle',
+      vehicleId: item.vehicleId ?? '',
+      pickupDate: item.pickupDate ? toDateKey(item.pickupDate) : toDateKey(new Date()),
+    };
+
+  const setDraft = (item: Surplus, change: Partial<SurplusPickup>): void =>
+    setDrafts((current) => ({ ...current, [item._id]: { ...draftOf(item), ...change } }));
+
+  const vehicleOf = (vehicleId?: string): Vehicle | undefined => vehicles.find((v) => v._id === vehicleId);
+
+  // Vehicles that can go out on the pickup day and carry the estimated weight
+  const vehiclesFor = (item: Surplus): Vehicle[] =>
+    dispatchable(vehicles, profiles, draftOf(item).pickupDate).filter(
+      (vehicle) => !item.estimatedKg || !vehicle.capacityKg || vehicle.capacityKg >= item.estimatedKg
+    );
+
+  const handleSchedule = async (item: Surplus): Promise<void> => {
+    const draft = draftOf(item);
+    if (!draft.vehicleId) {
+      alert('Pick a vehicle for the pickup');
+      return;
+    }
+    try {
+      await SURPLUS.SCHEDULE(item._id, draft);
+      setDrafts(({ [item._id]: _, ...rest }) => rest);
+      load();
+    } catch (error: any) {
+      alert(error.message || 'Failed to schedule pickup');
+    }
+  };
+
+  // Received into the admin inventory under its destination, and recorded as a
+  // trip for the vehicle's utilization
+  const handleCollect = async (item: Surplus): Promise<void> => {
+    const answer = prompt(
+      `Weight collected for ${item.productName || 'this surplus'} in kg:`,
+      item.estimatedKg ? String(item.estimatedKg) : ''
+    );
+    if (answer === null) return;
+    const collectedKg = Number(answer);
+    if (!(collectedKg > 0)) {
+      alert('Enter the weight in kilograms');
+      return;
+    }
+
+    try {
+      const inventoryItem = await INVENTORY.CREATE({
+        name: `${item.productName || 'Surplus'}${item.batchCode ? ` (${item.batchCode})` : ''}`,
+        category: item.destination!,
+        quantity: collectedKg,
+        vendorName: item.vendorName || item.vendorId,
+        price: 0,
+        vehicle: item.vehicleId,
+        status: 'Active',
+      });
+      await SURPLUS.COLLECT(item._id, { collectedKg, inventoryItemId: inventoryItem?._id });
+
+      const vehicle = vehicleOf(item.vehicleId);
+      await FLEET.RECORD_TRIPS([
+        {
+          vehicleId: item.vehicleId!,
+          date: toDateKey(item.pickupDate ?? new Date()),
+          loadKg: collectedKg,
+          capacityKg: vehicle?.capacityKg,
+          stops: 1,
+        },
+      ]).catch((error) => console.error('Failed to record trip:', error));
+
+      load();
+      loadReport();
+    } catch (error: any) {
+      alert(error.message || 'Failed to record collection');
+    }
+  };
+
+  const handleCancel = async (item: Surplus): Promise<void> => {
+    const reason = prompt('Why is this surplus withdrawn?');
+    if (reason === null) return;
+    try {
+      await SURPLUS.CANCEL(item._id, reason.trim() || undefined);
+      load();
+    } catch (error: any) {
+      alert(error.message || 'Failed to cancel surplus');
+    }
+  };
+
+  const handleExport = (): void => {
+    if (!report) return;
+    const doc = new jsPDF();
+    doc.setFontSize(16);
+    doc.text('Diverted from Landfill', 15, 18);
+    doc.setFontSize(11);
+    doc.text(`${from} to ${to}: ${kg(report.totalKg)}`, 15, 26);
+    autoTable(doc, {
+      head: [['Vendor', 'Pickups', 'Kg Diverted']],
+      body: report.byVendor.map((row) => [row.vendorName || row.vendorId, row.pickups, row.kg]),
+      startY: 32,
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [234, 179, 8], textColor: 0, fontStyle: 'bold' },
+    });
+    autoTable(doc, {
+      head: [['Month', 'Pickups', 'Recycle Kg', 'Fertilizer Kg', 'Total Kg']],
+      body: report.byMonth.map((row) => [row.month, row.pickups, row.recycleKg, row.fertilizerKg, row.kg]),
+      startY: (doc as any).lastAutoTable.finalY + 10,
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [234, 179, 8], textColor: 0, fontStyle: 'bold' },
+    });
+    doc.save(`diverted-${from}-${to}.pdf`);
+  };
+
+  const open = surplus.filter((item) => item.status === 'declared' || item.status === 'scheduled');
+  const shown = showClosed ? surplus : open;
+
+  return (
+    <>
+      <div className="mb-4 flex flex-wrap justify-between items-center gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold">Surplus to Recycle</h1>
+          <p className="text-sm text-gray-500">{open.length} awaiting pickup</p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input type="checkbox" checked={showClosed} onChange={(e) => setShowClosed(e.target.checked)} />
+          Show collected and cancelled
+        </label>
+      </div>
+
+      <div className="overflow-x-auto mb-8">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              {['Vendor', 'Product', 'Units', 'Weight', 'Status', 'Pickup', ''].map((h) => (
+                <th key={h} className="px-4 py-2 text-left font-medium text-gray-700">
+                  {h}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {shown.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-6 text-center text-gray-500">
+                  No surplus awaiting pickup.
+                </td>
+              </tr>
+            ) : (
+              shown.map((item) => {
+                const draft = draftOf(item);
+                const editable = item.status === 'declared' || item.status === 'scheduled';
+                return (
+                  <tr key={item._id} className="hover:bg-gray-50 align-top">
+                    <td className="px-4 py-2">{item.vendorName || item.vendorId}</td>
+                    <td className="px-4 py-2">
+                      {item.productName}
+                      <div className="text-xs text-gray-500">
+                        {item.source === 'expired' ? 'Expired' : 'Unsold'}
+                        {item.batchCode && ` · batch ${item.batchCode}`}
+                      </div>
+                    </td>
+                    <td className="px-4 py-2">{item.units}</td>
+                    <td className="px-4 py-2">
+                      {item.collectedKg !== undefined ? kg(item.collectedKg) : `~${kg(item.estimatedKg)}`}
+                    </td>
+                    <td className="px-4 py-2">
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${STATUS_STYLES[item.status]}`}>
+                        {item.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2">
+                      {editable ? (
+                        <div className="flex flex-wrap gap-2">
+                          <select
+                            value={draft.destination}
+                            onChange={(e) => setDraft(item, { destination: e.target.value as SurplusDestination })}
+                            className="rounded border border-gray-300 px-2 py-1"
+                          >
+                            {DESTINATIONS.map((d) => (
+                              <option key={d} value={d}>
+                                {d}
+                              </option>
+                            ))}
+                          </select>
+                          <input
+                            type="date"
+                            value={draft.pickupDate}
+                            onChange={(e) => setDraft(item, { pickupDate: e.target.value, vehicleId: '' })}
+                            className="rounded border border-gray-300 px-2 py-1"
+                          />
+                          <select
+                            value={draft.vehicleId}
+                            onChange={(e) => setDraft(item, { vehicleId: e.target.value })}
+                            className="rounded border border-gray-300 px-2 py-1"
+                          >
+                            <option value="">Vehicle</option>
+                            {vehiclesFor(item).map((v) => (
+                              <option key={v._id} value={v._id}>
+                                {v.plateNumber} ({v.capacityKg} kg)
+                              </option>
+                            ))}
+                            {draft.vehicleId && !vehiclesFor(item).some((v) => v._id === draft.vehicleId) && (
+                              <option value={draft.vehicleId}>
+                                {vehicleOf(draft.vehicleId)?.plateNumber || draft.vehicleId} (unavailable)
+                              </option>
+                            )}
+                          </select>
+                        </div>
+                      ) : (
+                        <span className="text-gray-600">
+                          {item.destination ?? '-'}
+                          {item.collectedAt && ` · ${new Date(item.collectedAt).toLocaleDateString()}`}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap space-x-2">
+                      {editable && (
+                        <button
+                          onClick={() => handleSchedule(item)}
+                          className="inline-flex items-center rounded-lg bg-orange-600 px-3 py-1 text-white text-xs font-semibold"
+                        >
+                          <TruckIcon className="w-4 h-4 mr-1" />
+                          {item.status === 'scheduled' ? 'Reschedule' : 'Schedule'}
+                        </button>
+                      )}
+                      {item.status === 'scheduled' && (
+                        <button
+                          onClick={() => handleCollect(item)}
+                          className="rounded-lg bg-green-600 px-3 py-1 text-white text-xs font-semibold"
+                        >
+                          Collected
+                        </button>
+                      )}
+                      {editable && (
+                        <button
+                          onClick={() => handleCancel(item)}
+                          className="rounded-lg bg-gray-100 px-3 py-1 text-gray-700 text-xs hover:bg-gray-200"
+                        >
+                          Cancel
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mb-4 flex flex-wrap justify-between items-center gap-3">
+        <div>
+          <h2 className="text-xl font-semibold">Diverted from Landfill</h2>
+          {report && <p className="text-sm text-gray-500">{kg(report.totalKg)} collected</p>}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="rounded-lg border border-gray-300 px-3 py-2"
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="rounded-lg border border-gray-300 px-3 py-2"
+          />
+          <button
+            onClick={loadReport}
+            disabled={loading}
+            className="flex items-center rounded-lg bg-orange-600 px-4 py-2 text-white font-semibold disabled:opacity-50"
+          >
+            <ArrowPathIcon className={`w-5 h-5 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Run Report
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!report}
+            aria-label="Export PDF"
+            className="flex items-center rounded-lg bg-gray-100 px-4 py-2 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+          >
+            <PrinterIcon className="w-5 h-5 mr-2" />
+            Export
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              {['Vendor', 'Pickups', 'Kg Diverted'].map((h) => (
+                <th key={h} className="px-4 py-2 text-left font-medium text-gray-700">
+                  {h}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {(report?.byVendor ?? []).map((row) => (
+              <tr key={row.vendorId}>
+                <td className="px-4 py-2">{row.vendorName || row.vendorId}</td>
+                <td className="px-4 py-2">{row.pickups}</td>
+                <td className="px-4 py-2">{kg(row.kg)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              {['Month', 'Recycle', 'Fertilizer', 'Total'].map((h) => (
+                <th key={h} className="px-4 py-2 text-left font-medium text-gray-700">
+                  {h}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {(report?.byMonth ?? []).map((row) => (
+              <tr key={row.month}>
+                <td className="px-4 py-2">{row.month}</td>
+                <td className="px-4 py-2">{kg(row.recycleKg)}</td>
+                <td className="px-4 py-2">{kg(row.fertilizerKg)}</td>
+                <td className="px-4 py-2">{kg(row.kg)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { ArrowPathIcon, PrinterIcon } from '@heroicons/react/24/outline';
+import { FLEET, VEHICLE } from '../../lib/api';
+import { toDateKey } from '../../lib/fleet';
+import { FleetUtilization, Vehicle } from '../../lib/types';
+
+const monthStart = (): string => {
+  const now = new Date();
+  return toDateKey(new Date(now.getFullYear(), now.getMonth(), 1));
+};
+
+// Trips, kg moved and idle days of each vehicle over a date range, from the
+// runs recorded when the dispatch planner sends vehicles out
+export default function UtilizationReport() {
+  const [from, setFrom] = useState<string>(monthStart());
+  const [to, setTo] = useState<string>(toDateKey(new Date()));
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [report, setReport] = useState<FleetUtilization | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  const load = async (): Promise<void> => {
+    if (!from || !to || from > to) {
+      alert('Pick a start date on or before the end date');
+      return;
+    }
+    setLoading(true);
+    try {
+      const vehicleData = await VEHICLE.LIST();
+      const list = Array.isArray(vehicleData) ? vehicleData : [];
+      const response = await FLEET.UTILIZATION({ from, to, vehicleIds: list.map((v) => v._id) });
+      setVehicles(list);
+      setReport(response.data);
+    } catch (error: any) {
+      alert(error.message || 'Failed to load utilization');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const vehicleOf = (vehicleId: string): Vehicle | undefined => vehicles.find((v) => v._id === vehicleId);
+
+  const rows = (report?.vehicles ?? []).map((row) => {
+    const vehicle = vehicleOf(row.vehicleId);
+    return [
+      vehicle?.plateNumber || row.vehicleId,
+      [vehicle?.make, vehicle?.model].filter(Boolean).join(' '),
+      row.trips,
+      row.kgMoved,
+      `${Math.round(row.averageLoad * 100)}%`,
+      row.activeDays,
+      row.blockedDays,
+      row.idleDays,
+    ];
+  });
+
+  const HEADERS = ['Plate', 'Vehicle', 'Trips', 'Kg Moved', 'Avg Load', 'Days Out', 'Days Blocked', 'Idle Days'];
+
+  const handleExport = (): void => {
+    if (!report) return;
+    const doc = new jsPDF();
+    doc.setFontSize(16);
+    doc.text('Vehicle Utilization', 15, 18);
+    doc.setFontSize(11);
+    doc.text(`${report.from} to ${report.to} (${report.days} days)`, 15, 26);
+    autoTable(doc, {
+      head: [HEADERS],
+      body: rows,
+      startY: 32,
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [234, 179, 8], textColor: 0, fontStyle: 'bold' },
+    });
+    doc.save(`vehicle-utilization-${report.from}-${report.to}.pdf`);
+  };
+
+  return (
+    <>
+      <div className="mb-4 flex flex-wrap justify-between items-center gap-3">
+        <h1 className="text-2xl font-semibold">Vehicle Utilization</h1>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="rounded-lg border border-gray-300 px-3 py-2"
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="rounded-lg border border-gray-300 px-3 py-2"
+          />
+          <button
+            onClick={load}
+            disabled={loading}
+            className="flex items-center rounded-lg bg-orange-600 px-4 py-2 text-white font-semibold disabled:opacity-50"
+          >
+            <ArrowPathIcon className={`w-5 h-5 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Run Report
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!report}
+            aria-label="Export PDF"
+            className="flex items-center rounded-lg bg-gray-100 px-4 py-2 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+          >
+            <PrinterIcon className="w-5 h-5 mr-2" />
+            Export
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              {HEADERS.map((h) => (
+                <th key={h} className="px-4 py-2 text-left font-medium text-gray-700">
+                  {h}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {rows.length > 0 ? (
+              rows.map((row, index) => (
+                <tr key={report!.vehicles[index].vehicleId} className="hover:bg-gray-50">
+                  {row.map((cell, cellIndex) => (
+                    <td key={cellIndex} className="px-4 py-2">
+                      {cell}
+                    </td>
+                  ))}
+                </tr>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={HEADERS.length} className="px-4 py-6 text-center text-gray-500">
+                  {loading ? 'Loading...' : 'No vehicles found.'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
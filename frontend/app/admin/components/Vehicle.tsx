@@ -1,18 +1,23 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { VEHICLE } from './api';
+import { FLEET, VEHICLE } from '../../lib/api';
+import { expiredDocuments } from '../../lib/fleet';
 import VehiclePopup from './VehiclePopup';
+import VehicleDetails from './VehicleDetails';
 import ConfirmDialog from './ConfirmDialog';
 import SearchBar from './SearchBar';
 import Script from 'next/script';
 import { PrinterIcon } from '@heroicons/react/24/solid';
 import { generatePDF } from './pdfUtils';
-import { Vehicle as VehicleType } from './types';
+import { FleetReminder, Vehicle as VehicleType, VehicleProfile } from '../../lib/types';
 
 export default function Vehicle() {
   const [vehicles, setVehicles] = useState<VehicleType[]>([]);
   const [filteredVehicles, setFilteredVehicles] = useState<VehicleType[]>([]);
+  const [profiles, setProfiles] = useState<VehicleProfile[]>([]);
+  const [reminders, setReminders] = useState<FleetReminder[]>([]);
+  const [details, setDetails] = useState<VehicleType | null>(null);
   const [popup, setPopup] = useState<{ open: boolean; initial: VehicleType | null }>({
     open: false,
     initial: null,
@@ -24,13 +29,32 @@ export default function Vehicle() {
 
   const load = async (): Promise<void> => {
     try {
-      const { data } = await VEHICLE.LIST();
-      const vehicleData = data as VehicleType[];
+      const vehicleData = await VEHICLE.LIST();
       setVehicles(vehicleData);
       setFilteredVehicles(vehicleData);
     } catch (error) {
       console.error('Failed to fetch vehicles:', error);
     }
+    try {
+      const [profileResponse, reminderResponse] = await Promise.all([FLEET.PROFILES(), FLEET.REMINDERS()]);
+      setProfiles(profileResponse.data);
+      setReminders(reminderResponse.data);
+    } catch (error) {
+      console.error('Failed to fetch fleet details:', error);
+    }
+  };
+
+  const profileOf = (vehicleId: string): VehicleProfile | undefined =>
+    profiles.find((profile) => profile.vehicleId === vehicleId);
+
+  const plateOf = (vehicleId: string): string =>
+    vehicles.find((vehicle) => vehicle._id === vehicleId)?.plateNumber || vehicleId;
+
+  const handleProfileChanged = (profile: VehicleProfile): void => {
+    setProfiles((current) => [...current.filter((p) => p.vehicleId !== profile.vehicleId), profile]);
+    FLEET.REMINDERS()
+      .then((response) => setReminders(response.data))
+      .catch((error) => console.error('Failed to fetch reminders:', error));
   };
 
   useEffect(() => {
@@ -100,6 +124,23 @@ export default function Vehicle() {
         </div>
       </div>
 
+      {/* Reminders */}
+      {reminders.length > 0 && (
+        <div className="mb-4 rounded-lg border border-yellow-200 bg-yellow-50 px-4 py-3">
+          <p className="mb-1 font-semibold text-yellow-800">Reminders</p>
+          <ul className="text-sm space-y-0.5">
+            {reminders.map((reminder, index) => (
+              <li key={index} className={reminder.overdue ? 'text-red-700' : 'text-yellow-800'}>
+                {plateOf(reminder.vehicleId)}: {reminder.label} {new Date(reminder.dueDate).toLocaleDateString()}
+                {reminder.overdue
+                  ? ` (${-reminder.daysLeft} day${reminder.daysLeft === -1 ? '' : 's'} ago)`
+                  : ` (in ${reminder.daysLeft} day${reminder.daysLeft === 1 ? '' : 's'})`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Search */}
       <SearchBar placeholder="Search by plate number..." onSearch={handleSearch} />
 
@@ -108,7 +149,7 @@ export default function Vehicle() {
         <table id="Vehicle-table" className="min-w-full divide-y divide-gray-200 text-sm">
           <thead className="bg-gray-50">
             <tr>
-              {['Plate', 'Make', 'Model', 'Year', 'Status', 'Actions'].map((h) => (
+              {['Plate', 'Make', 'Model', 'Year', 'Status', 'Documents', 'Actions'].map((h) => (
                 <th key={h} className="px-4 py-2 text-left font-medium text-gray-700">
                   {h}
                 </th>
@@ -124,7 +165,17 @@ export default function Vehicle() {
                   <td className="px-4 py-2">{v.model}</td>
                   <td className="px-4 py-2">{v.year}</td>
                   <td className="px-4 py-2">{v.status}</td>
+                  <td className="px-4 py-2">
+                    {expiredDocuments(profileOf(v._id)).length > 0 ? (
+                      <span className="text-red-600">{expiredDocuments(profileOf(v._id)).join(', ')} expired</span>
+                    ) : (
+                      'Valid'
+                    )}
+                  </td>
                   <td className="px-4 py-2 flex gap-3 no-print">
+                    <button onClick={() => setDetails(v)} className="text-gray-700 hover:underline">
+                      Details
+                    </button>
                     <button
                       onClick={() => setPopup({ open: true, initial: v })}
                       className="text-blue-600 hover:underline"
@@ -142,7 +193,7 @@ export default function Vehicle() {
               ))
             ) : (
               <tr>
-                <td colSpan={6} className="px-4 py-6 text-center text-gray-500">
+                <td colSpan={7} className="px-4 py-6 text-center text-gray-500">
                   No vehicles found.
                 </td>
               </tr>
@@ -159,6 +210,15 @@ export default function Vehicle() {
         initial={popup.initial}
       />
 
+      {details && (
+        <VehicleDetails
+          vehicle={details}
+          profile={profileOf(details._id)}
+          onClose={() => setDetails(null)}
+          onChanged={handleProfileChanged}
+        />
+      )}
+
       {/* Confirmation dialog */}
       <ConfirmDialog
         open={confirmDialog.open}
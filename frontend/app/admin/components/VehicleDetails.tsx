@@ -0,0 +1,339 @@
+'use client';
+
+import { useState } from 'react';
+import toast, { Toaster } from 'react-hot-toast';
+import { ChevronLeftIcon, ChevronRightIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { FLEET } from '../../lib/api';
+import { blockOn, toDateKey } from '../../lib/fleet';
+import { MaintenanceEntry, MaintenanceKind, Vehicle, VehicleProfile } from '../../lib/types';
+
+interface VehicleDetailsProps {
+  vehicle: Vehicle;
+  profile?: VehicleProfile;
+  onClose: () => void;
+  onChanged: (profile: VehicleProfile) => void;
+}
+
+const KINDS: MaintenanceKind[] = ['service', 'repair', 'inspection', 'tyres', 'other'];
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const emptyEntry = (): Omit<MaintenanceEntry, '_id'> => ({
+  date: toDateKey(new Date()),
+  kind: 'service',
+  description: '',
+  cost: 0,
+});
+
+const formatDate = (date?: string): string => (date ? new Date(date).toLocaleDateString() : '—');
+
+// The days of `month` laid out Monday first, padded with nulls to whole weeks
+const monthGrid = (month: Date): Array<Date | null> => {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  const days = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const cells: Array<Date | null> = Array((first.getDay() + 6) % 7).fill(null);
+  for (let day = 1; day <= days; day++) cells.push(new Date(month.getFullYear(), month.getMonth(), day));
+  while (cells.length % 7) cells.push(null);
+  return cells;
+};
+
+// Documents, maintenance log and availability calendar of one vehicle
+export default function VehicleDetails({ vehicle, profile, onClose, onChanged }: VehicleDetailsProps) {
+  const [documents, setDocuments] = useState({
+    insuranceExpiry: profile?.insuranceExpiry ? toDateKey(profile.insuranceExpiry) : '',
+    registrationExpiry: profile?.registrationExpiry ? toDateKey(profile.registrationExpiry) : '',
+  });
+  const [entry, setEntry] = useState(emptyEntry());
+  const [block, setBlock] = useState({ start: '', end: '', reason: '' });
+  const [month, setMonth] = useState<Date>(new Date());
+  const [saving, setSaving] = useState<boolean>(false);
+
+  const save = async (request: () => Promise<{ data: VehicleProfile }>, message: string): Promise<boolean> => {
+    setSaving(true);
+    try {
+      const response = await request();
+      onChanged(response.data);
+      toast.success(message);
+      return true;
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveDocuments = () =>
+    save(
+      () =>
+        FLEET.UPDATE_DOCUMENTS(vehicle._id, {
+          insuranceExpiry: documents.insuranceExpiry || undefined,
+          registrationExpiry: documents.registrationExpiry || undefined,
+        }),
+      'Documents updated'
+    );
+
+  const handleAddEntry = async () => {
+    if (!entry.date) {
+      toast.error('Maintenance needs a date');
+      return;
+    }
+    const body = { ...entry, nextDueDate: entry.nextDueDate || undefined };
+    if (await save(() => FLEET.ADD_MAINTENANCE(vehicle._id, body), 'Maintenance logged')) setEntry(emptyEntry());
+  };
+
+  const handleAddBlock = async () => {
+    if (!block.start || !block.end || block.start > block.end) {
+      toast.error('Pick a start on or before the end');
+      return;
+    }
+    if (await save(() => FLEET.BLOCK(vehicle._id, block), 'Availability blocked')) {
+      setBlock({ start: '', end: '', reason: '' });
+    }
+  };
+
+  const maintenance = [...(profile?.maintenance ?? [])].sort((a, b) => b.date.localeCompare(a.date));
+  const today = toDateKey(new Date());
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <Toaster position="top-right" />
+      <div className="w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-xl bg-white p-6 shadow-lg space-y-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-xl font-semibold">{vehicle.plateNumber}</h2>
+            <p className="text-sm text-gray-500">
+              {[vehicle.make, vehicle.model, vehicle.year].filter(Boolean).join(' ')} · {vehicle.status}
+            </p>
+          </div>
+          <button onClick={onClose} aria-label="Close" className="rounded-lg p-1 hover:bg-gray-100">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Documents */}
+        <section>
+          <h3 className="mb-2 font-semibold">Documents</h3>
+          <div className="flex flex-wrap items-end gap-3">
+            {(['insuranceExpiry', 'registrationExpiry'] as const).map((field) => (
+              <label key={field} className="text-sm font-medium text-gray-700">
+                {field === 'insuranceExpiry' ? 'Insurance expires' : 'Registration expires'}
+                <input
+                  type="date"
+                  value={documents[field]}
+                  onChange={(e) => setDocuments({ ...documents, [field]: e.target.value })}
+                  className={`mt-1 block rounded-lg border px-3 py-2 ${
+                    documents[field] && documents[field] < today ? 'border-red-500 text-red-600' : 'border-gray-300'
+                  }`}
+                />
+              </label>
+            ))}
+            <button
+              onClick={handleSaveDocuments}
+              disabled={saving}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-white disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+          <p className="mt-1 text-xs text-gray-500">A vehicle with an expired document cannot be dispatched.</p>
+        </section>
+
+        {/* Maintenance */}
+        <section>
+          <h3 className="mb-2 font-semibold">Maintenance Log</h3>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-2 mb-3 text-sm">
+            <input
+              type="date"
+              value={entry.date}
+              onChange={(e) => setEntry({ ...entry, date: e.target.value })}
+              className="rounded-lg border border-gray-300 px-2 py-2"
+            />
+            <select
+              value={entry.kind}
+              onChange={(e) => setEntry({ ...entry, kind: e.target.value as MaintenanceKind })}
+              className="rounded-lg border border-gray-300 px-2 py-2 capitalize"
+            >
+              {KINDS.map((kind) => (
+                <option key={kind} value={kind}>
+                  {kind}
+                </option>
+              ))}
+            </select>
+            <input
+              placeholder="Description"
+              value={entry.description}
+              onChange={(e) => setEntry({ ...entry, description: e.target.value })}
+              className="md:col-span-2 rounded-lg border border-gray-300 px-2 py-2"
+            />
+            <input
+              type="number"
+              min={0}
+              placeholder="Cost"
+              value={entry.cost || ''}
+              onChange={(e) => setEntry({ ...entry, cost: Number(e.target.value) })}
+              className="rounded-lg border border-gray-300 px-2 py-2"
+            />
+            <input
+              type="number"
+              min={0}
+              placeholder="Odometer km"
+              value={entry.odometerKm ?? ''}
+              onChange={(e) => setEntry({ ...entry, odometerKm: e.target.value ? Number(e.target.value) : undefined })}
+              className="rounded-lg border border-gray-300 px-2 py-2"
+            />
+            <label className="md:col-span-2 flex items-center gap-2 text-gray-700">
+              Next due
+              <input
+                type="date"
+                value={entry.nextDueDate ?? ''}
+                onChange={(e) => setEntry({ ...entry, nextDueDate: e.target.value })}
+                className="flex-1 rounded-lg border border-gray-300 px-2 py-2"
+              />
+            </label>
+            <button
+              onClick={handleAddEntry}
+              disabled={saving}
+              className="rounded-lg bg-orange-600 px-3 py-2 text-white font-semibold disabled:opacity-50"
+            >
+              + Log
+            </button>
+          </div>
+          {maintenance.length === 0 ? (
+            <p className="text-sm text-gray-500">No maintenance logged.</p>
+          ) : (
+            <table className="min-w-full divide-y text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Date', 'Kind', 'Description', 'Cost', 'Odometer', 'Next Due', ''].map((h) => (
+                    <th key={h} className="px-3 py-2 text-left font-medium text-gray-700">
+                      {h}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {maintenance.map((m) => (
+                  <tr key={m._id}>
+                    <td className="px-3 py-2">{formatDate(m.date)}</td>
+                    <td className="px-3 py-2 capitalize">{m.kind}</td>
+                    <td className="px-3 py-2">{m.description || '—'}</td>
+                    <td className="px-3 py-2">Rs. {m.cost.toFixed(2)}</td>
+                    <td className="px-3 py-2">{m.odometerKm !== undefined ? `${m.odometerKm} km` : '—'}</td>
+                    <td className="px-3 py-2">{formatDate(m.nextDueDate)}</td>
+                    <td className="px-3 py-2">
+                      <button
+                        onClick={() => save(() => FLEET.DELETE_MAINTENANCE(vehicle._id, m._id), 'Entry deleted')}
+                        aria-label="Delete entry"
+                        className="text-red-600"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+
+        {/* Availability */}
+        <section>
+          <div className="mb-2 flex items-center justify-between">
+            <h3 className="font-semibold">Availability</h3>
+            <div className="flex items-center gap-2 text-sm">
+              <button
+                onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() - 1, 1))}
+                aria-label="Previous month"
+                className="rounded p-1 hover:bg-gray-100"
+              >
+                <ChevronLeftIcon className="w-4 h-4" />
+              </button>
+              <span className="w-32 text-center">
+                {month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+              </span>
+              <button
+                onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() + 1, 1))}
+                aria-label="Next month"
+                className="rounded p-1 hover:bg-gray-100"
+              >
+                <ChevronRightIcon className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-7 gap-1 text-center text-xs">
+            {WEEKDAYS.map((day) => (
+              <div key={day} className="font-medium text-gray-500">
+                {day}
+              </div>
+            ))}
+            {monthGrid(month).map((day, index) => {
+              if (!day) return <div key={index} />;
+              const key = toDateKey(day);
+              const blocked = blockOn(profile, key);
+              return (
+                <div
+                  key={index}
+                  title={blocked?.reason}
+                  className={`rounded py-2 ${
+                    blocked ? 'bg-red-100 text-red-800' : 'bg-green-50 text-gray-700'
+                  } ${key === today ? 'ring-2 ring-yellow-500' : ''}`}
+                >
+                  {day.getDate()}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+            <input
+              type="date"
+              value={block.start}
+              onChange={(e) => setBlock({ ...block, start: e.target.value })}
+              className="rounded-lg border border-gray-300 px-2 py-2"
+            />
+            <span>to</span>
+            <input
+              type="date"
+              value={block.end}
+              onChange={(e) => setBlock({ ...block, end: e.target.value })}
+              className="rounded-lg border border-gray-300 px-2 py-2"
+            />
+            <input
+              placeholder="Reason"
+              value={block.reason}
+              onChange={(e) => setBlock({ ...block, reason: e.target.value })}
+              className="flex-1 rounded-lg border border-gray-300 px-2 py-2"
+            />
+            <button
+              onClick={handleAddBlock}
+              disabled={saving}
+              className="rounded-lg bg-orange-600 px-3 py-2 text-white font-semibold disabled:opacity-50"
+            >
+              Block
+            </button>
+          </div>
+          {profile && profile.availability.length > 0 && (
+            <ul className="mt-3 space-y-1 text-sm">
+              {profile.availability.map((b) => (
+                <li key={b._id} className="flex items-center justify-between rounded bg-gray-50 px-3 py-1">
+                  <span>
+                    {formatDate(b.start)} – {formatDate(b.end)}
+                    {b.reason && ` · ${b.reason}`}
+                  </span>
+                  <button
+                    onClick={() => save(() => FLEET.UNBLOCK(vehicle._id, b._id), 'Block removed')}
+                    aria-label="Remove block"
+                    className="text-red-600"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,9 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { VEHICLE } from './api';
+import { VEHICLE } from '../../lib/api';
 import toast, { Toaster } from 'react-hot-toast';
-import { Vehicle } from './types';
+import { Vehicle } from '../../lib/types';
 
 interface VehiclePopupProps {
   open: boolean;
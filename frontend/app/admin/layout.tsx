@@ -0,0 +1,10 @@
+import RoleGuard from "../components/RoleGuard";
+import { ADMIN_ROLES } from "../lib/roles";
+
+export default function AdminLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <RoleGuard allow={ADMIN_ROLES}>
+      {children}
+    </RoleGuard>
+  );
+}
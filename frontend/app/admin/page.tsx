@@ -1,9 +1,6 @@
 "use client";
 
 import React, { useState, useEffect } from "react";
-import { useRouter } from "next/navigation";
-import axios from "axios";
-import { io, Socket } from "socket.io-client";
 
 import Navigation from "./components/Navigation";
 import TopNavigation from "./components/TopNavigation";
@@ -13,104 +10,43 @@ import Advertisements from "./pages/Advertisements";
 import Inventory from "./pages/Inventory";
 import Discount from "./pages/Discount";
 import Payment from "./pages/Payment";
+import Returns from "./pages/Returns";
+import Promotions from "./pages/Promotions";
+import SearchAnalytics from "./pages/SearchAnalytics";
 import UserManagement from "./pages/UserManagement";
 import ProfileManagement from "./pages/ProfileManagement";
-import { Notification } from "./components/types";
-
-// ==== Base URL ====
-const BASE_URL = "/api/proxy";
-
-interface UserDetails {
-  firstName: string;
-  lastName: string;
-  email: string;
-  phoneNumber: string;
-  dateOfBirth?: string;
-  gender?: string;
-  address?: string;
-}
-
-interface UserInformation {
-  id: string;
-  username: string;
-  role: string;
-  userDetails: UserDetails;
-}
+import { ADMIN, NOTIFICATION } from "../lib/api";
+import { useSession } from "../lib/session";
+import { Notification, User } from "../lib/types";
 
 export default function AdminDashboard() {
   const [navClick, setNavClick] = useState<string>("Inventory");
-  const [isLoggedIn, setIsLoggedIn] = useState<boolean>(false);
-  const [userInformation, setUserInformation] = useState<UserInformation | null>(null);
-  const [role, setRole] = useState<string>("");
-  const [id, setId] = useState<string>("");
+  const { id, isLoggedIn } = useSession();
+  const [userInformation, setUserInformation] = useState<User | null>(null);
   const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [socket, setSocket] = useState<Socket | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState<boolean>(false);
 
-  const router = useRouter();
-
-  // Initialize socket after id and role are available
-  useEffect(() => {
-    if (id && role) {
-      const newSocket = io(BASE_URL, { query: { id, role } });
-      setSocket(newSocket);
-
-      newSocket.on("connect", () => {
-        console.log("Connected to socket server with id:", id, "and role:", role);
-        newSocket.emit("ready");
-      });
-
-      return () => {
-        newSocket.disconnect();
-      };
-    }
-  }, [id, role]);
-
   // Fetch user info and notifications
   useEffect(() => {
-    const fetchCookies = async () => {
+    if (!id) return;
+    const fetchAdminData = async () => {
+      // Fetch admin user info
       try {
-        const response = await axios.get<{ id: string; role: string }>(
-          `${BASE_URL}/check-cookie/`,
-          { withCredentials: true }
-        );
-
-        const userId = response.data.id;
-        const userRole = response.data.role;
-
-        setId(userId);
-        setRole(userRole);
-
-        if (userRole !== "Admin") {
-          router.push("/");
-          return;
-        } else {
-          setIsLoggedIn(true);
-        }
-
-        // Fetch admin user info
-        try {
-          const response2 = await axios.get<UserInformation>(`${BASE_URL}/admin/${userId}`);
-          setUserInformation(response2.data);
-        } catch (err) {
-          console.error("Error fetching user information:", err);
-        }
+        setUserInformation(await ADMIN.DETAILS(id));
+      } catch (err) {
+        console.error("Error fetching user information:", err);
+      }
 
-        // Fetch notifications
-        try {
-          const response3 = await axios.get<Notification[]>(`${BASE_URL}/notification/${userId}`);
-          setNotifications(response3.data);
-        } catch (err) {
-          console.error("Error fetching notifications:", err);
-        }
-      } catch (error) {
-        console.error("Error fetching cookies:", error);
-        router.push("/login");
+      // Fetch notifications
+      try {
+        setNotifications(await NOTIFICATION.LIST(id));
+      } catch (err) {
+        console.error("Error fetching notifications:", err);
       }
     };
 
-    fetchCookies();
-  }, [router]);
+    fetchAdminData();
+  }, [id]);
 
   if (!isLoggedIn) return null;
 
@@ -127,6 +63,8 @@ export default function AdminDashboard() {
         return <Inventory />;
       case "Discount":
         return <Discount />;
+      case "Promotions":
+        return <Promotions />;
       case "Payment":
         return <Payment />;
       case "User Management":
@@ -135,6 +73,10 @@ export default function AdminDashboard() {
         return <Advertisements />;
       case "Order Management":
         return <OrdersDashboard />;
+      case "Returns":
+        return <Returns />;
+      case "Search Insights":
+        return <SearchAnalytics />;
       case "Profile Management":
         return (
           <ProfileManagement
@@ -177,7 +119,6 @@ export default function AdminDashboard() {
           userInformation={userInformation?.userDetails ?? null}
           id={id}
           isLoggedIn={isLoggedIn}
-          notifications={notifications}
           onMenuClick={() => setSidebarOpen(true)}
         />
         <div className="flex-1 overflow-y-auto">{renderPage()}</div>
@@ -11,13 +11,7 @@ import {
   XMarkIcon,
   CheckIcon
 } from '@heroicons/react/24/outline';
-
-interface Advertisement {
-  _id: string;
-  title: string;
-  description: string;
-  imageUrl: string;
-}
+import { Advertisement } from '../../lib/types';
 
 const AdvertisementsPage: React.FC = () => {
   const [advertisements, setAdvertisements] = useState<Advertisement[]>([]);
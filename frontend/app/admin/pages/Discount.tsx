@@ -2,7 +2,6 @@
 "use client";
 
 import React, { useEffect, useState } from "react";
-import axios from "axios";
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
 import Select, { SingleValue } from "react-select";
@@ -17,24 +16,10 @@ import {
   TagIcon,
   PlusIcon
 } from '@heroicons/react/24/outline';
-
-// ===== Base URL =====
-const BASE_URL = "/api/proxy";
+import { DISCOUNT, PRODUCT } from "../../lib/api";
+import { Discount, Product } from "../../lib/types";
 
 // Interfaces
-interface Product {
-  _id: string;
-  name: string;
-  category: string;
-  unitPrice: number;
-}
-
-interface Discount {
-  _id: string;
-  productId: Product;
-  percentage: number;
-  status: boolean;
-}
 
 interface SelectOption {
   value: string;
@@ -118,8 +103,7 @@ const DiscountsPage: React.FC = () => {
   useEffect(() => {
     const getRecycleProducts = async (): Promise<void> => {
       try {
-        const response = await axios.get<Product[]>(`${BASE_URL}/products/read`);
-        setProducts(response.data);
+        setProducts(await PRODUCT.READ());
       } catch (error) {
         console.error("Failed to fetch products", error);
       }
@@ -131,8 +115,7 @@ const DiscountsPage: React.FC = () => {
   useEffect(() => {
     const fetchDiscounts = async (): Promise<void> => {
       try {
-        const response = await axios.get<Discount[]>(`${BASE_URL}/api/discount/`);
-        setDiscounts(response.data);
+        setDiscounts(await DISCOUNT.LIST());
       } catch (error) {
         console.error("Error fetching discounts", error);
       }
@@ -174,7 +157,7 @@ const DiscountsPage: React.FC = () => {
         return;
       }
 
-      const response = await axios.post(`${BASE_URL}/api/discount/create`, {
+      const created = await DISCOUNT.CREATE({
         productId: selectedProductId,
         percentage: discountPercentage,
         status,
@@ -189,7 +172,7 @@ const DiscountsPage: React.FC = () => {
       setDiscounts((prev) => [
         ...prev,
         {
-          _id: response.data._id,
+          _id: created._id,
           productId: products.find((p) => p._id === selectedProductId)!,
           percentage: discountPercentage,
           status,
@@ -216,7 +199,7 @@ const DiscountsPage: React.FC = () => {
       const confirmDelete = window.confirm("Are you sure you want to delete this discount?");
       if (!confirmDelete) return;
 
-      await axios.delete(`${BASE_URL}/api/discount/delete/${id}`);
+      await DISCOUNT.DELETE(id);
       Swal.fire({
         icon: "success",
         title: "Success!",
@@ -243,7 +226,7 @@ const DiscountsPage: React.FC = () => {
     if (!editId) return;
 
     try {
-      await axios.put(`${BASE_URL}/api/discount/update/${editId}`, {
+      await DISCOUNT.UPDATE(editId, {
         percentage: discountPercentage,
         status,
       });
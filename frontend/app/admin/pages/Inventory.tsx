@@ -3,8 +3,19 @@
 import { useState, useEffect } from 'react';
 import Products from '../components/Products';
 import Vehicle from '../components/Vehicle';
-import { CubeIcon, TruckIcon, ChartBarIcon } from '@heroicons/react/24/outline';
-import { INVENTORY, VEHICLE } from '../components/api';
+import DispatchPlanner from '../components/DispatchPlanner';
+import UtilizationReport from '../components/UtilizationReport';
+import SurplusPipeline from '../components/SurplusPipeline';
+import ImpactFactors from '../components/ImpactFactors';
+import {
+  CubeIcon,
+  TruckIcon,
+  ChartBarIcon,
+  MapIcon,
+  PresentationChartLineIcon,
+  ArrowPathRoundedSquareIcon,
+} from '@heroicons/react/24/outline';
+import { INVENTORY, VEHICLE } from '../../lib/api';
 
 // Define TypeScript types
 interface InventoryItem {
@@ -25,6 +36,8 @@ interface VehicleType {
   year?: number;
 }
 
+type Tab = 'products' | 'vehicles' | 'dispatch' | 'surplus' | 'utilization';
+
 interface Stats {
   totalProducts: number;
   activeVehicles: number;
@@ -32,7 +45,7 @@ interface Stats {
 }
 
 export default function InventoryPage() {
-  const [tab, setTab] = useState<'products' | 'vehicles'>('products');
+  const [tab, setTab] = useState<Tab>('products');
   const [stats, setStats] = useState<Stats>({
     totalProducts: 0,
     activeVehicles: 0,
@@ -44,11 +57,11 @@ export default function InventoryPage() {
       try {
         // Fetch products
         const prodRes = await INVENTORY.LIST();
-        const products: InventoryItem[] = Array.isArray(prodRes?.data) ? prodRes.data : [];
+        const products: InventoryItem[] = Array.isArray(prodRes) ? prodRes : [];
 
         // Fetch vehicles
         const vehRes = await VEHICLE.LIST();
-        const rawVehicles = Array.isArray(vehRes?.data) ? vehRes.data : [];
+        const rawVehicles = Array.isArray(vehRes) ? vehRes : [];
 
         const vehicles: VehicleType[] = rawVehicles.map((v: any) => ({
           _id: v._id,
@@ -82,10 +95,13 @@ export default function InventoryPage() {
   }, []);
 
   // Tab button component
-  const TabBtn = ({ id, label }: { id: 'products' | 'vehicles'; label: string }) => {
+  const TabBtn = ({ id, label }: { id: Tab; label: string }) => {
     const icons = {
       products: <CubeIcon className="w-5 h-5 mr-2" />,
       vehicles: <TruckIcon className="w-5 h-5 mr-2" />,
+      dispatch: <MapIcon className="w-5 h-5 mr-2" />,
+      surplus: <ArrowPathRoundedSquareIcon className="w-5 h-5 mr-2" />,
+      utilization: <PresentationChartLineIcon className="w-5 h-5 mr-2" />,
     };
     return (
       <button
@@ -129,7 +145,9 @@ export default function InventoryPage() {
               </p>
             </div>
             <div className="flex items-center space-x-4">
-              <button className="flex items-center px-4 py-2 bg-gray-100 rounded-lg text-gray-700 hover:bg-gray-200 transition-colors">
+              <button
+                onClick={() => setTab('utilization')}
+                className="flex items-center px-4 py-2 bg-gray-100 rounded-lg text-gray-700 hover:bg-gray-200 transition-colors">
                 <ChartBarIcon className="w-5 h-5 mr-2" />
                 View Analytics
               </button>
@@ -185,11 +203,29 @@ export default function InventoryPage() {
             <div className="px-6 py-4 flex space-x-4">
               <TabBtn id="products" label="Products" />
               <TabBtn id="vehicles" label="Vehicles" />
+              <TabBtn id="dispatch" label="Dispatch" />
+              <TabBtn id="surplus" label="Surplus" />
+              <TabBtn id="utilization" label="Utilization" />
             </div>
           </div>
 
           {/* Tab Content */}
-          <div className="p-6">{tab === 'products' ? <Products /> : <Vehicle />}</div>
+          <div className="p-6">
+            {tab === 'products' ? (
+              <Products />
+            ) : tab === 'vehicles' ? (
+              <Vehicle />
+            ) : tab === 'dispatch' ? (
+              <DispatchPlanner />
+            ) : tab === 'surplus' ? (
+              <>
+                <SurplusPipeline />
+                <ImpactFactors />
+              </>
+            ) : (
+              <UtilizationReport />
+            )}
+          </div>
         </div>
       </div>
     </div>
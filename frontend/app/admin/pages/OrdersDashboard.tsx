@@ -2,30 +2,15 @@
 import React, { useState, useEffect } from "react";
 import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
-import axios from "axios";
 import DatePicker from "react-datepicker";
 import "react-datepicker/dist/react-datepicker.css";
 
-// ===== Base URL =====
-const BASE_URL = "/api/proxy";
+import OrderTimeline from "../../components/OrderTimeline";
+import { ORDER, VEHICLE } from "../../lib/api";
+import { Order, Shipment, ShipmentStatus, StatusTransitions, Vehicle } from "../../lib/types";
 
-// Define types for orders
-interface ProductItem {
-  productId: {
-    name: string;
-  };
-  quantity: number;
-  unitPrice: number;
-}
-
-interface Order {
-  orderNumber: string;
-  orderTime: string | Date;
-  status: string;
-  totalAmount: number;
-  products: ProductItem[];
-  userId: string;
-}
+const customerLabel = (order: Order): string =>
+  typeof order.userId === "object" ? order.userId.username : order.userId ?? "";
 
 interface SelectedColumns {
   orderNumber: boolean;
@@ -51,17 +36,42 @@ const OrdersDashboard: React.FC = () => {
     products: true,
     user: false,
   });
+  const [transitions, setTransitions] = useState<StatusTransitions>({ order: {}, shipment: {} });
+  const [expandedOrder, setExpandedOrder] = useState<string | null>(null);
+  const [nextStatus, setNextStatus] = useState<string>("");
+  const [statusNote, setStatusNote] = useState<string>("");
+  const [updatingStatus, setUpdatingStatus] = useState<boolean>(false);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+
+  useEffect(() => {
+    const fetchTransitions = async () => {
+      try {
+        const response = await ORDER.STATUS_TRANSITIONS();
+        setTransitions(response.data);
+      } catch (error) {
+        console.error("Error fetching status transitions:", error);
+      }
+    };
+
+    const fetchVehicles = async () => {
+      try {
+        setVehicles(await VEHICLE.LIST());
+      } catch (error) {
+        console.error("Error fetching vehicles:", error);
+      }
+    };
+
+    fetchTransitions();
+    fetchVehicles();
+  }, []);
 
   useEffect(() => {
     const fetchOrders = async () => {
       try {
-        let url = `${BASE_URL}/orders/`;
-        if (startDate && endDate) {
-          url += `?startDate=${startDate.toISOString()}&endDate=${endDate.toISOString()}`;
-        }
-        const response = await axios.get<Order[]>(url);
-        setOrders(response.data);
-        console.log(response.data);
+        const range = startDate && endDate
+          ? { startDate: startDate.toISOString(), endDate: endDate.toISOString() }
+          : undefined;
+        setOrders(await ORDER.LIST(range));
       } catch (error) {
         console.error("Error fetching orders:", error);
       }
@@ -145,7 +155,7 @@ const OrdersDashboard: React.FC = () => {
             )
             .join("\n")
         );
-      if (selectedColumns.user) row.push(order.userId);
+      if (selectedColumns.user) row.push(customerLabel(order));
       return row;
     });
 
@@ -162,6 +172,75 @@ const OrdersDashboard: React.FC = () => {
     setShowModal(false);
   };
 
+  // Statuses an admin may move the order to from where it is now
+  const adminMoves = (order: Order): string[] =>
+    Object.entries(transitions.order[order.status] ?? {})
+      .filter(([, roles]) => roles.includes("Admin"))
+      .map(([status]) => status);
+
+  const adminShipmentMoves = (shipment: Shipment): ShipmentStatus[] =>
+    Object.entries(transitions.shipment[shipment.status] ?? {})
+      .filter(([, roles]) => roles.includes("Admin"))
+      .map(([status]) => status as ShipmentStatus);
+
+  const replaceOrder = (updated: Order) =>
+    setOrders((prev) => prev.map((o) => (o._id === updated._id ? { ...o, ...updated } : o)));
+
+  const toggleTimeline = (order: Order) => {
+    setExpandedOrder(expandedOrder === order._id ? null : order._id);
+    setNextStatus(adminMoves(order)[0] ?? "");
+    setStatusNote("");
+  };
+
+  const handleStatusUpdate = async (order: Order) => {
+    if (!nextStatus) return;
+    setUpdatingStatus(true);
+    try {
+      const response = await ORDER.UPDATE_STATUS(order._id, { status: nextStatus, note: statusNote || undefined });
+      replaceOrder(response.data);
+      setNextStatus(adminMoves(response.data)[0] ?? "");
+      setStatusNote("");
+    } catch (error: any) {
+      console.error("Error updating order status:", error);
+      alert(error.message || "Failed to update order status");
+    } finally {
+      setUpdatingStatus(false);
+    }
+  };
+
+  const handleShipmentUpdate = async (order: Order, shipment: Shipment, status: ShipmentStatus) => {
+    setUpdatingStatus(true);
+    try {
+      const response = await ORDER.UPDATE_SHIPMENT(order._id, shipment.vendorId, { status });
+      replaceOrder(response.data);
+    } catch (error: any) {
+      console.error("Error updating shipment:", error);
+      alert(error.message || "Failed to update shipment");
+    } finally {
+      setUpdatingStatus(false);
+    }
+  };
+
+  // The customer's tracking page shows the vehicle as soon as it is assigned
+  const handleVehicleChange = async (order: Order, vehicleId: string) => {
+    const vehicle = vehicles.find((v) => v._id === vehicleId);
+    setUpdatingStatus(true);
+    try {
+      const response = await ORDER.ASSIGN_VEHICLE(
+        order._id,
+        vehicle
+          ? { vehicleId: vehicle._id, plateNumber: vehicle.plateNumber, make: vehicle.make, model: vehicle.model, type: vehicle.type }
+          : null
+      );
+      replaceOrder(response.data);
+    } catch (error: any) {
+      console.error("Error assigning vehicle:", error);
+      alert(error.message || "Failed to assign vehicle");
+    } finally {
+      setUpdatingStatus(false);
+    }
+  };
+
   const handleColumnToggle = (column: keyof SelectedColumns) => {
     setSelectedColumns((prev) => ({ ...prev, [column]: !prev[column] }));
   };
@@ -192,23 +271,109 @@ const OrdersDashboard: React.FC = () => {
               </div>
 
               {orders.map((order, index) => (
-                <div
-                  key={index}
-                  className="flex bg-gray-200 pl-[30px] mb-[3px] flex-row items-center justify-between bg-[#F5F5F5] rounded-[10px] px-[10px] py-[10px] text-[15px]"
-                >
-                  <div className="flex flex-row items-center justify-center w-[20%]"><p className="text-[13px]">{order.orderNumber}</p></div>
-                  <div className="flex flex-col items-center justify-center w-[20%]">
-                    <p className="text-[13px]">{new Date(order.orderTime).toLocaleDateString()}</p>
-                    <p className="text-[13px]">{new Date(order.orderTime).toLocaleTimeString()}</p>
-                  </div>
-                  <div className="flex flex-row items-center justify-center w-[20%]">
-                    <p className="text-[13px]">
-                      {order.products.map(p => `${p.productId.name} x ${p.quantity} @ Rs.${p.unitPrice.toFixed(2)}`).join(", ")}
-                    </p>
+                <div key={index} className="mb-[3px]">
+                  <div
+                    className="flex bg-gray-200 pl-[30px] flex-row items-center justify-between bg-[#F5F5F5] rounded-[10px] px-[10px] py-[10px] text-[15px]"
+                  >
+                    <div className="flex flex-row items-center justify-center w-[20%]"><p className="text-[13px]">{order.orderNumber}</p></div>
+                    <div className="flex flex-col items-center justify-center w-[20%]">
+                      <p className="text-[13px]">{new Date(order.orderTime).toLocaleDateString()}</p>
+                      <p className="text-[13px]">{new Date(order.orderTime).toLocaleTimeString()}</p>
+                    </div>
+                    <div className="flex flex-row items-center justify-center w-[20%]">
+                      <p className="text-[13px]">
+                        {order.products.map(p => `${p.productId.name} x ${p.quantity} @ Rs.${p.unitPrice.toFixed(2)}`).join(", ")}
+                      </p>
+                    </div>
+                    <div className="flex flex-col items-center justify-center w-[20%]">
+                      <p className="text-[13px]">{order.status}</p>
+                      <button onClick={() => toggleTimeline(order)} className="text-[12px] text-blue-700 cursor-pointer underline">
+                        {expandedOrder === order._id ? "Hide timeline" : "Timeline"}
+                      </button>
+                    </div>
+                    <div className="flex flex-row items-center justify-center w-[20%]"><p className="text-[13px]">Rs. {order.totalAmount}</p></div>
+                    <div className="flex flex-row items-center justify-center w-[20%]"><p className="text-[13px]">{customerLabel(order)}</p></div>
                   </div>
-                  <div className="flex flex-row items-center justify-center w-[20%]"><p className="text-[13px]">{order.status}</p></div>
-                  <div className="flex flex-row items-center justify-center w-[20%]"><p className="text-[13px]">Rs. {order.totalAmount}</p></div>
-                  <div className="flex flex-row items-center justify-center w-[20%]"><p className="text-[13px]">{order.userId}</p></div>
+                  {expandedOrder === order._id && (
+                    <div className="bg-white rounded-[10px] mt-[3px] px-[30px] py-[15px]">
+                      <OrderTimeline order={order} />
+                      {order.shipments && order.shipments.length > 0 && (
+                        <div className="mt-[15px] space-y-[5px] text-[13px]">
+                          <p className="text-[14px]">Shipments</p>
+                          {order.shipments.map((shipment) => (
+                            <div key={shipment.vendorId} className="flex flex-row items-center justify-between bg-gray-100 rounded-[5px] px-[10px] py-[5px]">
+                              <p className="w-[30%]">{shipment.vendorName || shipment.vendorId}</p>
+                              <p className="w-[20%]">{shipment.status}</p>
+                              <p className="w-[25%] text-gray-600">
+                                {shipment.trackingNumber ? `${shipment.carrier ?? ""} ${shipment.trackingNumber}` : "-"}
+                              </p>
+                              <div className="flex flex-row justify-end space-x-[5px] w-[25%]">
+                                {adminShipmentMoves(shipment).map((status) => (
+                                  <button
+                                    key={status}
+                                    onClick={() => handleShipmentUpdate(order, shipment, status)}
+                                    disabled={updatingStatus}
+                                    className="bg-white ring-gray-400 ring-[0.5px] cursor-pointer px-[8px] py-[2px] rounded-[5px] disabled:opacity-50"
+                                  >
+                                    {status}
+                                  </button>
+                                ))}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {order.stockShortfall && (
+                        <p className="mt-[15px] text-[13px] text-red-600">Stock shortfall: {order.stockShortfall}</p>
+                      )}
+                      <div className="flex flex-row items-center space-x-[10px] mt-[15px] text-[14px]">
+                        <p>Vehicle</p>
+                        <select
+                          value={order.vehicle?.vehicleId ?? ""}
+                          onChange={(e) => handleVehicleChange(order, e.target.value)}
+                          disabled={updatingStatus || ["Delivered", "Cancelled", "Refunded"].includes(order.status)}
+                          className="border outline-none rounded-[5px] px-[10px] py-[5px] disabled:opacity-50"
+                        >
+                          <option value="">Not assigned</option>
+                          {vehicles.map((vehicle) => (
+                            <option key={vehicle._id} value={vehicle._id}>
+                              {vehicle.make} {vehicle.model}{vehicle.plateNumber ? ` (${vehicle.plateNumber})` : ""}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      {adminMoves(order).length > 0 ? (
+                        <div className="flex flex-row items-center space-x-[10px] mt-[15px] text-[14px]">
+                          <p>Move to</p>
+                          <select
+                            value={nextStatus}
+                            onChange={(e) => setNextStatus(e.target.value)}
+                            className="border outline-none rounded-[5px] px-[10px] py-[5px]"
+                          >
+                            {adminMoves(order).map((status) => (
+                              <option key={status} value={status}>{status}</option>
+                            ))}
+                          </select>
+                          <input
+                            type="text"
+                            value={statusNote}
+                            onChange={(e) => setStatusNote(e.target.value)}
+                            placeholder="Note (optional)"
+                            className="border outline-none rounded-[5px] px-[10px] py-[5px] flex-1"
+                          />
+                          <button
+                            onClick={() => handleStatusUpdate(order)}
+                            disabled={updatingStatus}
+                            className="bg-[#FDAA1C] cursor-pointer ring-yellow-800 ring-[0.5px] py-[5px] px-[20px] rounded-[5px] disabled:opacity-50"
+                          >
+                            {updatingStatus ? "Updating..." : "Update Status"}
+                          </button>
+                        </div>
+                      ) : (
+                        <p className="text-[13px] text-gray-500 mt-[15px]">No further status changes for this order.</p>
+                      )}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -2,44 +2,20 @@ import React, { useState, useEffect } from 'react';
 import { DollarSign, Plus, Download, Search, TrendingUp, CreditCard, RefreshCw, Gift, Trash2, Check, X } from 'lucide-react';
 import jsPDF from 'jspdf';
 import 'jspdf-autotable';
+import { COUPON, PAYMENT } from '../../lib/api';
+import { Coupon, Payment } from '../../lib/types';
+import RefundModal from '../components/RefundModal';
 
-// Configuration
-const API_BASE_URL = '/api/proxy';
+// Payments that took the customer's money, even if some or all of it went back since
+const PAID_STATUSES = ['completed', 'partially_refunded', 'refunded'];
 
-// Types
-interface Payment {
-  _id: string;
-  transactionId: string;
-  receiptNumber: string;
-  paymentMethod: string;
-  amount: {
-    subtotal: number;
-    discount: number;
-    tax: number;
-    deliveryFee: number;
-    total: number;
-  };
-  status: string;
-  createdAt: string;
-  orderId?: any;
-  userId?: any;
-  couponCode?: string;
-}
+// Older payments have no refund ledger; for them "refunded" meant the full amount
+const refundedOf = (p: Payment): number =>
+  p.refundedAmount ?? (p.status === 'refunded' ? p.amount?.total || 0 : 0);
 
-interface Coupon {
-  _id: string;
-  code: string;
-  discountType: 'percentage' | 'fixed';
-  discountValue: number;
-  minimumOrderAmount: number;
-  maximumDiscount?: number;
-  usageLimit?: number;
-  usedCount: number;
-  validFrom: string;
-  validUntil: string;
-  description: string;
-  isActive: boolean;
-}
+const netOf = (p: Payment): number => (p.amount?.total || 0) - refundedOf(p);
+
+// Types
 
 interface Stats {
   totalRevenue: number;
@@ -47,7 +23,9 @@ interface Stats {
   pendingPayments: number;
   completedPayments: number;
   refundedPayments: number;
+  partiallyRefundedPayments: number;
   failedPayments: number;
+  totalRefunded: number;
   averageOrderValue: number;
   todayRevenue: number;
   monthRevenue: number;
@@ -82,13 +60,16 @@ export default function AdminPayment() {
   const [showReportModal, setShowReportModal] = useState<boolean>(false);
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [filterStatus, setFilterStatus] = useState<string>('all');
+  const [refunding, setRefunding] = useState<Payment | null>(null);
   const [stats, setStats] = useState<Stats>({
     totalRevenue: 0,
     totalPayments: 0,
     pendingPayments: 0,
     completedPayments: 0,
     refundedPayments: 0,
+    partiallyRefundedPayments: 0,
     failedPayments: 0,
+    totalRefunded: 0,
     averageOrderValue: 0,
     todayRevenue: 0,
     monthRevenue: 0
@@ -122,10 +103,7 @@ export default function AdminPayment() {
   const fetchPayments = async (): Promise<void> => {
     setLoading(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/payments`, {
-        credentials: 'include'
-      });
-      const data = await response.json();
+      const data = await PAYMENT.LIST();
       if (data.success) {
         setPayments(data.data);
         calculateStats(data.data);
@@ -139,10 +117,7 @@ export default function AdminPayment() {
 
   const fetchCoupons = async (): Promise<void> => {
     try {
-      const response = await fetch(`${API_BASE_URL}/coupons`, {
-        credentials: 'include'
-      });
-      const data = await response.json();
+      const data = await COUPON.LIST();
       if (data.success) {
         setCoupons(data.data);
       }
@@ -153,23 +128,27 @@ export default function AdminPayment() {
 
   const calculateStats = (paymentData: Payment[]): void => {
     const completed = paymentData.filter(p => p.status === 'completed');
+    const paid = paymentData.filter(p => PAID_STATUSES.includes(p.status));
     const pending = paymentData.filter(p => p.status === 'pending' || p.status === 'processing');
     const refunded = paymentData.filter(p => p.status === 'refunded');
+    const partiallyRefunded = paymentData.filter(p => p.status === 'partially_refunded');
     const failed = paymentData.filter(p => p.status === 'failed');
     
-    const totalRevenue = completed.reduce((sum, p) => sum + p.amount.total, 0);
-    const avgOrderValue = completed.length > 0 ? totalRevenue / completed.length : 0;
+    // Revenue is what was kept: payments taken, less everything refunded on them
+    const totalRevenue = paid.reduce((sum, p) => sum + netOf(p), 0);
+    const totalRefunded = paid.reduce((sum, p) => sum + refundedOf(p), 0);
+    const avgOrderValue = paid.length > 0 ? totalRevenue / paid.length : 0;
 
     const today = new Date();
     today.setHours(0, 0, 0, 0);
-    const todayRevenue = completed
+    const todayRevenue = paid
       .filter(p => new Date(p.createdAt) >= today)
-      .reduce((sum, p) => sum + p.amount.total, 0);
+      .reduce((sum, p) => sum + netOf(p), 0);
 
     const firstDayOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
-    const monthRevenue = completed
+    const monthRevenue = paid
       .filter(p => new Date(p.createdAt) >= firstDayOfMonth)
-      .reduce((sum, p) => sum + p.amount.total, 0);
+      .reduce((sum, p) => sum + netOf(p), 0);
 
     setStats({
       totalRevenue,
@@ -177,7 +156,9 @@ export default function AdminPayment() {
       pendingPayments: pending.length,
       completedPayments: completed.length,
       refundedPayments: refunded.length,
+      partiallyRefundedPayments: partiallyRefunded.length,
       failedPayments: failed.length,
+      totalRefunded,
       averageOrderValue: avgOrderValue,
       todayRevenue,
       monthRevenue
@@ -187,19 +168,13 @@ export default function AdminPayment() {
   const handleCreateCoupon = async (e: React.FormEvent): Promise<void> => {
     e.preventDefault();
     try {
-      const response = await fetch(`${API_BASE_URL}/coupons`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({
-          ...couponForm,
-          discountValue: parseFloat(couponForm.discountValue),
-          minimumOrderAmount: couponForm.minimumOrderAmount ? parseFloat(couponForm.minimumOrderAmount) : 0,
-          maximumDiscount: couponForm.maximumDiscount ? parseFloat(couponForm.maximumDiscount) : null,
-          usageLimit: couponForm.usageLimit ? parseInt(couponForm.usageLimit) : null
-        })
+      const data = await COUPON.CREATE({
+        ...couponForm,
+        discountValue: parseFloat(couponForm.discountValue),
+        minimumOrderAmount: couponForm.minimumOrderAmount ? parseFloat(couponForm.minimumOrderAmount) : 0,
+        maximumDiscount: couponForm.maximumDiscount ? parseFloat(couponForm.maximumDiscount) : null,
+        usageLimit: couponForm.usageLimit ? parseInt(couponForm.usageLimit) : null
       });
-      const data = await response.json();
       if (data.success) {
         alert('Coupon created successfully!');
         setShowCouponModal(false);
@@ -218,11 +193,7 @@ export default function AdminPayment() {
     if (!window.confirm('Are you sure you want to delete this coupon?')) return;
     
     try {
-      const response = await fetch(`${API_BASE_URL}/coupons/${couponId}`, {
-        method: 'DELETE',
-        credentials: 'include'
-      });
-      const data = await response.json();
+      const data = await COUPON.DELETE(couponId);
       if (data.success) {
         alert('Coupon deleted successfully!');
         fetchCoupons();
@@ -235,13 +206,7 @@ export default function AdminPayment() {
 
   const handleToggleCouponStatus = async (couponId: string, currentStatus: boolean): Promise<void> => {
     try {
-      const response = await fetch(`${API_BASE_URL}/coupons/${couponId}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({ isActive: !currentStatus })
-      });
-      const data = await response.json();
+      const data = await COUPON.UPDATE(couponId, { isActive: !currentStatus });
       if (data.success) {
         fetchCoupons();
       }
@@ -269,7 +234,7 @@ export default function AdminPayment() {
         filtered = filtered.filter(p => p.paymentMethod === reportForm.paymentMethod);
       }
 
-      const completedFiltered = filtered.filter(p => p.status === 'completed');
+      const completedFiltered = filtered.filter(p => PAID_STATUSES.includes(p.status));
       const totalDiscounts = completedFiltered.reduce((sum, p) => sum + (p.amount?.discount || 0), 0);
       const totalTax = completedFiltered.reduce((sum, p) => sum + (p.amount?.tax || 0), 0);
       const totalDeliveryFees = completedFiltered.reduce((sum, p) => sum + (p.amount?.deliveryFee || 0), 0);
@@ -277,7 +242,9 @@ export default function AdminPayment() {
       const reportData = {
         dateRange: `${reportForm.fromDate || 'Start'} to ${reportForm.toDate || 'End'}`,
         totalTransactions: filtered.length,
-        totalRevenue: completedFiltered.reduce((sum, p) => sum + (p.amount?.total || 0), 0),
+        totalRevenue: completedFiltered.reduce((sum, p) => sum + netOf(p), 0),
+        grossRevenue: completedFiltered.reduce((sum, p) => sum + (p.amount?.total || 0), 0),
+        totalRefunds: completedFiltered.reduce((sum, p) => sum + refundedOf(p), 0),
         totalSubtotal: completedFiltered.reduce((sum, p) => sum + (p.amount?.subtotal || 0), 0),
         totalDiscounts,
         totalTax,
@@ -286,7 +253,8 @@ export default function AdminPayment() {
         pendingTransactions: filtered.filter(p => p.status === 'pending' || p.status === 'processing').length,
         failedTransactions: filtered.filter(p => p.status === 'failed').length,
         refundedTransactions: filtered.filter(p => p.status === 'refunded').length,
-        averageTransaction: completedFiltered.length > 0 ? completedFiltered.reduce((sum, p) => sum + (p.amount?.total || 0), 0) / completedFiltered.length : 0,
+        partiallyRefundedTransactions: filtered.filter(p => p.status === 'partially_refunded').length,
+        averageTransaction: completedFiltered.length > 0 ? completedFiltered.reduce((sum, p) => sum + netOf(p), 0) / completedFiltered.length : 0,
         byPaymentMethod: {
           card: filtered.filter(p => p.paymentMethod === 'card').length,
           bank_transfer: filtered.filter(p => p.paymentMethod === 'bank_transfer').length,
@@ -338,7 +306,9 @@ export default function AdminPayment() {
     
     const summaryData = [
       ['Total Transactions', reportData.totalTransactions.toString()],
-      ['Total Revenue', `Rs. ${reportData.totalRevenue.toFixed(2)}`],
+      ['Gross Payments', `Rs. ${reportData.grossRevenue.toFixed(2)}`],
+      ['Total Refunds', `Rs. ${reportData.totalRefunds.toFixed(2)}`],
+      ['Net Revenue', `Rs. ${reportData.totalRevenue.toFixed(2)}`],
       ['Total Subtotal', `Rs. ${reportData.totalSubtotal.toFixed(2)}`],
       ['Total Discounts', `Rs. ${reportData.totalDiscounts.toFixed(2)}`],
       ['Total Tax (5%)', `Rs. ${reportData.totalTax.toFixed(2)}`],
@@ -377,6 +347,7 @@ export default function AdminPayment() {
       ['Completed', reportData.completedTransactions.toString(), `${((reportData.completedTransactions / reportData.totalTransactions) * 100 || 0).toFixed(1)}%`],
       ['Pending', reportData.pendingTransactions.toString(), `${((reportData.pendingTransactions / reportData.totalTransactions) * 100 || 0).toFixed(1)}%`],
       ['Failed', reportData.failedTransactions.toString(), `${((reportData.failedTransactions / reportData.totalTransactions) * 100 || 0).toFixed(1)}%`],
+      ['Partially Refunded', reportData.partiallyRefundedTransactions.toString(), `${((reportData.partiallyRefundedTransactions / reportData.totalTransactions) * 100 || 0).toFixed(1)}%`],
       ['Refunded', reportData.refundedTransactions.toString(), `${((reportData.refundedTransactions / reportData.totalTransactions) * 100 || 0).toFixed(1)}%`],
     ];
     
@@ -453,13 +424,14 @@ export default function AdminPayment() {
         payment.receiptNumber,
         payment.paymentMethod.replace('_', ' '),
         `Rs. ${payment.amount.total.toFixed(2)}`,
-        payment.status.toUpperCase(),
+        refundedOf(payment) > 0 ? `Rs. ${refundedOf(payment).toFixed(2)}` : '-',
+        payment.status.replace('_', ' ').toUpperCase(),
         new Date(payment.createdAt).toLocaleDateString()
       ]);
       
       (doc as any).autoTable({
         startY: 32,
-        head: [['Transaction ID', 'Receipt #', 'Method', 'Amount', 'Status', 'Date']],
+        head: [['Transaction ID', 'Receipt #', 'Method', 'Amount', 'Refunded', 'Status', 'Date']],
         body: transactionData,
         theme: 'grid',
         headStyles: { 
@@ -472,16 +444,17 @@ export default function AdminPayment() {
           cellPadding: 2
         },
         columnStyles: {
-          0: { cellWidth: 32 },
-          1: { cellWidth: 30 },
-          2: { cellWidth: 28 },
-          3: { cellWidth: 28, halign: 'right' },
-          4: { cellWidth: 26, halign: 'center' },
-          5: { cellWidth: 26 }
+          0: { cellWidth: 30 },
+          1: { cellWidth: 28 },
+          2: { cellWidth: 24 },
+          3: { cellWidth: 26, halign: 'right' },
+          4: { cellWidth: 24, halign: 'right' },
+          5: { cellWidth: 30, halign: 'center' },
+          6: { cellWidth: 28 }
         },
         margin: { left: 10, right: 10 },
         didDrawCell: (data: any) => {
-          if (data.section === 'body' && data.column.index === 4) {
+          if (data.section === 'body' && data.column.index === 5) {
             const status = data.cell.raw.toLowerCase();
             if (status === 'completed') {
               doc.setTextColor(22, 163, 74);
@@ -489,7 +462,7 @@ export default function AdminPayment() {
               doc.setTextColor(234, 179, 8);
             } else if (status === 'failed') {
               doc.setTextColor(239, 68, 68);
-            } else if (status === 'refunded') {
+            } else if (status === 'refunded' || status === 'partially refunded') {
               doc.setTextColor(168, 85, 247);
             }
           }
@@ -554,7 +527,8 @@ export default function AdminPayment() {
       case 'pending': return 'text-yellow-600 bg-yellow-50';
       case 'processing': return 'text-blue-600 bg-blue-50';
       case 'failed': return 'text-red-600 bg-red-50';
-      case 'refunded': return 'text-purple-600 bg-purple-50';
+      case 'refunded':
+      case 'partially_refunded': return 'text-purple-600 bg-purple-50';
       default: return 'text-gray-600 bg-gray-50';
     }
   };
@@ -579,7 +553,9 @@ export default function AdminPayment() {
             </div>
             <h3 className="text-gray-600 text-sm font-medium mb-1">Total Revenue</h3>
             <p className="text-2xl font-bold text-gray-900">Rs. {stats.totalRevenue.toFixed(2)}</p>
-            <p className="text-xs text-gray-500 mt-1">All time</p>
+            <p className="text-xs text-gray-500 mt-1">
+              All time{stats.totalRefunded > 0 && `, after Rs. ${stats.totalRefunded.toFixed(2)} refunded`}
+            </p>
           </div>
 
           <div className="bg-white rounded-lg shadow p-6">
@@ -694,7 +670,7 @@ export default function AdminPayment() {
                     <div className="text-center p-4 bg-gray-50 rounded-lg">
                       <p className="text-sm text-gray-600 mb-1">Success Rate</p>
                       <p className="text-xl font-bold text-gray-900">
-                        {stats.totalPayments > 0 ? ((stats.completedPayments / stats.totalPayments) * 100).toFixed(1) : 0}%
+                        {stats.totalPayments > 0 ? (((stats.completedPayments + stats.partiallyRefundedPayments + stats.refundedPayments) / stats.totalPayments) * 100).toFixed(1) : 0}%
                       </p>
                     </div>
                   </div>
@@ -728,7 +704,8 @@ export default function AdminPayment() {
                     <option value="pending">Pending</option>
                     <option value="processing">Processing</option>
                     <option value="failed">Failed</option>
-                    <option value="refunded">Refunded</option>
+                    <option value="partially_refunded">Partially Refunded</option>
+                  <option value="refunded">Refunded</option>
                   </select>
                 </div>
 
@@ -749,12 +726,13 @@ export default function AdminPayment() {
                           <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Coupon</th>
                           <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
                           <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
                         </tr>
                       </thead>
                       <tbody className="bg-white divide-y divide-gray-200">
                         {filteredPayments.length === 0 ? (
                           <tr>
-                            <td colSpan={7} className="px-6 py-12 text-center text-gray-500">
+                            <td colSpan={8} className="px-6 py-12 text-center text-gray-500">
                               No payments found
                             </td>
                           </tr>
@@ -772,6 +750,11 @@ export default function AdminPayment() {
                               </td>
                               <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900">
                                 Rs. {payment.amount?.total?.toFixed(2)}
+                                {refundedOf(payment) > 0 && (
+                                  <span className="block text-xs font-normal text-purple-600">
+                                    - Rs. {refundedOf(payment).toFixed(2)} refunded
+                                  </span>
+                                )}
                               </td>
                               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                                 {payment.couponCode ? (
@@ -784,12 +767,22 @@ export default function AdminPayment() {
                               </td>
                               <td className="px-6 py-4 whitespace-nowrap">
                                 <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusColor(payment.status)}`}>
-                                  {payment.status}
+                                  {payment.status.replace('_', ' ')}
                                 </span>
                               </td>
                               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                                 {new Date(payment.createdAt).toLocaleDateString()}
                               </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                {payment.paymentId && ['completed', 'partially_refunded'].includes(payment.status) && (
+                                  <button
+                                    onClick={() => setRefunding(payment)}
+                                    className="text-purple-600 hover:text-purple-800 font-medium"
+                                  >
+                                    Refund
+                                  </button>
+                                )}
+                              </td>
                             </tr>
                           ))
                         )}
@@ -1042,6 +1035,18 @@ export default function AdminPayment() {
         </div>
       )}
 
+      {/* Refund Modal */}
+      {refunding && (
+        <RefundModal
+          payment={refunding}
+          onClose={() => setRefunding(null)}
+          onRefunded={() => {
+            setRefunding(null);
+            fetchPayments();
+          }}
+        />
+      )}
+
       {/* Generate Report Modal */}
       {showReportModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -1081,6 +1086,7 @@ export default function AdminPayment() {
                   <option value="pending">Pending</option>
                   <option value="processing">Processing</option>
                   <option value="failed">Failed</option>
+                  <option value="partially_refunded">Partially Refunded</option>
                   <option value="refunded">Refunded</option>
                 </select>
               </div>
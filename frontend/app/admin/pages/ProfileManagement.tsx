@@ -1,12 +1,9 @@
 "use client";
 
-import axios from "axios";
 import React, { useState } from "react";
 
-import { Notification } from "../components/types";
-
-// ==== Base URL ====
-const BASE_URL = "/api/proxy";
+import { AUTH, NOTIFICATION } from "../../lib/api";
+import { Notification } from "../../lib/types";
 
 // Types
 interface UserInformation {
@@ -40,14 +37,13 @@ const ProfileManagement: React.FC<ProfileManagementProps> = ({ userInformation,
   // Update profile
   const updateInformation = async () => {
     try {
-      const response = await axios.post(`${BASE_URL}/api/auth/updateAdmin`, {
+      await AUTH.UPDATE_ADMIN({
         firstName,
         lastName,
         email,
         phoneNumber,
         adminId: id
       });
-      console.log(response.data);
       setProfileUpdateSuccess(true);
       setTimeout(() => setProfileUpdateSuccess(false), 3000);
       window.location.reload();
@@ -59,8 +55,7 @@ const ProfileManagement: React.FC<ProfileManagementProps> = ({ userInformation,
   // Delete notification
   const handleDeleteNotification = async (notificationId: string) => {
     try {
-      const response = await axios.delete(`${BASE_URL}/notification/${notificationId}`);
-      console.log(response.data);
+      await NOTIFICATION.DELETE(notificationId);
       window.location.reload();
     } catch (err) {
       console.error("Error in deleting notification: ", err);
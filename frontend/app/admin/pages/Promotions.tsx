@@ -0,0 +1,742 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Select, { MultiValue } from "react-select";
+import Swal from "sweetalert2";
+import {
+  PencilIcon,
+  TrashIcon,
+  MagnifyingGlassIcon,
+  XMarkIcon,
+  TagIcon,
+  PlusIcon
+} from '@heroicons/react/24/outline';
+import { CATEGORY, PRODUCT, PROMOTION } from "../../lib/api";
+import { Product, ProductCategory, Promotion, PromotionInput, PromotionTier, PromotionType } from "../../lib/types";
+
+// Interfaces
+
+interface SelectOption {
+  value: string;
+  label: string;
+}
+
+const PROMOTION_TYPES: { value: PromotionType; label: string; hint: string }[] = [
+  { value: "order", label: "Order discount", hint: "A percentage or amount off the whole order" },
+  { value: "category", label: "Category discount", hint: "Off every product in the chosen categories" },
+  { value: "buy_x_get_y", label: "Buy X get Y", hint: "Free units when buying several of the same product" },
+  { value: "first_order", label: "First order", hint: "Only for a customer's first order" },
+  { value: "tiered_spend", label: "Tiered spend", hint: "Bigger discounts at higher spend thresholds" },
+];
+
+const EMPTY_FORM: PromotionInput = {
+  name: "",
+  description: "",
+  code: "",
+  type: "order",
+  discountType: "percentage",
+  value: 10,
+  minOrderValue: 0,
+  categories: [],
+  products: [],
+  buyQuantity: 2,
+  getQuantity: 1,
+  tiers: [{ threshold: 5000, value: 5 }],
+  stackable: true,
+  exclusive: false,
+  priority: 0,
+  isActive: true,
+};
+
+const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+const toDateInput = (value?: string) => (value ? value.slice(0, 10) : "");
+
+const money = (amount: number) => `Rs. ${amount.toFixed(2)}`;
+
+const amountOff = (promotion: Pick<Promotion, "discountType">, value: number) =>
+  promotion.discountType === "fixed" ? `${money(value)} off` : `${value}% off`;
+
+// Same wording the pricing engine uses in quotes, so admins see what customers see.
+const describePromotion = (promotion: PromotionInput): string => {
+  switch (promotion.type) {
+    case "buy_x_get_y":
+      return `Buy ${promotion.buyQuantity}, get ${promotion.getQuantity} free`;
+    case "tiered_spend":
+      return [...promotion.tiers]
+        .sort((a, b) => a.threshold - b.threshold)
+        .map((tier) => `${amountOff(promotion, tier.value)} over ${money(tier.threshold)}`)
+        .join(", ");
+    case "first_order":
+      return `${amountOff(promotion, promotion.value)} your first order`;
+    case "category":
+      return `${amountOff(promotion, promotion.value)} selected categories`;
+    default:
+      return amountOff(promotion, promotion.value);
+  }
+};
+
+const PromotionsPage: React.FC = () => {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<ProductCategory[]>([]);
+  const [form, setForm] = useState<PromotionInput>(EMPTY_FORM);
+  const [editId, setEditId] = useState<string | null>(null);
+  const [showModal, setShowModal] = useState<boolean>(false);
+  const [searchTerm, setSearchTerm] = useState<string>('');
+
+  // Fetch promotions
+  useEffect(() => {
+    const fetchPromotions = async (): Promise<void> => {
+      try {
+        const response = await PROMOTION.LIST();
+        setPromotions(response.data);
+      } catch (error) {
+        console.error("Error fetching promotions", error);
+      }
+    };
+    fetchPromotions();
+  }, []);
+
+  // Fetch products and categories for the scope pickers
+  useEffect(() => {
+    const fetchCatalog = async (): Promise<void> => {
+      try {
+        const [productList, categoryList] = await Promise.all([PRODUCT.READ(), CATEGORY.LIST()]);
+        setProducts(productList);
+        setCategories(categoryList);
+      } catch (error) {
+        console.error("Failed to fetch catalog", error);
+      }
+    };
+    fetchCatalog();
+  }, []);
+
+  const productOptions: SelectOption[] = products.map((product) => ({ value: product._id, label: product.name }));
+  const categoryOptions: SelectOption[] = categories.map((category) => ({ value: category._id, label: category.name }));
+
+  const updateForm = <K extends keyof PromotionInput>(key: K, value: PromotionInput[K]) =>
+    setForm((prev) => ({ ...prev, [key]: value }));
+
+  const updateTier = (index: number, key: keyof PromotionTier, value: number) =>
+    setForm((prev) => ({
+      ...prev,
+      tiers: prev.tiers.map((tier, i) => (i === index ? { ...tier, [key]: value } : tier)),
+    }));
+
+  const openCreate = (): void => {
+    setForm(EMPTY_FORM);
+    setEditId(null);
+    setShowModal(true);
+  };
+
+  const openEdit = (promotion: Promotion): void => {
+    const { _id, usedCount, ...rest } = promotion;
+    setForm({
+      ...EMPTY_FORM,
+      ...rest,
+      code: rest.code ?? "",
+      tiers: rest.tiers?.length ? rest.tiers : EMPTY_FORM.tiers,
+      validFrom: toDateInput(rest.validFrom),
+      validUntil: toDateInput(rest.validUntil),
+    });
+    setEditId(_id);
+    setShowModal(true);
+  };
+
+  const validate = (): string | null => {
+    if (!form.name.trim()) return "Name is required.";
+    if (form.type === "buy_x_get_y") {
+      if (!form.buyQuantity || form.buyQuantity < 1 || !form.getQuantity || form.getQuantity < 1) {
+        return "Buy and get quantities must be at least 1.";
+      }
+    } else if (form.type === "tiered_spend") {
+      if (form.tiers.length === 0 || form.tiers.some((tier) => tier.threshold <= 0 || tier.value <= 0)) {
+        return "Every tier needs a threshold and a discount above zero.";
+      }
+      if (form.discountType === "percentage" && form.tiers.some((tier) => tier.value > 100)) {
+        return "Tier percentages cannot exceed 100.";
+      }
+    } else {
+      if (form.value <= 0) return "Discount value must be above zero.";
+      if (form.discountType === "percentage" && form.value > 100) return "Percentage cannot exceed 100.";
+    }
+    if (form.type === "category" && form.categories.length === 0) return "Pick at least one category.";
+    if (form.validFrom && form.validUntil && form.validFrom > form.validUntil) {
+      return "The end date must be after the start date.";
+    }
+    return null;
+  };
+
+  // Blank optional fields are left out so the rule has no such limit
+  const toPayload = (): PromotionInput => ({
+    ...form,
+    name: form.name.trim(),
+    code: form.code?.trim() ? form.code.trim().toUpperCase() : undefined,
+    maxDiscount: form.maxDiscount || undefined,
+    usageLimit: form.usageLimit || undefined,
+    perCustomerLimit: form.type === "first_order" ? 1 : form.perCustomerLimit || undefined,
+    validFrom: form.validFrom || undefined,
+    validUntil: form.validUntil || undefined,
+    stackable: form.exclusive ? false : form.stackable,
+  });
+
+  // Create or update promotion
+  const handleSave = async (): Promise<void> => {
+    const problem = validate();
+    if (problem) {
+      Swal.fire({ icon: "error", title: "Error", text: problem });
+      return;
+    }
+
+    try {
+      const payload = toPayload();
+      if (editId) {
+        const response = await PROMOTION.UPDATE(editId, payload);
+        setPromotions((prev) => prev.map((item) => (item._id === editId ? response.data : item)));
+      } else {
+        const response = await PROMOTION.CREATE(payload);
+        setPromotions((prev) => [response.data, ...prev]);
+      }
+
+      Swal.fire({
+        icon: "success",
+        title: "Success!",
+        text: editId ? "Promotion updated successfully!" : "Promotion created successfully!",
+      });
+      setShowModal(false);
+      setEditId(null);
+      setForm(EMPTY_FORM);
+    } catch (error: any) {
+      console.error("Error saving promotion:", error);
+      Swal.fire({
+        icon: "error",
+        title: "Oops...",
+        text: error.message || "Something went wrong!",
+      });
+    }
+  };
+
+  // Delete promotion
+  const handleDelete = async (id: string): Promise<void> => {
+    try {
+      const confirmDelete = window.confirm("Are you sure you want to delete this promotion?");
+      if (!confirmDelete) return;
+
+      await PROMOTION.DELETE(id);
+      setPromotions(promotions.filter((promotion) => promotion._id !== id));
+    } catch (error) {
+      console.error("Error deleting promotion:", error);
+      alert("Failed to delete the promotion.");
+    }
+  };
+
+  // Toggle promotion status
+  const handleToggleActive = async (promotion: Promotion): Promise<void> => {
+    try {
+      const response = await PROMOTION.UPDATE(promotion._id, { isActive: !promotion.isActive });
+      setPromotions((prev) => prev.map((item) => (item._id === promotion._id ? response.data : item)));
+    } catch (error) {
+      console.error("Update failed", error);
+      alert("Failed to update promotion");
+    }
+  };
+
+  const stats = {
+    active: promotions.filter((p) => p.isActive).length,
+    automatic: promotions.filter((p) => !p.code).length,
+    exclusive: promotions.filter((p) => p.exclusive).length,
+    redemptions: promotions.reduce((sum, p) => sum + (p.usedCount || 0), 0),
+  };
+
+  // Filter promotions based on search
+  const filteredPromotions = promotions.filter((promotion) =>
+    promotion.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (promotion.code ?? "").toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const typeLabel = (type: PromotionType) => PROMOTION_TYPES.find((t) => t.value === type)?.label ?? type;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Promotions</h1>
+              <p className="text-gray-600 mt-2">Automatic and code-based offers, and how they combine at checkout</p>
+            </div>
+            <button
+              onClick={openCreate}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg flex items-center space-x-2 transition-colors shadow-lg"
+            >
+              <PlusIcon className="w-5 h-5" />
+              <span>New Promotion</span>
+            </button>
+          </div>
+        </div>
+
+        {/* Stats Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <p className="text-sm font-medium text-gray-600">Active</p>
+            <p className="text-3xl font-bold text-green-600">{stats.active}</p>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <p className="text-sm font-medium text-gray-600">Automatic</p>
+            <p className="text-3xl font-bold text-blue-600">{stats.automatic}</p>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <p className="text-sm font-medium text-gray-600">Exclusive</p>
+            <p className="text-3xl font-bold text-yellow-600">{stats.exclusive}</p>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <p className="text-sm font-medium text-gray-600">Redemptions</p>
+            <p className="text-3xl font-bold text-purple-600">{stats.redemptions}</p>
+          </div>
+        </div>
+
+        {/* Stacking rules */}
+        <div className="bg-blue-50 border border-blue-200 rounded-xl p-4 mb-8 text-sm text-blue-900">
+          Promotions are considered from the highest priority down. An <strong>exclusive</strong> promotion
+          applies only on its own, and only when it saves more than the other promotions together; of the{" "}
+          <strong>non-stackable</strong> promotions only one applies;
+          <strong> stackable</strong> promotions combine with everything else. Customers see which offers
+          applied and why the others did not.
+        </div>
+
+        {/* Promotions List */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="p-6 border-b border-gray-200">
+            <div className="relative">
+              <MagnifyingGlassIcon className="w-5 h-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Search by name or code..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Promotion</th>
+                  <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rule</th>
+                  <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stacking</th>
+                  <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Usage</th>
+                  <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Validity</th>
+                  <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {filteredPromotions.map((promotion) => (
+                  <tr key={promotion._id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <div className="font-medium text-gray-900">{promotion.name}</div>
+                      <div className="text-sm text-gray-500">
+                        {promotion.code ? (
+                          <span className="font-mono">{promotion.code}</span>
+                        ) : (
+                          "Automatic"
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <div className="text-gray-900">{typeLabel(promotion.type)}</div>
+                      <div className="text-gray-500">{describePromotion(promotion)}</div>
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                        promotion.exclusive
+                          ? 'bg-red-100 text-red-800'
+                          : promotion.stackable
+                            ? 'bg-green-100 text-green-800'
+                            : 'bg-yellow-100 text-yellow-800'
+                      }`}>
+                        {promotion.exclusive ? 'Exclusive' : promotion.stackable ? 'Stackable' : 'Non-stackable'}
+                      </span>
+                      <div className="text-xs text-gray-500 mt-1">Priority {promotion.priority}</div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {promotion.usedCount}{promotion.usageLimit ? ` / ${promotion.usageLimit}` : ''}
+                      {promotion.perCustomerLimit && (
+                        <div className="text-xs text-gray-500">{promotion.perCustomerLimit} per customer</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {promotion.validFrom ? new Date(promotion.validFrom).toLocaleDateString() : 'Now'}
+                      {' – '}
+                      {promotion.validUntil ? new Date(promotion.validUntil).toLocaleDateString() : 'No end'}
+                    </td>
+                    <td className="px-6 py-4">
+                      <button
+                        onClick={() => handleToggleActive(promotion)}
+                        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          promotion.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                        }`}
+                      >
+                        {promotion.isActive ? 'Active' : 'Inactive'}
+                      </button>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => openEdit(promotion)}
+                          className="p-1.5 text-gray-400 hover:text-yellow-600 hover:bg-yellow-50 rounded-lg transition-colors"
+                        >
+                          <PencilIcon className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(promotion._id)}
+                          className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {filteredPromotions.length === 0 && (
+              <div className="text-center py-12">
+                <TagIcon className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-500 text-lg">No promotions found</p>
+                <p className="text-gray-400">
+                  {searchTerm ? 'Try adjusting your search terms' : 'Create your first promotion to get started'}
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Create / Edit Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-bold text-gray-900">{editId ? 'Edit Promotion' : 'New Promotion'}</h2>
+              <button
+                onClick={() => setShowModal(false)}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg"
+              >
+                <XMarkIcon className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => updateForm("name", e.target.value)}
+                  className={inputClass}
+                  placeholder="Summer fruit sale"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Code (leave blank to apply automatically)</label>
+                <input
+                  type="text"
+                  value={form.code ?? ""}
+                  onChange={(e) => updateForm("code", e.target.value.toUpperCase())}
+                  className={`${inputClass} font-mono`}
+                  placeholder="SUMMER10"
+                />
+              </div>
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+                <select
+                  value={form.type}
+                  onChange={(e) => updateForm("type", e.target.value as PromotionType)}
+                  className={inputClass}
+                >
+                  {PROMOTION_TYPES.map((type) => (
+                    <option key={type.value} value={type.value}>{type.label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  {PROMOTION_TYPES.find((type) => type.value === form.type)?.hint}
+                </p>
+              </div>
+
+              {form.type !== "buy_x_get_y" && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Discount Type</label>
+                  <select
+                    value={form.discountType}
+                    onChange={(e) => updateForm("discountType", e.target.value as PromotionInput["discountType"])}
+                    className={inputClass}
+                  >
+                    <option value="percentage">Percentage</option>
+                    <option value="fixed">Fixed amount (Rs.)</option>
+                  </select>
+                </div>
+              )}
+
+              {form.type !== "buy_x_get_y" && form.type !== "tiered_spend" && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {form.discountType === "percentage" ? "Discount (%)" : "Discount (Rs.)"}
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={form.value}
+                    onChange={(e) => updateForm("value", Number(e.target.value))}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+
+              {form.type === "buy_x_get_y" && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Buy quantity</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={form.buyQuantity ?? 1}
+                      onChange={(e) => updateForm("buyQuantity", Number(e.target.value))}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Free quantity</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={form.getQuantity ?? 1}
+                      onChange={(e) => updateForm("getQuantity", Number(e.target.value))}
+                      className={inputClass}
+                    />
+                  </div>
+                </>
+              )}
+
+              {form.type === "tiered_spend" && (
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Tiers</label>
+                  <div className="space-y-2">
+                    {form.tiers.map((tier, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <span className="text-sm text-gray-600">Spend Rs.</span>
+                        <input
+                          type="number"
+                          min="0"
+                          value={tier.threshold}
+                          onChange={(e) => updateTier(index, "threshold", Number(e.target.value))}
+                          className={inputClass}
+                        />
+                        <span className="text-sm text-gray-600 whitespace-nowrap">
+                          {form.discountType === "percentage" ? "get %" : "get Rs."}
+                        </span>
+                        <input
+                          type="number"
+                          min="0"
+                          value={tier.value}
+                          onChange={(e) => updateTier(index, "value", Number(e.target.value))}
+                          className={inputClass}
+                        />
+                        <button
+                          onClick={() => updateForm("tiers", form.tiers.filter((_, i) => i !== index))}
+                          className="p-2 text-gray-400 hover:text-red-600 rounded-lg"
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    onClick={() => updateForm("tiers", [...form.tiers, { threshold: 0, value: 0 }])}
+                    className="mt-2 text-sm text-blue-600 hover:text-blue-800 font-medium"
+                  >
+                    + Add tier
+                  </button>
+                </div>
+              )}
+
+              {(form.type === "category" || form.categories.length > 0) && (
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Categories</label>
+                  <Select
+                    isMulti
+                    options={categoryOptions}
+                    value={categoryOptions.filter((option) => form.categories.includes(option.value))}
+                    onChange={(selected: MultiValue<SelectOption>) =>
+                      updateForm("categories", selected.map((option) => option.value))
+                    }
+                    placeholder="Select categories..."
+                    classNamePrefix="react-select"
+                  />
+                </div>
+              )}
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Products {form.type === "buy_x_get_y" ? "(leave empty for every product)" : "(optional, limits the promotion)"}
+                </label>
+                <Select
+                  isMulti
+                  options={productOptions}
+                  value={productOptions.filter((option) => form.products.includes(option.value))}
+                  onChange={(selected: MultiValue<SelectOption>) =>
+                    updateForm("products", selected.map((option) => option.value))
+                  }
+                  placeholder="All products"
+                  classNamePrefix="react-select"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Minimum spend (Rs.)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={form.minOrderValue}
+                  onChange={(e) => updateForm("minOrderValue", Number(e.target.value))}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Maximum discount (Rs.)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={form.maxDiscount ?? ""}
+                  onChange={(e) => updateForm("maxDiscount", e.target.value ? Number(e.target.value) : undefined)}
+                  className={inputClass}
+                  placeholder="No cap"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Total usage limit</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={form.usageLimit ?? ""}
+                  onChange={(e) => updateForm("usageLimit", e.target.value ? Number(e.target.value) : undefined)}
+                  className={inputClass}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Uses per customer</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={form.type === "first_order" ? 1 : form.perCustomerLimit ?? ""}
+                  disabled={form.type === "first_order"}
+                  onChange={(e) => updateForm("perCustomerLimit", e.target.value ? Number(e.target.value) : undefined)}
+                  className={inputClass}
+                  placeholder="Unlimited"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Starts</label>
+                <input
+                  type="date"
+                  value={form.validFrom ?? ""}
+                  onChange={(e) => updateForm("validFrom", e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Ends</label>
+                <input
+                  type="date"
+                  value={form.validUntil ?? ""}
+                  onChange={(e) => updateForm("validUntil", e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Priority (higher goes first)</label>
+                <input
+                  type="number"
+                  value={form.priority}
+                  onChange={(e) => updateForm("priority", Number(e.target.value))}
+                  className={inputClass}
+                />
+              </div>
+              <div className="space-y-2 pt-7">
+                <label className="flex items-center space-x-3">
+                  <input
+                    type="checkbox"
+                    checked={form.exclusive ? false : form.stackable}
+                    disabled={form.exclusive}
+                    onChange={() => updateForm("stackable", !form.stackable)}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-700">Stackable with other promotions</span>
+                </label>
+                <label className="flex items-center space-x-3">
+                  <input
+                    type="checkbox"
+                    checked={form.exclusive}
+                    onChange={() => updateForm("exclusive", !form.exclusive)}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-700">Exclusive (never combined)</span>
+                </label>
+                <label className="flex items-center space-x-3">
+                  <input
+                    type="checkbox"
+                    checked={form.isActive}
+                    onChange={() => updateForm("isActive", !form.isActive)}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-700">Active</span>
+                </label>
+              </div>
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+                <textarea
+                  value={form.description ?? ""}
+                  onChange={(e) => updateForm("description", e.target.value)}
+                  className={inputClass}
+                  rows={2}
+                />
+              </div>
+            </div>
+
+            <p className="text-sm text-gray-600 bg-gray-50 rounded-lg px-3 py-2 mt-4">
+              Customers will see: <strong>{form.name || "Untitled"}</strong> — {describePromotion(form)}
+            </p>
+
+            <div className="flex space-x-3 mt-6">
+              <button
+                onClick={() => setShowModal(false)}
+                className="flex-1 bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition-colors"
+              >
+                {editId ? 'Update Promotion' : 'Create Promotion'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromotionsPage;
@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Check, RefreshCw, RotateCcw, X } from 'lucide-react';
+import { RETURNS } from '../../lib/api';
+import { ReturnPolicy, ReturnRequest, ReturnStatus } from '../../lib/types';
+
+const STATUSES: ReturnStatus[] = ['Requested', 'Escalated', 'Approved', 'Rejected', 'Refunded', 'Replaced'];
+
+const statusColor = (status: ReturnStatus): string => {
+  switch (status) {
+    case 'Escalated':
+      return 'bg-orange-100 text-orange-800';
+    case 'Requested':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'Rejected':
+      return 'bg-red-100 text-red-800';
+    case 'Approved':
+      return 'bg-blue-100 text-blue-800';
+    default:
+      return 'bg-green-100 text-green-800';
+  }
+};
+
+// Every return request. Customers escalate returns their vendor turned down;
+// an admin's decision on those is final.
+export default function Returns() {
+  const [requests, setRequests] = useState<ReturnRequest[]>([]);
+  const [policy, setPolicy] = useState<ReturnPolicy | null>(null);
+  const [statusFilter, setStatusFilter] = useState<ReturnStatus | ''>('');
+  const [loading, setLoading] = useState<boolean>(true);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const fetchReturns = async (): Promise<void> => {
+    setLoading(true);
+    try {
+      const response = await RETURNS.LIST(statusFilter || undefined);
+      setRequests(response.data);
+    } catch (error) {
+      console.error('Error fetching returns:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    RETURNS.POLICY()
+      .then((response) => setPolicy(response.data))
+      .catch((error) => console.error('Error fetching return policy:', error));
+  }, []);
+
+  useEffect(() => {
+    fetchReturns();
+  }, [statusFilter]);
+
+  const replace = (updated: ReturnRequest) =>
+    setRequests((current) => current.map((r) => (r._id === updated._id ? updated : r)));
+
+  const decide = async (request: ReturnRequest, decision: 'approve' | 'reject'): Promise<void> => {
+    const note = prompt(
+      decision === 'approve'
+        ? `Approve ${request.rmaNumber}? Add a note for the customer (optional).`
+        : `Reject ${request.rmaNumber}? Tell the customer why.`
+    );
+    if (note === null) return;
+
+    setBusy(request._id);
+    try {
+      const response = await RETURNS.DECIDE(request._id, { decision, note: note.trim() || undefined });
+      replace(response.data);
+      if (response.data.resolutionError) {
+        alert(`Approved, but ${response.data.resolutionError}`);
+      }
+    } catch (error: any) {
+      alert(error.message || 'Failed to decide on the return');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const retry = async (request: ReturnRequest): Promise<void> => {
+    setBusy(request._id);
+    try {
+      const response = await RETURNS.RESOLVE(request._id);
+      replace(response.data);
+      alert(response.data.resolutionError ? `Still failing: ${response.data.resolutionError}` : `${request.rmaNumber} is ${response.data.status.toLowerCase()}`);
+    } catch (error: any) {
+      alert(error.message || 'Failed to retry the return');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const escalated = requests.filter((r) => r.status === 'Escalated').length;
+
+  return (
+    <div className="p-4 sm:p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Returns</h1>
+          <p className="text-gray-600 mt-1">
+            {escalated > 0 ? `${escalated} disputed return${escalated === 1 ? '' : 's'} waiting for you` : 'No disputed returns'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as ReturnStatus | '')}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          >
+            <option value="">All statuses</option>
+            {STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {status}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={fetchReturns}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        {loading ? (
+          <div className="p-8 text-center">
+            <RefreshCw className="w-6 h-6 animate-spin text-green-600 mx-auto" />
+          </div>
+        ) : requests.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No return requests</div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {requests.map((request) => {
+              const canDecide = request.status === 'Requested' || request.status === 'Escalated';
+              const canRetry = request.status === 'Approved' && !!request.resolutionError;
+              return (
+                <li key={request._id} className="p-4 sm:p-6 flex flex-col lg:flex-row gap-4">
+                  <div className="flex-1 space-y-2">
+                    <div className="flex flex-wrap items-center gap-3">
+                      <span className="font-semibold text-gray-900">{request.rmaNumber}</span>
+                      <span className={`px-3 py-1 rounded-full text-xs font-medium ${statusColor(request.status)}`}>
+                        {request.status}
+                      </span>
+                      <span className="text-sm text-gray-500">
+                        Order {request.orderNumber} · {request.vendorName || 'Vendor'} ·{' '}
+                        {new Date(request.createdAt).toLocaleDateString()}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-700">
+                      {request.quantity} × {request.productName} — {policy?.reasons[request.reason] ?? request.reason} ·
+                      wants {request.resolution === 'refund' ? 'a refund' : 'a replacement'}
+                    </p>
+                    {request.details && <p className="text-sm text-gray-600 italic">“{request.details}”</p>}
+                    {request.photoCount > 0 && (
+                      <div className="flex gap-2">
+                        {Array.from({ length: request.photoCount }, (_, index) => (
+                          <a key={index} href={RETURNS.PHOTO_URL(request._id, index)} target="_blank" rel="noreferrer">
+                            <img
+                              src={RETURNS.PHOTO_URL(request._id, index)}
+                              alt={`Photo ${index + 1}`}
+                              className="w-20 h-20 rounded-lg object-cover border border-gray-200"
+                            />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                    <ol className="text-xs text-gray-500 space-y-0.5">
+                      {request.statusHistory.map((change, index) => (
+                        <li key={index}>
+                          {new Date(change.at).toLocaleString()} · {change.to}
+                          {change.actorRole && ` by ${change.actorRole}`}
+                          {change.note && ` — ${change.note}`}
+                        </li>
+                      ))}
+                    </ol>
+                    {request.resolutionError && (
+                      <p className="flex items-center gap-1 text-sm text-red-600">
+                        <AlertTriangle className="w-4 h-4" />
+                        {request.resolutionError}
+                      </p>
+                    )}
+                    {request.status === 'Refunded' && request.refundAmount !== undefined && (
+                      <p className="text-sm text-green-700">Refunded Rs. {request.refundAmount.toFixed(2)}</p>
+                    )}
+                  </div>
+
+                  {(canDecide || canRetry) && (
+                    <div className="flex lg:flex-col gap-2 self-start">
+                      {canDecide && (
+                        <>
+                          <button
+                            onClick={() => decide(request, 'approve')}
+                            disabled={busy === request._id}
+                            className="flex items-center gap-1 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 text-sm"
+                          >
+                            <Check className="w-4 h-4" />
+                            Approve
+                          </button>
+                          <button
+                            onClick={() => decide(request, 'reject')}
+                            disabled={busy === request._id}
+                            className="flex items-center gap-1 px-3 py-2 bg-red-50 text-red-700 rounded-lg hover:bg-red-100 disabled:opacity-50 text-sm"
+                          >
+                            <X className="w-4 h-4" />
+                            Reject
+                          </button>
+                        </>
+                      )}
+                      {canRetry && (
+                        <button
+                          onClick={() => retry(request)}
+                          disabled={busy === request._id}
+                          className="flex items-center gap-1 px-3 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:bg-gray-400 text-sm"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                          Retry {request.resolution === 'refund' ? 'Refund' : 'Replacement'}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { MousePointerClick, RefreshCw, Search, SearchX, ShoppingCart } from 'lucide-react';
+import { SEARCH } from '../../lib/api';
+import { SearchAnalytics as SearchAnalyticsReport, SearchQueryStats } from '../../lib/types';
+
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+const daysAgo = (days: number): string => toDateKey(new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+
+const percent = (value: number): string => `${Math.round(value * 1000) / 10}%`;
+
+interface QueryTableProps {
+  title: string;
+  description: string;
+  rows: SearchQueryStats[];
+  empty: string;
+}
+
+const QueryTable = ({ title, description, rows, empty }: QueryTableProps) => (
+  <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+    <div className="p-4 sm:p-6 border-b border-gray-100">
+      <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+      <p className="text-sm text-gray-500 mt-1">{description}</p>
+    </div>
+    {rows.length === 0 ? (
+      <p className="p-6 text-center text-gray-500">{empty}</p>
+    ) : (
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-gray-50 text-gray-600">
+            <tr>
+              {['Query', 'Searches', 'No results', 'Avg. results', 'Clicks', 'CTR', 'Added to cart', 'Conversion'].map(
+                (heading) => (
+                  <th key={heading} className="py-3 px-4 font-semibold whitespace-nowrap">
+                    {heading}
+                  </th>
+                )
+              )}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map((row) => (
+              <tr key={row.query} className="hover:bg-gray-50">
+                <td className="py-3 px-4 font-medium text-gray-900">{row.query}</td>
+                <td className="py-3 px-4">{row.searches}</td>
+                <td className={`py-3 px-4 ${row.zeroResults > 0 ? 'text-red-600 font-semibold' : ''}`}>{row.zeroResults}</td>
+                <td className="py-3 px-4">{row.averageResults}</td>
+                <td className="py-3 px-4">{row.clicks}</td>
+                <td className="py-3 px-4">{percent(row.clickThroughRate)}</td>
+                <td className="py-3 px-4">{row.addToCarts}</td>
+                <td className="py-3 px-4">{percent(row.conversionRate)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )}
+  </div>
+);
+
+// What customers search for: the most searched queries, those that found
+// nothing (produce we do not stock) and those whose results few clicked.
+export default function SearchAnalytics() {
+  const [from, setFrom] = useState<string>(daysAgo(29));
+  const [to, setTo] = useState<string>(toDateKey(new Date()));
+  const [report, setReport] = useState<SearchAnalyticsReport | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const fetchReport = async (): Promise<void> => {
+    if (!from || !to || from > to) {
+      alert('Pick a start date on or before the end date');
+      return;
+    }
+    setLoading(true);
+    try {
+      const response = await SEARCH.ANALYTICS({ from, to, limit: 25 });
+      setReport(response.data);
+    } catch (error: any) {
+      console.error('Error fetching search analytics:', error);
+      alert(error.message || 'Failed to load search analytics');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReport();
+  }, []);
+
+  const totals = report?.totals;
+  const cards = [
+    { label: 'Searches', value: totals ? totals.searches.toLocaleString() : '-', sub: totals ? `${totals.uniqueQueries} distinct queries` : '', icon: Search, color: 'bg-blue-100 text-blue-600' },
+    { label: 'No results', value: totals ? totals.zeroResults.toLocaleString() : '-', sub: totals && totals.searches ? `${percent(totals.zeroResults / totals.searches)} of searches` : '', icon: SearchX, color: 'bg-red-100 text-red-600' },
+    { label: 'Click-through', value: totals ? percent(totals.clickThroughRate) : '-', sub: totals ? `${totals.clicks} clicks` : '', icon: MousePointerClick, color: 'bg-yellow-100 text-yellow-600' },
+    { label: 'Added to cart', value: totals ? percent(totals.conversionRate) : '-', sub: totals ? `${totals.addToCarts} products` : '', icon: ShoppingCart, color: 'bg-green-100 text-green-600' },
+  ];
+
+  return (
+    <div className="p-4 sm:p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Search Insights</h1>
+          <p className="text-gray-600 mt-1">What customers look for, and what they could not find</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            value={from}
+            max={to}
+            onChange={(e) => setFrom(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+          <span className="text-gray-500">to</span>
+          <input
+            type="date"
+            value={to}
+            min={from}
+            onChange={(e) => setTo(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+          <button
+            onClick={fetchReport}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {cards.map(({ label, value, sub, icon: Icon, color }) => (
+          <div key={label} className="bg-white rounded-xl shadow-sm border border-gray-100 p-5 flex items-center gap-4">
+            <div className={`p-3 rounded-lg ${color}`}>
+              <Icon className="w-6 h-6" />
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">{label}</p>
+              <p className="text-2xl font-semibold text-gray-900">{value}</p>
+              {sub && <p className="text-xs text-gray-400">{sub}</p>}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {report && (
+        <>
+          <QueryTable
+            title="Searches with no results"
+            description="Products customers want that we do not stock, or call by another name."
+            rows={report.zeroResultQueries}
+            empty="Every search found something."
+          />
+          <QueryTable
+            title="Top searches"
+            description="The most searched queries in this period."
+            rows={report.topQueries}
+            empty="No searches in this period."
+          />
+          <QueryTable
+            title="Low click-through"
+            description={`Searched at least ${report.lowClickThrough.minSearches} times, with fewer than ${percent(
+              report.lowClickThrough.threshold
+            )} of searches leading to a product being opened.`}
+            rows={report.lowClickThroughQueries}
+            empty="No queries with low click-through."
+          />
+        </>
+      )}
+    </div>
+  );
+}
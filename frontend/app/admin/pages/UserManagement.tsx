@@ -1,28 +1,8 @@
 "use client";
 
 import React, { useEffect, useState } from "react";
-import axios from "axios";
-
-// ==== Base URL ====
-const BASE_URL = "/api/proxy";
-
-// Define types
-interface UserDetails {
-  firstName: string;
-  lastName: string;
-  email: string;
-  phoneNumber: string;
-  dateOfBirth?: string;
-  gender?: string;
-  address?: string;
-}
-
-interface User {
-  id: string;
-  username: string;
-  role: string;
-  userDetails: UserDetails;
-}
+import { AUTH } from "../../lib/api";
+import { User } from "../../lib/types";
 
 export default function UserManagement() {
   const [userInformation, setUserInformation] = useState<User[]>([]);
@@ -53,8 +33,7 @@ export default function UserManagement() {
     const fetchUserManagement = async () => {
       try {
         setLoading(true);
-        const response = await axios.get<User[]>(`${BASE_URL}/api/auth`);
-        setUserInformation(response.data);
+        setUserInformation(await AUTH.USERS());
       } catch (error) {
         console.error("Error fetching user management:", error);
       } finally {
@@ -72,7 +51,7 @@ export default function UserManagement() {
     }
 
     try {
-      const response = await axios.post(`${BASE_URL}/api/auth/registerAdmin`, {
+      await AUTH.REGISTER_ADMIN({
         firstName,
         lastName,
         email,
@@ -81,7 +60,6 @@ export default function UserManagement() {
         username,
         password,
       });
-      console.log(response.data);
 
       // Reset fields
       setFirstName("");
@@ -115,7 +93,7 @@ export default function UserManagement() {
     }
 
     try {
-      const response = await axios.post(`${BASE_URL}/api/auth/registerVendor`, {
+      await AUTH.REGISTER_VENDOR({
         firstName: vendorFirstName,
         lastName: vendorLastName,
         email: vendorEmail,
@@ -124,7 +102,6 @@ export default function UserManagement() {
         username: vendorUsername,
         password: vendorPassword,
       });
-      console.log(response.data);
 
       // Reset fields
       setVendorFirstName("");
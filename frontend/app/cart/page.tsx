@@ -5,90 +5,37 @@ import Max from "../components/Max";
 import Navigation from "../components/Navigation";
 import Image from "next/image";
 import ProductImage from "../images/product.png";
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import axios from "axios";
 import { toast } from "react-toastify";
 import Loading from "../components/Loading";
+import { ADVERTISEMENT, COUPON } from "../lib/api";
+import { useCart } from "../lib/cart";
+import { useQuote } from "../lib/pricing";
+import { useSession } from "../lib/session";
+import { Advertisement } from "../lib/types";
 
-// Base URL for API
-const BASE_URL = "/api/proxy";
-
-// Interfaces
-interface CartItem {
-  _id: string;
-  id: string;
-  productId: string;
-  quantity: number;
-  price: number;
-}
-
-interface ProductDetail {
-  _id: string;
-  name: string;
-  unitPrice: number;
-  status: string;
-  imageUrl: string;
-  subtitle: string;
-}
-
-interface Cart {
-  _id: string;
-  products: CartItem[];
-  totalAmount: number;
-}
-
-interface Advertisement {
-  title: string;
-  description: string;
-  imageUrl: string;
-}
-
-interface UserData {
-  id: string;
-  role: string;
-}
-
-interface CouponValidationResponse {
-  success: boolean;
-  message?: string;
-  data?: {
-    discountAmount: number;
-    finalAmount: number;
-    coupon: any;
-  };
-}
 
 const CartPage: React.FC = () => {
-  const [id, setId] = useState<string>("");
-  const [role, setRole] = useState<string>("");
-  const [userLoggedIn, setUserLoggedIn] = useState<boolean>(false);
-  const [cart, setCart] = useState<Cart>({ _id: "", products: [], totalAmount: 0 });
-  const [productsDetail, setProductsDetail] = useState<ProductDetail[]>([]);
-  const [updateBtnVisible, setUpdateBtnVisible] = useState<boolean>(false);
+  const { id, isLoggedIn: userLoggedIn } = useSession();
+  const { cart, loading, findProduct, updateItem, removeItem } = useCart();
   const [advertisement, setAdvertisement] = useState<Advertisement[]>([]);
-  const [numberOfCartItems, setNumberOfCartItems] = useState<number>(0);
-  const [loading, setLoading] = useState<boolean>(true);
 
-  // Coupon state
+  // Coupon state. Only the code is kept here; what it is worth comes from the quote.
   const [couponCode, setCouponCode] = useState<string>("");
-  const [appliedCoupon, setAppliedCoupon] = useState<any>(null);
-  const [discount, setDiscount] = useState<number>(0);
+  const [appliedCode, setAppliedCode] = useState<string | null>(null);
   const [validatingCoupon, setValidatingCoupon] = useState<boolean>(false);
 
-  const router = useRouter();
+  const { quote, loading: pricing } = useQuote(cart, appliedCode);
+  const lineFor = (productId: string) => quote?.lines.find((line) => line.productId === productId);
 
-  // Calculate delivery fee based on order amount
-  const deliveryFee = cart.totalAmount >= 5000 ? 0 : 250;
-  const tax = ((cart.totalAmount - discount) * 0.05);
-  const finalTotal = cart.totalAmount - discount + tax + deliveryFee;
+  const router = useRouter();
 
   // Fetch advertisements
   useEffect(() => {
     const fetchAdvertisement = async () => {
       try {
-        const response = await axios.get<Advertisement[]>(`${BASE_URL}/advertisement/`);
-        setAdvertisement(response.data);
+        setAdvertisement(await ADVERTISEMENT.LIST());
       } catch (error) {
         console.error("Error fetching advertisement:", error);
       }
@@ -96,70 +43,26 @@ const CartPage: React.FC = () => {
     fetchAdvertisement();
   }, []);
 
-  // Check cookie and fetch cart
-  useEffect(() => {
-    const fetchCookies = async () => {
-      try {
-        const response = await axios.get<UserData>(`${BASE_URL}/check-cookie/`, { withCredentials: true });
-        setId(response.data.id);
-        setRole(response.data.role);
-
-        if (response.data.role === "Customer") {
-          setUserLoggedIn(true);
-          try {
-            const cartResponse = await axios.get<{ cart: Cart; products: ProductDetail[] }>(
-              `${BASE_URL}/cart/${response.data.id}`
-            );
-            setCart(cartResponse.data.cart);
-            setProductsDetail(cartResponse.data.products);
-            setNumberOfCartItems(cartResponse.data.cart.products.length);
-          } catch (err) {
-            setUserLoggedIn(false);
-            router.push("/");
-          }
-        } else if (response.data.role === "Vendor") {
-          router.push("/vendor");
-        } else if (response.data.role === "Admin") {
-          router.push("/admin");
-        }
-      } catch (error) {
-        router.push("/login");
-      } finally {
-        setLoading(false);
-      }
-    };
-    fetchCookies();
-  }, [router]);
-
-  // Apply coupon
+  // Apply coupon: check the code against the cart once; the server explains a refusal
   const handleApplyCoupon = async () => {
-    if (!couponCode.trim()) {
+    const code = couponCode.trim();
+    if (!code) {
       toast.error("Please enter a coupon code");
       return;
     }
 
     setValidatingCoupon(true);
     try {
-      const response = await axios.post<CouponValidationResponse>(
-        `${BASE_URL}/coupons/validate`,
-        {
-          code: couponCode,
-          orderAmount: cart.totalAmount,
-          products: cart.products
-        },
-        { withCredentials: true }
-      );
-
-      if (response.data.success && response.data.data) {
-        setAppliedCoupon(response.data.data.coupon);
-        setDiscount(response.data.data.discountAmount);
-        toast.success(`Coupon applied! You saved Rs. ${response.data.data.discountAmount.toFixed(2)}`);
-      } else {
-        toast.error(response.data.message || "Invalid coupon code");
-      }
+      const response = await COUPON.VALIDATE({
+        code,
+        products: cart.products.map((item) => ({ productId: item.productId, quantity: item.quantity })),
+        customerId: id || null,
+      });
+      const entered = response.data.promotions.find((promotion) => promotion.code === response.data.code);
+      setAppliedCode(response.data.code);
+      toast.success(`Coupon applied! You saved Rs. ${(entered?.discount ?? 0).toFixed(2)}`);
     } catch (error: any) {
-      const errorMessage = error.response?.data?.message || "Failed to apply coupon";
-      toast.error(errorMessage);
+      toast.error(error.message || "Failed to apply coupon");
     } finally {
       setValidatingCoupon(false);
     }
@@ -167,25 +70,19 @@ const CartPage: React.FC = () => {
 
   // Remove coupon
   const handleRemoveCoupon = () => {
-    setAppliedCoupon(null);
-    setDiscount(0);
+    setAppliedCode(null);
     setCouponCode("");
     toast.info("Coupon removed");
   };
 
-  // Checkout
+  // Checkout. The checkout page re-prices the cart with the same code.
   const handleCheckout = async () => {
     if (userLoggedIn) {
       try {
-        sessionStorage.setItem('checkoutCart', JSON.stringify(cart));
-        sessionStorage.setItem('checkoutProducts', JSON.stringify(productsDetail));
-        if (appliedCoupon) {
-          sessionStorage.setItem('appliedCoupon', JSON.stringify({
-            code: appliedCoupon.code,
-            discount: discount
-          }));
+        if (appliedCode) {
+          sessionStorage.setItem('couponCode', appliedCode);
         } else {
-          sessionStorage.removeItem('appliedCoupon');
+          sessionStorage.removeItem('couponCode');
         }
         router.push("/checkout");
       } catch (error) {
@@ -197,27 +94,10 @@ const CartPage: React.FC = () => {
     }
   };
 
-  // Update cart quantity
-  const handleUpdateCart = async (cartId: string, productId: string, quantity: number) => {
+  // Quantity changes show up immediately; the store rolls them back if the server refuses.
+  const handleUpdateQuantity = async (productId: string, quantity: number) => {
     try {
-      await axios.post(`${BASE_URL}/cart/update/`, {
-        cartId,
-        productId,
-        updatedQuantity: quantity,
-      });
-      setUpdateBtnVisible(false);
-
-      const cartResponse = await axios.get<{ cart: Cart; products: ProductDetail[] }>(
-        `${BASE_URL}/cart/${id}`
-      );
-      setCart(cartResponse.data.cart);
-      setProductsDetail(cartResponse.data.products);
-
-      toast.success("Cart updated successfully");
-
-      if (appliedCoupon) {
-        handleApplyCoupon();
-      }
+      await updateItem(productId, quantity);
     } catch (err) {
       console.error("Error updating cart:", err);
       toast.error("Failed to update cart");
@@ -225,86 +105,23 @@ const CartPage: React.FC = () => {
   };
 
   // Delete product
-  const handleDeleteProduct = async (cartId: string, productId: string) => {
+  const handleDeleteProduct = async (productId: string) => {
     try {
-      const response = await axios.post(`${BASE_URL}/cart/delete/`, {
-        cartId,
-        productId
-      });
-
-      if (response.status === 200) {
-        setCart((prevCart) => {
-          const newProducts = prevCart.products.filter((p) => p.productId !== productId);
-          if (newProducts.length === 0) {
-            router.push("/");
-            return prevCart;
-          }
-          const newTotal = newProducts.reduce((total, item) => {
-            const product = productsDetail.find((p) => p._id === item.productId);
-            return total + (product ? product.unitPrice * item.quantity : 0);
-          }, 0);
-          return {
-            ...prevCart,
-            products: newProducts,
-            totalAmount: newTotal,
-          };
-        });
-        toast.success("Product removed from cart");
-
-        if (appliedCoupon) {
-          setTimeout(() => handleApplyCoupon(), 500);
-        }
-      }
+      await removeItem(productId);
+      toast.success("Product removed from cart");
     } catch (err) {
       console.error("Deletion failed:", err);
       toast.error("Failed to remove product. Please try again.");
     }
   };
 
-  // Quantity helpers
-  const handleIncreaseQuantity = (itemId: string) => updateQuantityInternal(itemId, 1);
-  const handleDecreaseQuantity = (itemId: string) => updateQuantityInternal(itemId, -1);
-
-  const updateQuantityInternal = (itemId: string, change: number) => {
-    setCart((prevCart) => {
-      const updatedProducts = prevCart.products.map((item) =>
-        item.id === itemId ? { ...item, quantity: Math.max(1, item.quantity + change) } : item
-      );
-      const updatedTotal = updatedProducts.reduce((total, item) => {
-        const product = productsDetail.find((p) => p._id === item.productId);
-        return total + (product ? product.unitPrice * item.quantity : 0);
-      }, 0);
-      return { ...prevCart, products: updatedProducts, totalAmount: updatedTotal };
-    });
-    setUpdateBtnVisible(true);
-  };
-
-  const updateQuantity = (itemId: string, newQuantity: number) => {
-    setCart((prev) => {
-      const updatedProducts = prev.products.map((item) =>
-        item.id === itemId ? { ...item, quantity: newQuantity } : item
-      );
-      const updatedTotal = updatedProducts.reduce((total, item) => {
-        const product = productsDetail.find((p) => p._id === item.productId);
-        return total + (product ? product.unitPrice * item.quantity : 0);
-      }, 0);
-      return { ...prev, products: updatedProducts, totalAmount: updatedTotal };
-    });
-  };
-
   if (loading) {
     return <Loading />;
   }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-emerald-50 via-white to-teal-50">
-      <Navigation
-        numberOfCartItems={numberOfCartItems}
-        productsDetail={productsDetail}
-        cart={cart}
-        id={id}
-        userLoggedIn={userLoggedIn}
-      />
+      <Navigation />
 
       <main className="pt-28 sm:pt-32 lg:pt-36 pb-16">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -349,8 +166,9 @@ const CartPage: React.FC = () => {
                 {cart.products.length > 0 ? (
                   <div className="divide-y divide-gray-100">
                     {cart.products.map((item) => {
-                      const product = productsDetail.find((p) => p._id === item.productId);
+                      const product = findProduct(item.productId);
                       if (!product) return null;
+                      const line = lineFor(item.productId);
                       return (
                         <div key={item._id} className="p-4 sm:p-6 hover:bg-gray-50 transition-colors">
                           <div className="flex flex-col sm:flex-row gap-4">
@@ -375,8 +193,13 @@ const CartPage: React.FC = () => {
                                   <p className="text-sm text-gray-500">{product.subtitle}</p>
                                   <div className="flex items-center gap-2 mt-1">
                                     <span className="text-sm font-medium text-gray-700">
-                                      Rs. {product.unitPrice.toLocaleString()}
+                                      Rs. {(line?.discountedUnitPrice ?? product.unitPrice).toLocaleString()}
                                     </span>
+                                    {line && line.discountPercentage > 0 && (
+                                      <span className="text-xs text-gray-400 line-through">
+                                        Rs. {line.unitPrice.toLocaleString()}
+                                      </span>
+                                    )}
                                     <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
                                       {product.status}
                                     </span>
@@ -384,7 +207,7 @@ const CartPage: React.FC = () => {
                                 </div>
                                 <div className="text-right">
                                   <p className="text-xl font-bold text-gray-900">
-                                    Rs. {(product.unitPrice * item.quantity).toLocaleString()}
+                                    Rs. {(line?.lineTotal ?? product.unitPrice * item.quantity).toLocaleString()}
                                   </p>
                                 </div>
                               </div>
@@ -393,7 +216,7 @@ const CartPage: React.FC = () => {
                               <div className="flex flex-wrap items-center gap-3 mt-4">
                                 <div className="flex items-center bg-gray-100 rounded-xl overflow-hidden">
                                   <button
-                                    onClick={() => handleDecreaseQuantity(item.id)}
+                                    onClick={() => handleUpdateQuantity(item.productId, item.quantity - 1)}
                                     className="w-10 h-10 flex items-center justify-center text-gray-600 hover:bg-gray-200 transition-colors"
                                   >
                                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -402,14 +225,11 @@ const CartPage: React.FC = () => {
                                   </button>
                                   <input
                                     value={item.quantity}
-                                    onChange={(e) => {
-                                      setUpdateBtnVisible(true);
-                                      updateQuantity(item.id, Math.max(1, Number(e.target.value) || 1));
-                                    }}
+                                    onChange={(e) => handleUpdateQuantity(item.productId, Number(e.target.value) || 1)}
                                     className="w-12 h-10 text-center bg-transparent font-semibold text-gray-900 focus:outline-none"
                                   />
                                   <button
-                                    onClick={() => handleIncreaseQuantity(item.id)}
+                                    onClick={() => handleUpdateQuantity(item.productId, item.quantity + 1)}
                                     className="w-10 h-10 flex items-center justify-center text-gray-600 hover:bg-gray-200 transition-colors"
                                   >
                                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -418,17 +238,8 @@ const CartPage: React.FC = () => {
                                   </button>
                                 </div>
 
-                                {updateBtnVisible && (
-                                  <button
-                                    onClick={() => handleUpdateCart(cart._id, product._id, item.quantity)}
-                                    className="px-4 py-2 bg-gray-200 hover:bg-gray-300 text-gray-700 text-sm font-medium rounded-lg transition-colors"
-                                  >
-                                    Update
-                                  </button>
-                                )}
-
                                 <button
-                                  onClick={() => handleDeleteProduct(cart._id, product._id)}
+                                  onClick={() => handleDeleteProduct(product._id)}
                                   className="text-red-500 hover:text-red-700 text-sm font-medium transition-colors flex items-center gap-1"
                                 >
                                   <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -469,53 +280,89 @@ const CartPage: React.FC = () => {
                 <div className="bg-white rounded-3xl shadow-lg border border-emerald-100 p-6 lg:sticky lg:top-32">
                   <h2 className="text-2xl font-bold text-gray-900 mb-6">Order Summary</h2>
 
-                  <div className="space-y-3 mb-6">
-                    <div className="flex justify-between text-gray-600">
-                      <span>Subtotal</span>
-                      <span className="font-medium">Rs. {cart.totalAmount.toLocaleString()}</span>
-                    </div>
-
-                    {discount > 0 && (
-                      <div className="flex justify-between text-green-600">
-                        <span>Discount ({appliedCoupon?.code})</span>
-                        <span className="font-medium">- Rs. {discount.toFixed(2)}</span>
-                      </div>
-                    )}
+                  {quote ? (
+                    <>
+                      <div className={`space-y-3 mb-6 ${pricing ? 'opacity-60' : ''}`}>
+                        <div className="flex justify-between text-gray-600">
+                          <span>Subtotal</span>
+                          <span className="font-medium">Rs. {quote.subtotal.toLocaleString()}</span>
+                        </div>
 
-                    <div className="flex justify-between text-gray-600">
-                      <span>Tax (5%)</span>
-                      <span className="font-medium">Rs. {tax.toFixed(2)}</span>
-                    </div>
+                        {quote.productDiscount > 0 && (
+                          <p className="text-xs text-green-600">
+                            Includes Rs. {quote.productDiscount.toFixed(2)} of product discounts
+                          </p>
+                        )}
+
+                        {quote.promotions.filter((promotion) => promotion.applied).map((promotion) => (
+                          <div key={promotion.id} className="flex justify-between text-green-600">
+                            <span>
+                              {promotion.name}
+                              <span className="block text-xs text-green-500">{promotion.summary}</span>
+                            </span>
+                            <span className="font-medium">- Rs. {promotion.discount.toFixed(2)}</span>
+                          </div>
+                        ))}
+
+                        {quote.coupon && !quote.coupon.applied && (
+                          <p className="text-xs text-red-600 bg-red-50 px-3 py-2 rounded-lg">
+                            {quote.coupon.code}: {quote.coupon.reason}
+                          </p>
+                        )}
+
+                        {quote.promotions.some((promotion) => !promotion.applied) && (
+                          <details className="text-xs text-gray-500">
+                            <summary className="cursor-pointer">Why some offers didn&apos;t apply</summary>
+                            <ul className="mt-2 space-y-1">
+                              {quote.promotions.filter((promotion) => !promotion.applied).map((promotion) => (
+                                <li key={promotion.id}>
+                                  <span className="font-medium text-gray-700">{promotion.name}</span>: {promotion.reason}
+                                </li>
+                              ))}
+                            </ul>
+                          </details>
+                        )}
+
+                        <div className="flex justify-between text-gray-600">
+                          <span>Tax ({Math.round(quote.taxRate * 100)}%)</span>
+                          <span className="font-medium">Rs. {quote.tax.toFixed(2)}</span>
+                        </div>
 
-                    <div className="flex justify-between text-gray-600">
-                      <span>Delivery</span>
-                      <span className={`font-medium ${deliveryFee === 0 ? 'text-green-600' : ''}`}>
-                        {deliveryFee === 0 ? 'FREE' : `Rs. ${deliveryFee}`}
-                      </span>
-                    </div>
+                        <div className="flex justify-between text-gray-600">
+                          <span>Delivery</span>
+                          <span className={`font-medium ${quote.deliveryFee === 0 ? 'text-green-600' : ''}`}>
+                            {quote.deliveryFee === 0 ? 'FREE' : `Rs. ${quote.deliveryFee}`}
+                          </span>
+                        </div>
 
-                    {deliveryFee === 0 && (
-                      <p className="text-xs text-green-600 bg-green-50 px-3 py-2 rounded-lg">
-                        🎉 You qualify for free delivery!
-                      </p>
-                    )}
-                  </div>
+                        {quote.deliveryFee === 0 && (
+                          <p className="text-xs text-green-600 bg-green-50 px-3 py-2 rounded-lg">
+                            🎉 You qualify for free delivery!
+                          </p>
+                        )}
+                      </div>
 
-                  <div className="border-t border-gray-200 pt-4 mb-6">
-                    <div className="flex justify-between text-xl font-bold text-gray-900">
-                      <span>Total</span>
-                      <span>Rs. {finalTotal.toFixed(2)}</span>
-                    </div>
-                  </div>
+                      <div className="border-t border-gray-200 pt-4 mb-6">
+                        <div className="flex justify-between text-xl font-bold text-gray-900">
+                          <span>Total</span>
+                          <span>Rs. {quote.total.toFixed(2)}</span>
+                        </div>
+                      </div>
+                    </>
+                  ) : (
+                    <p className="text-sm text-gray-500 mb-6">
+                      {pricing ? "Calculating your total..." : "We couldn't price your cart right now."}
+                    </p>
+                  )}
 
                   {/* Coupon Section */}
                   <div className="mb-6">
-                    {appliedCoupon ? (
+                    {appliedCode ? (
                       <div className="bg-green-50 border border-green-200 rounded-xl p-4">
                         <div className="flex justify-between items-center">
                           <div>
                             <p className="text-sm font-semibold text-green-800">Coupon Applied!</p>
-                            <p className="text-xs text-green-600">{appliedCoupon.code}</p>
+                            <p className="text-xs text-green-600">{appliedCode}</p>
                           </div>
                           <button
                             onClick={handleRemoveCoupon}
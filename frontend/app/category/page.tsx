@@ -7,63 +7,16 @@ import Product from "../components/Product";
 import Image from "next/image";
 import Star from "../images/log.png";
 import { useSearchParams, useRouter } from "next/navigation";
-import axios from "axios";
 import Loading from "../components/Loading";
+import { CATEGORY, DISCOUNT, PRODUCT } from "../lib/api";
+import { Discount, Product as ProductData, ProductCategory } from "../lib/types";
 
-// API base
-const BASE_URL = "/api/proxy";
-
-// --- Interfaces ---
-interface Product {
-  _id: string;
-  name: string;
-  subtitle: string;
-  imageUrl: string;
-  unitPrice: number;
+// --- Types ---
+// Older listings still carry the pre-review `rating` and a free-text `brand`.
+type ListedProduct = ProductData & {
   rating?: number;
-  averageRating?: number;
-  category?: string;
-  productCategory_id?: string;
   brand?: string;
-  MRP?: number;
-  numberOfReviews?: number;
-}
-
-interface Category {
-  _id: string;
-  name: string;
-}
-
-interface ProductCategory {
-  _id: string;
-  name: string;
-}
-
-interface CartItem {
-  _id: string;
-  productId: string;
-  quantity: number;
-  unitPrice: number;
-}
-
-interface Cart {
-  products: CartItem[];
-  totalAmount: number;
-}
-
-interface Discount {
-  _id: string;
-  productId: { _id: string };
-  percentage: number;
-  status: boolean;
-  startDate: string;
-  endDate: string;
-}
-
-interface UserData {
-  id: string;
-  role: string;
-}
+};
 
 const CategoryPage: React.FC = () => {
   const router = useRouter();
@@ -72,8 +25,8 @@ const CategoryPage: React.FC = () => {
   const categoryName = searchParams.get("categoryName") || "All Categories";
 
   // State
-  const [products, setProducts] = useState<Product[]>([]);
-  const [sortedProducts, setSortedProducts] = useState<Product[]>([]);
+  const [products, setProducts] = useState<ListedProduct[]>([]);
+  const [sortedProducts, setSortedProducts] = useState<ListedProduct[]>([]);
   const [productCategories, setProductCategories] = useState<ProductCategory[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [categoriesLoading, setCategoriesLoading] = useState<boolean>(true);
@@ -90,63 +43,11 @@ const CategoryPage: React.FC = () => {
   const [minRating, setMinRating] = useState<number>(0);
   const [sortOption, setSortOption] = useState<string>("Featured");
 
-  // Cart & user
-  const [id, setId] = useState<string>("");
-  const [role, setRole] = useState<string>("");
-  const [userLoggedIn, setUserLoggedIn] = useState<boolean>(false);
-  const [cart, setCart] = useState<Cart | undefined>(undefined);
-  const [productsDetail, setProductsDetail] = useState<Product[]>([]);
-  const [numberOfCartItems, setNumberOfCartItems] = useState<number>(0);
-
-  // --- Fetch cookies (user login state) ---
-  useEffect(() => {
-    const fetchCookies = async () => {
-      try {
-        const response = await axios.get<UserData>(`${BASE_URL}/check-cookie/`, {
-          withCredentials: true,
-        });
-
-        setId(response.data.id);
-        setRole(response.data.role);
-
-        if (["Customer", "Company"].includes(response.data.role)) {
-          setUserLoggedIn(true);
-        } else if (response.data.role === "Vendor") {
-          router.push("/vendor");
-        } else if (response.data.role === "Admin") {
-          router.push("/admin");
-        }
-      } catch {
-        setUserLoggedIn(false);
-      }
-    };
-    fetchCookies();
-  }, [router]);
-
-  // --- Fetch cart ---
-  useEffect(() => {
-    const fetchCart = async () => {
-      if (!userLoggedIn || !id) return;
-      try {
-        const response = await axios.get<{ cart: Cart; products: Product[] }>(
-          `${BASE_URL}/cart/${id}`
-        );
-        setCart(response.data.cart);
-        setProductsDetail(response.data.products);
-        setNumberOfCartItems(response.data.cart.products.length);
-      } catch {
-        setCart(undefined);
-      }
-    };
-    fetchCart();
-  }, [id, userLoggedIn]);
-
   // --- Fetch categories ---
   useEffect(() => {
     const fetchCategories = async () => {
       try {
-        const response = await axios.get<ProductCategory[]>(`${BASE_URL}/productcategories/`);
-        setProductCategories(response.data);
+        setProductCategories(await CATEGORY.LIST());
       } catch (error) {
         console.error("Error fetching categories:", error);
       } finally {
@@ -160,18 +61,13 @@ const CategoryPage: React.FC = () => {
   useEffect(() => {
     const fetchProducts = async () => {
       try {
-        let url;
-        if (categoryId && categoryId !== "") {
-          url = `${BASE_URL}/products/category/${categoryId}`;
-        } else {
-          url = `${BASE_URL}/products`;
-        }
-
-        const response = await axios.get<Product[]>(url);
-        setProducts(response.data);
+        const data: ListedProduct[] = categoryId && categoryId !== ""
+          ? await PRODUCT.BY_CATEGORY(categoryId)
+          : await PRODUCT.LIST();
+        setProducts(data);
 
-        if (response.data.length > 0) {
-          const prices = response.data.map((p) => p.unitPrice || 0);
+        if (data.length > 0) {
+          const prices = data.map((p) => p.unitPrice || 0);
           const min = Math.min(...prices);
           const max = Math.max(...prices);
           setMinPrice(min);
@@ -191,8 +87,7 @@ const CategoryPage: React.FC = () => {
   useEffect(() => {
     const fetchDiscounts = async () => {
       try {
-        const response = await axios.get<Discount[]>(`${BASE_URL}/api/discount/`);
-        setDiscounts(response.data);
+        setDiscounts(await DISCOUNT.LIST());
       } catch (error) {
         console.error("Error fetching discounts", error);
       }
@@ -357,13 +252,7 @@ const CategoryPage: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-emerald-50 via-white to-teal-50 flex flex-col">
-      <Navigation
-        numberOfCartItems={numberOfCartItems}
-        productsDetail={productsDetail}
-        cart={cart}
-        id={id}
-        userLoggedIn={userLoggedIn}
-      />
+      <Navigation />
 
       {/* Mobile Filter Overlay */}
       {showMobileFilters && (
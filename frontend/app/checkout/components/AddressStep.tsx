@@ -0,0 +1,210 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import { ADDRESS } from "../../lib/api";
+import { Address, AddressInput } from "../../lib/types";
+
+// ==== Types ====
+
+interface AddressStepProps {
+  userId: string;
+  selected: Address | null;
+  onSelect: (address: Address | null) => void;
+}
+
+const EMPTY_ADDRESS: AddressInput = {
+  label: "Home",
+  fullName: "",
+  phone: "",
+  street: "",
+  city: "",
+  state: "",
+  postalCode: "",
+  country: "Sri Lanka",
+  isDefault: false,
+};
+
+const inputClass =
+  "w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-[#FDAA1C] focus:border-transparent outline-none transition-all";
+
+// ==== Component ====
+const AddressStep: React.FC<AddressStepProps> = ({ userId, selected, onSelect }) => {
+  const [addresses, setAddresses] = useState<Address[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [showForm, setShowForm] = useState<boolean>(false);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [form, setForm] = useState<AddressInput>(EMPTY_ADDRESS);
+
+  // Load saved addresses and preselect the default one
+  useEffect(() => {
+    if (!userId) return;
+    const fetchAddresses = async () => {
+      try {
+        const response = await ADDRESS.LIST(userId);
+        setAddresses(response.data);
+        setShowForm(response.data.length === 0);
+        if (!selected && response.data.length > 0) {
+          onSelect(response.data.find((address) => address.isDefault) ?? response.data[0]);
+        }
+      } catch (error) {
+        console.error("Error fetching addresses:", error);
+        setShowForm(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchAddresses();
+  }, [userId]);
+
+  const updateForm = (key: keyof AddressInput, value: string | boolean) =>
+    setForm((prev) => ({ ...prev, [key]: value }));
+
+  const handleSave = async () => {
+    if (!form.fullName.trim() || !form.phone.trim() || !form.street.trim() || !form.city.trim()) {
+      toast.error("Please fill in name, phone, street and city");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await ADDRESS.CREATE(userId, { ...form, isDefault: form.isDefault || addresses.length === 0 });
+      setAddresses(response.data);
+      // The new address is the last one in the list the service returns
+      onSelect(response.data[response.data.length - 1] ?? null);
+      setForm(EMPTY_ADDRESS);
+      setShowForm(false);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to save address");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (address: Address) => {
+    if (!window.confirm(`Delete the address "${address.label}"?`)) return;
+    try {
+      await ADDRESS.DELETE(userId, address._id);
+      setAddresses((prev) => prev.filter((a) => a._id !== address._id));
+      if (selected?._id === address._id) onSelect(null);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to delete address");
+    }
+  };
+
+  if (loading) {
+    return <p className="p-5 text-gray-500">Loading your addresses...</p>;
+  }
+
+  return (
+    <div className="p-5 space-y-3">
+      {addresses.map((address) => (
+        <label
+          key={address._id}
+          className={`flex items-start gap-4 p-4 rounded-xl cursor-pointer transition-all border-2 ${selected?._id === address._id
+            ? 'border-[#FDAA1C] bg-orange-50'
+            : 'border-transparent bg-gray-50 hover:bg-gray-100'
+            }`}
+        >
+          <input
+            type="radio"
+            name="address"
+            checked={selected?._id === address._id}
+            onChange={() => onSelect(address)}
+            className="mt-1 w-5 h-5 text-[#FDAA1C] focus:ring-[#FDAA1C]"
+          />
+          <div className="flex-1">
+            <p className="font-medium text-gray-900">
+              {address.label}
+              {address.isDefault && (
+                <span className="ml-2 text-xs font-medium text-emerald-700 bg-emerald-100 px-2 py-0.5 rounded-full">Default</span>
+              )}
+            </p>
+            <p className="text-sm text-gray-600">{address.fullName} · {address.phone}</p>
+            <p className="text-sm text-gray-500">
+              {[address.street, address.city, address.state, address.postalCode].filter(Boolean).join(", ")}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={(e) => {
+              e.preventDefault();
+              handleDelete(address);
+            }}
+            className="text-sm text-red-500 hover:text-red-700"
+          >
+            Delete
+          </button>
+        </label>
+      ))}
+
+      {showForm ? (
+        <div className="p-5 bg-gray-50 rounded-xl space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Label</label>
+              <input type="text" value={form.label} onChange={(e) => updateForm("label", e.target.value)} className={inputClass} placeholder="Home" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Full Name</label>
+              <input type="text" value={form.fullName} onChange={(e) => updateForm("fullName", e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Phone</label>
+              <input type="tel" value={form.phone} onChange={(e) => updateForm("phone", e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">City</label>
+              <input type="text" value={form.city} onChange={(e) => updateForm("city", e.target.value)} className={inputClass} />
+            </div>
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Street Address</label>
+              <input type="text" value={form.street} onChange={(e) => updateForm("street", e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Province</label>
+              <input type="text" value={form.state ?? ""} onChange={(e) => updateForm("state", e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1.5">Postal Code</label>
+              <input type="text" value={form.postalCode ?? ""} onChange={(e) => updateForm("postalCode", e.target.value)} className={inputClass} />
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={form.isDefault} onChange={(e) => updateForm("isDefault", e.target.checked)} />
+            Make this my default address
+          </label>
+          <div className="flex gap-3">
+            {addresses.length > 0 && (
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="flex-1 py-3 bg-gray-200 hover:bg-gray-300 text-gray-700 font-medium rounded-xl transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="flex-1 py-3 bg-emerald-600 hover:bg-emerald-700 disabled:bg-gray-400 text-white font-medium rounded-xl transition-colors"
+            >
+              {saving ? "Saving..." : "Save Address"}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setShowForm(true)}
+          className="w-full py-3 border-2 border-dashed border-gray-300 hover:border-[#FDAA1C] text-gray-600 font-medium rounded-xl transition-colors"
+        >
+          + Add a new address
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AddressStep;
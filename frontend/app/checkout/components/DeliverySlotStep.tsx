@@ -0,0 +1,100 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { ORDER } from "../../lib/api";
+import { DeliverySlot } from "../../lib/types";
+
+// ==== Types ====
+
+interface DeliverySlotStepProps {
+  selected: DeliverySlot | null;
+  onSelect: (slot: DeliverySlot | null) => void;
+  // Bumped by the page to reload the slots, e.g. after the chosen one filled up
+  reloadKey: number;
+}
+
+// Slots with this many places or fewer show how many are left
+const FEW_LEFT = 5;
+
+const dayLabel = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-GB", { weekday: "long", day: "numeric", month: "long" });
+
+// ==== Component ====
+const DeliverySlotStep: React.FC<DeliverySlotStepProps> = ({ selected, onSelect, reloadKey }) => {
+  const [slots, setSlots] = useState<DeliverySlot[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSlots = async () => {
+      setLoading(true);
+      try {
+        const response = await ORDER.DELIVERY_SLOTS();
+        setSlots(response.data);
+        setError(null);
+        // Drop a selection that is no longer bookable
+        if (selected && !response.data.some((slot) => slot.id === selected.id && slot.available)) {
+          onSelect(null);
+        }
+      } catch (err: any) {
+        setError(err.message || "Failed to load delivery slots");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchSlots();
+  }, [reloadKey]);
+
+  if (loading) {
+    return <p className="p-5 text-gray-500">Loading delivery slots...</p>;
+  }
+  if (error) {
+    return <p className="p-5 text-red-600">{error}</p>;
+  }
+
+  const days = slots.reduce<Record<string, DeliverySlot[]>>((groups, slot) => {
+    (groups[slot.date] ||= []).push(slot);
+    return groups;
+  }, {});
+
+  return (
+    <div className="p-5 space-y-5">
+      <p className="text-sm text-gray-600">
+        Our produce is picked and packed for your window, so it arrives fresh. Choose when you will be home.
+      </p>
+      {Object.entries(days).map(([date, daySlots]) => (
+        <div key={date}>
+          <p className="text-sm font-semibold text-gray-900 mb-2">{dayLabel(date)}</p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {daySlots.map((slot) => (
+              <button
+                key={slot.id}
+                type="button"
+                disabled={!slot.available}
+                onClick={() => onSelect(slot)}
+                className={`p-3 rounded-xl border-2 text-left transition-all ${selected?.id === slot.id
+                  ? 'border-[#FDAA1C] bg-orange-50'
+                  : slot.available
+                    ? 'border-transparent bg-gray-50 hover:bg-gray-100'
+                    : 'border-transparent bg-gray-50 opacity-50 cursor-not-allowed'
+                  }`}
+              >
+                <p className="font-medium text-gray-900">{slot.start} – {slot.end}</p>
+                <p className={`text-xs ${slot.available && slot.remaining <= FEW_LEFT ? 'text-orange-600' : 'text-gray-500'}`}>
+                  {!slot.available
+                    ? "Fully booked"
+                    : slot.remaining <= FEW_LEFT
+                      ? `Only ${slot.remaining} left`
+                      : "Available"}
+                </p>
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+      {slots.length === 0 && <p className="text-gray-500">No delivery slots are open right now.</p>}
+    </div>
+  );
+};
+
+export default DeliverySlotStep;
@@ -0,0 +1,80 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { PAYMENT, PAYMENT_FIELDS_ORIGIN } from "../../lib/api";
+import { CardToken } from "../../lib/types";
+
+// ==== Types ====
+
+interface HostedCardFieldsProps {
+  // Called with a token once the card entered is complete and valid, and with
+  // null whenever the customer edits it again
+  onChange: (card: CardToken | null) => void;
+}
+
+interface FieldsMessage {
+  source: "ecoharvest-hosted-fields";
+  type: "ready" | "token" | "cleared";
+  token?: string;
+  brand?: string;
+  last4?: string;
+  height?: number;
+}
+
+// ==== Component ====
+// Card details are typed into a page served from the payment service's own
+// origin, inside an iframe, so the full card number never passes through the
+// storefront.
+const HostedCardFields: React.FC<HostedCardFieldsProps> = ({ onChange }) => {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const [src, setSrc] = useState<string | null>(null);
+  const [height, setHeight] = useState<number>(300);
+  // The listener is added once; it calls whichever onChange is current
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    setSrc(PAYMENT.HOSTED_FIELDS_URL(window.location.origin));
+
+    const handleMessage = (event: MessageEvent<FieldsMessage>) => {
+      // Only the hosted fields frame, served by the payment service, may hand us a card
+      if (event.origin !== PAYMENT_FIELDS_ORIGIN) return;
+      if (event.source !== frameRef.current?.contentWindow) return;
+      if (event.data?.source !== "ecoharvest-hosted-fields") return;
+
+      if (event.data.type === "ready" && event.data.height) {
+        setHeight(event.data.height);
+      } else if (event.data.type === "token" && event.data.token) {
+        onChangeRef.current({
+          token: event.data.token,
+          brand: event.data.brand ?? "Card",
+          last4: event.data.last4 ?? "",
+        });
+      } else if (event.data.type === "cleared") {
+        onChangeRef.current(null);
+      }
+    };
+
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, []);
+
+  return (
+    <div className="mt-4 p-5 bg-gray-50 rounded-xl">
+      {src && (
+        <iframe
+          ref={frameRef}
+          src={src}
+          title="Card details"
+          style={{ height }}
+          className="w-full border-0 bg-transparent"
+        />
+      )}
+    </div>
+  );
+};
+
+export default HostedCardFields;
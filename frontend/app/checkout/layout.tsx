@@ -0,0 +1,10 @@
+import RoleGuard from "../components/RoleGuard";
+import { CUSTOMER_ROLES } from "../lib/roles";
+
+export default function CheckoutLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <RoleGuard allow={CUSTOMER_ROLES}>
+      {children}
+    </RoleGuard>
+  );
+}
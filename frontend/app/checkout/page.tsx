@@ -3,94 +3,69 @@
 import Navigation from "../components/Navigation";
 import Footer from "../components/Footer";
 import Max from "../components/Max";
-import { useRouter } from "next/navigation";
-import { useState, useEffect } from "react";
-import axios from "axios";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useState, useEffect, Suspense } from "react";
 import Image from "next/image";
 import { toast } from "react-toastify";
-
-// Base URL for API
-const BASE_URL = "/api/proxy";
-
-// ==== Types ====
-interface CartItem {
-  _id: string;
-  productId: string;
-  quantity: number;
-  price: number;
-}
-
-interface Product {
-  _id: string;
-  name: string;
-  subtitle: string;
-  averageRating: number;
-  imageUrl: string;
-  MRP: number;
-  quantity: number;
-  unitPrice: number;
-}
-
-interface Cart {
-  _id: string;
-  products: CartItem[];
-  totalAmount: number;
-}
-
-interface Advertisement {
-  title: string;
-  description: string;
-  imageUrl: string;
-}
-
-interface UserData {
-  id: string;
-  role: string;
-}
-
-interface CartResponse {
-  cart: Cart;
-  products: Product[];
-}
-
-interface AppliedCoupon {
-  code: string;
-  discount: number;
-}
-
-const CheckoutPage: React.FC = () => {
-  const [id, setId] = useState<string>("");
-  const [role, setRole] = useState<string>("");
-  const [userLoggedIn, setUserLoggedIn] = useState<boolean>(false);
-  const [cart, setCart] = useState<Cart>({ _id: "", products: [], totalAmount: 0 });
-  const [productsDetail, setProductsDetail] = useState<Product[]>([]);
-  const [numberOfCartItems, setNumberOfCartItems] = useState<number>(0);
+import AddressStep from "./components/AddressStep";
+import DeliverySlotStep from "./components/DeliverySlotStep";
+import HostedCardFields from "./components/HostedCardFields";
+import { ADVERTISEMENT, ORDER } from "../lib/api";
+import { useCart } from "../lib/cart";
+import {
+  CheckoutAttempt,
+  advanceCheckout,
+  clearCheckout,
+  hasOrder,
+  loadCheckout,
+  retryPayment,
+  startCheckout,
+} from "../lib/checkout";
+import { useQuote } from "../lib/pricing";
+import { useSession } from "../lib/session";
+import { Address, Advertisement, CardToken, DeliverySlot, Order, PaymentMethod, StockShortage } from "../lib/types";
+
+type CheckoutStep = "address" | "slot" | "payment" | "review";
+
+const STEPS: { id: CheckoutStep; name: string }[] = [
+  { id: "address", name: "Address" },
+  { id: "slot", name: "Delivery Slot" },
+  { id: "payment", name: "Payment" },
+  { id: "review", name: "Review" },
+];
+
+const CheckoutContent: React.FC = () => {
+  const { id } = useSession();
+  const searchParams = useSearchParams();
+  const { cart, loading, findProduct, reset: resetCart } = useCart();
   const [advertisement, setAdvertisement] = useState<Advertisement[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
   const [processing, setProcessing] = useState<boolean>(false);
-  const [paymentMethod, setPaymentMethod] = useState<string>("cash_on_delivery");
-
-  const [appliedCoupon, setAppliedCoupon] = useState<AppliedCoupon | null>(null);
-
-  const [cardDetails, setCardDetails] = useState({
-    cardNumber: "",
-    cardHolderName: "",
-    expiryDate: "",
-    cvv: ""
-  });
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("cash_on_delivery");
+  const [step, setStep] = useState<CheckoutStep>("address");
+  const [address, setAddress] = useState<Address | null>(null);
+  const [slot, setSlot] = useState<DeliverySlot | null>(null);
+  const [slotsVersion, setSlotsVersion] = useState<number>(0);
+  // A checkout that was started but not finished, in this visit or an earlier one
+  const [attempt, setAttempt] = useState<CheckoutAttempt | null>(null);
+  const [pendingOrder, setPendingOrder] = useState<Order | null>(null);
+
+  const [couponCode, setCouponCode] = useState<string | null>(null);
+
+  // Cards are entered in the payment service's hosted fields; only a token comes back
+  const [cardToken, setCardToken] = useState<CardToken | null>(null);
+  // Bumped to give the customer a fresh card form, e.g. after a decline used up the token
+  const [cardFieldsVersion, setCardFieldsVersion] = useState<number>(0);
+  const [upiId, setUpiId] = useState<string>("");
 
   const router = useRouter();
 
-  const discount = appliedCoupon?.discount || 0;
-  const deliveryFee = cart.totalAmount >= 5000 ? 0 : 250;
-  const tax = ((cart.totalAmount - discount) * 0.05);
-  const finalTotal = cart.totalAmount - discount + tax + deliveryFee;
+  const { quote, loading: pricing, refresh: refreshQuote } = useQuote(cart, couponCode);
+  const lineFor = (productId: string) => quote?.lines.find((line) => line.productId === productId);
 
   useEffect(() => {
     const fetchAdvertisement = async (): Promise<void> => {
       try {
-        const response = await axios.get<Advertisement[]>(`${BASE_URL}/advertisement/`);
-        setAdvertisement(response.data);
+        setAdvertisement(await ADVERTISEMENT.LIST());
       } catch (error) {
         console.error("Error fetching advertisement:", error);
       }
@@ -99,173 +74,252 @@ const CheckoutPage: React.FC = () => {
   }, []);
 
   useEffect(() => {
-    const fetchUserData = async (): Promise<void> => {
-      setLoading(true);
-      try {
-        const authResponse = await axios.get<UserData>(`${BASE_URL}/check-cookie/`, { withCredentials: true });
-
-        setId(authResponse.data.id);
-        setRole(authResponse.data.role);
-
-        if (authResponse.data.role === "Customer") {
-          setUserLoggedIn(true);
-
-          const storedCart = sessionStorage.getItem('checkoutCart');
-          const storedProducts = sessionStorage.getItem('checkoutProducts');
-          const storedCoupon = sessionStorage.getItem('appliedCoupon');
-
-          if (storedCart && storedProducts) {
-            setCart(JSON.parse(storedCart));
-            setProductsDetail(JSON.parse(storedProducts));
-            setNumberOfCartItems(JSON.parse(storedCart).products.length);
-
-            if (storedCoupon) {
-              setAppliedCoupon(JSON.parse(storedCoupon));
-            }
-          } else {
-            try {
-              const cartResponse = await axios.get<CartResponse>(`${BASE_URL}/cart/${authResponse.data.id}`);
-              setCart(cartResponse.data.cart);
-              setProductsDetail(cartResponse.data.products);
-              setNumberOfCartItems(cartResponse.data.cart.products.length);
-            } catch (err) {
-              console.error("Error fetching cart:", err);
-              toast.error("Failed to load cart");
-              router.push("/cart");
-            }
+    setCouponCode(sessionStorage.getItem('couponCode'));
+  }, []);
+
+  // Pick up an unfinished checkout, or start paying again for the order in `?orderId=`.
+  useEffect(() => {
+    const resume = async () => {
+      const saved = loadCheckout();
+      const orderId = searchParams.get("orderId");
+
+      if (orderId && saved?.orderId !== orderId) {
+        try {
+          const response = await ORDER.GET(orderId);
+          if (response.data.status === "Pending Payment" && response.data.paymentStatus !== "paid") {
+            setPaymentMethod("card");
+            setAttempt(retryPayment(orderId, response.data.orderNumber, "card"));
+            return;
           }
-        } else if (authResponse.data.role === "Vendor") {
-          router.push("/vendor");
-        } else if (authResponse.data.role === "Admin") {
-          router.push("/admin");
+          toast.info(`Order ${response.data.orderNumber} does not need paying`);
+        } catch (error: any) {
+          toast.error(error.message || "Could not load that order");
         }
-      } catch (error) {
-        console.error("Authentication error:", error);
-        router.push("/login");
-      } finally {
-        setLoading(false);
       }
-    };
 
-    fetchUserData();
-  }, [router]);
-
-  const handleCheckout = async (): Promise<void> => {
-    if (processing) return;
-
-    if (paymentMethod === "card") {
-      if (!cardDetails.cardNumber || !cardDetails.cardHolderName ||
-        !cardDetails.expiryDate || !cardDetails.cvv) {
-        toast.error("Please fill in all card details");
-        return;
+      if (saved?.phase === "complete") {
+        clearCheckout();
+      } else if (saved) {
+        setPaymentMethod(saved.paymentMethod);
+        setAttempt(saved);
       }
+    };
+    resume();
+  }, [searchParams]);
 
-      if (cardDetails.cardNumber.replace(/\s/g, '').length !== 16) {
-        toast.error("Invalid card number");
-        return;
-      }
+  useEffect(() => {
+    if (!attempt?.orderId) return;
+    ORDER.GET(attempt.orderId)
+      .then((response) => setPendingOrder(response.data))
+      .catch((error) => console.error("Error fetching order:", error));
+  }, [attempt?.orderId]);
+
+  const stepIndex = STEPS.findIndex((s) => s.id === step);
+  // Once an order exists the steps are done; only its payment is left.
+  const resuming = !!attempt && (hasOrder(attempt) || !processing);
+  const resumeTotal = pendingOrder?.totalAmount ?? attempt?.draft?.expectedTotal;
+
+  // The payment service checks the card itself; here we only need it to be entered.
+  const validatePayment = (): boolean => {
+    if (paymentMethod === "card" && !cardToken) {
+      toast.error("Please enter your card details");
+      return false;
+    }
+    if (paymentMethod === "qr_code" && !upiId.trim()) {
+      toast.error("Please enter your UPI ID");
+      return false;
+    }
+    return true;
+  };
 
-      if (cardDetails.cvv.length !== 3) {
-        toast.error("Invalid CVV");
-        return;
-      }
+  const canContinue =
+    (step === "address" && !!address) ||
+    (step === "slot" && !!slot) ||
+    step === "payment" ||
+    step === "review";
+
+  const handleNext = (): void => {
+    if (step === "payment" && !validatePayment()) return;
+    if (step === "review") {
+      handleCheckout();
+      return;
     }
+    setStep(STEPS[stepIndex + 1].id);
+  };
 
-    setProcessing(true);
+  const paymentDetails = (): Record<string, string> => {
+    if (paymentMethod === "card" && cardToken) {
+      return { token: cardToken.token };
+    }
+    if (paymentMethod === "qr_code") {
+      return { upiId: upiId.trim() };
+    }
+    if (paymentMethod === "bank_transfer") {
+      return { bankName: "Commercial Bank", accountNumber: "XXXX1234" };
+    }
+    return {};
+  };
 
+  // Runs whatever is left of a checkout. Each step is safe to repeat, so on any
+  // failure the attempt stays saved and the customer can pick it up again.
+  const runCheckout = async (from: CheckoutAttempt): Promise<void> => {
+    setProcessing(true);
     try {
-      const orderResponse = await axios.post(
-        `${BASE_URL}/orders/checkout`,
-        { cart },
-        { withCredentials: true }
-      );
-
-      if (orderResponse.status === 200 && orderResponse.data) {
-        const orderId = orderResponse.data._id;
-
-        const paymentResponse = await axios.post(
-          `${BASE_URL}/payments/initiate`,
-          {
-            orderId: orderId,
-            userId: id,
-            paymentMethod: paymentMethod,
-            couponCode: appliedCoupon?.code || null
-          },
-          { withCredentials: true }
-        );
-
-        if (paymentResponse.data.success) {
-          const paymentId = paymentResponse.data.data._id;
-
-          let paymentDetails: any = { paymentMethod: paymentMethod };
-
-          if (paymentMethod === "card") {
-            paymentDetails = {
-              ...paymentDetails,
-              cardNumber: cardDetails.cardNumber,
-              cardHolderName: cardDetails.cardHolderName,
-              expiryDate: cardDetails.expiryDate,
-              cvv: cardDetails.cvv,
-              cardLastFour: cardDetails.cardNumber.slice(-4),
-              cardType: cardDetails.cardNumber.startsWith('4') ? 'Visa' : 'MasterCard'
-            };
-          } else if (paymentMethod === "bank_transfer") {
-            paymentDetails.bankName = "Commercial Bank";
-            paymentDetails.accountNumber = "XXXX1234";
-          }
-
-          const processResponse = await axios.post(
-            `${BASE_URL}/payments/process/${paymentId}`,
-            paymentDetails,
-            { withCredentials: true }
-          );
-
-          if (processResponse.data.success && processResponse.data.data.status === 'completed') {
-            const receiptResponse = await axios.post(
-              `${BASE_URL}/receipts`,
-              { paymentId: paymentId },
-              { withCredentials: true }
-            );
-
-            if (receiptResponse.data.success) {
-              toast.success("Payment successful!");
-
-              sessionStorage.removeItem('checkoutCart');
-              sessionStorage.removeItem('checkoutProducts');
-              sessionStorage.removeItem('appliedCoupon');
-
-              router.push(`/payment-success?receiptId=${receiptResponse.data.data._id}`);
-            } else {
-              toast.warning("Payment successful but receipt generation failed");
-              router.push("/orders");
-            }
-          } else {
-            toast.error(processResponse.data.data.failedReason || "Payment failed. Please try again.");
-            setProcessing(false);
+      const result = await advanceCheckout(from, {
+        userId: id,
+        paymentMethod,
+        paymentDetails: paymentDetails(),
+        onChange: (next) => {
+          // The cart's items are in the order now; keeping them invites a second order.
+          if (next.phase === "placed" && from.phase === "placing") {
+            sessionStorage.removeItem('couponCode');
+            resetCart();
           }
-        } else {
-          toast.error("Failed to initiate payment");
-          setProcessing(false);
-        }
-      } else {
-        toast.error("Failed to create order");
-        setProcessing(false);
+          setAttempt(next);
+        },
+      });
+
+      if (result.phase === "payment_failed") {
+        // The declined card's token is spent; ask for the card again
+        setCardToken(null);
+        setCardFieldsVersion((version) => version + 1);
+        toast.error(result.error || "Payment failed. Please try again.");
+        return;
       }
+
+      clearCheckout();
+      toast.success("Payment successful!");
+      router.push(`/payment-success?receiptId=${result.receiptId}`);
     } catch (error: any) {
       console.error("Checkout failed:", error);
-      const errorMessage = error.response?.data?.message || "Checkout failed. Please try again.";
-      toast.error(errorMessage);
+      if (from.phase !== "placing") {
+        toast.error(error.message || "Checkout was interrupted. You can pick up where you left off.");
+      } else if (error.status === 409 && error.data?.code === "SLOT_UNAVAILABLE") {
+        // Someone else took the last place in the window; pick another one.
+        discardAttempt();
+        setSlot(null);
+        setSlotsVersion((version) => version + 1);
+        setStep("slot");
+        toast.error(error.message);
+      } else if (error.status === 409 && error.data?.code === "OUT_OF_STOCK") {
+        // Someone else bought the last units; nothing was charged.
+        discardAttempt();
+        const shortages: StockShortage[] = error.data.data?.shortages ?? [];
+        toast.error(
+          shortages.length
+            ? `Not enough stock: ${shortages.map((s) => `${s.name ?? "an item"} (${s.available} left)`).join(", ")}`
+            : error.message
+        );
+      } else if (error.status === 409) {
+        // Prices moved between pricing and ordering; show the new total before charging it.
+        discardAttempt();
+        await refreshQuote();
+        toast.warning("Prices in your cart have changed. Please review the new total.");
+      } else {
+        toast.error(error.message || "Checkout failed. Please try again.");
+      }
+    } finally {
       setProcessing(false);
     }
   };
 
-  const paymentMethods = [
+  const discardAttempt = (): void => {
+    clearCheckout();
+    setAttempt(null);
+    setPendingOrder(null);
+  };
+
+  const handleCheckout = async (): Promise<void> => {
+    if (processing || !quote || !address || !slot) return;
+    if (!validatePayment()) {
+      setStep("payment");
+      return;
+    }
+
+    const draft = {
+      cart,
+      couponCode,
+      expectedTotal: quote.total,
+      shippingAddress: {
+        fullName: address.fullName,
+        phone: address.phone,
+        street: address.street,
+        city: address.city,
+        state: address.state,
+        postalCode: address.postalCode,
+        country: address.country,
+      },
+      deliverySlot: slot.id,
+    };
+    const next = startCheckout(draft, paymentMethod);
+    setAttempt(next);
+    await runCheckout(next);
+  };
+
+  const handleResume = (): void => {
+    if (!attempt || processing) return;
+    if (hasOrder(attempt) && attempt.phase !== "paid" && !validatePayment()) return;
+    runCheckout(attempt);
+  };
+
+  const paymentMethods: { id: PaymentMethod; name: string; desc: string; icon: string }[] = [
     { id: "cash_on_delivery", name: "Cash on Delivery", desc: "Pay when you receive your order", icon: "M17 9V7a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2m2 4h10a2 2 0 002-2v-6a2 2 0 00-2-2H9a2 2 0 00-2 2v6a2 2 0 002 2zm7-5a2 2 0 11-4 0 2 2 0 014 0z" },
     { id: "card", name: "Credit / Debit Card", desc: "Visa, MasterCard accepted", icon: "M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" },
     { id: "bank_transfer", name: "Bank Transfer", desc: "Direct bank transfer", icon: "M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" },
     { id: "qr_code", name: "QR Code Payment", desc: "Scan and pay", icon: "M12 4v1m6 11h2m-6 0h-2v4m0-11v3m0 0h.01M12 12h4.01M16 20h4M4 12h4m12 0h.01M5 8h2a1 1 0 001-1V5a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1zm12 0h2a1 1 0 001-1V5a1 1 0 00-1-1h-2a1 1 0 00-1 1v2a1 1 0 001 1zM5 20h2a1 1 0 001-1v-2a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1z" }
   ];
 
+  const paymentOptions = (
+    <div className="p-5 space-y-3">
+      {paymentMethods.map(method => (
+        <label
+          key={method.id}
+          className={`flex items-center gap-4 p-4 rounded-xl cursor-pointer transition-all border-2 ${paymentMethod === method.id
+            ? 'border-[#FDAA1C] bg-orange-50'
+            : 'border-transparent bg-gray-50 hover:bg-gray-100'
+            }`}
+        >
+          <input
+            type="radio"
+            name="payment"
+            value={method.id}
+            checked={paymentMethod === method.id}
+            onChange={() => setPaymentMethod(method.id)}
+            className="w-5 h-5 text-[#FDAA1C] focus:ring-[#FDAA1C]"
+          />
+          <div className="w-10 h-10 bg-white rounded-lg flex items-center justify-center shadow-sm">
+            <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={method.icon} />
+            </svg>
+          </div>
+          <div className="flex-1">
+            <p className="font-medium text-gray-900">{method.name}</p>
+            <p className="text-sm text-gray-500">{method.desc}</p>
+          </div>
+        </label>
+      ))}
+
+      {/* Card Details, entered in the payment service's hosted fields */}
+      {paymentMethod === "card" && (
+        <HostedCardFields key={cardFieldsVersion} onChange={setCardToken} />
+      )}
+
+      {paymentMethod === "qr_code" && (
+        <div className="mt-4 p-5 bg-gray-50 rounded-xl">
+          <label className="block text-sm font-medium text-gray-700 mb-1.5">UPI ID</label>
+          <input
+            type="text"
+            placeholder="name@bank"
+            value={upiId}
+            onChange={(e) => setUpiId(e.target.value)}
+            className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-[#FDAA1C] focus:border-transparent outline-none transition-all"
+          />
+          <p className="text-xs text-gray-500 mt-2">We&apos;ll send a payment request to your UPI app.</p>
+        </div>
+      )}
+    </div>
+  );
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-emerald-50 via-white to-teal-50">
@@ -279,13 +333,7 @@ const CheckoutPage: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-emerald-50 via-white to-teal-50 flex flex-col">
-      <Navigation
-        numberOfCartItems={numberOfCartItems}
-        productsDetail={productsDetail}
-        cart={cart}
-        id={id}
-        userLoggedIn={userLoggedIn}
-      />
+      <Navigation />
 
       <main className="flex-grow pt-28 sm:pt-32 lg:pt-36 pb-16">
         <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -296,141 +344,191 @@ const CheckoutPage: React.FC = () => {
           </div>
 
           <div className="flex flex-col lg:flex-row gap-6 lg:gap-8">
-            {/* Left Section - Order Items & Payment */}
+            {/* Left Section - Checkout Steps */}
             <div className="flex-1 space-y-6">
-              {/* Order Items */}
-              <div className="bg-white rounded-3xl shadow-lg border border-emerald-100 overflow-hidden">
-                <div className="p-5 border-b border-emerald-100 bg-gradient-to-r from-emerald-50 to-teal-50">
-                  <h2 className="text-lg font-bold text-gray-900">Order Items ({cart.products.length})</h2>
-                </div>
-                <div className="divide-y divide-gray-100">
-                  {cart.products.map(item => {
-                    const product = productsDetail.find(p => p._id === item.productId);
-                    return product ? (
-                      <div key={item._id} className="p-4 sm:p-5 flex gap-4">
-                        <div className="w-16 h-16 sm:w-20 sm:h-20 bg-gray-100 rounded-xl overflow-hidden flex-shrink-0">
-                          <Image
-                            width={80}
-                            height={80}
-                            src={product.imageUrl}
-                            alt={product.name}
-                            className="w-full h-full object-cover"
-                          />
-                        </div>
-                        <div className="flex-1 min-w-0">
-                          <h3 className="font-medium text-gray-900 truncate">{product.name}</h3>
-                          <p className="text-sm text-gray-500">{product.subtitle}</p>
-                          <p className="text-sm text-gray-600 mt-1">
-                            Rs. {product.unitPrice.toLocaleString()} × {item.quantity}
-                          </p>
-                        </div>
-                        <div className="text-right">
-                          <p className="font-semibold text-gray-900">
-                            Rs. {(product.unitPrice * item.quantity).toLocaleString()}
-                          </p>
-                        </div>
-                      </div>
-                    ) : null;
-                  })}
-                </div>
-              </div>
-
-              {/* Payment Method */}
-              <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
-                <div className="p-5 border-b border-gray-100">
-                  <h2 className="text-lg font-semibold text-gray-900">Payment Method</h2>
+              {resuming && attempt ? (
+                <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
+                  <div className="p-5 border-b border-gray-100">
+                    <h2 className="text-lg font-semibold text-gray-900">
+                      {attempt.phase === "placing"
+                        ? "Your last order didn't finish"
+                        : `Order ${attempt.orderNumber ?? ""} is waiting for payment`}
+                    </h2>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {attempt.phase === "placing"
+                        ? "We lost the connection while placing it. Finish placing it and we'll make sure it is only placed once, or start over."
+                        : attempt.phase === "paid"
+                          ? "Your payment went through. We just need to issue your receipt."
+                          : "Your order is reserved. Pay for it below, with the same method or a different one."}
+                    </p>
+                    {attempt.error && (
+                      <p className="text-sm text-red-600 mt-2">Last attempt: {attempt.error}</p>
+                    )}
+                  </div>
+                  {hasOrder(attempt) && attempt.phase !== "paid" && paymentOptions}
+                  <div className="p-5 border-t border-gray-100 flex gap-4 text-sm font-medium">
+                    {attempt.phase === "placing" ? (
+                      <button type="button" onClick={discardAttempt} disabled={processing} className="text-gray-600 hover:text-gray-900">
+                        Start over
+                      </button>
+                    ) : (
+                      <button type="button" onClick={() => router.push("/order-history")} className="text-emerald-600 hover:text-emerald-800">
+                        View in order history
+                      </button>
+                    )}
+                  </div>
                 </div>
-                <div className="p-5 space-y-3">
-                  {paymentMethods.map(method => (
-                    <label
-                      key={method.id}
-                      className={`flex items-center gap-4 p-4 rounded-xl cursor-pointer transition-all border-2 ${paymentMethod === method.id
-                        ? 'border-[#FDAA1C] bg-orange-50'
-                        : 'border-transparent bg-gray-50 hover:bg-gray-100'
-                        }`}
-                    >
-                      <input
-                        type="radio"
-                        name="payment"
-                        value={method.id}
-                        checked={paymentMethod === method.id}
-                        onChange={() => setPaymentMethod(method.id)}
-                        className="w-5 h-5 text-[#FDAA1C] focus:ring-[#FDAA1C]"
-                      />
-                      <div className="w-10 h-10 bg-white rounded-lg flex items-center justify-center shadow-sm">
-                        <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={method.icon} />
-                        </svg>
-                      </div>
-                      <div className="flex-1">
-                        <p className="font-medium text-gray-900">{method.name}</p>
-                        <p className="text-sm text-gray-500">{method.desc}</p>
-                      </div>
-                    </label>
+              ) : (
+                <>
+                {/* Step Indicator */}
+                <ol className="flex items-center gap-2 sm:gap-4">
+                  {STEPS.map((s, index) => (
+                    <li key={s.id} className="flex items-center gap-2 sm:gap-4 flex-1">
+                      <button
+                        type="button"
+                        disabled={index > stepIndex || processing}
+                        onClick={() => setStep(s.id)}
+                        className="flex items-center gap-2 disabled:cursor-default"
+                      >
+                        <span className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold ${index < stepIndex
+                          ? 'bg-emerald-600 text-white'
+                          : index === stepIndex
+                            ? 'bg-[#FDAA1C] text-white'
+                            : 'bg-gray-200 text-gray-500'
+                          }`}>
+                          {index < stepIndex ? "✓" : index + 1}
+                        </span>
+                        <span className={`hidden sm:inline text-sm font-medium ${index === stepIndex ? 'text-gray-900' : 'text-gray-500'}`}>
+                          {s.name}
+                        </span>
+                      </button>
+                      {index < STEPS.length - 1 && <span className="flex-1 h-px bg-gray-200" />}
+                    </li>
                   ))}
+                </ol>
 
-                  {/* Card Details Form */}
-                  {paymentMethod === "card" && (
-                    <div className="mt-4 p-5 bg-gray-50 rounded-xl space-y-4">
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1.5">Card Number</label>
-                        <input
-                          type="text"
-                          placeholder="1234 5678 9012 3456"
-                          maxLength={19}
-                          value={cardDetails.cardNumber}
-                          onChange={(e) => {
-                            const value = e.target.value.replace(/\s/g, '');
-                            const formatted = value.match(/.{1,4}/g)?.join(' ') || value;
-                            setCardDetails({ ...cardDetails, cardNumber: formatted });
-                          }}
-                          className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-[#FDAA1C] focus:border-transparent outline-none transition-all"
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1.5">Card Holder Name</label>
-                        <input
-                          type="text"
-                          placeholder="John Doe"
-                          value={cardDetails.cardHolderName}
-                          onChange={(e) => setCardDetails({ ...cardDetails, cardHolderName: e.target.value })}
-                          className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-[#FDAA1C] focus:border-transparent outline-none transition-all"
-                        />
+                {/* Address */}
+                {step === "address" && (
+                  <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
+                    <div className="p-5 border-b border-gray-100">
+                      <h2 className="text-lg font-semibold text-gray-900">Delivery Address</h2>
+                    </div>
+                    <AddressStep userId={id} selected={address} onSelect={setAddress} />
+                  </div>
+                )}
+
+                {/* Delivery Slot */}
+                {step === "slot" && (
+                  <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
+                    <div className="p-5 border-b border-gray-100">
+                      <h2 className="text-lg font-semibold text-gray-900">Delivery Slot</h2>
+                    </div>
+                    <DeliverySlotStep selected={slot} onSelect={setSlot} reloadKey={slotsVersion} />
+                  </div>
+                )}
+
+                {/* Payment Method */}
+                {step === "payment" && (
+                  <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden">
+                    <div className="p-5 border-b border-gray-100">
+                      <h2 className="text-lg font-semibold text-gray-900">Payment Method</h2>
+                    </div>
+                    {paymentOptions}
+                  </div>
+                )}
+
+                {/* Review */}
+                {step === "review" && (
+                  <>
+                    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 divide-y divide-gray-100">
+                      <div className="p-5 flex justify-between gap-4">
+                        <div>
+                          <p className="text-sm font-medium text-gray-500">Delivering to</p>
+                          <p className="font-medium text-gray-900">{address?.fullName} · {address?.phone}</p>
+                          <p className="text-sm text-gray-600">
+                            {[address?.street, address?.city, address?.state, address?.postalCode].filter(Boolean).join(", ")}
+                          </p>
+                        </div>
+                        <button type="button" onClick={() => setStep("address")} className="text-sm font-medium text-emerald-600 hover:text-emerald-800">
+                          Change
+                        </button>
                       </div>
-                      <div className="grid grid-cols-2 gap-4">
+                      <div className="p-5 flex justify-between gap-4">
                         <div>
-                          <label className="block text-sm font-medium text-gray-700 mb-1.5">Expiry</label>
-                          <input
-                            type="text"
-                            placeholder="MM/YY"
-                            maxLength={5}
-                            value={cardDetails.expiryDate}
-                            onChange={(e) => {
-                              let value = e.target.value.replace(/\D/g, '');
-                              if (value.length >= 2) {
-                                value = value.slice(0, 2) + '/' + value.slice(2, 4);
-                              }
-                              setCardDetails({ ...cardDetails, expiryDate: value });
-                            }}
-                            className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-[#FDAA1C] focus:border-transparent outline-none transition-all"
-                          />
+                          <p className="text-sm font-medium text-gray-500">Delivery window</p>
+                          <p className="font-medium text-gray-900">{slot?.label}</p>
                         </div>
+                        <button type="button" onClick={() => setStep("slot")} className="text-sm font-medium text-emerald-600 hover:text-emerald-800">
+                          Change
+                        </button>
+                      </div>
+                      <div className="p-5 flex justify-between gap-4">
                         <div>
-                          <label className="block text-sm font-medium text-gray-700 mb-1.5">CVV</label>
-                          <input
-                            type="text"
-                            placeholder="123"
-                            maxLength={3}
-                            value={cardDetails.cvv}
-                            onChange={(e) => setCardDetails({ ...cardDetails, cvv: e.target.value.replace(/\D/g, '') })}
-                            className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-[#FDAA1C] focus:border-transparent outline-none transition-all"
-                          />
+                          <p className="text-sm font-medium text-gray-500">Payment</p>
+                          <p className="font-medium text-gray-900">
+                            {paymentMethods.find((method) => method.id === paymentMethod)?.name}
+                            {paymentMethod === "card" && cardToken && ` · ${cardToken.brand} ending ${cardToken.last4}`}
+                          {paymentMethod === "qr_code" && ` · ${upiId}`}
+                          </p>
                         </div>
+                        <button type="button" onClick={() => setStep("payment")} className="text-sm font-medium text-emerald-600 hover:text-emerald-800">
+                          Change
+                        </button>
                       </div>
                     </div>
-                  )}
-                </div>
-              </div>
+
+                    {/* Order Items */}
+                  <div className="bg-white rounded-3xl shadow-lg border border-emerald-100 overflow-hidden">
+                    <div className="p-5 border-b border-emerald-100 bg-gradient-to-r from-emerald-50 to-teal-50">
+                      <h2 className="text-lg font-bold text-gray-900">Order Items ({cart.products.length})</h2>
+                    </div>
+                    <div className="divide-y divide-gray-100">
+                      {cart.products.map(item => {
+                        const product = findProduct(item.productId);
+                        const line = lineFor(item.productId);
+                        return product ? (
+                          <div key={item._id} className="p-4 sm:p-5 flex gap-4">
+                            <div className="w-16 h-16 sm:w-20 sm:h-20 bg-gray-100 rounded-xl overflow-hidden flex-shrink-0">
+                              <Image
+                                width={80}
+                                height={80}
+                                src={product.imageUrl}
+                                alt={product.name}
+                                className="w-full h-full object-cover"
+                              />
+                            </div>
+                            <div className="flex-1 min-w-0">
+                              <h3 className="font-medium text-gray-900 truncate">{product.name}</h3>
+                              <p className="text-sm text-gray-500">{product.subtitle}</p>
+                              <p className="text-sm text-gray-600 mt-1">
+                                Rs. {(line?.discountedUnitPrice ?? product.unitPrice).toLocaleString()} × {item.quantity}
+                              </p>
+                            </div>
+                            <div className="text-right">
+                              <p className="font-semibold text-gray-900">
+                                Rs. {(line?.lineTotal ?? product.unitPrice * item.quantity).toLocaleString()}
+                              </p>
+                            </div>
+                          </div>
+                        ) : null;
+                      })}
+                    </div>
+                  </div>
+                  </>
+                )}
+
+                {stepIndex > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => setStep(STEPS[stepIndex - 1].id)}
+                    disabled={processing}
+                    className="text-sm font-medium text-gray-600 hover:text-gray-900"
+                  >
+                    ← Back
+                  </button>
+                )}
+                </>
+              )}
             </div>
 
             {/* Right Section - Order Summary */}
@@ -438,42 +536,71 @@ const CheckoutPage: React.FC = () => {
               <div className="bg-gradient-to-br from-gray-900 to-gray-800 rounded-3xl p-6 text-white lg:sticky lg:top-32 shadow-xl">
                 <h2 className="text-xl font-bold mb-6">Order Summary</h2>
 
-                <div className="space-y-3 mb-6">
-                  <div className="flex justify-between text-gray-300">
-                    <span>Subtotal</span>
-                    <span>Rs. {cart.totalAmount.toLocaleString()}</span>
+                {resuming ? (
+                  <div className="border-t border-gray-700 pt-4 mb-6">
+                    <div className="flex justify-between text-2xl font-bold">
+                      <span>Total</span>
+                      <span className="text-emerald-400">
+                        {resumeTotal !== undefined ? `Rs. ${resumeTotal.toFixed(2)}` : "..."}
+                      </span>
+                    </div>
                   </div>
+                ) : quote ? (
+                  <>
+                    <div className={`space-y-3 mb-6 ${pricing ? 'opacity-60' : ''}`}>
+                      <div className="flex justify-between text-gray-300">
+                        <span>Subtotal</span>
+                        <span>Rs. {quote.subtotal.toLocaleString()}</span>
+                      </div>
 
-                  {discount > 0 && appliedCoupon && (
-                    <div className="flex justify-between text-emerald-400">
-                      <span>Discount ({appliedCoupon.code})</span>
-                      <span>- Rs. {discount.toFixed(2)}</span>
-                    </div>
-                  )}
+                      {quote.productDiscount > 0 && (
+                        <p className="text-xs text-emerald-400">
+                          Includes Rs. {quote.productDiscount.toFixed(2)} of product discounts
+                        </p>
+                      )}
 
-                  <div className="flex justify-between text-gray-300">
-                    <span>Tax (5%)</span>
-                    <span>Rs. {tax.toFixed(2)}</span>
-                  </div>
+                      {quote.promotions.filter((promotion) => promotion.applied).map((promotion) => (
+                        <div key={promotion.id} className="flex justify-between text-emerald-400">
+                          <span>{promotion.name}</span>
+                          <span>- Rs. {promotion.discount.toFixed(2)}</span>
+                        </div>
+                      ))}
 
-                  <div className="flex justify-between text-gray-300">
-                    <span>Delivery</span>
-                    <span className={deliveryFee === 0 ? 'text-emerald-400' : ''}>
-                      {deliveryFee === 0 ? 'FREE' : `Rs. ${deliveryFee}`}
-                    </span>
-                  </div>
-                </div>
+                      {quote.coupon && !quote.coupon.applied && (
+                        <p className="text-xs text-red-300">
+                          {quote.coupon.code}: {quote.coupon.reason}
+                        </p>
+                      )}
 
-                <div className="border-t border-gray-700 pt-4 mb-6">
-                  <div className="flex justify-between text-2xl font-bold">
-                    <span>Total</span>
-                    <span className="text-emerald-400">Rs. {finalTotal.toFixed(2)}</span>
-                  </div>
-                </div>
+                      <div className="flex justify-between text-gray-300">
+                        <span>Tax ({Math.round(quote.taxRate * 100)}%)</span>
+                        <span>Rs. {quote.tax.toFixed(2)}</span>
+                      </div>
+
+                      <div className="flex justify-between text-gray-300">
+                        <span>Delivery</span>
+                        <span className={quote.deliveryFee === 0 ? 'text-emerald-400' : ''}>
+                          {quote.deliveryFee === 0 ? 'FREE' : `Rs. ${quote.deliveryFee}`}
+                        </span>
+                      </div>
+                    </div>
+
+                    <div className="border-t border-gray-700 pt-4 mb-6">
+                      <div className="flex justify-between text-2xl font-bold">
+                        <span>Total</span>
+                        <span className="text-emerald-400">Rs. {quote.total.toFixed(2)}</span>
+                      </div>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-400 mb-6">
+                    {pricing ? "Calculating your total..." : "We couldn't price your order right now."}
+                  </p>
+                )}
 
                 <button
-                  onClick={handleCheckout}
-                  disabled={processing || cart.products.length === 0}
+                  onClick={resuming ? handleResume : handleNext}
+                  disabled={processing || (!resuming && (pricing || !quote || cart.products.length === 0 || !canContinue))}
                   className="w-full py-4 bg-gradient-to-r from-emerald-500 to-teal-500 hover:from-emerald-600 hover:to-teal-600 disabled:from-gray-600 disabled:to-gray-700 text-white disabled:text-gray-400 
                     font-bold rounded-xl transition-all flex items-center justify-center gap-2 shadow-lg"
                 >
@@ -485,13 +612,25 @@ const CheckoutPage: React.FC = () => {
                       </svg>
                       Processing...
                     </>
-                  ) : (
+                  ) : resuming && attempt ? (
+                    <>
+                      {attempt.phase === "placing"
+                        ? "Finish Placing Order"
+                        : attempt.phase === "paid"
+                          ? "Get Receipt"
+                          : attempt.phase === "payment_failed"
+                            ? "Retry Payment"
+                            : "Pay Now"}
+                    </>
+                  ) : step === "review" ? (
                     <>
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
                       </svg>
-                      Complete Purchase
+                      Place Order
                     </>
+                  ) : (
+                    <>Continue to {STEPS[stepIndex + 1].name}</>
                   )}
                 </button>
 
@@ -510,4 +649,14 @@ const CheckoutPage: React.FC = () => {
   );
 };
 
-export default CheckoutPage;
+export default function CheckoutPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-emerald-50 via-white to-teal-50">
+        <div className="w-12 h-12 border-4 border-emerald-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    }>
+      <CheckoutContent />
+    </Suspense>
+  );
+}
@@ -1,19 +1,12 @@
 "use client";
 
 import React, { useState, useEffect } from "react";
-import axios from "axios";
 import Image, { StaticImageData } from "next/image";
 import { useRouter } from "next/navigation";
 import PlaceholderImage from "../images/RiceGrainsNoodles.jpg";
 import Loading from "./Loading";
-
-const API_BASE_URL = "/api/proxy";
-
-interface ProductCategory {
-  _id: string;
-  name: string;
-  imageUrl: string;
-}
+import { CATEGORY } from "../lib/api";
+import { ProductCategory } from "../lib/types";
 
 const AllCategories: React.FC = () => {
   const [productCategories, setProductCategories] = useState<ProductCategory[]>([]);
@@ -25,8 +18,7 @@ const AllCategories: React.FC = () => {
   useEffect(() => {
     const fetchCategories = async () => {
       try {
-        const response = await axios.get<ProductCategory[]>(`${API_BASE_URL}/productcategories`);
-        setProductCategories(response.data);
+        setProductCategories(await CATEGORY.LIST());
       } catch (error) {
         console.error("Error fetching categories:", error);
         setError("Failed to load categories. Please try again later.");
@@ -2,7 +2,8 @@
 import React, { useState, useEffect } from 'react';
 import ANavCategory from './ANavCategory';
 import Image from 'next/image';
-import axios from 'axios';
+import { CATEGORY } from '../lib/api';
+import { ProductCategory } from '../lib/types';
 
 // Import static images
 import mainMealsWallpaper from '../images/mainMealsWallpaper.jpg';
@@ -14,13 +15,6 @@ import riceAndGrains from '../images/RiceGrainsNoodles.jpg';
 import Beverages from '../images/beverages.jpg';
 import Sauces from '../images/Sauces.jpg';
 
-// Interface for backend categories
-interface ProductCategory {
-  _id: string;
-  name: string;
-  imageUrl: string;
-}
-
 // Map category names to static images
 const categoryImageMap: Record<string, any> = {
   'Meals & Main Courses': mainMealsWallpaper,
@@ -42,10 +36,7 @@ const AllNavCategories: React.FC = () => {
   useEffect(() => {
     const fetchCategories = async () => {
       try {
-        const response = await axios.get<ProductCategory[]>(
-          '/api/proxy/productcategories/'
-        );
-        setProductCategories(response.data);
+        setProductCategories(await CATEGORY.LIST());
       } catch (error) {
         console.error('Error fetching categories:', error);
       } finally {
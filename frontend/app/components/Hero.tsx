@@ -1,16 +1,9 @@
 'use client';
 import Image from 'next/image';
-import axios from 'axios';
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-
-const BASE_URL = '/api/proxy';
-
-interface Advertisement {
-  title: string;
-  description: string;
-  imageUrl?: string;
-}
+import { ADVERTISEMENT } from '../lib/api';
+import { Advertisement } from '../lib/types';
 
 const Hero: React.FC = () => {
   const router = useRouter();
@@ -20,8 +13,7 @@ const Hero: React.FC = () => {
   useEffect(() => {
     const fetchAdvertisement = async () => {
       try {
-        const response = await axios.get<Advertisement[]>(`${BASE_URL}/advertisement/`);
-        setAdvertisement(response.data);
+        setAdvertisement(await ADVERTISEMENT.LIST());
       } catch (error) {
         console.error('Error fetching advertisement:', error);
       } finally {
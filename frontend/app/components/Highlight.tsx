@@ -0,0 +1,32 @@
+import React from 'react';
+import { HighlightSpans } from '../lib/types';
+
+interface HighlightProps {
+  text: string;
+  spans?: HighlightSpans;
+}
+
+// `text` with the spans that matched a search marked
+const Highlight: React.FC<HighlightProps> = ({ text, spans = [] }) => {
+  if (spans.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  [...spans]
+    .sort((a, b) => a[0] - b[0])
+    .forEach(([start, end]) => {
+      if (start < cursor) return;
+      if (start > cursor) parts.push(text.slice(cursor, start));
+      parts.push(
+        <mark key={start} className="bg-yellow-100 text-inherit rounded px-0.5">
+          {text.slice(start, end)}
+        </mark>
+      );
+      cursor = end;
+    });
+  parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+};
+
+export default Highlight;
@@ -0,0 +1,42 @@
+"use client";
+
+import { CloudOff, Leaf, Recycle } from "lucide-react";
+import { Impact } from "../lib/types";
+
+interface ImpactSummaryProps {
+  impact: Impact;
+  title?: string;
+  caption?: string;
+}
+
+const kg = (value: number) => `${value.toLocaleString(undefined, { maximumFractionDigits: 1 })} kg`;
+
+// Produce rescued, kilograms recycled into fertilizer and CO2e avoided, as on
+// the account page and the receipt
+export default function ImpactSummary({ impact, title = "Your Impact", caption }: ImpactSummaryProps) {
+  const figures = [
+    { label: "Produce rescued", value: kg(impact.rescuedKg), icon: Leaf, color: "text-green-600 bg-green-100" },
+    { label: "Recycled into fertilizer", value: kg(impact.recycledKg), icon: Recycle, color: "text-amber-600 bg-amber-100" },
+    { label: "CO₂e avoided", value: kg(impact.co2eKg), icon: CloudOff, color: "text-sky-600 bg-sky-100" },
+  ];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-1">{title}</h2>
+      {caption && <p className="text-sm text-gray-500 mb-4">{caption}</p>}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mt-4">
+        {figures.map(({ label, value, icon: Icon, color }) => (
+          <div key={label} className="flex items-center gap-3 p-4 rounded-xl bg-gray-50 border border-gray-100">
+            <div className={`p-2 rounded-lg ${color}`}>
+              <Icon className="w-5 h-5" />
+            </div>
+            <div>
+              <p className="text-lg font-semibold text-gray-900">{value}</p>
+              <p className="text-xs text-gray-500">{label}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,23 +1,17 @@
 "use client";
 import { useRouter } from "next/navigation";
+import { AUTH } from "../lib/api";
 
 const LogoutButton = () => {
   const router = useRouter();
 
   const handleLogout = async () => {
     try {
-      const response = await fetch("/api/proxy/logout", {
-        method: "POST",
-        credentials: "include",
-      });
-
-      if (response.ok) {
-        window.location.reload();
-      } else {
-        alert("Logout failed!");
-      }
+      await AUTH.LOGOUT();
+      window.location.reload();
     } catch (error) {
       console.error("Logout error:", error);
+      alert("Logout failed!");
     }
   };
 
@@ -5,51 +5,21 @@ import Cart from "../images/cartLogo2.png";
 import Menu from "../images/menu.png";
 import { useRouter } from "next/navigation";
 import { useState, useEffect, useRef, useCallback } from "react";
-import axios from "axios";
 import LogoutButton from "./Logout";
+import NotificationCenter from "./NotificationCenter";
 import AllNavCategories from "./AllNavCategories";
+import SearchAutocomplete from "./SearchAutocomplete";
 import SearchIcon from "../images/search-icon.png";
 import EcoHarvest from "../images/ecoHarvestNavLogo2.png";
-
-// Centralized API base URL
-const BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || "/api/proxy";
-
-// Define interfaces for props
-interface ProductCategory {
-  _id: string;
-  name: string;
-}
-
-interface ProductDetail {
-  imageUrl: string;
-  name: string;
-  subtitle: string;
-}
-
-interface CartItem {
-  _id: string;
-  quantity: number;
-}
-
-interface Cart {
-  products: CartItem[];
-}
-
-interface NavigationProps {
-  id?: string;
-  productsDetail: ProductDetail[];
-  userLoggedIn: boolean;
-  cart?: Cart;
-  numberOfCartItems: number;
-}
-
-const Navigation: React.FC<NavigationProps> = ({
-  id,
-  productsDetail,
-  userLoggedIn,
-  cart,
-  numberOfCartItems,
-}) => {
+import { CATEGORY } from "../lib/api";
+import { useCart } from "../lib/cart";
+import { useSession } from "../lib/session";
+import { rememberSearch } from "../lib/searchHistory";
+import { ProductCategory } from "../lib/types";
+
+const Navigation: React.FC = () => {
+  const { id, isLoggedIn: userLoggedIn } = useSession();
+  const { cart, itemCount: numberOfCartItems, findProduct } = useCart();
   const [productCategories, setProductCategories] = useState<ProductCategory[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [dropdownWidth, setDropdownWidth] = useState<string>("auto");
@@ -84,9 +54,9 @@ const Navigation: React.FC<NavigationProps> = ({
 
     const fetchCategories = async () => {
       try {
-        const response = await axios.get<ProductCategory[]>(`${BASE_URL}/productcategories/`);
+        const categories = await CATEGORY.LIST();
         if (isMounted) {
-          setProductCategories(response.data);
+          setProductCategories(categories);
         }
       } catch (error) {
         console.error("Error fetching categories:", error);
@@ -125,29 +95,24 @@ const Navigation: React.FC<NavigationProps> = ({
     router.push("/login");
   }, [router]);
 
-  // Handle search functionality
-  const handleSearch = useCallback(async () => {
-    try {
-      if (query.trim()) {
-        router.push(
-          `/search?query=${encodeURIComponent(query)}&category=${encodeURIComponent(
-            selectedCategory
-          )}`
-        );
-        setIsMobileSearchOpen(false);
-        setQuery(""); // Clear search after searching
-      }
-    } catch (error) {
-      console.error("Error searching products:", error);
-    }
-  }, [query, selectedCategory, router]);
+  // Handle search functionality; a category picked from the suggestions wins
+  // over the dropdown's
+  const runSearch = useCallback((term: string, category?: string) => {
+    router.push(
+      `/search?query=${encodeURIComponent(term)}&category=${encodeURIComponent(
+        category ?? selectedCategory
+      )}`
+    );
+    setIsMobileSearchOpen(false);
+    setQuery(""); // Clear search after searching
+  }, [selectedCategory, router]);
 
-  // Handle enter key press in search
-  const handleKeyPress = useCallback((e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
-      handleSearch();
+  const handleSearch = useCallback(() => {
+    if (query.trim()) {
+      rememberSearch(query);
+      runSearch(query.trim());
     }
-  }, [handleSearch]);
+  }, [query, runSearch]);
 
   // Toggle mobile menu
   const toggleMobileMenu = useCallback(() => {
@@ -318,13 +283,14 @@ const Navigation: React.FC<NavigationProps> = ({
 
               {/* Search input */}
               <div className="bg-white flex flex-row flex-1 items-center">
-                <input
+                <SearchAutocomplete
                   value={query}
-                  onChange={(e) => setQuery(e.target.value)}
-                  onKeyPress={handleKeyPress}
-                  className="placeholder-gray-600  focus:outline-none w-full px-[18px] py-[12px] text-black text-[14px]"
+                  onChange={setQuery}
+                  onSearch={runSearch}
+                  className="w-full"
+                  inputClassName="placeholder-gray-600  focus:outline-none w-full px-[18px] py-[12px] text-black text-[14px]"
                   placeholder="Search Anything"
-                  aria-label="Search products"
+                  ariaLabel="Search products"
                 />
               </div>
 
@@ -378,6 +344,15 @@ const Navigation: React.FC<NavigationProps> = ({
                 </button>
               )}
 
+              {/* Notifications */}
+              {userLoggedIn && id && (
+                <NotificationCenter
+                  userId={id}
+                  buttonClassName="p-2 rounded-full text-white hover:bg-gray-800 transition-colors focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                  iconClassName="w-5 h-5 md:w-6 md:h-6"
+                />
+              )}
+
               {/* Cart */}
               <div
                 className="relative"
@@ -386,13 +361,7 @@ const Navigation: React.FC<NavigationProps> = ({
               >
                 <button
                   className="cursor-pointer relative focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2 rounded-full p-1"
-                  onClick={() => {
-                    if (!userLoggedIn) {
-                      router.push("/login");
-                    } else {
-                      router.push("/cart");
-                    }
-                  }}
+                  onClick={() => router.push("/cart")}
                   aria-label={`Cart with ${numberOfCartItems} items`}
                 >
                   <Image
@@ -409,14 +378,14 @@ const Navigation: React.FC<NavigationProps> = ({
                   )}
                 </button>
 
-                {/* Cart Hover Dropdown - Shows for both logged in and logged out users */}
+                {/* Cart Hover Dropdown - guests see their browser-kept cart, or a login prompt when it is empty */}
                 {isCartHoverOpen && (
                   <div className="w-[300px] lg:w-[400px] bg-[#F5F5F5] p-[10px] absolute right-0 lg:right-[2%] top-[55px] md:top-[60px] drop-shadow-lg rounded-[10px] ring-gray-800 ring-[0.5px] z-[110] hidden md:block">
                     <div className="max-h-[300px] overflow-y-auto">
-                      {!userLoggedIn ? (
+                      {!userLoggedIn && numberOfCartItems === 0 ? (
                         <div className="flex flex-col items-center justify-center p-4">
                           <p className="text-black text-center leading-[20px] mb-4">
-                            Please login to add products to your cart
+                            Your cart is empty. Log in to see your saved cart
                           </p>
                           <button
                             onClick={() => router.push("/login")}
@@ -427,7 +396,7 @@ const Navigation: React.FC<NavigationProps> = ({
                         </div>
                       ) : cart && cart.products && cart.products.length > 0 ? (
                         cart.products.slice(0, 3).map((item, index) => {
-                          const product = productsDetail.find(p => p.name); // Better product matching logic needed
+                          const product = findProduct(item.productId);
                           if (!product) return null;
 
                           return (
@@ -464,7 +433,7 @@ const Navigation: React.FC<NavigationProps> = ({
                         </p>
                       )}
                     </div>
-                    {userLoggedIn && cart && cart.products && cart.products.length > 0 && (
+                    {cart && cart.products && cart.products.length > 0 && (
                       <button
                         onClick={() => router.push("/cart")}
                         className="text-white bg-gradient-to-r from-emerald-600 to-teal-600 w-full py-[8px] flex items-center justify-center rounded-[5px] cursor-pointer mt-[8px] hover:from-emerald-700 hover:to-teal-700 transition-all focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2 font-medium"
@@ -476,11 +445,11 @@ const Navigation: React.FC<NavigationProps> = ({
                 )}
 
                 {/* Mobile Cart Tooltip */}
-                {isCartHoverOpen && !userLoggedIn && (
+                {isCartHoverOpen && !userLoggedIn && numberOfCartItems === 0 && (
                   <div className="md:hidden absolute right-0 top-[45px] w-[250px] bg-[#F5F5F5] p-[10px] drop-shadow-lg rounded-[10px] ring-gray-800 ring-[0.5px] z-[110]">
                     <div className="flex flex-col items-center justify-center p-2">
                       <p className="text-black text-center leading-[18px] mb-3 text-sm">
-                        Please login to add products to your cart
+                        Your cart is empty. Log in to see your saved cart
                       </p>
                       <button
                         onClick={() => router.push("/login")}
@@ -520,13 +489,14 @@ const Navigation: React.FC<NavigationProps> = ({
 
               {/* Search Input */}
               <div className="flex space-x-2">
-                <input
+                <SearchAutocomplete
                   value={query}
-                  onChange={(e) => setQuery(e.target.value)}
-                  onKeyPress={handleKeyPress}
-                  className="flex-1 p-3 border border-gray-300 rounded-lg focus:outline-none focus:border-[#FDAA1C] focus:ring-2 focus:ring-[#FDAA1C] focus:ring-opacity-50 placeholder-gray-500 text-black"
+                  onChange={setQuery}
+                  onSearch={runSearch}
+                  className="flex-1"
+                  inputClassName="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:border-[#FDAA1C] focus:ring-2 focus:ring-[#FDAA1C] focus:ring-opacity-50 placeholder-gray-500 text-black"
                   placeholder="Search products..."
-                  aria-label="Mobile search input"
+                  ariaLabel="Mobile search input"
                 />
                 <button
                   onClick={handleSearch}
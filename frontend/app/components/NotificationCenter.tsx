@@ -0,0 +1,172 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { Bell, Check, CheckCheck, Trash2, WifiOff, X } from "lucide-react";
+import { useNotifications } from "../lib/notifications";
+
+interface NotificationCenterProps {
+  userId: string;
+  // The bell button, to suit the bar it sits in
+  buttonClassName?: string;
+  iconClassName?: string;
+}
+
+const timeAgo = (date: string): string => {
+  const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 1) return "Just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d ago`;
+  return new Date(date).toLocaleDateString();
+};
+
+// A bell with the unread count that opens a drawer of the user's
+// notifications, new ones arriving as they are sent. Shared by the storefront,
+// vendor and admin bars.
+export default function NotificationCenter({
+  userId,
+  buttonClassName = "p-2 rounded-full bg-gray-100 hover:bg-gray-200 transition-colors",
+  iconClassName = "w-5 h-5 text-gray-600",
+}: NotificationCenterProps) {
+  const { notifications, unreadCount, loading, live, markRead, markAllRead, remove } = useNotifications(userId);
+  const [open, setOpen] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(false);
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [open]);
+
+  const badge = unreadCount > 99 ? "99+" : String(unreadCount);
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className={`relative ${buttonClassName}`}
+        aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : "Notifications"}
+        aria-haspopup="dialog"
+        aria-expanded={open}
+      >
+        <Bell className={iconClassName} />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 flex items-center justify-center rounded-full bg-red-500 text-white text-[10px] font-bold leading-none">
+            {badge}
+          </span>
+        )}
+      </button>
+
+      {/* In a portal: a filtered or transformed bar would otherwise hold the drawer inside it */}
+      {open &&
+        createPortal(
+          <div className="fixed inset-0 z-[200] flex justify-end">
+            <div className="absolute inset-0 bg-black/40" onClick={() => setOpen(false)} />
+            <aside
+              role="dialog"
+              aria-modal="true"
+              aria-label="Notifications"
+              className="relative w-full max-w-md h-full bg-white shadow-2xl flex flex-col text-gray-900"
+            >
+              <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200">
+                <div>
+                  <h2 className="text-lg font-semibold">Notifications</h2>
+                  <p className="text-xs text-gray-500">
+                    {unreadCount > 0 ? `${unreadCount} unread` : "You're all caught up"}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={markAllRead}
+                    disabled={unreadCount === 0}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm text-emerald-700 rounded-lg hover:bg-emerald-50 disabled:text-gray-300 disabled:hover:bg-transparent transition-colors"
+                  >
+                    <CheckCheck className="w-4 h-4" />
+                    Mark all read
+                  </button>
+                  <button
+                    onClick={() => setOpen(false)}
+                    className="p-2 text-gray-500 rounded-lg hover:bg-gray-100 transition-colors"
+                    aria-label="Close notifications"
+                  >
+                    <X className="w-5 h-5" />
+                  </button>
+                </div>
+              </div>
+
+              {!live && !loading && (
+                <div className="flex items-center gap-2 px-5 py-2 bg-amber-50 text-amber-800 text-xs">
+                  <WifiOff className="w-4 h-4" />
+                  Reconnecting; anything that arrives meanwhile will show up here.
+                </div>
+              )}
+
+              <div className="flex-1 overflow-y-auto">
+                {loading ? (
+                  <p className="p-8 text-center text-sm text-gray-500">Loading notifications...</p>
+                ) : notifications.length === 0 ? (
+                  <div className="p-10 text-center">
+                    <div className="w-12 h-12 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-3">
+                      <Bell className="w-6 h-6 text-gray-400" />
+                    </div>
+                    <p className="text-sm text-gray-500">No notifications yet</p>
+                  </div>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {notifications.map((notification) => (
+                      <li
+                        key={notification._id}
+                        className={`flex gap-3 px-5 py-4 transition-colors ${
+                          notification.isRead ? "hover:bg-gray-50" : "bg-emerald-50/60 hover:bg-emerald-50"
+                        }`}
+                      >
+                        <span
+                          className={`mt-1.5 w-2 h-2 flex-shrink-0 rounded-full ${
+                            notification.isRead ? "bg-transparent" : "bg-emerald-500"
+                          }`}
+                          aria-hidden="true"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <p className={`text-sm ${notification.isRead ? "text-gray-700" : "font-semibold text-gray-900"}`}>
+                            {notification.title}
+                          </p>
+                          <p className="text-sm text-gray-600 mt-0.5">{notification.message}</p>
+                          <p className="text-xs text-gray-400 mt-1">{timeAgo(notification.createdAt)}</p>
+                        </div>
+                        <div className="flex flex-col gap-1">
+                          {!notification.isRead && (
+                            <button
+                              onClick={() => markRead(notification._id)}
+                              className="p-1 text-gray-400 hover:text-emerald-600 transition-colors"
+                              aria-label="Mark as read"
+                              title="Mark as read"
+                            >
+                              <Check className="w-4 h-4" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => remove(notification._id)}
+                            className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                            aria-label="Delete notification"
+                            title="Delete"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </aside>
+          </div>,
+          document.body
+        )}
+    </>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { BellRing, Moon } from "lucide-react";
+import { toast } from "react-toastify";
+import { NOTIFICATION_CHANNELS, NOTIFICATION_TYPES, useNotificationPreferences } from "../lib/notifications";
+
+interface NotificationSettingsProps {
+  userId: string;
+}
+
+const inputClass =
+  "w-full px-4 py-2.5 rounded-xl border-2 border-gray-200 focus:border-green-500 bg-white outline-none transition-colors";
+
+// Which notifications the shopper gets in the app, by email and by SMS, the
+// hours email and SMS should wait out, and where they go
+export default function NotificationSettings({ userId }: NotificationSettingsProps) {
+  const { preferences, loading, saving, error, dirty, toggle, setQuietHours, setContact, reset, save } =
+    useNotificationPreferences(userId);
+
+  const handleSave = async () => {
+    try {
+      await save();
+      toast.success("Notification preferences saved");
+    } catch (err: any) {
+      toast.error(err.message || "Failed to save notification preferences");
+    }
+  };
+
+  if (loading) return null;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 sm:p-8">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-green-100 rounded-lg">
+          <BellRing className="w-5 h-5 text-green-600" />
+        </div>
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Notification Preferences</h2>
+          <p className="text-sm text-gray-500">Choose what we tell you about, and how</p>
+        </div>
+      </div>
+
+      {error || !preferences ? (
+        <p className="text-sm text-red-600">{error || "Notification preferences are unavailable"}</p>
+      ) : (
+        <div className="space-y-6">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Notify me about</th>
+                  {NOTIFICATION_CHANNELS.map(({ channel, label }) => (
+                    <th key={channel} className="py-2 px-3 font-medium text-center whitespace-nowrap">
+                      {label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {NOTIFICATION_TYPES.map(({ type, label, description }) => (
+                  <tr key={type}>
+                    <td className="py-3 pr-4">
+                      <p className="font-medium text-gray-900">{label}</p>
+                      <p className="text-xs text-gray-500">{description}</p>
+                    </td>
+                    {NOTIFICATION_CHANNELS.map(({ channel, label: channelLabel }) => (
+                      <td key={channel} className="py-3 px-3 text-center">
+                        <input
+                          type="checkbox"
+                          checked={preferences.types[type][channel]}
+                          onChange={() => toggle(type, channel)}
+                          aria-label={`${label} by ${channelLabel}`}
+                          className="w-4 h-4 accent-green-600 cursor-pointer"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Send emails to</label>
+              <input
+                type="email"
+                value={preferences.contact.email}
+                onChange={(e) => setContact({ email: e.target.value })}
+                placeholder="Your account email"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Send SMS to</label>
+              <input
+                type="tel"
+                value={preferences.contact.phone}
+                onChange={(e) => setContact({ phone: e.target.value })}
+                placeholder="Your account phone number"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="p-4 rounded-xl bg-gray-50 border border-gray-100 space-y-3">
+            <label className="flex items-center gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={preferences.quietHours.enabled}
+                onChange={(e) =>
+                  setQuietHours({
+                    enabled: e.target.checked,
+                    // Quiet hours are the shopper's own
+                    ...(e.target.checked && { timezone: Intl.DateTimeFormat().resolvedOptions().timeZone }),
+                  })
+                }
+                className="w-4 h-4 accent-green-600"
+              />
+              <Moon className="w-4 h-4 text-indigo-500" />
+              <span className="font-medium text-gray-900">Quiet hours</span>
+            </label>
+            <p className="text-xs text-gray-500">
+              Emails and SMS that arrive in these hours wait until they end. In-app notifications still arrive.
+            </p>
+            {preferences.quietHours.enabled && (
+              <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                <span>From</span>
+                <input
+                  type="time"
+                  value={preferences.quietHours.start}
+                  onChange={(e) => setQuietHours({ start: e.target.value })}
+                  className="px-3 py-2 rounded-lg border-2 border-gray-200 focus:border-green-500 outline-none"
+                />
+                <span>to</span>
+                <input
+                  type="time"
+                  value={preferences.quietHours.end}
+                  onChange={(e) => setQuietHours({ end: e.target.value })}
+                  className="px-3 py-2 rounded-lg border-2 border-gray-200 focus:border-green-500 outline-none"
+                />
+                <span className="text-xs text-gray-500">({preferences.quietHours.timezone})</span>
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-3 pt-2">
+            <button
+              onClick={reset}
+              disabled={!dirty || saving}
+              className="px-6 py-2.5 bg-gray-200 hover:bg-gray-300 text-gray-800 rounded-xl font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Discard
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!dirty || saving}
+              className="px-6 py-2.5 bg-gradient-to-r from-green-500 to-green-600 hover:from-green-600 hover:to-green-700 text-white rounded-xl font-semibold transition-all shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? "Saving..." : "Save Preferences"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import React from "react";
+import { Order, StatusChange } from "../lib/types";
+
+// An order or its tracking view
+type TimelineOrder = Pick<
+  Order,
+  "status" | "orderTime" | "statusHistory" | "confirmedAt" | "shippedAt" | "deliveredAt" | "cancelledAt"
+>;
+
+interface OrderTimelineProps {
+  order: TimelineOrder;
+}
+
+const statusColor = (status: string): string => {
+  const normalizedStatus = status.toLowerCase();
+  if (normalizedStatus.includes("deliver")) return "bg-green-100 text-green-800 border-green-300";
+  if (normalizedStatus.includes("process") || normalizedStatus.includes("pending") || normalizedStatus.includes("confirm"))
+    return "bg-blue-100 text-blue-800 border-blue-300";
+  if (normalizedStatus.includes("cancel")) return "bg-red-100 text-red-800 border-red-300";
+  if (normalizedStatus.includes("ship")) return "bg-purple-100 text-purple-800 border-purple-300";
+  if (normalizedStatus.includes("refund")) return "bg-amber-100 text-amber-800 border-amber-300";
+  return "bg-gray-100 text-gray-800 border-gray-300";
+};
+
+// Orders placed before status history was recorded only carry timestamps
+const historyOf = (order: TimelineOrder): StatusChange[] => {
+  if (order.statusHistory?.length) return order.statusHistory;
+
+  const changes: StatusChange[] = [{ to: "Placed", at: order.orderTime }];
+  const stamped: [string, string | undefined][] = [
+    ["Confirmed", order.confirmedAt],
+    ["Shipped", order.shippedAt],
+    ["Delivered", order.deliveredAt],
+    ["Cancelled", order.cancelledAt],
+  ];
+  for (const [status, at] of stamped) {
+    if (at) changes.push({ to: status, at });
+  }
+  if (changes[changes.length - 1].to !== order.status) {
+    changes.push({ to: order.status, at: "" });
+  }
+  return changes;
+};
+
+const formatWhen = (at: string): string => {
+  if (!at) return "";
+  const date = new Date(at);
+  return `${date.toLocaleDateString("en-US", { month: "short", day: "numeric" })}, ${date.toLocaleTimeString("en-US", {
+    hour: "2-digit",
+    minute: "2-digit",
+  })}`;
+};
+
+// Every status the order has been through, oldest first, with who moved it there
+const OrderTimeline: React.FC<OrderTimelineProps> = ({ order }) => {
+  const changes = historyOf(order);
+
+  return (
+    <ol className="flex flex-wrap items-start gap-y-3">
+      {changes.map((change, index) => {
+        const isCurrent = index === changes.length - 1;
+        return (
+          <li key={`${change.to}-${index}`} className="flex items-start">
+            {index > 0 && <span className="mt-[14px] h-px w-6 sm:w-10 bg-gray-300" aria-hidden="true" />}
+            <div className="flex flex-col items-center text-center px-1 max-w-[140px]">
+              <span
+                className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                  isCurrent ? statusColor(change.to) : "bg-white text-gray-600 border-gray-200"
+                }`}
+              >
+                {change.to}
+              </span>
+              {change.at && <span className="mt-1 text-[11px] text-gray-500">{formatWhen(change.at)}</span>}
+              {change.actorRole && <span className="text-[11px] text-gray-400">by {change.actorRole}</span>}
+              {change.note && <span className="text-[11px] text-gray-500 italic break-words">{change.note}</span>}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default OrderTimeline;
@@ -4,6 +4,7 @@ import React from "react";
 import Image from "next/image";
 import { useRouter } from "next/navigation";
 import Star from "../images/log.png";
+import Highlight from "./Highlight";
 
 // Define interfaces for props
 interface Discount {
@@ -29,6 +30,8 @@ interface ProductProps {
   reviewCount?: number; // Keep for backward compatibility
   status?: string; // Added status from API
   quantity?: number; // Added quantity from API
+  highlights?: [number, number][]; // Spans of the name that matched a search
+  onSelect?: () => void; // Called when the card is opened
 }
 
 const ProductCard: React.FC<ProductProps> = ({
@@ -46,6 +49,8 @@ const ProductCard: React.FC<ProductProps> = ({
   reviewCount,
   status,
   quantity,
+  highlights,
+  onSelect,
 }) => {
   const router = useRouter();
 
@@ -80,6 +85,7 @@ const ProductCard: React.FC<ProductProps> = ({
     if (isOutOfStock) {
       return;
     }
+    onSelect?.();
 
     let url = `/product?productId=${encodeURIComponent(productId)}`;
     if (discountPrice) {
@@ -178,7 +184,7 @@ const ProductCard: React.FC<ProductProps> = ({
 
         {/* Product Name */}
         <h3 className="text-sm sm:text-base font-semibold text-gray-900 line-clamp-2 leading-tight min-h-[36px] group-hover:text-emerald-700 transition-colors">
-          {productName}
+          <Highlight text={productName} spans={highlights} />
         </h3>
 
         {/* Rating */}
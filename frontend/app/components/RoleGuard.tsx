@@ -0,0 +1,37 @@
+"use client";
+
+import React, { useEffect } from "react";
+import { useRouter } from "next/navigation";
+import Loading from "./Loading";
+import { HOME_BY_ROLE } from "../lib/roles";
+import { useSession } from "../lib/session";
+import { Role } from "../lib/types";
+
+interface RoleGuardProps {
+  allow: Role[];
+  // Lets signed-out visitors through, e.g. for browsing the catalog.
+  allowGuests?: boolean;
+  children: React.ReactNode;
+}
+
+// Renders its children only for the allowed roles. Anyone else is sent to their
+// own home route, and signed-out visitors to /login unless guests are allowed.
+const RoleGuard: React.FC<RoleGuardProps> = ({ allow, allowGuests = false, children }) => {
+  const { role, loading } = useSession();
+  const router = useRouter();
+
+  const permitted = role ? allow.includes(role) : allowGuests;
+
+  useEffect(() => {
+    if (loading || permitted) return;
+    router.replace(role ? HOME_BY_ROLE[role] : "/login");
+  }, [loading, permitted, role, router]);
+
+  if (loading || !permitted) {
+    return <Loading />;
+  }
+
+  return <>{children}</>;
+};
+
+export default RoleGuard;
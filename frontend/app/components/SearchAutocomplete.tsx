@@ -0,0 +1,288 @@
+"use client";
+
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import React, { useEffect, useId, useRef, useState } from "react";
+import { Clock, LayoutGrid, Search, TrendingUp } from "lucide-react";
+import Highlight from "./Highlight";
+import { SEARCH } from "../lib/api";
+import { noteSearchClick, recentSearches, rememberSearch } from "../lib/searchHistory";
+import { PopularSearch, ProductSuggestion, SearchSuggestions } from "../lib/types";
+
+const DEBOUNCE_MS = 200;
+const MIN_QUERY_LENGTH = 2;
+const MAX_TRENDING = 5;
+
+type SuggestionItem =
+  | { kind: "product"; product: ProductSuggestion }
+  | { kind: "category"; value: string; count: number }
+  | { kind: "recent"; term: string }
+  | { kind: "trending"; term: string };
+
+const SECTION_TITLES: Record<SuggestionItem["kind"], string> = {
+  product: "Products",
+  category: "Categories",
+  recent: "Recent searches",
+  trending: "Trending",
+};
+
+interface SearchAutocompleteProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Run a search for `term`, in `category` when one was picked
+  onSearch: (term: string, category?: string) => void;
+  inputClassName: string;
+  className?: string;
+  placeholder?: string;
+  ariaLabel?: string;
+}
+
+// A search box that suggests as you type: matching products with their
+// pictures, the categories they are in, the shopper's recent searches and
+// what others are searching for. Arrow keys move through the suggestions.
+const SearchAutocomplete: React.FC<SearchAutocompleteProps> = ({
+  value,
+  onChange,
+  onSearch,
+  inputClassName,
+  className = "",
+  placeholder,
+  ariaLabel,
+}) => {
+  const router = useRouter();
+  const [open, setOpen] = useState<boolean>(false);
+  const [activeIndex, setActiveIndex] = useState<number>(-1);
+  const [suggestions, setSuggestions] = useState<SearchSuggestions>({ products: [], categories: [] });
+  const [recent, setRecent] = useState<string[]>([]);
+  const [trending, setTrending] = useState<PopularSearch[] | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
+  const listId = useId();
+
+  const query = value.trim();
+  const typing = query.length >= MIN_QUERY_LENGTH;
+
+  // Ask for suggestions once typing pauses, cancelling any request still out
+  useEffect(() => {
+    if (!typing) {
+      requestRef.current?.abort();
+      setSuggestions({ products: [], categories: [] });
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      requestRef.current?.abort();
+      const controller = new AbortController();
+      requestRef.current = controller;
+      try {
+        const response = await SEARCH.SUGGESTIONS(query, controller.signal);
+        if (!controller.signal.aborted) setSuggestions(response.data);
+      } catch (error) {
+        if (!controller.signal.aborted) console.error("Error fetching suggestions:", error);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [query, typing]);
+
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [query, suggestions]);
+
+  const handleFocus = async () => {
+    setOpen(true);
+    setRecent(recentSearches());
+    if (trending === null) {
+      try {
+        const response = await SEARCH.POPULAR();
+        setTrending(response.data);
+      } catch (error) {
+        console.error("Error fetching trending searches:", error);
+        setTrending([]);
+      }
+    }
+  };
+
+  const lowerQuery = query.toLowerCase();
+  const items: SuggestionItem[] = typing
+    ? [
+        ...suggestions.products.map((product): SuggestionItem => ({ kind: "product", product })),
+        ...suggestions.categories.map(({ value, count }): SuggestionItem => ({ kind: "category", value, count })),
+        ...recent
+          .filter((term) => term.toLowerCase().startsWith(lowerQuery) && term.toLowerCase() !== lowerQuery)
+          .slice(0, 3)
+          .map((term): SuggestionItem => ({ kind: "recent", term })),
+      ]
+    : [
+        ...recent.map((term): SuggestionItem => ({ kind: "recent", term })),
+        ...(trending || [])
+          .filter(({ term }) => !recent.some((previous) => previous.toLowerCase() === term))
+          .slice(0, MAX_TRENDING)
+          .map(({ term }): SuggestionItem => ({ kind: "trending", term })),
+      ];
+
+  const close = () => {
+    setOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const search = (term: string, category?: string) => {
+    if (!term.trim()) return;
+    rememberSearch(term);
+    close();
+    onSearch(term.trim(), category);
+  };
+
+  const choose = (item: SuggestionItem) => {
+    switch (item.kind) {
+      case "product":
+        if (query) {
+          rememberSearch(query);
+          noteSearchClick(item.product._id, query);
+        }
+        close();
+        onChange("");
+        router.push(`/product?productId=${encodeURIComponent(item.product._id)}`);
+        break;
+      case "category":
+        search(query, item.value);
+        break;
+      default:
+        onChange(item.term);
+        search(item.term);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      if (items.length === 0) return;
+      e.preventDefault();
+      setOpen(true);
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      // -1 is back in the box, with what was typed
+      setActiveIndex((prev) => ((prev + 1 + step + items.length + 1) % (items.length + 1)) - 1);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (open && activeIndex >= 0 && items[activeIndex]) choose(items[activeIndex]);
+      else search(value);
+    } else if (e.key === "Escape") {
+      close();
+    }
+  };
+
+  const optionId = (index: number) => `${listId}-${index}`;
+
+  const renderItem = (item: SuggestionItem, index: number) => {
+    const active = index === activeIndex;
+    const base = `w-full flex items-center gap-3 px-4 py-2 text-left text-sm text-gray-800 ${
+      active ? "bg-emerald-50" : "hover:bg-gray-50"
+    }`;
+    const props = {
+      id: optionId(index),
+      role: "option",
+      "aria-selected": active,
+      className: base,
+      // Keep focus in the box so the list does not close before the click
+      onMouseDown: (e: React.MouseEvent) => e.preventDefault(),
+      onMouseEnter: () => setActiveIndex(index),
+      onClick: () => choose(item),
+    };
+
+    switch (item.kind) {
+      case "product":
+        return (
+          <li key={`product-${item.product._id}`} {...props}>
+            <div className="w-10 h-10 flex-shrink-0 rounded-lg bg-gray-100 overflow-hidden flex items-center justify-center">
+              {item.product.imageUrl ? (
+                <Image src={item.product.imageUrl} alt="" width={40} height={40} className="object-contain" />
+              ) : (
+                <Search className="w-4 h-4 text-gray-400" />
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="truncate font-medium">
+                <Highlight text={item.product.name} spans={item.product.highlights} />
+              </p>
+              <p className="text-xs text-gray-500 truncate">{item.product.category}</p>
+            </div>
+            <span className="text-xs font-semibold text-emerald-700 whitespace-nowrap">
+              Rs. {item.product.unitPrice?.toLocaleString()}
+            </span>
+          </li>
+        );
+      case "category":
+        return (
+          <li key={`category-${item.value}`} {...props}>
+            <LayoutGrid className="w-4 h-4 text-emerald-600" />
+            <span className="flex-1">
+              &ldquo;{query}&rdquo; in <span className="font-semibold">{item.value}</span>
+            </span>
+            <span className="text-xs text-gray-400">{item.count}</span>
+          </li>
+        );
+      case "recent":
+        return (
+          <li key={`recent-${item.term}`} {...props}>
+            <Clock className="w-4 h-4 text-gray-400" />
+            <span className="flex-1 truncate">{item.term}</span>
+          </li>
+        );
+      case "trending":
+        return (
+          <li key={`trending-${item.term}`} {...props}>
+            <TrendingUp className="w-4 h-4 text-amber-500" />
+            <span className="flex-1 truncate">{item.term}</span>
+          </li>
+        );
+    }
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <input
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={handleFocus}
+        onBlur={close}
+        onKeyDown={handleKeyDown}
+        className={inputClassName}
+        placeholder={placeholder}
+        aria-label={ariaLabel}
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={open && items.length > 0}
+        aria-controls={listId}
+        aria-activedescendant={activeIndex >= 0 ? optionId(activeIndex) : undefined}
+        autoComplete="off"
+      />
+
+      {open && items.length > 0 && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute left-0 right-0 top-full mt-1 z-50 max-h-96 overflow-y-auto bg-white rounded-lg shadow-xl border border-gray-200 py-2"
+        >
+          {items.map((item, index) => (
+            <React.Fragment key={`${item.kind}-${index}`}>
+              {(index === 0 || items[index - 1].kind !== item.kind) && (
+                <li
+                  role="presentation"
+                  className="px-4 pt-2 pb-1 text-[11px] font-semibold uppercase tracking-wider text-gray-400"
+                >
+                  {SECTION_TITLES[item.kind]}
+                </li>
+              )}
+              {renderItem(item, index)}
+            </React.Fragment>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SearchAutocomplete;
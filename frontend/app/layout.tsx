@@ -1,6 +1,9 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { ToastContainer } from "react-toastify";
 import "./globals.css";
+import { CartProvider } from "./lib/cart";
+import { SessionProvider } from "./lib/session";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -27,7 +30,10 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <SessionProvider>
+          <CartProvider>{children}</CartProvider>
+          <ToastContainer position="top-right" autoClose={5000} />
+        </SessionProvider>
       </body>
     </html>
   );
@@ -0,0 +1,469 @@
+// app/lib/api.ts
+// Typed client for every backend call the frontend makes. Each method resolves
+// with the response body and rejects with an `ApiError`.
+import axios, { AxiosResponse } from 'axios';
+import {
+  Address,
+  AddressInput,
+  AvailabilityBlock,
+  Advertisement,
+  ApiError,
+  Batch,
+  BatchInput,
+  BatchStatus,
+  Cart,
+  CartMergeItem,
+  CartMergeSummary,
+  CartResponse,
+  Coupon,
+  CouponInput,
+  CouponValidation,
+  CustomerDetails,
+  CustomerImpact,
+  DeliverySlot,
+  DispatchPlan,
+  Discount,
+  DivertedReport,
+  Envelope,
+  Impact,
+  ImpactFactor,
+  ExpiryReportRow,
+  FleetReminder,
+  FleetTrip,
+  FleetUtilization,
+  InventoryItem,
+  MaintenanceEntry,
+  Notification,
+  NotificationPreferences,
+  NotificationPreferencesInput,
+  Order,
+  OrderAddress,
+  OrderTracking,
+  OrderVehicle,
+  Payment,
+  PaymentAttempt,
+  PaymentMethod,
+  Product,
+  ProductCategory,
+  Promotion,
+  PromotionInput,
+  Quote,
+  Receipt,
+  Refund,
+  RefundRequest,
+  ReturnInput,
+  ReturnPolicy,
+  ReturnRequest,
+  PopularSearch,
+  SearchAnalytics,
+  SearchEventType,
+  SearchParams,
+  SearchResults,
+  SearchSuggestions,
+  ReturnStatus,
+  Review,
+  Role,
+  Session,
+  ShipmentStatus,
+  StatusTransitions,
+  StockLevel,
+  StockMovement,
+  StockMovementInput,
+  Surplus,
+  SurplusInput,
+  SurplusPickup,
+  SurplusStatus,
+  User,
+  Vehicle,
+  VehicleProfile,
+  VendorDetails,
+  VendorImpact,
+  VendorShipment,
+} from './types';
+
+export const BASE_URL = '/api/proxy';
+
+// The payment service, reached directly rather than through the proxy, so card
+// details typed into its hosted fields never pass through the storefront
+export const PAYMENT_FIELDS_ORIGIN = new URL(
+  process.env.NEXT_PUBLIC_PAYMENT_FIELDS_ORIGIN || 'http://localhost:3006'
+).origin;
+
+const api = axios.create({
+  baseURL: BASE_URL,
+  withCredentials: true,
+});
+
+export async function apiHandler<T>(promise: Promise<AxiosResponse<T>>): Promise<T> {
+  try {
+    const response = await promise;
+    return response.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+}
+
+export function toApiError(error: unknown): ApiError {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data;
+    return {
+      message: data?.message || data?.error || error.message,
+      status: error.response?.status,
+      data,
+    };
+  }
+  if (error && typeof error === 'object' && 'message' in error) {
+    return error as ApiError;
+  }
+  return { message: 'An unexpected error occurred' };
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return !!error && typeof error === 'object' && typeof (error as ApiError).message === 'string';
+}
+
+const get = <T>(url: string, params?: object) => apiHandler<T>(api.get(url, { params }));
+const post = <T>(url: string, body?: unknown) => apiHandler<T>(api.post(url, body));
+const put = <T>(url: string, body?: unknown) => apiHandler<T>(api.put(url, body));
+const del = <T>(url: string) => apiHandler<T>(api.delete(url));
+
+// ==== Auth ====
+export interface LoginBody {
+  username: string;
+  password: string;
+}
+
+export const AUTH = {
+  SESSION: () => get<Session>('/check-cookie'),
+  LOGIN: (body: LoginBody) => post<{ role: Role }>('/api/auth/login', body),
+  LOGOUT: () => post<void>('/logout'),
+  REGISTER_INDIVIDUAL: (body: Record<string, string>) => post<unknown>('/api/auth/registerIndividualCustomer', body),
+  REGISTER_COMPANY: (body: Record<string, string>) => post<unknown>('/api/auth/registerCompanyCustomer', body),
+  REGISTER_ADMIN: (body: Record<string, string>) => post<unknown>('/api/auth/registerAdmin', body),
+  REGISTER_VENDOR: (body: Record<string, string>) => post<unknown>('/api/auth/registerVendor', body),
+  UPDATE_ADMIN: (body: Record<string, string>) => post<unknown>('/api/auth/updateAdmin', body),
+  UPDATE_VENDOR: (body: Record<string, string>) => post<unknown>('/api/auth/updateVendor', body),
+  USERS: () => get<User[]>('/api/auth'),
+};
+
+// ==== Customers & admins ====
+export const CUSTOMER = {
+  // The legacy endpoint answers with an array whose third entry holds the profile.
+  DETAILS: (userId: string) => get<CustomerDetails[]>(`/customers/details/${userId}`),
+  UPDATE: (body: Partial<CustomerDetails> & { id: string; password?: string }) =>
+    post<unknown>('/customers/update', body),
+};
+
+export const ADDRESS = {
+  LIST: (userId: string) => get<Envelope<Address[]>>(`/customers/${userId}/addresses`),
+  CREATE: (userId: string, body: AddressInput) => post<Envelope<Address[]>>(`/customers/${userId}/addresses`, body),
+  UPDATE: (userId: string, addressId: string, body: AddressInput) =>
+    put<Envelope<Address[]>>(`/customers/${userId}/addresses/${addressId}`, body),
+  DELETE: (userId: string, addressId: string) => del<Envelope<void>>(`/customers/${userId}/addresses/${addressId}`),
+};
+
+export const ADMIN = {
+  DETAILS: (userId: string) => get<User>(`/admin/${userId}`),
+};
+
+// ==== Catalog ====
+export const PRODUCT = {
+  LIST: () => get<Product[]>('/products'),
+  READ: () => get<Product[]>('/products/read'),
+  BY_CATEGORY: (categoryId: string) => get<Product[]>(`/products/category/${categoryId}`),
+  // Older deployments wrap the product in an array or an index-keyed object.
+  GET: async (productId: string): Promise<Product> => {
+    const data = await get<Product | Product[] | { 0: Product } | null>(`/products/${productId}`);
+    const product = !data ? undefined : Array.isArray(data) ? data[0] : '0' in data ? data[0] : data;
+    if (!product?._id) {
+      throw { message: 'Invalid data format received from API', data } as ApiError;
+    }
+    return product;
+  },
+  // `batch` records the opening stock as a dated batch
+  CREATE: (body: Partial<Product> & { batch?: BatchInput }) => post<Product>('/products', body),
+  UPDATE: (productId: string, body: Partial<Product>) => put<Product>(`/products/${productId}`, body),
+  DELETE: (productId: string) => del<{ message?: string }>(`/products/${productId}`),
+};
+
+export const CATEGORY = {
+  LIST: () => get<ProductCategory[]>('/productcategories'),
+};
+
+export const REVIEW = {
+  LIST: (productId: string) => get<Review[]>(`/reviews/${productId}`),
+  CREATE: (body: { productId: string; userId: string; comment: string; rating: number }) =>
+    post<Review>('/reviews', body),
+};
+
+export const DISCOUNT = {
+  LIST: () => get<Discount[]>('/api/discount/'),
+  CREATE: (body: { productId: string; percentage: number; status: boolean }) =>
+    post<Discount>('/api/discount/create', body),
+  UPDATE: (id: string, body: { percentage: number; status: boolean }) =>
+    put<Discount>(`/api/discount/update/${id}`, body),
+  DELETE: (id: string) => del<void>(`/api/discount/delete/${id}`),
+};
+
+export const ADVERTISEMENT = {
+  LIST: () => get<Advertisement[]>('/advertisement/'),
+};
+
+// ==== Search ====
+export const SEARCH = {
+  PRODUCTS: (params: SearchParams) => get<SearchResults>('/search/products', params),
+  // Pass a signal to cancel a request that a newer keystroke has replaced
+  SUGGESTIONS: (q: string, signal?: AbortSignal) =>
+    apiHandler<Envelope<SearchSuggestions>>(api.get('/search/suggestions', { params: { q }, signal })),
+  POPULAR: () => get<Envelope<PopularSearch[]>>('/search/popular'),
+  TRACK: (body: { type: SearchEventType; query: string; productId: string }) =>
+    post<Envelope<unknown>>('/search/events', body),
+  // Admins; `from` and `to` are YYYY-MM-DD
+  ANALYTICS: (params: { from?: string; to?: string; limit?: number }) =>
+    get<Envelope<SearchAnalytics>>('/search/analytics', params),
+};
+
+// ==== Cart ====
+export const CART = {
+  GET: (userId: string) => get<CartResponse>(`/cart/${userId}`),
+  ADD: (body: { userId: string; productId: string; quantity: number }) =>
+    post<{ success: boolean; cartItemId?: string }>('/cart', body),
+  UPDATE: (body: { cartId: string; productId: string; updatedQuantity: number }) =>
+    post<Cart>('/cart/update/', body),
+  REMOVE: (body: { cartId: string; productId: string }) => post<Cart>('/cart/delete/', body),
+  MERGE: (userId: string, items: CartMergeItem[]) =>
+    post<{ success: boolean; cart: Cart; summary: CartMergeSummary }>(`/cart/${userId}/items`, { items }),
+};
+
+// ==== Orders ====
+export interface CheckoutBody {
+  cart: Cart;
+  couponCode: string | null;
+  expectedTotal: number;
+  shippingAddress: OrderAddress;
+  deliverySlot: string;
+  paymentMethod: PaymentMethod;
+  idempotencyKey: string;
+}
+
+export const ORDER = {
+  LIST: (range?: { startDate: string; endDate: string }) => get<Order[]>('/orders/', range),
+  HISTORY: (userId: string) => get<Order[]>(`/orders/history/${userId}`),
+  BY_VENDOR: (vendorId: string) => get<Order[]>(`/orders/vendor/${vendorId}`),
+  GET: (orderId: string) => get<Envelope<Order>>(`/orders/${orderId}`),
+  // `expectedTotal` is the quote total the customer confirmed; the server refuses
+  // the order with a 409 and the fresh quote if its own total differs.
+  // Repeating a request with the same `idempotencyKey` returns the first order.
+  CHECKOUT: (body: CheckoutBody) => post<Envelope<Order>>('/orders/checkout', body),
+  DELIVERY_SLOTS: () => get<Envelope<DeliverySlot[]>>('/orders/delivery-slots'),
+  // Only moves in the status graph are accepted: 409 for a move it does not
+  // have, 403 for one the signed-in role may not make.
+  UPDATE_STATUS: (orderId: string, body: { status: string; note?: string; trackingNumber?: string; carrier?: string }) =>
+    put<Envelope<Order>>(`/orders/${orderId}/status`, body),
+  STATUS_TRANSITIONS: () => get<Envelope<StatusTransitions>>('/orders/status-transitions'),
+  // A vendor's own part of each of their orders
+  VENDOR_SHIPMENTS: (vendorId: string) => get<Envelope<VendorShipment[]>>(`/orders/vendor/${vendorId}/shipments`),
+  // Handing over (`Shipped`) takes the tracking number and carrier
+  UPDATE_SHIPMENT: (
+    orderId: string,
+    vendorId: string,
+    body: { status: ShipmentStatus; note?: string; trackingNumber?: string; carrier?: string }
+  ) => put<Envelope<Order>>(`/orders/${orderId}/shipments/${vendorId}/status`, body),
+  // Live updates of the same view arrive on the socket (see lib/tracking.ts)
+  TRACKING: (orderId: string) => get<Envelope<OrderTracking>>(`/orders/${orderId}/tracking`),
+  // Admins only; `null` takes the vehicle off the order
+  ASSIGN_VEHICLE: (orderId: string, vehicle: Omit<OrderVehicle, 'assignedAt'> | null) =>
+    put<Envelope<Order>>(`/orders/${orderId}/vehicle`, vehicle ?? { vehicleId: null }),
+};
+
+// ==== Returns ====
+export const RETURNS = {
+  POLICY: () => get<Envelope<ReturnPolicy>>('/orders/returns/policy'),
+  // 409 when the item was not delivered, the window has passed or the
+  // quantity is more than is left to return
+  CREATE: (body: ReturnInput) => post<Envelope<ReturnRequest>>('/orders/returns', body),
+  BY_USER: (userId: string) => get<Envelope<ReturnRequest[]>>(`/orders/returns/user/${userId}`),
+  BY_VENDOR: (vendorId: string) => get<Envelope<ReturnRequest[]>>(`/orders/returns/vendor/${vendorId}`),
+  // Escalated requests come first
+  LIST: (status?: ReturnStatus) => get<Envelope<ReturnRequest[]>>('/orders/returns', status ? { status } : undefined),
+  // Approving refunds or replaces the item before answering
+  DECIDE: (returnId: string, body: { decision: 'approve' | 'reject'; note?: string }) =>
+    put<Envelope<ReturnRequest>>(`/orders/returns/${returnId}/decision`, body),
+  VENDOR_DECIDE: (vendorId: string, returnId: string, body: { decision: 'approve' | 'reject'; note?: string }) =>
+    put<Envelope<ReturnRequest>>(`/orders/returns/vendor/${vendorId}/${returnId}/decision`, body),
+  // A rejected request can be taken to an admin once
+  ESCALATE: (returnId: string, note?: string) =>
+    post<Envelope<ReturnRequest>>(`/orders/returns/${returnId}/escalate`, { note }),
+  RESOLVE: (returnId: string) => post<Envelope<ReturnRequest>>(`/orders/returns/${returnId}/resolve`, {}),
+  PHOTO_URL: (returnId: string, index: number) => `${BASE_URL}/orders/returns/${returnId}/photos/${index}`,
+};
+
+// ==== Pricing ====
+export interface QuoteBody {
+  items: Array<{ productId: string; quantity: number }>;
+  couponCode?: string | null;
+  customerId?: string | null;
+}
+
+export const PRICING = {
+  QUOTE: (body: QuoteBody) => post<Envelope<Quote>>('/orders/quote', body),
+};
+
+// ==== Payments, coupons & receipts ====
+export const PAYMENT = {
+  LIST: () => get<Envelope<Payment[]>>('/payments'),
+  // One key per payment try: repeating it returns the same attempt.
+  INITIATE: (body: { orderId: string; userId: string; paymentMethod: PaymentMethod; idempotencyKey: string }) =>
+    post<Envelope<PaymentAttempt>>('/payments/initiate', body),
+  // Cards are paid with `{ token }` from the hosted fields, UPI with `{ upiId }`.
+  PROCESS: (paymentId: string, details: Record<string, unknown>) =>
+    post<Envelope<PaymentAttempt>>(`/payments/process/${paymentId}`, details),
+  GET: (paymentId: string) => get<Envelope<PaymentAttempt>>(`/payments/${paymentId}`),
+  REFUND: (paymentId: string, body: RefundRequest) =>
+    post<Envelope<{ paymentId: string; status: string; refundedAmount: number; refund: Refund }>>(
+      `/payments/${paymentId}/refund`,
+      body
+    ),
+  REFUNDS: (paymentId: string) => get<Envelope<Refund[]>>(`/payments/${paymentId}/refunds`),
+  // Page the payment service serves for typing in card details, embedded in an
+  // iframe from the payment service's own origin
+  HOSTED_FIELDS_URL: (origin: string) =>
+    `${PAYMENT_FIELDS_ORIGIN}/hosted-fields/card?origin=${encodeURIComponent(origin)}`,
+};
+
+export const COUPON = {
+  LIST: () => get<Envelope<Coupon[]>>('/coupons'),
+  CREATE: (body: CouponInput) => post<Envelope<Coupon>>('/coupons', body),
+  UPDATE: (couponId: string, body: Partial<Coupon>) => put<Envelope<Coupon>>(`/coupons/${couponId}`, body),
+  DELETE: (couponId: string) => del<Envelope<void>>(`/coupons/${couponId}`),
+  // Answers 400 with the same payload when the code does not apply.
+  VALIDATE: (body: { code: string; products: QuoteBody['items']; customerId?: string | null }) =>
+    post<Envelope<CouponValidation>>('/coupons/validate', body),
+};
+
+export const PROMOTION = {
+  LIST: () => get<Envelope<Promotion[]>>('/admin/promotions/all'),
+  CREATE: (body: PromotionInput) => post<Envelope<Promotion>>('/admin/promotions', body),
+  UPDATE: (id: string, body: Partial<PromotionInput>) => put<Envelope<Promotion>>(`/admin/promotions/${id}`, body),
+  DELETE: (id: string) => del<Envelope<void>>(`/admin/promotions/${id}`),
+};
+
+export const RECEIPT = {
+  CREATE: (paymentId: string) => post<Envelope<Receipt>>('/receipts', { paymentId }),
+  GET: (receiptId: string) => get<Envelope<Receipt>>(`/receipts/${receiptId}`),
+  PDF: (receiptId: string) => apiHandler<Blob>(api.get(`/receipts/pdf/${receiptId}`, { responseType: 'blob' })),
+};
+
+// ==== Impact ====
+export const IMPACT = {
+  ORDER: (orderId: string) => get<Envelope<Impact>>(`/orders/${orderId}/impact`),
+  CUSTOMER: (userId: string) => get<Envelope<CustomerImpact>>(`/orders/user/${userId}/impact`),
+  VENDOR: (vendorId: string) => get<Envelope<VendorImpact>>(`/orders/vendor/${vendorId}/impact`),
+  // Admins only; saving replaces the whole table
+  FACTORS: () => get<Envelope<ImpactFactor[]>>('/admin/impact/factors'),
+  SET_FACTORS: (factors: ImpactFactor[]) => put<Envelope<ImpactFactor[]>>('/admin/impact/factors', { factors }),
+};
+
+// ==== Notifications ====
+export const NOTIFICATION = {
+  // `since` (an ISO time) returns only notifications created after it
+  LIST: (userId: string, params?: { page?: number; limit?: number; unreadOnly?: boolean; since?: string }) =>
+    get<Notification[]>(`/notification/${userId}`, params),
+  UNREAD_COUNT: (userId: string) => get<Envelope<{ count: number }>>(`/notification/${userId}/unread-count`),
+  MARK_READ: (notificationId: string) => put<{ success: boolean }>(`/notification/${notificationId}/read`),
+  MARK_ALL_READ: (userId: string) => put<{ success: boolean }>(`/notification/${userId}/read-all`),
+  DELETE: (notificationId: string) => del<void>(`/notification/${notificationId}`),
+  PREFERENCES: (userId: string) => get<Envelope<NotificationPreferences>>(`/notification/${userId}/preferences`),
+  // Only the parts given change
+  UPDATE_PREFERENCES: (userId: string, body: NotificationPreferencesInput) =>
+    put<Envelope<NotificationPreferences>>(`/notification/${userId}/preferences`, body),
+};
+
+// ==== Stock ====
+// Stock only changes through product-service's ledger; checkouts reserve and
+// sell units through order-service.
+export const STOCK = {
+  LEVELS: (params: { vendorId?: string; lowOnly?: boolean }) => get<Envelope<StockLevel[]>>('/products/stock/levels', params),
+  MOVEMENTS: (productId: string, limit?: number) =>
+    get<Envelope<StockMovement[]>>('/products/stock/movements', { productId, limit }),
+  // 409 when it would leave fewer units on hand than are reserved
+  RECORD: (body: StockMovementInput) => post<Envelope<StockLevel>>('/products/stock/movements', body),
+  SET_THRESHOLD: (productId: string, lowStockThreshold: number) =>
+    put<Envelope<StockLevel>>(`/products/stock/${productId}/threshold`, { lowStockThreshold }),
+  BATCHES: (params: { productId?: string; vendorId?: string; status?: BatchStatus }) =>
+    get<Envelope<Batch[]>>('/products/stock/batches', params),
+  // Batches expiring within `days` and those expired over the past `days`
+  EXPIRY_REPORT: (vendorId: string, days?: number) =>
+    get<Envelope<ExpiryReportRow[]>>('/products/stock/expiry-report', { vendorId, days }),
+  // Marks the batch's product down by `percent` off its original price
+  MARKDOWN: (batchId: string, percent: number) =>
+    post<Envelope<unknown>>(`/products/stock/batches/${batchId}/markdown`, { percent }),
+};
+
+// Unsold and expired stock on its way to recycling or fertilizer. Declaring
+// takes units still on hand out of stock; cancelling puts them back.
+export const SURPLUS = {
+  LIST: (params?: { vendorId?: string; status?: SurplusStatus }) => get<Envelope<Surplus[]>>('/products/surplus', params),
+  DECLARE: (body: SurplusInput) => post<Envelope<Surplus>>('/products/surplus', body),
+  SCHEDULE: (id: string, body: SurplusPickup) => put<Envelope<Surplus>>(`/products/surplus/${id}/schedule`, body),
+  COLLECT: (id: string, body: { collectedKg: number; inventoryItemId?: string }) =>
+    put<Envelope<Surplus>>(`/products/surplus/${id}/collect`, body),
+  CANCEL: (id: string, reason?: string) => put<Envelope<Surplus>>(`/products/surplus/${id}/cancel`, { reason }),
+  // Kilograms collected, per vendor and per month
+  DIVERTED: (params?: { from?: string; to?: string; vendorId?: string }) =>
+    get<Envelope<DivertedReport>>('/products/surplus/diverted', params),
+};
+
+// ==== Vendors ====
+export const VENDOR = {
+  DETAILS: (userId: string) => get<VendorDetails>(`/vendors/${userId}`),
+};
+
+// ==== Admin inventory ====
+export const INVENTORY = {
+  LIST: () => get<InventoryItem[]>('/inventory'),
+  CREATE: (body: Omit<InventoryItem, '_id'>) => post<InventoryItem>('/inventory', body),
+  UPDATE: (id: string, body: Partial<InventoryItem>) => put<InventoryItem>(`/inventory/${id}`, body),
+  DELETE: (id: string) => del<void>(`/inventory/${id}`),
+};
+
+// Planning is done by order-service from its orders and the vehicles and
+// inventory loads sent with the request. Admins only.
+export const DISPATCH = {
+  PLAN: (body: { date?: string; vehicles: Vehicle[]; inventory: InventoryItem[] }) =>
+    post<Envelope<DispatchPlan>>('/orders/dispatch/plan', body),
+  // Orders no longer waiting for dispatch are skipped and listed
+  ASSIGN: (runs: Array<{ vehicle: DispatchPlan['runs'][number]['vehicle']; orderIds: string[] }>) =>
+    post<Envelope<{ assigned: number; skipped: Array<{ orderId: string; orderNumber: string; reason: string }> }>>(
+      '/orders/dispatch/assign',
+      { runs }
+    ),
+};
+
+// Documents, maintenance, availability and trips of the vehicles above, kept
+// by admin-service under the vehicle's id
+export const FLEET = {
+  PROFILES: () => get<Envelope<VehicleProfile[]>>('/admin/fleet/vehicles'),
+  UPDATE_DOCUMENTS: (vehicleId: string, body: Pick<VehicleProfile, 'insuranceExpiry' | 'registrationExpiry'>) =>
+    put<Envelope<VehicleProfile>>(`/admin/fleet/vehicles/${vehicleId}`, body),
+  ADD_MAINTENANCE: (vehicleId: string, body: Omit<MaintenanceEntry, '_id'>) =>
+    post<Envelope<VehicleProfile>>(`/admin/fleet/vehicles/${vehicleId}/maintenance`, body),
+  DELETE_MAINTENANCE: (vehicleId: string, entryId: string) =>
+    del<Envelope<VehicleProfile>>(`/admin/fleet/vehicles/${vehicleId}/maintenance/${entryId}`),
+  BLOCK: (vehicleId: string, body: Omit<AvailabilityBlock, '_id'>) =>
+    post<Envelope<VehicleProfile>>(`/admin/fleet/vehicles/${vehicleId}/availability`, body),
+  UNBLOCK: (vehicleId: string, blockId: string) =>
+    del<Envelope<VehicleProfile>>(`/admin/fleet/vehicles/${vehicleId}/availability/${blockId}`),
+  // Expired and soon-to-expire documents, and maintenance falling due
+  REMINDERS: (days?: number) => get<Envelope<FleetReminder[]>>('/admin/fleet/reminders', days ? { days } : undefined),
+  RECORD_TRIPS: (trips: FleetTrip[]) => post<Envelope<FleetTrip[]>>('/admin/fleet/trips', { trips }),
+  UTILIZATION: (params: { from: string; to: string; vehicleIds: string[] }) =>
+    get<Envelope<FleetUtilization>>('/admin/fleet/utilization', { ...params, vehicleIds: params.vehicleIds.join(',') }),
+};
+
+export const VEHICLE = {
+  LIST: () => get<Vehicle[]>('/vehicle'),
+  CREATE: (body: Omit<Vehicle, '_id'>) => post<Vehicle>('/vehicle', body),
+  UPDATE: (id: string, body: Partial<Vehicle>) => put<Vehicle>(`/vehicle/${id}`, body),
+  DELETE: (id: string) => del<void>(`/vehicle/${id}`),
+};
@@ -0,0 +1,365 @@
+// app/lib/cart.tsx
+// Client-side cart store. Mutations are applied optimistically, rolled back if
+// the server rejects them, and mirrored to other open tabs over BroadcastChannel.
+// Signed-out visitors get a cart kept in localStorage, merged into their own
+// cart when they log in as a customer.
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { CART } from "./api";
+import { noteAddToCart } from "./searchHistory";
+import { useSession } from "./session";
+import { Cart, CartItem, CartMergeSummary, Product } from "./types";
+
+const CHANNEL_NAME = "ecoharvest-cart";
+const GUEST_STORAGE_KEY = "ecoharvest-guest-cart";
+
+const EMPTY_CART: Cart = { _id: "", products: [], totalAmount: 0 };
+
+interface CartSnapshot {
+  cart: Cart;
+  products: Product[];
+}
+
+// Messages exchanged between tabs. Each carries the sender's user id (empty for
+// guests) so a tab signed in as someone else ignores it.
+type CartMessage =
+  | { type: "sync"; userId: string; snapshot: CartSnapshot }
+  | { type: "clear"; userId: string };
+
+export interface CartState {
+  cart: Cart;
+  products: Product[];
+  itemCount: number;
+  loading: boolean;
+  findProduct: (productId: string) => Product | undefined;
+  addItem: (product: Product, quantity: number) => Promise<void>;
+  updateItem: (productId: string, quantity: number) => Promise<void>;
+  removeItem: (productId: string) => Promise<void>;
+  refresh: () => Promise<void>;
+  reset: () => void;
+  mergeGuestCart: (userId: string) => Promise<CartMergeSummary | null>;
+}
+
+const CartContext = createContext<CartState | null>(null);
+
+const totalOf = (items: CartItem[], products: Product[]): number =>
+  items.reduce((total, item) => {
+    const product = products.find((p) => p._id === item.productId);
+    const unitPrice = product ? product.unitPrice : item.price ?? 0;
+    return total + unitPrice * item.quantity;
+  }, 0);
+
+const readGuestCart = (): CartSnapshot => {
+  try {
+    const stored = localStorage.getItem(GUEST_STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch {
+    // Unreadable storage is treated as an empty cart.
+  }
+  return { cart: EMPTY_CART, products: [] };
+};
+
+const writeGuestCart = (snapshot: CartSnapshot) => {
+  try {
+    localStorage.setItem(GUEST_STORAGE_KEY, JSON.stringify(snapshot));
+  } catch (error) {
+    console.error("Could not save guest cart:", error);
+  }
+};
+
+const clearGuestCart = () => {
+  try {
+    localStorage.removeItem(GUEST_STORAGE_KEY);
+  } catch (error) {
+    console.error("Could not clear guest cart:", error);
+  }
+};
+
+const fetchSnapshot = async (userId: string): Promise<CartSnapshot> => {
+  const response = await CART.GET(userId);
+  return { cart: response.cart ?? EMPTY_CART, products: response.products ?? [] };
+};
+
+// One-line account of a guest cart merge for a toast, or null if nothing needs saying.
+export function describeMergeSummary(summary: CartMergeSummary): string | null {
+  const parts: string[] = [];
+  if (summary.merged.length > 0) {
+    parts.push(`Added ${summary.merged.length} item${summary.merged.length === 1 ? "" : "s"} from your guest cart.`);
+  }
+  if (summary.adjusted.length > 0) {
+    const lines = summary.adjusted.map((item) => `${item.name} (only ${item.quantity} left)`);
+    parts.push(`Reduced ${lines.join(", ")}.`);
+  }
+  if (summary.dropped.length > 0) {
+    parts.push(`Removed ${summary.dropped.map((item) => item.name).join(", ")}: out of stock.`);
+  }
+  return parts.length > 0 ? parts.join(" ") : null;
+}
+
+const withItems = (snapshot: CartSnapshot, items: CartItem[], products = snapshot.products): CartSnapshot => ({
+  products,
+  cart: { ...snapshot.cart, products: items, totalAmount: totalOf(items, products) },
+});
+
+export function CartProvider({ children }: { children: React.ReactNode }) {
+  const { id, isCustomer, loading: sessionLoading } = useSession();
+  const [snapshot, setSnapshot] = useState<CartSnapshot>({ cart: EMPTY_CART, products: [] });
+  const [loading, setLoading] = useState<boolean>(true);
+  const snapshotRef = useRef(snapshot);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  // Bumped by every server load so a slow, older response can't overwrite a newer one.
+  const loadRef = useRef(0);
+
+  const commit = useCallback((next: CartSnapshot) => {
+    snapshotRef.current = next;
+    setSnapshot(next);
+  }, []);
+
+  const broadcast = useCallback((message: CartMessage) => {
+    channelRef.current?.postMessage(message);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!id) {
+      commit(readGuestCart());
+      setLoading(false);
+      return;
+    }
+    if (!isCustomer) return;
+    const load = ++loadRef.current;
+    try {
+      const next = await fetchSnapshot(id);
+      if (load !== loadRef.current) return;
+      commit(next);
+      broadcast({ type: "sync", userId: id, snapshot: next });
+    } catch {
+      // The legacy API answers 404 for a customer who has never added anything.
+      if (load !== loadRef.current) return;
+      commit({ cart: EMPTY_CART, products: [] });
+    } finally {
+      setLoading(false);
+    }
+  }, [id, isCustomer, commit, broadcast]);
+
+  // Runs `apply` against local state right away, then `request` against the
+  // server. A failed request runs `revert` against the state as it is by then,
+  // so only this change is undone and others made meanwhile are kept. Guest
+  // carts never reach the server; they are saved to localStorage instead.
+  const mutate = useCallback(
+    async (
+      apply: (current: CartSnapshot) => CartSnapshot,
+      request: (current: CartSnapshot) => Promise<unknown>,
+      revert: (current: CartSnapshot, previous: CartSnapshot) => CartSnapshot
+    ) => {
+      const previous = snapshotRef.current;
+      const next = apply(previous);
+      commit(next);
+      if (!id) {
+        writeGuestCart(next);
+        broadcast({ type: "sync", userId: id, snapshot: next });
+        return;
+      }
+      try {
+        await request(previous);
+        broadcast({ type: "sync", userId: id, snapshot: snapshotRef.current });
+      } catch (error) {
+        commit(revert(snapshotRef.current, previous));
+        throw error;
+      }
+    },
+    [id, commit, broadcast]
+  );
+
+  const addItem = useCallback(
+    async (product: Product, quantity: number) => {
+      await mutate(
+        (current) => {
+          const existing = current.cart.products.find((item) => item.productId === product._id);
+          const items = existing
+            ? current.cart.products.map((item) =>
+                item.productId === product._id ? { ...item, quantity: item.quantity + quantity } : item
+              )
+            : [
+                ...current.cart.products,
+                {
+                  _id: `${id ? "pending" : "guest"}-${product._id}`,
+                  id: `${id ? "pending" : "guest"}-${product._id}`,
+                  productId: product._id,
+                  quantity,
+                  price: product.unitPrice,
+                },
+              ];
+          const products = current.products.some((p) => p._id === product._id)
+            ? current.products
+            : [...current.products, product];
+          return withItems(current, items, products);
+        },
+        () => CART.ADD({ userId: id, productId: product._id, quantity }),
+        (current) =>
+          withItems(
+            current,
+            current.cart.products
+              .map((item) => (item.productId === product._id ? { ...item, quantity: item.quantity - quantity } : item))
+              .filter((item) => item.quantity > 0)
+          )
+      );
+      noteAddToCart(product._id);
+      // New lines only get their server ids (and the cart its id) from a refetch.
+      if (id) await refresh();
+    },
+    [id, mutate, refresh]
+  );
+
+  const updateItem = useCallback(
+    async (productId: string, quantity: number) => {
+      const nextQuantity = Math.max(1, quantity);
+      await mutate(
+        (current) =>
+          withItems(
+            current,
+            current.cart.products.map((item) => (item.productId === productId ? { ...item, quantity: nextQuantity } : item))
+          ),
+        (current) => CART.UPDATE({ cartId: current.cart._id, productId, updatedQuantity: nextQuantity }),
+        (current, previous) => {
+          const before = previous.cart.products.find((item) => item.productId === productId);
+          if (!before) return current;
+          return withItems(
+            current,
+            current.cart.products.map((item) => (item.productId === productId ? { ...item, quantity: before.quantity } : item))
+          );
+        }
+      );
+    },
+    [mutate]
+  );
+
+  const removeItem = useCallback(
+    async (productId: string) => {
+      await mutate(
+        (current) =>
+          withItems(
+            current,
+            current.cart.products.filter((item) => item.productId !== productId)
+          ),
+        (current) => CART.REMOVE({ cartId: current.cart._id, productId }),
+        (current, previous) => {
+          const removed = previous.cart.products.find((item) => item.productId === productId);
+          if (!removed || current.cart.products.some((item) => item.productId === productId)) return current;
+          const product = previous.products.find((p) => p._id === productId);
+          const products =
+            product && !current.products.some((p) => p._id === productId) ? [...current.products, product] : current.products;
+          return withItems(current, [...current.cart.products, removed], products);
+        }
+      );
+    },
+    [mutate]
+  );
+
+  // Drops local state only, e.g. after an order has been placed from the cart.
+  const reset = useCallback(() => {
+    commit({ ...snapshotRef.current, cart: { ...snapshotRef.current.cart, products: [], totalAmount: 0 } });
+    if (!id) clearGuestCart();
+    broadcast({ type: "clear", userId: id });
+  }, [id, commit, broadcast]);
+
+  // Moves the guest cart into `userId`'s server cart. Called by the login page
+  // straight after sign-in, before this provider has seen the new session, so
+  // it takes the user id explicitly. The guest cart is kept if the merge fails.
+  const mergeGuestCart = useCallback(
+    async (userId: string) => {
+      const guest = readGuestCart();
+      if (guest.cart.products.length === 0) return null;
+
+      const items = guest.cart.products.map((item) => {
+        const product = guest.products.find((p) => p._id === item.productId);
+        return {
+          productId: item.productId,
+          quantity: item.quantity,
+          name: product?.name,
+          imageUrl: product?.imageUrl,
+          price: product?.unitPrice ?? item.price,
+          vendorId: product?.vendorId,
+        };
+      });
+
+      const { summary } = await CART.MERGE(userId, items);
+      clearGuestCart();
+
+      const load = ++loadRef.current;
+      try {
+        const next = await fetchSnapshot(userId);
+        if (load !== loadRef.current) return summary;
+        commit(next);
+        broadcast({ type: "sync", userId, snapshot: next });
+      } catch {
+        // The regular sign-in load below will pick the merged cart up.
+      }
+      return summary;
+    },
+    [commit, broadcast]
+  );
+
+  // Load the cart once the session is known: the server cart for customers, the
+  // stored guest cart for visitors, and nothing for vendors and admins.
+  useEffect(() => {
+    if (sessionLoading) return;
+    if (id && !isCustomer) {
+      commit({ cart: EMPTY_CART, products: [] });
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    refresh();
+  }, [id, isCustomer, sessionLoading, refresh, commit]);
+
+  // Keep tabs of the same customer (or of the same guest) in agreement.
+  useEffect(() => {
+    if (typeof BroadcastChannel === "undefined") return;
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channelRef.current = channel;
+
+    channel.onmessage = (event: MessageEvent<CartMessage>) => {
+      const message = event.data;
+      if (!message || message.userId !== id) return;
+      if (message.type === "sync") {
+        commit(message.snapshot);
+      } else if (message.type === "clear") {
+        const current = snapshotRef.current;
+        commit({ ...current, cart: { ...current.cart, products: [], totalAmount: 0 } });
+      }
+    };
+
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [id, commit]);
+
+  const value = useMemo<CartState>(
+    () => ({
+      cart: snapshot.cart,
+      products: snapshot.products,
+      itemCount: snapshot.cart.products.length,
+      loading,
+      findProduct: (productId: string) => snapshot.products.find((p) => p._id === productId),
+      addItem,
+      updateItem,
+      removeItem,
+      refresh,
+      reset,
+      mergeGuestCart,
+    }),
+    [snapshot, loading, addItem, updateItem, removeItem, refresh, reset, mergeGuestCart]
+  );
+
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
+}
+
+export function useCart(): CartState {
+  const context = useContext(CartContext);
+  if (!context) {
+    throw new Error("useCart must be used inside <CartProvider>");
+  }
+  return context;
+}
@@ -0,0 +1,159 @@
+// app/lib/checkout.ts
+// Checkout as a resumable sequence of steps: place the order, start a payment,
+// process it, issue the receipt. Progress is saved to sessionStorage after each
+// step and every request carries an idempotency key, so a step that failed or
+// was interrupted by a reload can simply be run again.
+import { CheckoutBody, ORDER, PAYMENT, RECEIPT } from './api';
+import { PaymentAttempt, PaymentMethod } from './types';
+
+const STORAGE_KEY = 'ecoharvest-checkout';
+// Some payments settle a few seconds later, by webhook; wait this long for them
+const SETTLE_POLL_MS = 2000;
+const SETTLE_TIMEOUT_MS = 30000;
+
+export type CheckoutPhase =
+  | 'placing'        // order request sent, outcome unknown
+  | 'placed'         // order exists, no payment started
+  | 'paying'         // payment attempt started, not yet processed
+  | 'payment_failed' // last attempt declined; a new one may be started
+  | 'paid'           // payment completed, receipt not issued yet
+  | 'complete';
+
+export type CheckoutDraft = Omit<CheckoutBody, 'paymentMethod' | 'idempotencyKey'>;
+
+export interface CheckoutAttempt {
+  key: string;
+  phase: CheckoutPhase;
+  paymentMethod: PaymentMethod;
+  // Counts payment tries; part of each try's idempotency key
+  paymentTry: number;
+  // Kept until the order exists so a lost order request can be repeated as is
+  draft?: CheckoutDraft;
+  orderId?: string;
+  orderNumber?: string;
+  paymentId?: string;
+  receiptId?: string;
+  error?: string;
+}
+
+const newKey = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+export const loadCheckout = (): CheckoutAttempt | null => {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch {
+    // Unreadable storage means there is nothing to resume.
+  }
+  return null;
+};
+
+const saveCheckout = (attempt: CheckoutAttempt) => {
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(attempt));
+  } catch (error) {
+    console.error('Could not save checkout progress:', error);
+  }
+};
+
+export const clearCheckout = () => sessionStorage.removeItem(STORAGE_KEY);
+
+/** A new checkout for the cart as the customer confirmed it. */
+export const startCheckout = (draft: CheckoutDraft, paymentMethod: PaymentMethod): CheckoutAttempt => {
+  const attempt: CheckoutAttempt = { key: newKey(), phase: 'placing', paymentMethod, paymentTry: 1, draft };
+  saveCheckout(attempt);
+  return attempt;
+};
+
+/** Pay again for an order left in `Pending Payment`. */
+export const retryPayment = (orderId: string, orderNumber: string, paymentMethod: PaymentMethod): CheckoutAttempt => {
+  const attempt: CheckoutAttempt = { key: newKey(), phase: 'placed', paymentMethod, paymentTry: 1, orderId, orderNumber };
+  saveCheckout(attempt);
+  return attempt;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Wait for a payment the provider is still processing to succeed or fail
+const awaitSettlement = async (attempt: PaymentAttempt): Promise<PaymentAttempt> => {
+  let current = attempt;
+  const deadline = Date.now() + SETTLE_TIMEOUT_MS;
+  while (current.status === 'processing' && Date.now() < deadline) {
+    await sleep(SETTLE_POLL_MS);
+    current = (await PAYMENT.GET(current.paymentId)).data;
+  }
+  if (current.status === 'processing') {
+    throw new Error('Your payment is still being processed. Check back in a moment.');
+  }
+  return current;
+};
+
+/** Whether the order exists, i.e. leaving now would leave it unpaid. */
+export const hasOrder = (attempt: CheckoutAttempt | null): boolean =>
+  !!attempt && attempt.phase !== 'placing' && attempt.phase !== 'complete';
+
+/**
+ * Run the remaining steps of a checkout. Resolves with the attempt as far as it
+ * got: `complete`, or `payment_failed` when the payment was declined. Any other
+ * error rejects; the saved attempt then resumes from the step that failed.
+ */
+export const advanceCheckout = async (
+  attempt: CheckoutAttempt,
+  options: {
+    userId: string;
+    paymentMethod?: PaymentMethod;
+    paymentDetails?: Record<string, unknown>;
+    onChange?: (attempt: CheckoutAttempt) => void;
+  }
+): Promise<CheckoutAttempt> => {
+  let current = { ...attempt, paymentMethod: options.paymentMethod ?? attempt.paymentMethod };
+  const update = (changes: Partial<CheckoutAttempt>) => {
+    current = { ...current, ...changes };
+    saveCheckout(current);
+    options.onChange?.(current);
+  };
+
+  if (current.phase === 'placing') {
+    if (!current.draft) throw new Error('Nothing to order');
+    const response = await ORDER.CHECKOUT({
+      ...current.draft,
+      paymentMethod: current.paymentMethod,
+      idempotencyKey: current.key,
+    });
+    update({ phase: 'placed', orderId: response.data._id, orderNumber: response.data.orderNumber, draft: undefined });
+  }
+
+  if (current.phase === 'placed' || current.phase === 'payment_failed') {
+    const paymentTry = current.phase === 'payment_failed' ? current.paymentTry + 1 : current.paymentTry;
+    const response = await PAYMENT.INITIATE({
+      orderId: current.orderId!,
+      userId: options.userId,
+      paymentMethod: current.paymentMethod,
+      idempotencyKey: `${current.key}:payment:${paymentTry}`,
+    });
+    update({ phase: 'paying', paymentTry, paymentId: response.data.paymentId, error: undefined });
+  }
+
+  if (current.phase === 'paying') {
+    const response = await PAYMENT.PROCESS(current.paymentId!, {
+      paymentMethod: current.paymentMethod,
+      ...options.paymentDetails,
+    });
+    const payment = await awaitSettlement(response.data);
+    if (payment.status !== 'completed') {
+      update({ phase: 'payment_failed', error: payment.failedReason || 'Payment failed' });
+      return current;
+    }
+    update({ phase: 'paid' });
+  }
+
+  if (current.phase === 'paid') {
+    const response = await RECEIPT.CREATE(current.paymentId!);
+    update({ phase: 'complete', receiptId: response.data._id });
+  }
+
+  return current;
+};
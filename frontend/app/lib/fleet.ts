@@ -0,0 +1,49 @@
+// app/lib/fleet.ts
+// Whether a vehicle can be sent out on a day. Its status comes from the legacy
+// vehicle record; expired documents and availability blocks from its profile.
+import { AvailabilityBlock, Vehicle, VehicleProfile } from './types';
+
+const AVAILABLE_STATUSES = ['available', 'active'];
+
+/** Whether the vehicle record itself says it can be sent out. */
+export const hasAvailableStatus = (vehicle: Vehicle): boolean =>
+  AVAILABLE_STATUSES.includes((vehicle.status || '').toLowerCase());
+
+/** A date as YYYY-MM-DD in local time, the form dates are compared in. */
+export const toDateKey = (date: Date | string): string => {
+  const d = typeof date === 'string' ? new Date(date) : date;
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+/** Documents that have expired by `day` (YYYY-MM-DD). */
+export const expiredDocuments = (profile: VehicleProfile | undefined, day: string = toDateKey(new Date())): string[] => {
+  if (!profile) return [];
+  const expired: string[] = [];
+  if (profile.insuranceExpiry && toDateKey(profile.insuranceExpiry) < day) expired.push('Insurance');
+  if (profile.registrationExpiry && toDateKey(profile.registrationExpiry) < day) expired.push('Registration');
+  return expired;
+};
+
+/** The block covering `day` (YYYY-MM-DD), if any. */
+export const blockOn = (profile: VehicleProfile | undefined, day: string): AvailabilityBlock | undefined =>
+  profile?.availability.find((block) => toDateKey(block.start) <= day && day <= toDateKey(block.end));
+
+/** Why `vehicle` cannot go out on `day`, or null when it can. */
+export const unavailableReason = (
+  vehicle: Vehicle,
+  profile: VehicleProfile | undefined,
+  day: string = toDateKey(new Date())
+): string | null => {
+  if (!hasAvailableStatus(vehicle)) return vehicle.status || 'Not available';
+  const expired = expiredDocuments(profile, day);
+  if (expired.length > 0) return `${expired.join(' and ')} expired`;
+  const block = blockOn(profile, day);
+  if (block) return block.reason || 'Blocked';
+  return null;
+};
+
+/** The vehicles that can go out on `day`. */
+export const dispatchable = (vehicles: Vehicle[], profiles: VehicleProfile[], day?: string): Vehicle[] =>
+  vehicles.filter(
+    (vehicle) => !unavailableReason(vehicle, profiles.find((profile) => profile.vehicleId === vehicle._id), day)
+  );
@@ -0,0 +1,253 @@
+// app/lib/notifications.ts
+// A user's notifications as the bell shows them, kept current over the
+// notification socket, and their notification preferences as the account and
+// vendor profile pages edit them.
+import { useEffect, useRef, useState } from 'react';
+import { NOTIFICATION } from './api';
+import { openSocket } from './socket';
+import {
+  Notification,
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationPreferenceType,
+  NotificationsRead,
+  QuietHours,
+} from './types';
+
+const PAGE_SIZE = 20;
+// Most notifications fetched when catching up after a dropped connection
+const CATCH_UP_LIMIT = 100;
+
+export const NOTIFICATION_TYPES: { type: NotificationPreferenceType; label: string; description: string }[] = [
+  { type: 'order', label: 'Orders', description: 'Order confirmations, status changes and deliveries' },
+  { type: 'payment', label: 'Payments', description: 'Payments received, failed and refunded' },
+  { type: 'promotion', label: 'Promotions', description: 'Offers, discounts and seasonal produce' },
+  { type: 'review', label: 'Reviews', description: 'Reviews of products you bought or sell' },
+  { type: 'system', label: 'Account & system', description: 'Account changes, stock alerts and service notices' },
+];
+
+export const NOTIFICATION_CHANNELS: { channel: NotificationChannel; label: string }[] = [
+  { channel: 'inApp', label: 'In app' },
+  { channel: 'email', label: 'Email' },
+  { channel: 'sms', label: 'SMS' },
+];
+
+export interface NotificationsState {
+  // Newest first
+  notifications: Notification[];
+  unreadCount: number;
+  loading: boolean;
+  // Whether new notifications are arriving as they are sent
+  live: boolean;
+  markRead: (notificationId: string) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  remove: (notificationId: string) => Promise<void>;
+}
+
+const newestFirst = (a: Notification, b: Notification) => b.createdAt.localeCompare(a.createdAt);
+
+// The latest notifications and the unread count, then each new one as it is
+// sent. Notifications sent while the socket was down are fetched when it
+// reconnects, and reads in the user's other tabs show here too.
+export function useNotifications(userId: string | null): NotificationsState {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState<number>(0);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [live, setLive] = useState<boolean>(false);
+  // When the newest notification we have was created, to catch up from
+  const latestRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+    let active = true;
+    latestRef.current = null;
+
+    const merge = (incoming: Notification[]) => {
+      if (!active || incoming.length === 0) return;
+      const latest = [...incoming].sort(newestFirst)[0].createdAt;
+      if (!latestRef.current || latest > latestRef.current) latestRef.current = latest;
+      setNotifications((prev) => {
+        const known = new Set(prev.map((notification) => notification._id));
+        return [...incoming.filter((notification) => !known.has(notification._id)), ...prev].sort(newestFirst);
+      });
+    };
+
+    // The server's count, after anything that may have changed it unseen
+    const refreshCount = async () => {
+      try {
+        const response = await NOTIFICATION.UNREAD_COUNT(userId);
+        if (active) setUnreadCount(response.data.count);
+      } catch (err) {
+        console.error('Error fetching unread notification count:', err);
+      }
+    };
+
+    const fetchNotifications = async () => {
+      try {
+        const since = latestRef.current;
+        merge(await NOTIFICATION.LIST(userId, since ? { since, limit: CATCH_UP_LIMIT } : { limit: PAGE_SIZE }));
+      } catch (err) {
+        console.error('Error fetching notifications:', err);
+      } finally {
+        if (active) setLoading(false);
+      }
+      await refreshCount();
+    };
+
+    // The service puts the socket in the signed-in user's room when it connects
+    const socket = openSocket();
+    socket.on('connect', () => setLive(true));
+    socket.on('disconnect', () => setLive(false));
+    socket.io.on('reconnect', fetchNotifications);
+    socket.on('notification', (notification: Notification) => {
+      merge([notification]);
+      if (active && !notification.isRead) setUnreadCount((count) => count + 1);
+    });
+    socket.on('notifications-read', ({ ids, all }: NotificationsRead) => {
+      if (!active) return;
+      setNotifications((prev) =>
+        prev.map((notification) =>
+          all || ids?.includes(notification._id) ? { ...notification, isRead: true } : notification
+        )
+      );
+      refreshCount();
+    });
+
+    fetchNotifications();
+
+    return () => {
+      active = false;
+      socket.disconnect();
+    };
+  }, [userId]);
+
+  const markRead = async (notificationId: string) => {
+    const notification = notifications.find(({ _id }) => _id === notificationId);
+    if (!notification || notification.isRead) return;
+    setNotifications((prev) => prev.map((n) => (n._id === notificationId ? { ...n, isRead: true } : n)));
+    setUnreadCount((count) => Math.max(0, count - 1));
+    try {
+      await NOTIFICATION.MARK_READ(notificationId);
+    } catch (err) {
+      console.error('Error marking notification read:', err);
+    }
+  };
+
+  const markAllRead = async () => {
+    if (!userId) return;
+    setNotifications((prev) => prev.map((n) => ({ ...n, isRead: true })));
+    setUnreadCount(0);
+    try {
+      await NOTIFICATION.MARK_ALL_READ(userId);
+    } catch (err) {
+      console.error('Error marking all notifications read:', err);
+    }
+  };
+
+  const remove = async (notificationId: string) => {
+    try {
+      await NOTIFICATION.DELETE(notificationId);
+      const removed = notifications.find(({ _id }) => _id === notificationId);
+      setNotifications((prev) => prev.filter(({ _id }) => _id !== notificationId));
+      if (removed && !removed.isRead) setUnreadCount((count) => Math.max(0, count - 1));
+    } catch (err) {
+      console.error('Error deleting notification:', err);
+    }
+  };
+
+  return {
+    notifications,
+    unreadCount,
+    loading: Boolean(userId) && loading,
+    live,
+    markRead,
+    markAllRead,
+    remove,
+  };
+}
+
+export interface NotificationPreferencesState {
+  preferences: NotificationPreferences | null;
+  loading: boolean;
+  saving: boolean;
+  error: string | null;
+  // Whether there are unsaved changes
+  dirty: boolean;
+  toggle: (type: NotificationPreferenceType, channel: NotificationChannel) => void;
+  setQuietHours: (changes: Partial<QuietHours>) => void;
+  setContact: (changes: Partial<NotificationPreferences['contact']>) => void;
+  reset: () => void;
+  // Rejects with the server's message, for the page to show its own way
+  save: () => Promise<void>;
+}
+
+export function useNotificationPreferences(userId: string | null): NotificationPreferencesState {
+  const [saved, setSaved] = useState<NotificationPreferences | null>(null);
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+    let active = true;
+
+    NOTIFICATION.PREFERENCES(userId)
+      .then((response) => {
+        if (!active) return;
+        setSaved(response.data);
+        setPreferences(response.data);
+        setError(null);
+      })
+      .catch((err) => {
+        if (active) setError(err.message || 'Failed to load notification preferences');
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [userId]);
+
+  const toggle = (type: NotificationPreferenceType, channel: NotificationChannel) =>
+    setPreferences((prev) =>
+      prev && {
+        ...prev,
+        types: { ...prev.types, [type]: { ...prev.types[type], [channel]: !prev.types[type][channel] } },
+      }
+    );
+
+  const setQuietHours = (changes: Partial<QuietHours>) =>
+    setPreferences((prev) => prev && { ...prev, quietHours: { ...prev.quietHours, ...changes } });
+
+  const setContact = (changes: Partial<NotificationPreferences['contact']>) =>
+    setPreferences((prev) => prev && { ...prev, contact: { ...prev.contact, ...changes } });
+
+  const save = async () => {
+    if (!userId || !preferences) return;
+    setSaving(true);
+    try {
+      const { types, quietHours, contact } = preferences;
+      const response = await NOTIFICATION.UPDATE_PREFERENCES(userId, { types, quietHours, contact });
+      setSaved(response.data);
+      setPreferences(response.data);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return {
+    preferences,
+    loading: Boolean(userId) && loading,
+    saving,
+    error,
+    dirty: JSON.stringify(preferences) !== JSON.stringify(saved),
+    toggle,
+    setQuietHours,
+    setContact,
+    reset: () => setPreferences(saved),
+    save,
+  };
+}
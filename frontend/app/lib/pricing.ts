@@ -0,0 +1,59 @@
+// app/lib/pricing.ts
+// Keeps a server quote in step with the cart. Totals shown to the customer must
+// come from here so they match what order creation will charge.
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { PRICING, isApiError } from './api';
+import { useSession } from './session';
+import { Cart, Quote } from './types';
+
+export interface QuoteState {
+  quote: Quote | null;
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<Quote | null>;
+}
+
+export function useQuote(cart: Cart, couponCode: string | null): QuoteState {
+  // First-order and per-customer promotions depend on who is asking.
+  const { id } = useSession();
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  // Cart edits can outpace the server; only the latest request may set the quote.
+  const requestRef = useRef(0);
+
+  const items = useMemo(
+    () => cart.products.map((item) => ({ productId: item.productId, quantity: item.quantity })),
+    [cart.products]
+  );
+
+  const refresh = useCallback(async () => {
+    const request = ++requestRef.current;
+    if (items.length === 0) {
+      setQuote(null);
+      setLoading(false);
+      return null;
+    }
+
+    setLoading(true);
+    try {
+      const response = await PRICING.QUOTE({ items, couponCode, customerId: id || null });
+      if (request !== requestRef.current) return null;
+      setQuote(response.data);
+      setError(null);
+      return response.data;
+    } catch (err) {
+      if (request !== requestRef.current) return null;
+      setError((isApiError(err) && err.message) || 'Failed to price cart');
+      return null;
+    } finally {
+      if (request === requestRef.current) setLoading(false);
+    }
+  }, [items, couponCode, id]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { quote, loading, error, refresh };
+}
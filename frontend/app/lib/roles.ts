@@ -0,0 +1,15 @@
+// app/lib/roles.ts
+// Role groupings shared by the session provider and the route guards.
+import { Role } from "./types";
+
+export const CUSTOMER_ROLES: Role[] = ["Customer", "Company"];
+export const VENDOR_ROLES: Role[] = ["Vendor"];
+export const ADMIN_ROLES: Role[] = ["Admin"];
+
+// Where each role lands when it hits a route tree it does not belong to.
+export const HOME_BY_ROLE: Record<Role, string> = {
+  Customer: "/",
+  Company: "/",
+  Vendor: "/vendor",
+  Admin: "/admin",
+};
@@ -0,0 +1,57 @@
+// app/lib/searchHistory.ts
+// The shopper's own recent searches, newest first, kept in localStorage so the
+// navigation search box can offer them again. Also which search led to each
+// product opened this session, so clicks and add-to-carts count towards the
+// query in search analytics.
+import { SEARCH } from './api';
+import { SearchEventType } from './types';
+
+const STORAGE_KEY = 'ecoharvest-recent-searches';
+const CLICKS_STORAGE_KEY = 'ecoharvest-search-clicks';
+const MAX_RECENT = 5;
+
+export function recentSearches(): string[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((term) => typeof term === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function rememberSearch(term: string): void {
+  const trimmed = term.trim();
+  if (!trimmed) return;
+  const rest = recentSearches().filter((previous) => previous.toLowerCase() !== trimmed.toLowerCase());
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([trimmed, ...rest].slice(0, MAX_RECENT)));
+}
+
+// Product id -> the query it was opened from
+const searchClicks = (): Record<string, string> => {
+  try {
+    return JSON.parse(sessionStorage.getItem(CLICKS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const report = (type: SearchEventType, query: string, productId: string) => {
+  SEARCH.TRACK({ type, query, productId }).catch((error) => console.error('Failed to record search event:', error));
+};
+
+/** A product opened from the results of `query`. */
+export function noteSearchClick(productId: string, query: string): void {
+  if (!query.trim()) return;
+  sessionStorage.setItem(CLICKS_STORAGE_KEY, JSON.stringify({ ...searchClicks(), [productId]: query }));
+  report('click', query, productId);
+}
+
+/** A product added to the cart; counts once for the search that found it, if any. */
+export function noteAddToCart(productId: string): void {
+  if (typeof window === 'undefined') return;
+  const { [productId]: query, ...rest } = searchClicks();
+  if (!query) return;
+  sessionStorage.setItem(CLICKS_STORAGE_KEY, JSON.stringify(rest));
+  report('add_to_cart', query, productId);
+}
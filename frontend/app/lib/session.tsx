@@ -0,0 +1,71 @@
+// app/lib/session.tsx
+// Root-level session state. The cookie is checked once per page load and shared
+// with every page and guard through `useSession()`.
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { AUTH } from "./api";
+import { CUSTOMER_ROLES } from "./roles";
+import { Role, Session } from "./types";
+
+export interface SessionState {
+  session: Session | null;
+  id: string;
+  role: Role | null;
+  isLoggedIn: boolean;
+  isCustomer: boolean;
+  loading: boolean;
+  refresh: () => Promise<Session | null>;
+  clear: () => void;
+}
+
+const SessionContext = createContext<SessionState | null>(null);
+
+export function SessionProvider({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const current = await AUTH.SESSION();
+      const next = current?.id && current?.role ? current : null;
+      setSession(next);
+      return next;
+    } catch {
+      setSession(null);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const clear = useCallback(() => setSession(null), []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const value = useMemo<SessionState>(
+    () => ({
+      session,
+      id: session?.id ?? "",
+      role: session?.role ?? null,
+      isLoggedIn: !!session,
+      isCustomer: !!session && CUSTOMER_ROLES.includes(session.role),
+      loading,
+      refresh,
+      clear,
+    }),
+    [session, loading, refresh, clear]
+  );
+
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>;
+}
+
+export function useSession(): SessionState {
+  const context = useContext(SessionContext);
+  if (!context) {
+    throw new Error("useSession must be used inside <SessionProvider>");
+  }
+  return context;
+}
@@ -0,0 +1,9 @@
+// app/lib/socket.ts
+// Socket.IO connection to notification-service. It goes through the same proxy
+// as every other request, so the path carries BASE_URL and the host is ours.
+import { io, Socket } from 'socket.io-client';
+import { BASE_URL } from './api';
+
+export const SOCKET_PATH = `${BASE_URL}/socket.io`;
+
+export const openSocket = (query?: Record<string, string>): Socket => io({ path: SOCKET_PATH, query });
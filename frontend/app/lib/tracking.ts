@@ -0,0 +1,65 @@
+// app/lib/tracking.ts
+// Follows one order: fetches its tracking view, then keeps it current with the
+// updates order-service pushes to the order's socket room. After a dropped
+// connection the view is fetched again, since updates sent meanwhile are lost.
+import { useEffect, useState } from 'react';
+import { ORDER, isApiError } from './api';
+import { openSocket } from './socket';
+import { OrderTracking } from './types';
+
+export interface TrackingState {
+  tracking: OrderTracking | null;
+  loading: boolean;
+  error: string | null;
+  // Whether live updates are arriving
+  live: boolean;
+}
+
+export function useOrderTracking(orderId: string | null): TrackingState {
+  const [tracking, setTracking] = useState<OrderTracking | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [live, setLive] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!orderId) return;
+    let active = true;
+
+    const fetchTracking = async () => {
+      try {
+        const response = await ORDER.TRACKING(orderId);
+        if (!active) return;
+        setTracking(response.data);
+        setError(null);
+      } catch (err) {
+        if (active) setError((isApiError(err) && err.message) || 'Failed to load tracking');
+      } finally {
+        if (active) setLoading(false);
+      }
+    };
+
+    const socket = openSocket();
+    // Rooms are left on disconnect, so join again on every connect
+    socket.on('connect', () => {
+      setLive(true);
+      socket.emit('track', orderId);
+    });
+    socket.on('disconnect', () => setLive(false));
+    socket.io.on('reconnect', fetchTracking);
+    socket.on('tracking', (update: OrderTracking) => {
+      if (update._id === orderId) setTracking(update);
+    });
+
+    // Don't wait for the socket to show what we have
+    fetchTracking();
+
+    return () => {
+      active = false;
+      socket.emit('untrack', orderId);
+      socket.disconnect();
+    };
+  }, [orderId]);
+
+  // Without an order there is nothing to wait for
+  return { tracking, loading: Boolean(orderId) && loading, error, live };
+}
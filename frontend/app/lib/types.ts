@@ -0,0 +1,1067 @@
+// app/lib/types.ts
+// Shared domain types for every page and component that talks to the API.
+
+// ==== Auth ====
+export type Role = 'Customer' | 'Company' | 'Vendor' | 'Admin';
+
+export interface Session {
+  id: string;
+  role: Role;
+}
+
+export interface UserDetails {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phoneNumber: string;
+  dateOfBirth?: string;
+  gender?: string;
+  address?: string;
+}
+
+export interface User {
+  id: string;
+  username: string;
+  role: string;
+  userDetails: UserDetails;
+}
+
+export interface CustomerDetails {
+  id: string;
+  username: string;
+  firstName: string;
+  lastName: string;
+  role: string;
+  email: string;
+  phoneNumber: string;
+  address: string;
+  dateOfBirth: string;
+  type: string;
+  createdTimestamp: string;
+}
+
+// A saved delivery address from user-service.
+export interface Address {
+  _id: string;
+  label: string;
+  fullName: string;
+  phone: string;
+  street: string;
+  city: string;
+  state?: string;
+  postalCode?: string;
+  country: string;
+  isDefault: boolean;
+}
+
+export type AddressInput = Omit<Address, '_id'>;
+
+export interface VendorInfo {
+  _id?: string;
+  businessName?: string;
+  phoneNumber?: string;
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+export interface VendorUser {
+  entityId?: string;
+  username?: string;
+}
+
+// `GET /vendors/:userId` answers with a tuple of the vendor profile and its login record.
+export type VendorDetails = [VendorInfo | null, VendorUser | null];
+
+// ==== Catalog ====
+export interface ProductCategory {
+  _id: string;
+  name: string;
+  imageUrl: string;
+}
+
+export interface Product {
+  _id: string;
+  vendorId: string;
+  name: string;
+  subtitle: string;
+  quantity: number;
+  unitPrice: number;
+  MRP: number;
+  category: string;
+  productCategory_id?: string;
+  imageUrl: string;
+  status: string;
+  averageRating: number;
+  numberOfReviews: number;
+  // Sold in dated batches, first-expiring-first-out
+  perishable?: boolean;
+  createdAt?: string;
+}
+
+export interface Review {
+  _id?: string;
+  userName: string;
+  rating: number;
+  comment: string;
+}
+
+export interface Discount {
+  _id: string;
+  productId: Product;
+  percentage: number;
+  status: boolean;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface Advertisement {
+  _id: string;
+  title: string;
+  description: string;
+  imageUrl: string;
+}
+
+// ==== Search ====
+export type SearchSort = 'relevance' | 'price_asc' | 'price_desc' | 'rating' | 'newest';
+
+export interface SearchParams {
+  q?: string;
+  category?: string;
+  // Vendor ids, comma-separated
+  vendor?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  sortBy?: SearchSort;
+  page?: number;
+  limit?: number;
+}
+
+// [start, end) character spans of a text that matched the query
+export type HighlightSpans = [number, number][];
+
+export interface SearchHit extends Product {
+  vendorName: string;
+  highlights: { name: HighlightSpans; subtitle: HighlightSpans };
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// Each facet counts the matches with every other filter applied, so choosing
+// a value gives that many results
+export interface SearchFacets {
+  categories: FacetCount[];
+  vendors: (FacetCount & { label: string })[];
+  ratings: { min: number; count: number }[];
+  price: { min: number; max: number };
+}
+
+export interface SearchResults extends Envelope<SearchHit[]> {
+  pagination: { page: number; limit: number; total: number; totalPages: number };
+  facets: SearchFacets;
+}
+
+export interface ProductSuggestion {
+  _id: string;
+  name: string;
+  imageUrl: string;
+  unitPrice: number;
+  category: string;
+  highlights: HighlightSpans;
+}
+
+export interface SearchSuggestions {
+  products: ProductSuggestion[];
+  categories: FacetCount[];
+}
+
+export interface PopularSearch {
+  term: string;
+  count: number;
+}
+
+export type SearchEventType = 'click' | 'add_to_cart';
+
+export interface SearchQueryStats {
+  query: string;
+  searches: number;
+  zeroResults: number;
+  averageResults: number;
+  clicks: number;
+  addToCarts: number;
+  // Per search, 0 to 1
+  clickThroughRate: number;
+  conversionRate: number;
+}
+
+export interface SearchAnalytics {
+  from: string;
+  to: string;
+  totals: {
+    searches: number;
+    zeroResults: number;
+    clicks: number;
+    addToCarts: number;
+    uniqueQueries: number;
+    clickThroughRate: number;
+    conversionRate: number;
+  };
+  lowClickThrough: { minSearches: number; threshold: number };
+  topQueries: SearchQueryStats[];
+  zeroResultQueries: SearchQueryStats[];
+  lowClickThroughQueries: SearchQueryStats[];
+}
+
+// ==== Cart ====
+export interface CartItem {
+  _id: string;
+  id: string;
+  productId: string;
+  quantity: number;
+  price?: number;
+}
+
+export interface Cart {
+  _id: string;
+  products: CartItem[];
+  totalAmount: number;
+}
+
+// `GET /cart/:userId` returns the cart together with the catalog entries it references.
+export interface CartResponse {
+  cart: Cart;
+  products: Product[];
+}
+
+// A guest cart line as sent to `POST /cart/:userId/items` when merging at login.
+export interface CartMergeItem {
+  productId: string;
+  quantity: number;
+  name?: string;
+  imageUrl?: string;
+  price?: number;
+  vendorId?: string;
+}
+
+// What the cart service did with each guest line: kept as is, reduced to the
+// available stock, or dropped because nothing is left.
+export interface CartMergeSummary {
+  merged: Array<{ productId: string; name: string; quantity: number }>;
+  adjusted: Array<{ productId: string; name: string; requested: number; quantity: number }>;
+  dropped: Array<{ productId: string; name: string; requested: number; reason: string }>;
+}
+
+// ==== Pricing ====
+export interface QuoteLine {
+  productId: string;
+  name: string;
+  imageUrl?: string;
+  vendorId: string;
+  category: string | null;
+  categoryName: string | null;
+  quantity: number;
+  unitPrice: number;
+  discountPercentage: number;
+  discountedUnitPrice: number;
+  lineDiscount: number;
+  lineTotal: number;
+}
+
+export interface QuoteCoupon {
+  code: string;
+  applied: boolean;
+  discount: number;
+  reason: string | null;
+}
+
+// How one promotion fared on a quote: `applied` with its share of the discount,
+// or the reason it was left out (not eligible, or beaten by a stacking rule).
+export interface QuotePromotion {
+  id: string;
+  name: string;
+  code: string | null;
+  type: PromotionType | 'coupon';
+  summary: string;
+  stackable: boolean;
+  exclusive: boolean;
+  applied: boolean;
+  discount: number;
+  reason: string | null;
+}
+
+// Itemized price of a cart as computed by order-service. Cart, checkout, the
+// placed order and its receipt all show these numbers; the client never adds them up.
+export interface Quote {
+  lines: QuoteLine[];
+  unavailable: string[];
+  subtotal: number;
+  productDiscount: number;
+  coupon: QuoteCoupon | null;
+  promotions: QuotePromotion[];
+  promotionDiscount: number;
+  taxRate: number;
+  tax: number;
+  deliveryFee: number;
+  freeDeliveryThreshold: number;
+  total: number;
+  computedAt: string;
+}
+
+// ==== Orders ====
+export interface OrderLine {
+  productId: Product;
+  quantity: number;
+  unitPrice: number;
+}
+
+// An order line as order-service stores it
+export interface OrderItem {
+  _id: string;
+  productId: string;
+  productName: string;
+  quantity: number;
+  price: number;
+  subtotal: number;
+  refundedQuantity?: number;
+}
+
+// One move in an order's status, as recorded by the order service
+export interface StatusChange {
+  from?: string;
+  to: string;
+  actorId?: string;
+  actorRole?: 'Customer' | 'Vendor' | 'Admin' | 'System';
+  note?: string;
+  at: string;
+}
+
+// For each status, the statuses it may move to and the roles allowed to make
+// each move
+export type StatusGraph = Record<string, Record<string, string[]>>;
+
+export interface StatusTransitions {
+  order: StatusGraph;
+  shipment: StatusGraph;
+}
+
+export type ShipmentStatus = 'Pending' | 'Accepted' | 'Packed' | 'Shipped' | 'Out for Delivery' | 'Delivered' | 'Cancelled';
+
+// One vendor's part of an order, fulfilled on its own
+export interface Shipment {
+  _id?: string;
+  vendorId: string;
+  vendorName?: string;
+  status: ShipmentStatus;
+  statusHistory: StatusChange[];
+  trackingNumber?: string;
+  carrier?: string;
+  acceptedAt?: string;
+  packedAt?: string;
+  shippedAt?: string;
+  outForDeliveryAt?: string;
+  deliveredAt?: string;
+  cancelledAt?: string;
+  // Statuses the signed-in user may move the shipment to
+  nextStatuses?: ShipmentStatus[];
+}
+
+// A shipment as its vendor sees it: only their own items
+export interface VendorShipment extends Shipment {
+  orderId: string;
+  orderNumber: string;
+  orderStatus: string;
+  orderTime: string;
+  customerName?: string;
+  shippingAddress?: OrderAddress;
+  deliverySlot?: Pick<DeliverySlot, 'id' | 'date' | 'start' | 'end' | 'label'>;
+  items: OrderItem[];
+  subtotal: number;
+}
+
+export interface OrderCustomer {
+  _id: string;
+  username: string;
+}
+
+// A bookable delivery window; `id` is what order creation takes.
+export interface DeliverySlot {
+  id: string;
+  date: string;
+  start: string;
+  end: string;
+  label: string;
+  remaining: number;
+  available: boolean;
+}
+
+export interface OrderAddress {
+  fullName: string;
+  phone: string;
+  street: string;
+  city: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+// `userId` is populated on the vendor routes and left as a raw id elsewhere.
+export interface Order {
+  _id: string;
+  orderNumber: string;
+  orderTime: string;
+  status: string;
+  totalAmount: number;
+  products: OrderLine[];
+  userId?: OrderCustomer | string;
+  paymentStatus?: 'pending' | 'paid' | 'failed' | 'partially_refunded' | 'refunded';
+  paymentFailureReason?: string;
+  // Units sold for the order that stock could not cover
+  stockShortfall?: string;
+  items?: OrderItem[];
+  refundedAmount?: number;
+  deliverySlot?: Pick<DeliverySlot, 'id' | 'date' | 'start' | 'end' | 'label'>;
+  statusHistory?: StatusChange[];
+  shipments?: Shipment[];
+  // Statuses the signed-in user may move the order to; only set on a single order
+  nextStatuses?: string[];
+  confirmedAt?: string;
+  shippedAt?: string;
+  deliveredAt?: string;
+  cancelledAt?: string;
+  // Set on the free order sent out to replace a returned item
+  replacementFor?: { orderId: string; returnId: string };
+  vehicle?: OrderVehicle;
+}
+
+// The vehicle delivering an order, as it stood when it was assigned
+export interface OrderVehicle {
+  vehicleId: string;
+  plateNumber?: string;
+  make?: string;
+  model?: string;
+  type?: string;
+  driverName?: string;
+  driverPhone?: string;
+  assignedAt?: string;
+}
+
+// What a customer following an order sees; also pushed live over the socket
+export type OrderTracking = Pick<
+  Order,
+  | '_id'
+  | 'orderNumber'
+  | 'status'
+  | 'statusHistory'
+  | 'orderTime'
+  | 'confirmedAt'
+  | 'shippedAt'
+  | 'deliveredAt'
+  | 'cancelledAt'
+  | 'deliverySlot'
+  | 'shipments'
+  | 'vehicle'
+> & {
+  trackingNumber?: string;
+  carrier?: string;
+  estimatedDelivery?: string;
+};
+
+// ==== Returns ====
+export type ReturnReason = 'spoiled' | 'damaged' | 'wrong_item' | 'missing' | 'not_as_described' | 'other';
+
+export type ReturnStatus = 'Requested' | 'Approved' | 'Rejected' | 'Escalated' | 'Refunded' | 'Replaced';
+
+// A customer's request to return units of one delivered order line. Photos are
+// not included; fetch them with `RETURNS.PHOTO_URL`.
+export interface ReturnRequest {
+  _id: string;
+  rmaNumber: string;
+  orderId: string;
+  orderNumber: string;
+  customerId: string;
+  vendorId: string;
+  vendorName?: string;
+  itemId: string;
+  productId: string;
+  productName: string;
+  productImage?: string;
+  quantity: number;
+  reason: ReturnReason;
+  details?: string;
+  resolution: 'refund' | 'replacement';
+  status: ReturnStatus;
+  statusHistory: StatusChange[];
+  photoCount: number;
+  // Statuses the signed-in user may move the request to
+  nextStatuses?: ReturnStatus[];
+  refundId?: string;
+  refundAmount?: number;
+  replacementOrderId?: string;
+  // Why the refund or replacement of an approved request did not go through
+  resolutionError?: string;
+  escalatedAt?: string;
+  resolvedAt?: string;
+  createdAt: string;
+}
+
+export interface ReturnInput {
+  orderId: string;
+  itemId: string;
+  quantity: number;
+  reason: ReturnReason;
+  details?: string;
+  resolution: 'refund' | 'replacement';
+  // Data URLs; required when the reason is `spoiled`
+  photos: string[];
+}
+
+export interface ReturnPolicy {
+  reasons: Record<ReturnReason, string>;
+  windowHours: number;
+}
+
+// ==== Payments ====
+export type PaymentMethod = 'cash_on_delivery' | 'card' | 'bank_transfer' | 'qr_code';
+
+export interface PaymentAmounts {
+  subtotal: number;
+  discount: number;
+  tax: number;
+  deliveryFee: number;
+  total: number;
+  // Refunded so far, and what the customer paid after refunds
+  refunded?: number;
+  netTotal?: number;
+}
+
+// One try at paying for an order, as the payment service reports it
+export interface PaymentAttempt {
+  paymentId: string;
+  orderId: string;
+  status: 'initiated' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'refunded';
+  amount: number;
+  currency?: string;
+  method?: string;
+  transactionId?: string;
+  cardBrand?: string;
+  cardLast4?: string;
+  failedReason?: string;
+  // What the customer still has to do, e.g. enter a card in the hosted fields
+  nextAction?: { type: 'card_token' | 'upi_collect'; qrCode?: string } | null;
+}
+
+// A card entered in the hosted fields; the card number itself never reaches the storefront
+export interface CardToken {
+  token: string;
+  brand: string;
+  last4: string;
+}
+
+export interface Payment {
+  _id: string;
+  transactionId: string;
+  receiptNumber: string;
+  paymentMethod: string;
+  amount: PaymentAmounts;
+  status: string;
+  createdAt: string;
+  orderId?: string;
+  userId?: string;
+  couponCode?: string;
+  failedReason?: string;
+  // The payment service's id, which refunds are made against
+  paymentId?: string;
+  refundedAmount?: number;
+}
+
+export interface RefundLine {
+  itemId: string;
+  productId?: string;
+  productName?: string;
+  quantity: number;
+  amount: number;
+}
+
+// One entry in a payment's refund ledger
+export interface Refund {
+  refundId: string;
+  paymentId: string;
+  orderId: string;
+  amount: number;
+  reason?: string;
+  lines: RefundLine[];
+  restock: boolean;
+  status: 'succeeded' | 'manual';
+  createdAt: string;
+}
+
+// Refund whole order lines, a plain amount, or (with neither) everything left
+export interface RefundRequest {
+  lines?: Array<{ itemId: string; quantity: number }>;
+  amount?: number;
+  reason: string;
+  restock: boolean;
+}
+
+export interface Coupon {
+  _id: string;
+  code: string;
+  discountType: 'percentage' | 'fixed';
+  discountValue: number;
+  minimumOrderAmount: number;
+  maximumDiscount?: number;
+  usageLimit?: number;
+  usedCount: number;
+  validFrom: string;
+  validUntil: string;
+  description: string;
+  isActive: boolean;
+}
+
+// What the admin coupon form submits; optional limits are sent as null when left blank.
+export type CouponInput = Omit<Coupon, '_id' | 'usedCount' | 'maximumDiscount' | 'usageLimit'> & {
+  maximumDiscount: number | null;
+  usageLimit: number | null;
+};
+
+// Answer to a coupon check: whether the code applies and, for every promotion
+// considered alongside it, why it did or did not apply.
+export interface CouponValidation {
+  code: string;
+  valid: boolean;
+  reason: string | null;
+  discountAmount: number;
+  finalAmount: number;
+  promotions: QuotePromotion[];
+  quote: Quote;
+}
+
+// ==== Promotions ====
+export type PromotionType = 'order' | 'category' | 'buy_x_get_y' | 'first_order' | 'tiered_spend';
+
+export interface PromotionTier {
+  threshold: number;
+  value: number;
+}
+
+// A pricing rule managed by admins. Promotions without a code apply
+// automatically; stacking is governed by `stackable`, `exclusive` and `priority`.
+export interface Promotion {
+  _id: string;
+  name: string;
+  description?: string;
+  code?: string;
+  type: PromotionType;
+  discountType: 'percentage' | 'fixed';
+  value: number;
+  maxDiscount?: number;
+  minOrderValue: number;
+  categories: string[];
+  products: string[];
+  buyQuantity?: number;
+  getQuantity?: number;
+  tiers: PromotionTier[];
+  stackable: boolean;
+  exclusive: boolean;
+  priority: number;
+  usageLimit?: number;
+  usedCount: number;
+  perCustomerLimit?: number;
+  validFrom?: string;
+  validUntil?: string;
+  isActive: boolean;
+}
+
+export type PromotionInput = Omit<Promotion, '_id' | 'usedCount'>;
+
+export interface Receipt {
+  _id: string;
+  receiptNumber: string;
+  transactionId: string;
+  customerDetails: {
+    name: string;
+    email: string;
+    phone: string;
+    address: string;
+  };
+  items: Array<{
+    productName: string;
+    quantity: number;
+    unitPrice: number;
+    total: number;
+    refundedQuantity?: number;
+  }>;
+  amounts: PaymentAmounts;
+  orderId?: string;
+  couponCode: string | null;
+  paymentMethod: string;
+  issuedAt: string;
+  refunds?: Array<{
+    refundId: string;
+    amount: number;
+    reason?: string;
+    createdAt: string;
+    lines: Array<{ productName: string; quantity: number; amount: number }>;
+  }>;
+}
+
+// ==== Impact ====
+// Kilograms of produce rescued and recycled into fertilizer, and the CO2e kept
+// out of landfill, from product weights and the emission factors below
+export interface Impact {
+  rescuedKg: number;
+  recycledKg: number;
+  co2eKg: number;
+}
+
+export interface CustomerImpact extends Impact {
+  // Orders that counted towards it
+  orderCount: number;
+  orders: (Impact & { orderId: string; orderNumber: string })[];
+}
+
+export interface VendorImpact extends Impact {
+  // Items sold, and surplus collected for recycling
+  sold: Impact;
+  surplus: Impact;
+}
+
+// What a kilogram of a product category counts as; category '*' covers the rest
+export interface ImpactFactor {
+  _id?: string;
+  category: string;
+  impact: 'rescued' | 'recycled' | 'none';
+  co2ePerKg: number;
+}
+
+// ==== Notifications ====
+export interface Notification {
+  _id: string;
+  title: string;
+  message: string;
+  type?: 'order' | 'payment' | 'promotion' | 'system' | 'review' | 'inventory';
+  isRead?: boolean;
+  createdAt: string;
+}
+
+// Pushed to a user's other tabs when notifications are marked read
+export interface NotificationsRead {
+  ids?: string[];
+  all?: boolean;
+}
+
+// Each of these types can go to any of the channels; inventory alerts follow 'system'
+export type NotificationPreferenceType = 'order' | 'payment' | 'promotion' | 'review' | 'system';
+export type NotificationChannel = 'inApp' | 'email' | 'sms';
+
+// Email and SMS wait while these hours ("HH:MM", may run past midnight) last
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+  timezone: string;
+}
+
+export interface NotificationPreferences {
+  userId: string;
+  types: Record<NotificationPreferenceType, Record<NotificationChannel, boolean>>;
+  quietHours: QuietHours;
+  // Blank to use the profile's email and phone number
+  contact: { email: string; phone: string };
+}
+
+export interface NotificationPreferencesInput {
+  types?: Partial<Record<NotificationPreferenceType, Partial<Record<NotificationChannel, boolean>>>>;
+  quietHours?: Partial<QuietHours>;
+  contact?: Partial<NotificationPreferences['contact']>;
+}
+
+// ==== Stock ====
+export type StockMovementType = 'receive' | 'reserve' | 'release' | 'sell' | 'return' | 'adjust';
+
+// One entry in a product's stock ledger
+export interface StockMovement {
+  _id: string;
+  productId: string;
+  vendorId?: string;
+  type: StockMovementType;
+  // Signed changes to the units on hand and reserved, and both counts after
+  change: { onHand: number; reserved: number };
+  balance: { onHand: number; reserved: number };
+  reason?: string;
+  // The order a checkout movement belongs to
+  reference?: string;
+  actor?: { id: string; role: string };
+  // Batches the units came out of or went into
+  batches?: { batchId: string; code: string; quantity: number }[];
+  createdAt: string;
+}
+
+export interface StockLevel {
+  productId: string;
+  name: string;
+  sku?: string;
+  vendorId: string;
+  imageUrl?: string;
+  status: string;
+  onHand: number;
+  // Held for checkouts that are being paid
+  reserved: number;
+  available: number;
+  lowStockThreshold: number;
+  isLow: boolean;
+}
+
+export interface StockMovementInput {
+  productId: string;
+  type: 'receive' | 'return' | 'adjust';
+  // Signed for adjustments
+  quantity?: number;
+  // Adjust to a counted figure instead of by `quantity`
+  counted?: number;
+  reason?: string;
+  // Received units open a batch
+  batch?: BatchInput;
+}
+
+// ==== Batches ====
+// Dates are 'YYYY-MM-DD'; a code is generated when none is given
+export interface BatchInput {
+  code?: string;
+  harvestDate?: string;
+  bestBefore?: string;
+}
+
+export type BatchStatus = 'active' | 'depleted' | 'expired';
+
+export interface Batch {
+  batchId: string;
+  productId: string;
+  productName?: string;
+  vendorId?: string;
+  code: string;
+  harvestDate?: string;
+  bestBefore?: string;
+  received: number;
+  remaining: number;
+  status: BatchStatus;
+  // Whole days to the best-before, negative once past; null when undated
+  daysLeft: number | null;
+  // Percent off suggested while the batch is close to its best-before
+  suggestedMarkdown: number | null;
+}
+
+export interface ExpiryReportRow extends Batch {
+  price?: number;
+  // Units written off when the batch expired
+  writtenOff: number;
+}
+
+// ==== Surplus ====
+// Unsold or expired vendor stock routed to recycling or fertilizer
+export type SurplusStatus = 'declared' | 'scheduled' | 'collected' | 'cancelled';
+export type SurplusSource = 'expired' | 'unsold';
+export type SurplusDestination = Exclude<InventoryCategory, 'Resale'>;
+
+export interface Surplus {
+  _id: string;
+  vendorId: string;
+  vendorName?: string;
+  productId: string;
+  productName?: string;
+  batchId?: string;
+  batchCode?: string;
+  source: SurplusSource;
+  units: number;
+  estimatedKg?: number;
+  collectedKg?: number;
+  destination?: SurplusDestination;
+  vehicleId?: string;
+  pickupDate?: string;
+  collectedAt?: string;
+  // The admin inventory item it was received as
+  inventoryItemId?: string;
+  notes?: string;
+  status: SurplusStatus;
+  createdAt: string;
+}
+
+// A batch, or units of undated stock, to send for recycling
+export interface SurplusInput {
+  batchId?: string;
+  productId?: string;
+  units?: number;
+  estimatedKg?: number;
+  notes?: string;
+}
+
+export interface SurplusPickup {
+  destination: SurplusDestination;
+  vehicleId: string;
+  pickupDate: string;
+}
+
+export interface DivertedReport {
+  from: string;
+  to: string;
+  totalKg: number;
+  byVendor: { vendorId: string; vendorName?: string; kg: number; pickups: number }[];
+  // month is 'YYYY-MM'
+  byMonth: { month: string; kg: number; recycleKg: number; fertilizerKg: number; pickups: number }[];
+}
+
+// Why an order could not be placed: a product had fewer units than asked for
+export interface StockShortage {
+  productId: string;
+  name?: string;
+  requested: number;
+  available: number;
+}
+
+// ==== Admin inventory ====
+export type InventoryCategory = 'Resale' | 'Recycle' | 'Fertilizer';
+
+export interface Vehicle {
+  _id: string;
+  make: string;
+  model: string;
+  year: number;
+  plateNumber?: string;
+  type?: string;
+  capacityKg?: number;
+  status?: string;
+}
+
+export interface InventoryItem {
+  _id: string;
+  name: string;
+  category: InventoryCategory;
+  quantity: number;
+  vendorName: string;
+  price: number;
+  vehicle?: Vehicle | string;
+  status: string;
+  dispatchedTime?: Date;
+}
+
+// ==== Dispatch ====
+// One place a run stops at: an order to deliver or an inventory load to pick up
+export interface DispatchStop {
+  kind: 'order' | 'inventory';
+  id: string;
+  label: string;
+  contact?: string;
+  phone?: string;
+  address?: OrderAddress;
+  // Postal code or city; pickups are grouped by vendor
+  area: string;
+  slot?: Pick<DeliverySlot, 'id' | 'date' | 'start' | 'end' | 'label'>;
+  weightKg: number;
+  // Position in the run, from 1
+  sequence?: number;
+}
+
+// One vehicle's stops for the day, in the order they are made
+export interface DispatchRun {
+  vehicle: Omit<OrderVehicle, 'assignedAt' | 'driverName' | 'driverPhone'> & { capacityKg: number };
+  loadKg: number;
+  // Share of the vehicle's capacity used, 0 to 1
+  utilization: number;
+  areas: string[];
+  stops: DispatchStop[];
+}
+
+export interface DispatchPlan {
+  date: string | null;
+  totalKg: number;
+  stopCount: number;
+  runs: DispatchRun[];
+  unassigned: Array<{ stop: DispatchStop; reason: string }>;
+}
+
+// ==== Fleet ====
+export type MaintenanceKind = 'service' | 'repair' | 'inspection' | 'tyres' | 'other';
+
+export interface MaintenanceEntry {
+  _id: string;
+  date: string;
+  kind: MaintenanceKind;
+  description?: string;
+  cost: number;
+  odometerKm?: number;
+  nextDueDate?: string;
+}
+
+// Days a vehicle cannot be dispatched, both ends included
+export interface AvailabilityBlock {
+  _id: string;
+  start: string;
+  end: string;
+  reason?: string;
+}
+
+// What admin-service keeps about a vehicle beyond its legacy record
+export interface VehicleProfile {
+  _id: string;
+  vehicleId: string;
+  insuranceExpiry?: string;
+  registrationExpiry?: string;
+  maintenance: MaintenanceEntry[];
+  availability: AvailabilityBlock[];
+}
+
+export interface FleetReminder {
+  vehicleId: string;
+  kind: 'insurance' | 'registration' | 'maintenance';
+  label: string;
+  dueDate: string;
+  // Negative once overdue
+  daysLeft: number;
+  overdue: boolean;
+}
+
+export interface FleetTrip {
+  vehicleId: string;
+  date: string;
+  loadKg: number;
+  capacityKg?: number;
+  stops: number;
+}
+
+export interface VehicleUtilization {
+  vehicleId: string;
+  trips: number;
+  kgMoved: number;
+  // Average load against capacity, 0 to 1
+  averageLoad: number;
+  activeDays: number;
+  blockedDays: number;
+  idleDays: number;
+}
+
+export interface FleetUtilization {
+  from: string;
+  to: string;
+  days: number;
+  vehicles: VehicleUtilization[];
+}
+
+// ==== Errors ====
+// Every client call rejects with this shape, whatever transport failed underneath.
+export interface ApiError {
+  message: string;
+  status?: number;
+  // The response body, when the server sent one
+  data?: unknown;
+}
+
+// The `{ success, data }` envelope used by the payment, coupon and receipt routes.
+export interface Envelope<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
@@ -3,20 +3,18 @@
 import React from "react";
 import { useState } from "react";
 import { useRouter } from "next/navigation";
-import axios from "axios";
 import Image from "next/image";
+import { toast } from "react-toastify";
 import EcoHarvest from "../images/ecoHarvestLogo.png";
-
-// Base URL for API requests
-const BASE_URL = "/api/proxy/api/auth";
-
-// Define interfaces for type safety
-interface LoginResponse {
-  role: "Vendor" | "Company" | "Customer" | "Admin";
-}
+import { AUTH } from "../lib/api";
+import { describeMergeSummary, useCart } from "../lib/cart";
+import { CUSTOMER_ROLES } from "../lib/roles";
+import { useSession } from "../lib/session";
 
 const Login: React.FC = () => {
   const router = useRouter();
+  const { refresh } = useSession();
+  const { mergeGuestCart } = useCart();
 
   const [isLoginView, setIsLoginView] = useState<boolean>(true);
   const [username, setUsername] = useState<string>("");
@@ -64,19 +62,26 @@ const Login: React.FC = () => {
     setIsLoading(true);
 
     try {
-      const response = await axios.post<LoginResponse>(
-        `${BASE_URL}/login`,
-        { username, password },
-        {
-          headers: { "Content-Type": "application/json" },
-          withCredentials: true,
-        }
-      );
+      const { role } = await AUTH.LOGIN({ username, password });
+      const session = await refresh();
 
       setLoginError(false);
 
+      if (session && CUSTOMER_ROLES.includes(role)) {
+        try {
+          const summary = await mergeGuestCart(session.id);
+          const message = summary && describeMergeSummary(summary);
+          if (message) {
+            toast.info(message);
+          }
+        } catch (err) {
+          console.error("Guest cart merge error:", err);
+          toast.error("We couldn't move your guest cart. It will be tried again next time you log in.");
+        }
+      }
+
       setTimeout(() => {
-        switch (response.data.role) {
+        switch (role) {
           case "Vendor":
             router.push("/vendor");
             break;
@@ -88,7 +93,7 @@ const Login: React.FC = () => {
             router.push("/admin");
             break;
           default:
-            console.error("Unknown role:", response.data.role);
+            console.error("Unknown role:", role);
             break;
         }
       }, 100);
@@ -112,7 +117,7 @@ const Login: React.FC = () => {
     }
 
     try {
-      await axios.post(`${BASE_URL}/registerIndividualCustomer`, {
+      await AUTH.REGISTER_INDIVIDUAL({
         firstName: regFirstName,
         lastName: regLastName,
         phoneNumber: regPhoneNumber,
@@ -126,11 +131,7 @@ const Login: React.FC = () => {
       window.location.reload();
     } catch (error: any) {
       console.error("Registration error:", error);
-      if (error.response) {
-        alert(`Registration failed: ${error.response.data.message || error.response.statusText}`);
-      } else {
-        alert("Registration failed: " + error.message);
-      }
+      alert("Registration failed: " + error.message);
     }
   };
 
@@ -146,7 +147,7 @@ const Login: React.FC = () => {
     }
 
     try {
-      await axios.post(`${BASE_URL}/registerCompanyCustomer`, {
+      await AUTH.REGISTER_COMPANY({
         firstName: comFirstName,
         lastName: comLastName,
         companyName: comCompanyName,
@@ -0,0 +1,292 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import { ORDER, RETURNS } from "../../lib/api";
+import { Order, OrderItem, ReturnPolicy, ReturnReason, ReturnRequest } from "../../lib/types";
+
+// ==== Types ====
+
+interface ReturnModalProps {
+  order: Order;
+  policy: ReturnPolicy | null;
+  // Requests already made for this order; their units cannot be asked for again
+  requests: ReturnRequest[];
+  onClose: () => void;
+  onRequested: (request: ReturnRequest) => void;
+}
+
+const MAX_PHOTOS = 3;
+const PHOTO_EDGE = 1024;
+
+const inputClass =
+  "w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-[#FDAA1C] focus:border-transparent outline-none transition-all";
+
+// Phone photos are far larger than the server accepts, so shrink them to a
+// JPEG no wider or taller than PHOTO_EDGE before attaching
+const downscale = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new window.Image();
+    image.onload = () => {
+      const scale = Math.min(1, PHOTO_EDGE / Math.max(image.width, image.height));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      canvas.getContext("2d")?.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve(canvas.toDataURL("image/jpeg", 0.8));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`${file.name} is not an image`));
+    };
+    image.src = url;
+  });
+
+// Units of a line not yet covered by an open or granted request
+const returnableOf = (item: OrderItem, requests: ReturnRequest[]): number =>
+  (item.quantity - (item.refundedQuantity || 0)) -
+  requests
+    .filter((request) => request.itemId === item._id && request.status !== "Rejected")
+    .reduce((sum, request) => sum + request.quantity, 0);
+
+// ==== Component ====
+
+const ReturnModal: React.FC<ReturnModalProps> = ({ order, policy, requests, onClose, onRequested }) => {
+  const [items, setItems] = useState<OrderItem[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [itemId, setItemId] = useState<string>("");
+  const [quantity, setQuantity] = useState<number>(1);
+  const [reason, setReason] = useState<ReturnReason>("spoiled");
+  const [details, setDetails] = useState<string>("");
+  const [resolution, setResolution] = useState<"refund" | "replacement">("refund");
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+
+  useEffect(() => {
+    const fetchOrder = async () => {
+      try {
+        const response = await ORDER.GET(order._id);
+        setItems(response.data.items ?? []);
+      } catch (error: any) {
+        console.error("Error fetching order:", error);
+        toast.error(error.message || "Failed to load the order");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchOrder();
+  }, [order._id]);
+
+  // Until the customer picks one, the first item that can still be returned
+  const selected =
+    items.find((item) => item._id === itemId) ?? items.find((item) => !itemId && returnableOf(item, requests) > 0);
+  const maxQuantity = selected ? returnableOf(selected, requests) : 0;
+
+  const handlePhotos = async (files: FileList | null): Promise<void> => {
+    if (!files) return;
+    const room = MAX_PHOTOS - photos.length;
+    if (files.length > room) {
+      toast.error(`You can attach up to ${MAX_PHOTOS} photos`);
+    }
+    try {
+      const added = await Promise.all(Array.from(files).slice(0, room).map(downscale));
+      setPhotos([...photos, ...added]);
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleSubmit = async (): Promise<void> => {
+    if (!selected) {
+      toast.error("Choose the item to return");
+      return;
+    }
+    if (reason === "spoiled" && photos.length === 0) {
+      toast.error("Attach a photo of the spoiled item");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await RETURNS.CREATE({
+        orderId: order._id,
+        itemId: selected._id,
+        quantity,
+        reason,
+        details: details.trim() || undefined,
+        resolution,
+        photos,
+      });
+      toast.success(`Return ${response.data.rmaNumber} requested`);
+      onRequested(response.data);
+    } catch (error: any) {
+      console.error("Error requesting return:", error);
+      toast.error(error.message || "Failed to request return");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-[100]">
+      <div className="bg-white rounded-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-100 flex justify-between items-start">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Return or Replace</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              Order #{order.orderNumber}
+              {policy && ` · within ${policy.windowHours} hours of delivery`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl leading-none">
+            ×
+          </button>
+        </div>
+
+        {loading ? (
+          <p className="p-6 text-center text-gray-500">Loading items...</p>
+        ) : (
+          <div className="p-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Item</label>
+              <select
+                value={selected?._id ?? ""}
+                onChange={(e) => {
+                  setItemId(e.target.value);
+                  setQuantity(1);
+                }}
+                className={inputClass}
+              >
+                <option value="" disabled>
+                  Choose an item
+                </option>
+                {items.map((item) => {
+                  const left = returnableOf(item, requests);
+                  return (
+                    <option key={item._id} value={item._id} disabled={left <= 0}>
+                      {item.productName} ({left > 0 ? `${left} returnable` : "already returned"})
+                    </option>
+                  );
+                })}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Quantity</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={maxQuantity}
+                  disabled={!selected}
+                  value={quantity}
+                  onChange={(e) => setQuantity(Math.max(1, Math.min(maxQuantity, parseInt(e.target.value) || 1)))}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                <select value={reason} onChange={(e) => setReason(e.target.value as ReturnReason)} className={inputClass}>
+                  {policy &&
+                    (Object.entries(policy.reasons) as [ReturnReason, string][]).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">What happened?</label>
+              <textarea
+                rows={3}
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Photos {reason === "spoiled" ? "(required)" : "(optional)"}
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {photos.map((photo, index) => (
+                  <div key={index} className="relative">
+                    <img src={photo} alt={`Photo ${index + 1}`} className="w-20 h-20 rounded-lg object-cover border border-gray-200" />
+                    <button
+                      onClick={() => setPhotos(photos.filter((_, i) => i !== index))}
+                      className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-red-500 text-white text-xs leading-none"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+                {photos.length < MAX_PHOTOS && (
+                  <label className="w-20 h-20 flex items-center justify-center rounded-lg border-2 border-dashed border-gray-300 text-gray-400 text-2xl cursor-pointer hover:border-[#FDAA1C]">
+                    +
+                    <input
+                      type="file"
+                      accept="image/*"
+                      multiple
+                      className="hidden"
+                      onChange={(e) => {
+                        handlePhotos(e.target.files);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">I would like</label>
+              <div className="flex gap-2">
+                {([
+                  ["refund", "A refund"],
+                  ["replacement", "A replacement"],
+                ] as ["refund" | "replacement", string][]).map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => setResolution(value)}
+                    className={`flex-1 py-2 rounded-xl text-sm font-medium transition-colors ${
+                      resolution === value ? "bg-green-600 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <p className="text-xs text-gray-500">
+              The vendor reviews your request. If they turn it down you can ask an admin to take another look.
+            </p>
+
+            <div className="flex gap-3 pt-2">
+              <button
+                onClick={handleSubmit}
+                disabled={submitting || !selected}
+                className="flex-1 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white py-3 rounded-xl font-semibold transition-colors"
+              >
+                {submitting ? "Sending..." : "Request Return"}
+              </button>
+              <button
+                onClick={onClose}
+                className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-900 py-3 rounded-xl font-semibold transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReturnModal;
@@ -7,133 +7,68 @@ import Image from "next/image";
 import ProductImage from "../images/product.png";
 import React, { useState, useRef, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import axios from "axios";
 import EmptyCart from "../images/emptyCart.png";
 import Loading from "../components/Loading";
-
-const API_BASE_URL = "/api/proxy";
-
-// Interfaces
-interface CartItem {
-  _id: string;
-  quantity: number;
-}
-
-interface Cart {
-  products: CartItem[];
-  totalAmount: number;
-}
-
-interface Product {
-  _id: string;
-  name: string;
-  subtitle: string;
-  averageRating: number;
-  imageUrl: string;
-  MRP: number;
-  unitPrice: number;
-}
-
-interface Advertisement {
-  title: string;
-  description: string;
-  imageUrl: string;
-}
-
-interface Order {
-  _id: string;
-  orderNumber: string;
-  orderTime: string;
-  status: string;
-  totalAmount: number;
-  products: Array<{
-    productId: Product;
-    quantity: number;
-    unitPrice: number;
-  }>;
-}
+import OrderTimeline from "../components/OrderTimeline";
+import ReturnModal from "./components/ReturnModal";
+import { toast } from "react-toastify";
+import { ADVERTISEMENT, ORDER, RETURNS } from "../lib/api";
+import { useCart } from "../lib/cart";
+import { useQuote } from "../lib/pricing";
+import { useSession } from "../lib/session";
+import { Advertisement, Order, ReturnPolicy, ReturnRequest } from "../lib/types";
 
 const OrderHistory: React.FC = () => {
   const [isFixed, setIsFixed] = useState<boolean>(true);
   const targetRef = useRef<HTMLDivElement>(null);
   const fixedRef = useRef<HTMLDivElement>(null);
 
-  const [id, setId] = useState<string>("");
-  const [role, setRole] = useState<string>("");
-  const [userLoggedIn, setUserLoggedIn] = useState<boolean>(false);
-  const [cart, setCart] = useState<Cart>({ products: [], totalAmount: 0 });
+  const { id, isLoggedIn: userLoggedIn } = useSession();
+  const { cart } = useCart();
+  const { quote } = useQuote(cart, null);
   const [orderHistory, setOrderHistory] = useState<Order[]>([]);
-  const [productsDetail, setProductsDetail] = useState<Product[]>([]);
   const [updateBtnVisible, setUpdateBtnVisible] = useState<boolean>(false);
   const [advertisement, setAdvertisement] = useState<Advertisement[]>([]);
-  const [numberOfCartItems, setNumberOfCartItems] = useState<number>(0);
   const [loading, setLoading] = useState<boolean>(true);
   const [expandedOrders, setExpandedOrders] = useState<Set<string>>(new Set());
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [returnPolicy, setReturnPolicy] = useState<ReturnPolicy | null>(null);
+  const [returningOrder, setReturningOrder] = useState<Order | null>(null);
 
   const router = useRouter();
 
   // Initial data fetch
   useEffect(() => {
+    if (!id) return;
     const fetchAll = async () => {
       try {
-        const adPromise = axios.get<Advertisement[]>(`${API_BASE_URL}/advertisement/`);
-        const cookiePromise = axios.get<{ id: string; role: string }>(
-          `${API_BASE_URL}/check-cookie/`,
-          { withCredentials: true }
-        );
-
-        const [adRes, cookieRes] = await Promise.all([adPromise, cookiePromise]);
-        setAdvertisement(adRes.data);
-
-        const userId = cookieRes.data.id;
-        setId(userId);
-        setRole(cookieRes.data.role);
+        setAdvertisement(await ADVERTISEMENT.LIST());
+      } catch {
+        // The banner is left out.
+      }
 
-        if (cookieRes.data.role === "Customer") {
-          setUserLoggedIn(true);
-          try {
-            const cartRes = await axios.get<{ cart: Cart; products: Product[] }>(
-              `${API_BASE_URL}/cart/${userId}`
-            );
-            setCart(cartRes.data.cart);
-            setProductsDetail(cartRes.data.products);
-            setNumberOfCartItems(cartRes.data.cart.products.length);
-          } catch {
-            console.log("Cart Empty");
-          }
+      try {
+        setOrderHistory(await ORDER.HISTORY(id));
+      } catch {
+        // The legacy API answers 404 for a customer with no orders; the empty state shows.
+      }
 
-          try {
-            const orderRes = await axios.get<Order[]>(`${API_BASE_URL}/orders/history/${userId}`);
-            setOrderHistory(orderRes.data);
-          } catch {
-            console.log("No order history");
-          }
-        } else if (cookieRes.data.role === "Vendor") {
-          router.push("/vendor");
-        } else if (cookieRes.data.role === "Admin") {
-          router.push("/admin");
-        }
-        setLoading(false);
-      } catch (err) {
-        router.push("/login");
+      try {
+        const [policy, requests] = await Promise.all([RETURNS.POLICY(), RETURNS.BY_USER(id)]);
+        setReturnPolicy(policy.data);
+        setReturns(requests.data);
+      } catch {
+        // Orders show without their returns; the return form still opens, without the policy.
       }
+      setLoading(false);
     };
 
     fetchAll();
-  }, [router]);
+  }, [id]);
 
-  const handleCheckout = async (): Promise<void> => {
-    if (userLoggedIn) {
-      try {
-        const response = await axios.post(`${API_BASE_URL}/orders/checkout`, { cart });
-        console.log("Checkout response:", response);
-        router.push("/checkout");
-      } catch (error) {
-        console.error("Checkout error:", error);
-      }
-    } else {
-      router.push("/login");
-    }
+  // The order itself is created on the checkout page, from a fresh quote.
+  const handleCheckout = (): void => {
+    router.push(userLoggedIn ? "/checkout" : "/login");
   };
 
   useEffect(() => {
@@ -160,13 +95,24 @@ const OrderHistory: React.FC = () => {
     });
   };
 
-  const getStatusColor = (status: string) => {
-    const normalizedStatus = status.toLowerCase();
-    if (normalizedStatus.includes('deliver')) return 'bg-green-100 text-green-800 border-green-300';
-    if (normalizedStatus.includes('process') || normalizedStatus.includes('pending')) return 'bg-blue-100 text-blue-800 border-blue-300';
-    if (normalizedStatus.includes('cancel')) return 'bg-red-100 text-red-800 border-red-300';
-    if (normalizedStatus.includes('ship')) return 'bg-purple-100 text-purple-800 border-purple-300';
-    return 'bg-gray-100 text-gray-800 border-gray-300';
+  // Orders placed but never paid for; the customer can pay again from checkout.
+  const needsPayment = (order: Order) => order.status === 'Pending Payment' && order.paymentStatus !== 'paid';
+
+  // Items can be returned once their vendor's part of the order has arrived
+  const canReturn = (order: Order) =>
+    !order.replacementFor &&
+    (order.status === 'Delivered' || !!order.shipments?.some((shipment) => shipment.status === 'Delivered'));
+
+  const returnsFor = (order: Order) => returns.filter((request) => request.orderId === order._id);
+
+  const handleEscalate = async (request: ReturnRequest): Promise<void> => {
+    try {
+      const response = await RETURNS.ESCALATE(request._id);
+      setReturns(returns.map((r) => (r._id === request._id ? response.data : r)));
+      toast.success("An admin will review your return");
+    } catch (error: any) {
+      toast.error(error.message || "Failed to escalate return");
+    }
   };
 
   if (loading) {
@@ -181,13 +127,7 @@ const OrderHistory: React.FC = () => {
 
   return (
     <div className="bg-gradient-to-br from-gray-50 to-gray-100 min-h-screen">
-      <Navigation
-        numberOfCartItems={numberOfCartItems}
-        productsDetail={productsDetail}
-        cart={cart}
-        id={id}
-        userLoggedIn={userLoggedIn}
-      />
+      <Navigation />
       <div className="pt-[12vh] sm:pt-[17vh] w-full flex items-center justify-center text-gray-900">
         <div className="w-[95%] lg:w-[90%] xl:w-[85%] min-h-[100vh] mt-[20px] flex flex-col lg:flex-row gap-6">
           {/* Left Section */}
@@ -275,15 +215,61 @@ const OrderHistory: React.FC = () => {
                               </div>
                             </div>
                           </div>
-                          <span className={`px-4 py-2 rounded-full text-sm font-medium border ${getStatusColor(order.status)} w-fit`}>
-                            {order.status}
-                          </span>
                         </div>
 
+                        <div className="mt-4">
+                          <OrderTimeline order={order} />
+                        </div>
+
+                        {/* Each vendor ships their part of the order separately */}
+                        {order.shipments && order.shipments.length > 1 && (
+                          <div className="mt-4 space-y-2">
+                            {order.shipments.map((shipment) => (
+                              <div
+                                key={shipment.vendorId}
+                                className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 px-4 py-2 bg-gray-50 rounded-lg border border-gray-200 text-sm"
+                              >
+                                <span className="font-medium text-gray-900">From {shipment.vendorName || "vendor"}</span>
+                                <span className="text-gray-600">
+                                  {shipment.status}
+                                  {shipment.trackingNumber && ` · ${shipment.carrier ? `${shipment.carrier} ` : ""}${shipment.trackingNumber}`}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
                         <div className="mt-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
                           <div className="text-lg font-bold text-gray-900">
                             Total: <span className="text-green-600">Rs. {order.totalAmount.toLocaleString()}</span>
+                            {needsPayment(order) && order.paymentFailureReason && (
+                              <p className="text-sm font-normal text-red-600">Last payment failed: {order.paymentFailureReason}</p>
+                            )}
                           </div>
+                          {needsPayment(order) && (
+                            <button
+                              onClick={() => router.push(`/checkout?orderId=${order._id}`)}
+                              className="px-4 py-2 bg-[#FDAA1C] hover:bg-orange-500 text-white rounded-lg transition-colors text-sm font-medium"
+                            >
+                              Retry Payment
+                            </button>
+                          )}
+                          {order.status !== 'Pending Payment' && (
+                            <button
+                              onClick={() => router.push(`/order-history/track?orderId=${order._id}`)}
+                              className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors text-sm font-medium"
+                            >
+                              Track Order
+                            </button>
+                          )}
+                          {canReturn(order) && (
+                            <button
+                              onClick={() => setReturningOrder(order)}
+                              className="px-4 py-2 border border-gray-300 hover:bg-gray-50 rounded-lg transition-colors text-sm font-medium"
+                            >
+                              Return / Replace
+                            </button>
+                          )}
                           <button
                             onClick={() => toggleOrderExpansion(order._id)}
                             className="flex cursor-pointer items-center gap-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors text-sm font-medium"
@@ -301,6 +287,45 @@ const OrderHistory: React.FC = () => {
                         </div>
                       </div>
 
+                      {/* Return requests for this order */}
+                      {returnsFor(order).length > 0 && (
+                        <div className="px-4 sm:px-6 py-3 border-b border-gray-100 space-y-2">
+                          {returnsFor(order).map((request) => (
+                            <div
+                              key={request._id}
+                              className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 text-sm"
+                            >
+                              <div>
+                                <span className="font-medium text-gray-900">{request.rmaNumber}</span>
+                                <span className="text-gray-600">
+                                  {" "}· {request.quantity} × {request.productName} · {request.resolution === "refund" ? "Refund" : "Replacement"}
+                                </span>
+                                {request.status === "Rejected" && request.statusHistory.length > 0 && (
+                                  <p className="text-xs text-gray-500 italic">
+                                    {request.statusHistory[request.statusHistory.length - 1].note}
+                                  </p>
+                                )}
+                              </div>
+                              <div className="flex items-center gap-2">
+                                <span className="px-3 py-1 rounded-full bg-gray-100 text-gray-700 text-xs font-medium">
+                                  {request.status}
+                                  {request.status === "Refunded" && request.refundAmount !== undefined &&
+                                    ` · Rs. ${request.refundAmount.toFixed(2)}`}
+                                </span>
+                                {request.status === "Rejected" && !request.escalatedAt && (
+                                  <button
+                                    onClick={() => handleEscalate(request)}
+                                    className="px-3 py-1 rounded-lg bg-[#FDAA1C] hover:bg-orange-500 text-white text-xs font-medium transition-colors"
+                                  >
+                                    Ask an Admin
+                                  </button>
+                                )}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
                       {/* Order Items - Expandable */}
                       {isExpanded && (
                         <div className="p-4 sm:p-6 bg-gray-50 space-y-3">
@@ -403,17 +428,25 @@ const OrderHistory: React.FC = () => {
                   <div className="space-y-3">
                     <div className="flex justify-between text-gray-600">
                       <span>Subtotal</span>
-                      <span className="font-semibold">Rs. {cart.totalAmount.toLocaleString()}</span>
-                    </div>
-                    <div className="flex justify-between text-gray-600">
-                      <span>Delivery Charge</span>
-                      <span className="font-semibold">Rs. 500</span>
-                    </div>
-                    <div className="h-px bg-gray-200"></div>
-                    <div className="flex justify-between text-lg font-bold text-gray-900">
-                      <span>Grand Total</span>
-                      <span className="text-green-600">Rs. {(cart.totalAmount + 500).toLocaleString()}</span>
+                      <span className="font-semibold">Rs. {(quote?.subtotal ?? cart.totalAmount).toLocaleString()}</span>
                     </div>
+                    {quote && (
+                      <>
+                        <div className="flex justify-between text-gray-600">
+                          <span>Tax</span>
+                          <span className="font-semibold">Rs. {quote.tax.toFixed(2)}</span>
+                        </div>
+                        <div className="flex justify-between text-gray-600">
+                          <span>Delivery Charge</span>
+                          <span className="font-semibold">{quote.deliveryFee === 0 ? "FREE" : `Rs. ${quote.deliveryFee}`}</span>
+                        </div>
+                        <div className="h-px bg-gray-200"></div>
+                        <div className="flex justify-between text-lg font-bold text-gray-900">
+                          <span>Grand Total</span>
+                          <span className="text-green-600">Rs. {quote.total.toFixed(2)}</span>
+                        </div>
+                      </>
+                    )}
                   </div>
 
                   <div className="space-y-3 pt-4">
@@ -433,7 +466,7 @@ const OrderHistory: React.FC = () => {
 
                   <div className="pt-4 border-t border-gray-200">
                     <p className="text-xs text-gray-500 text-center">
-                      🔒 Secure checkout · Free delivery on orders over Rs. 2000
+                      🔒 Secure checkout · Free delivery on orders over Rs. {(quote?.freeDeliveryThreshold ?? 5000).toLocaleString()}
                     </p>
                   </div>
                 </div>
@@ -463,6 +496,18 @@ const OrderHistory: React.FC = () => {
       <div ref={targetRef} className="flex items-center justify-center mt-12">
         <div className="w-[95%]">{/* <YouMightLike /> */}</div>
       </div>
+      {returningOrder && (
+        <ReturnModal
+          order={returningOrder}
+          policy={returnPolicy}
+          requests={returnsFor(returningOrder)}
+          onClose={() => setReturningOrder(null)}
+          onRequested={(request) => {
+            setReturns([request, ...returns]);
+            setReturningOrder(null);
+          }}
+        />
+      )}
       <Max />
       <Footer />
     </div>
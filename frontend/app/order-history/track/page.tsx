@@ -0,0 +1,180 @@
+"use client";
+
+import React, { Suspense } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Footer from "../../components/Footer";
+import Max from "../../components/Max";
+import Navigation from "../../components/Navigation";
+import Loading from "../../components/Loading";
+import OrderTimeline from "../../components/OrderTimeline";
+import { useOrderTracking } from "../../lib/tracking";
+import { Shipment } from "../../lib/types";
+
+const shipmentColor = (status: string): string => {
+  switch (status) {
+    case "Delivered":
+      return "bg-green-100 text-green-800";
+    case "Shipped":
+    case "Out for Delivery":
+      return "bg-purple-100 text-purple-800";
+    case "Cancelled":
+      return "bg-red-100 text-red-800";
+    default:
+      return "bg-blue-100 text-blue-800";
+  }
+};
+
+const lastUpdate = (shipment: Shipment): string => {
+  const change = shipment.statusHistory?.[shipment.statusHistory.length - 1];
+  return change ? new Date(change.at).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" }) : "";
+};
+
+// Where an order is now: its status timeline, each vendor's shipment with the
+// courier's tracking number, and the vehicle bringing it. Updates live.
+const TrackOrderPage: React.FC = () => {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const { tracking, loading, error, live } = useOrderTracking(searchParams.get("orderId"));
+
+  if (loading) {
+    return (
+      <div className="fixed inset-0 z-[99999] flex items-center justify-center bg-white/80 backdrop-blur-sm">
+        <Loading />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gradient-to-br from-gray-50 to-gray-100 min-h-screen">
+      <Navigation />
+      <div className="pt-[12vh] sm:pt-[17vh] w-full flex justify-center text-gray-900">
+        <div className="w-[95%] lg:w-[70%] xl:w-[60%] min-h-[80vh] mt-[20px] space-y-6">
+          <button
+            onClick={() => router.push("/order-history")}
+            className="text-sm text-gray-600 hover:text-gray-900 flex items-center gap-1"
+          >
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Order History
+          </button>
+
+          {!tracking ? (
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-12 text-center">
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">Order not found</h3>
+              <p className="text-gray-500">{error || "We could not find this order."}</p>
+            </div>
+          ) : (
+            <>
+              {/* Header */}
+              <div className="bg-white rounded-[15px] border border-gray-300 p-6">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                  <div>
+                    <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Order #{tracking.orderNumber}</h1>
+                    <p className="text-sm text-gray-500 mt-1">
+                      {tracking.status}
+                      {tracking.deliverySlot && ` · Delivery ${tracking.deliverySlot.label}`}
+                    </p>
+                  </div>
+                  <span className="flex items-center gap-2 text-xs text-gray-500">
+                    <span className={`w-2 h-2 rounded-full ${live ? "bg-green-500 animate-pulse" : "bg-gray-400"}`} />
+                    {live ? "Live updates" : "Reconnecting..."}
+                  </span>
+                </div>
+                <div className="mt-6">
+                  <OrderTimeline order={tracking} />
+                </div>
+              </div>
+
+              {/* Vehicle */}
+              <div className="bg-white rounded-[15px] border border-gray-300 p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-3">Delivery Vehicle</h2>
+                {tracking.vehicle ? (
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+                    <div>
+                      <p className="text-gray-500">Vehicle</p>
+                      <p className="font-semibold">
+                        {[tracking.vehicle.make, tracking.vehicle.model].filter(Boolean).join(" ") || "-"}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">Plate</p>
+                      <p className="font-semibold">{tracking.vehicle.plateNumber || "-"}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">Type</p>
+                      <p className="font-semibold">{tracking.vehicle.type || "-"}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-500">Driver</p>
+                      <p className="font-semibold">
+                        {tracking.vehicle.driverName || "-"}
+                        {tracking.vehicle.driverPhone && (
+                          <a href={`tel:${tracking.vehicle.driverPhone}`} className="block text-green-600 font-normal">
+                            {tracking.vehicle.driverPhone}
+                          </a>
+                        )}
+                      </p>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">A vehicle is assigned once your order is on its way.</p>
+                )}
+              </div>
+
+              {/* Shipments */}
+              <div className="bg-white rounded-[15px] border border-gray-300 p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-3">Shipments</h2>
+                {tracking.shipments && tracking.shipments.length > 0 ? (
+                  <div className="space-y-3">
+                    {tracking.shipments.map((shipment) => (
+                      <div
+                        key={shipment.vendorId}
+                        className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 px-4 py-3 bg-gray-50 rounded-lg border border-gray-200 text-sm"
+                      >
+                        <div>
+                          <p className="font-medium text-gray-900">From {shipment.vendorName || "vendor"}</p>
+                          <p className="text-gray-500">{lastUpdate(shipment)}</p>
+                        </div>
+                        <div className="sm:text-right">
+                          <span className={`px-3 py-1 rounded-full text-xs font-medium ${shipmentColor(shipment.status)}`}>
+                            {shipment.status}
+                          </span>
+                          {shipment.trackingNumber && (
+                            <p className="text-gray-600 mt-1">
+                              {shipment.carrier ? `${shipment.carrier} · ` : ""}
+                              {shipment.trackingNumber}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : tracking.trackingNumber ? (
+                  <p className="text-sm text-gray-700">
+                    {tracking.carrier ? `${tracking.carrier} · ` : ""}
+                    {tracking.trackingNumber}
+                  </p>
+                ) : (
+                  <p className="text-sm text-gray-500">Tracking details appear once your order is handed to the courier.</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+      <Max />
+      <Footer />
+    </div>
+  );
+};
+
+function TrackOrder(): React.JSX.Element {
+  return (
+    <Suspense fallback={<Loading />}>
+      <TrackOrderPage />
+    </Suspense>
+  );
+}
+
+export default TrackOrder;
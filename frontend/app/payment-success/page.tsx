@@ -2,41 +2,13 @@
 
 import { useEffect, useState, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
-import axios from "axios";
 import Navigation from "../components/Navigation";
 import Footer from "../components/Footer";
 import Max from "../components/Max";
 import { CheckCircle, Download, ArrowRight, Printer } from "lucide-react";
-
-const BASE_URL = "/api/proxy";
-
-interface Receipt {
-  _id: string;
-  receiptNumber: string;
-  transactionId: string;
-  customerDetails: {
-    name: string;
-    email: string;
-    phone: string;
-    address: string;
-  };
-  items: Array<{
-    productName: string;
-    quantity: number;
-    unitPrice: number;
-    total: number;
-  }>;
-  amounts: {
-    subtotal: number;
-    discount: number;
-    tax: number;
-    deliveryFee: number;
-    total: number;
-  };
-  couponCode: string | null;
-  paymentMethod: string;
-  issuedAt: string;
-}
+import ImpactSummary from "../components/ImpactSummary";
+import { IMPACT, RECEIPT } from "../lib/api";
+import { Impact, Receipt } from "../lib/types";
 
 function PaymentSuccessContent() {
   const router = useRouter();
@@ -44,6 +16,7 @@ function PaymentSuccessContent() {
   const receiptId = searchParams.get("receiptId");
   
   const [receipt, setReceipt] = useState<Receipt | null>(null);
+  const [impact, setImpact] = useState<Impact | null>(null);
   const [loading, setLoading] = useState(true);
   const [downloadingPDF, setDownloadingPDF] = useState(false);
 
@@ -57,13 +30,15 @@ function PaymentSuccessContent() {
 
   const fetchReceipt = async () => {
     try {
-      const response = await axios.get<{ success: boolean; data: Receipt }>(
-        `${BASE_URL}/receipts/${receiptId}`,
-        { withCredentials: true }
-      );
+      const response = await RECEIPT.GET(receiptId as string);
       
-      if (response.data.success) {
-        setReceipt(response.data.data);
+      if (response.success) {
+        setReceipt(response.data);
+        if (response.data.orderId) {
+          IMPACT.ORDER(response.data.orderId)
+            .then((impactResponse) => setImpact(impactResponse.data))
+            .catch((error) => console.error("Error fetching impact:", error));
+        }
       }
     } catch (error) {
       console.error("Error fetching receipt:", error);
@@ -77,16 +52,10 @@ function PaymentSuccessContent() {
     
     setDownloadingPDF(true);
     try {
-      const response = await axios.get(
-        `${BASE_URL}/receipts/pdf/${receiptId}`,
-        {
-          responseType: 'blob',
-          withCredentials: true
-        }
-      );
+      const pdf = await RECEIPT.PDF(receiptId);
       
       // Create blob link to download
-      const url = window.URL.createObjectURL(new Blob([response.data]));
+      const url = window.URL.createObjectURL(new Blob([pdf]));
       const link = document.createElement('a');
       link.href = url;
       link.setAttribute('download', `receipt_${receipt?.receiptNumber || receiptId}.pdf`);
@@ -102,52 +71,6 @@ function PaymentSuccessContent() {
     }
   };
   
-  const [id, setId] = useState("");
-    const [role, setRole] = useState("");
-    const [userLoggedIn, setUserLoggedIn] = useState(false);
-    const [cart, setCart] = useState<{ products: any[] }>({ products: [] });
-    
-  
-    useEffect(() => {
-      const fetchCookies = async () => {
-        try {
-          const response = await axios.get(
-            `${BASE_URL}/check-cookie/`,
-            {
-              withCredentials: true,
-            }
-          );
-  
-          console.log(response.data);
-          setId(response.data.id);
-          setRole(response.data.role);
-  
-          if (response.data.role === "Customer") {
-            setUserLoggedIn(true);
-            try {
-              const response2 = await axios.get(
-                `${BASE_URL}/cart/${response.data.id}`
-              );
-              setCart({ products: response2.data });
-              console.log("Cart items fetched successfully:", response2.data);
-            } catch (err) {
-              console.error("Error fetching cart items:", err);
-            }
-          } else if (response.data.role === "Vendor") {
-            router.push("/vendor");
-          } else if (response.data.role === "Admin") {
-            router.push("/admin");
-          }
-        } catch (error) {
-          console.error("Error fetching cookies:", error);
-        }
-      };
-  
-      fetchCookies();
-    }, []);
-  
-
-
   const handlePrint = () => {
     window.print();
   };
@@ -166,13 +89,7 @@ function PaymentSuccessContent() {
   if (!receipt) {
     return (
       <div className="min-h-screen text-black flex flex-col">
-        <Navigation
-                cart={cart}
-                id={id}
-                userLoggedIn={userLoggedIn}
-                productsDetail={cart.products}
-                numberOfCartItems={cart.products.length}
-              />
+        <Navigation />
         <div className="flex-grow flex items-center justify-center pt-25">
           <div className="text-center">
             <h1 className="text-2xl font-bold mb-4">Receipt Not Found</h1>
@@ -192,13 +109,7 @@ function PaymentSuccessContent() {
 
   return (
     <div className="min-h-screen text-black bg-gray-50 flex flex-col">
-      <Navigation
-              cart={cart}
-              id={id}
-              userLoggedIn={userLoggedIn}
-              productsDetail={cart.products}
-              numberOfCartItems={cart.products.length}
-            />
+      <Navigation />
       
       <main className="flex-grow pt-37 pb-12">
         <div className="container mx-auto px-4">
@@ -290,7 +201,12 @@ function PaymentSuccessContent() {
                       {receipt.items.map((item, index) => (
                         <tr key={index}>
                           <td className="p-3">{item.productName}</td>
-                          <td className="text-center p-3">{item.quantity}</td>
+                          <td className="text-center p-3">
+                            {item.quantity}
+                            {!!item.refundedQuantity && (
+                              <span className="block text-xs text-purple-600">{item.refundedQuantity} refunded</span>
+                            )}
+                          </td>
                           <td className="text-right p-3">Rs. {item.unitPrice.toFixed(2)}</td>
                           <td className="text-right p-3">Rs. {item.total.toFixed(2)}</td>
                         </tr>
@@ -333,9 +249,49 @@ function PaymentSuccessContent() {
                     <span>Total Amount:</span>
                     <span>Rs. {receipt.amounts.total.toFixed(2)}</span>
                   </div>
+
+                  {!!receipt.amounts.refunded && (
+                    <>
+                      <div className="flex justify-between text-purple-600">
+                        <span>Refunded:</span>
+                        <span className="font-medium">- Rs. {receipt.amounts.refunded.toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between font-bold">
+                        <span>Net Paid:</span>
+                        <span>Rs. {(receipt.amounts.netTotal ?? receipt.amounts.total - receipt.amounts.refunded).toFixed(2)}</span>
+                      </div>
+                    </>
+                  )}
                 </div>
               </div>
 
+              {/* Refunds */}
+              {receipt.refunds && receipt.refunds.length > 0 && (
+                <div className="border-t pt-4 mt-4">
+                  <h3 className="font-semibold text-gray-900 mb-2">Refunds</h3>
+                  <ul className="space-y-2 text-sm">
+                    {receipt.refunds.map((refund) => (
+                      <li key={refund.refundId} className="flex justify-between gap-4">
+                        <span className="text-gray-600">
+                          {new Date(refund.createdAt).toLocaleDateString()}
+                          {refund.lines.length > 0
+                            ? ` · ${refund.lines.map((line) => `${line.quantity} × ${line.productName}`).join(", ")}`
+                            : ""}
+                          {refund.reason && ` · ${refund.reason}`}
+                        </span>
+                        <span className="font-medium text-purple-600">Rs. {refund.amount.toFixed(2)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {impact && (
+                <div className="mt-6">
+                  <ImpactSummary impact={impact} title="This Order's Impact" />
+                </div>
+              )}
+
               {/* Footer */}
               <div className="mt-8 pt-6 border-t text-center text-sm text-gray-600">
                 <p className="font-medium mb-2">Thank you for shopping with EcoHarvest!</p>
@@ -9,11 +9,11 @@ import StarRating from "../components/StarRating";
 import Image from "next/image";
 import ProductImage2 from "../images/product.png";
 import { useSearchParams, useRouter } from "next/navigation";
-import axios from "axios";
 import Loading from "../components/Loading";
-
-// ====== Base URL ======
-const BASE_URL = "/api/proxy";
+import { PRODUCT, REVIEW } from "../lib/api";
+import { useCart } from "../lib/cart";
+import { useSession } from "../lib/session";
+import { Product, Review } from "../lib/types";
 
 // ====== Types ======
 interface ProductDetail {
@@ -28,48 +28,6 @@ interface ProductDetail {
   imageUrl: string;
 }
 
-interface ApiProductResponse {
-  _id: string;
-  vendorId: string;
-  name: string;
-  subtitle: string;
-  quantity: number;
-  unitPrice: number;
-  category: string;
-  productCategory_id: string;
-  imageUrl: string;
-  status: string;
-  createdAt: string;
-  __v: number;
-  MRP: number;
-  averageRating: number;
-  numberOfReviews: number;
-}
-
-interface Review {
-  userName: string;
-  rating: number;
-  comment: string;
-}
-
-interface CartItem {
-  _id: string;
-  productId: string;
-  quantity: number;
-  name?: string;
-  subtitle?: string;
-  unitPrice?: number;
-  MRP?: number;
-  averageRating?: number;
-  numberOfReviews?: number;
-  statSubus?: string;
-  imageUrl?: string;
-}
-
-interface Cart {
-  products: CartItem[];
-}
-
 const ProductPageComponent = () => {
   const searchParams = useSearchParams();
   const router = useRouter();
@@ -82,15 +40,13 @@ const ProductPageComponent = () => {
 
   // ====== State ======
   const [quantity, setQuantity] = useState<number>(1);
-  const [cart, setCart] = useState<Cart>({ products: [] });
+  const [product, setProduct] = useState<Product | null>(null);
   const [productDetails, setProductDetails] = useState<ProductDetail | null>(null);
   const [reviews, setReviews] = useState<Review[]>([]);
   const [userReview, setUserReview] = useState<string>("");
   const [userRating, setUserRating] = useState<number>(0);
-  const [id, setId] = useState<string>("");
-  const [role, setRole] = useState<string>("");
-  const [userLoggedIn, setUserLoggedIn] = useState<boolean>(false);
-  const [numberOfCartItems, setNumberOfCartItems] = useState<number>(0);
+  const { id, isLoggedIn: userLoggedIn } = useSession();
+  const { addItem } = useCart();
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [productNotFound, setProductNotFound] = useState<boolean>(false);
@@ -109,25 +65,7 @@ const ProductPageComponent = () => {
         setLoading(true);
         setError(null);
 
-        const response = await axios.get(
-          `${BASE_URL}/products/${productId}`,
-          { timeout: 10000, headers: { 'Content-Type': 'application/json' } }
-        );
-
-        if (!response.data) {
-          throw new Error('No data received from API');
-        }
-
-        let productData: ApiProductResponse;
-        if (response.data["0"]) {
-          productData = response.data["0"];
-        } else if (response.data.id || response.data._id) {
-          productData = response.data;
-        } else if (Array.isArray(response.data) && response.data.length > 0) {
-          productData = response.data[0];
-        } else {
-          throw new Error('Invalid data format received from API');
-        }
+        const productData = await PRODUCT.GET(productId);
 
         if (!productData.name || !productData.unitPrice) {
           throw new Error('Missing required product fields');
@@ -146,23 +84,22 @@ const ProductPageComponent = () => {
             ? productData.imageUrl : ProductImage2.src,
         };
 
+        setProduct(productData);
         setProductDetails(fetched);
         setProductNotFound(false);
 
       } catch (err: any) {
         console.error("Error fetching product details:", err);
 
-        if (err.response?.status === 404) {
+        if (err.status === 404) {
           setProductNotFound(true);
           setError("Product not found");
-        } else if (err.code === 'ECONNABORTED') {
-          setError("Request timeout - please try again");
-        } else if (err.response?.status >= 500) {
+        } else if (err.status >= 500) {
           setError("Server error - please try again later");
         } else if (!navigator.onLine) {
           setError("No internet connection");
         } else {
-          setError(err.response?.data?.message || err.message || "Failed to load product details");
+          setError(err.message || "Failed to load product details");
         }
       } finally {
         setLoading(false);
@@ -178,11 +115,8 @@ const ProductPageComponent = () => {
       if (!productId || loading || !productDetails) return;
 
       try {
-        const response = await axios.get<Review[]>(
-          `${BASE_URL}/reviews/${productId}`,
-          { timeout: 8000 }
-        );
-        setReviews(response.data || []);
+        const data = await REVIEW.LIST(productId);
+        setReviews(data || []);
       } catch (err) {
         setReviews([]);
       }
@@ -191,64 +125,6 @@ const ProductPageComponent = () => {
     fetchReviews();
   }, [productId, loading, productDetails]);
 
-  // ====== Fetch User Info & Cart ======
-  useEffect(() => {
-    const fetchUserAndCart = async () => {
-      try {
-        const response = await axios.get<{ id: string; role: string }>(
-          `${BASE_URL}/check-cookie`,
-          { withCredentials: true, timeout: 8000 }
-        );
-
-        setId(response.data.id);
-        setRole(response.data.role);
-
-        if (["Customer", "Company"].includes(response.data.role)) {
-          setUserLoggedIn(true);
-
-          try {
-            const cartResponse = await axios.get<{ cart: Cart; products: ProductDetail[] }>(
-              `${BASE_URL}/cart/${response.data.id}`,
-              { timeout: 8000 }
-            );
-
-            const cartData: Cart = {
-              products: cartResponse.data.cart.products.map((p: any) => ({
-                _id: p._id || `cart-item-${Date.now()}-${Math.random()}`,
-                productId: p.productId,
-                quantity: p.quantity,
-                name: p.name,
-                subtitle: p.subtitle,
-                unitPrice: p.unitPrice,
-                MRP: p.MRP,
-                averageRating: p.averageRating,
-                numberOfReviews: p.numberOfReviews,
-                statSubus: p.statSubus,
-                imageUrl: p.imageUrl || ProductImage2.src,
-              })),
-            };
-
-            setCart(cartData);
-            setNumberOfCartItems(cartData.products.length);
-          } catch {
-            setCart({ products: [] });
-            setNumberOfCartItems(0);
-          }
-        } else if (response.data.role === "Vendor") {
-          router.push("/vendor");
-        } else if (response.data.role === "Admin") {
-          router.push("/admin");
-        }
-      } catch {
-        setUserLoggedIn(false);
-        setId("");
-        setRole("");
-      }
-    };
-
-    fetchUserAndCart();
-  }, [router]);
-
   // ====== Handlers ======
   const handleIncreaseQuantity = () => setQuantity((prev) => prev + 1);
   const handleDecreaseQuantity = () => setQuantity((prev) => (prev > 1 ? prev - 1 : 1));
@@ -257,55 +133,18 @@ const ProductPageComponent = () => {
     if (!isNaN(value) && value >= 1) setQuantity(value);
   };
 
+  // Guests can fill a cart too; it is kept in the browser until they log in.
   const addToCart = async () => {
-    if (!userLoggedIn) {
-      router.push("/login");
-      return;
-    }
-
-    if (!productDetails) {
+    if (!product) {
       setError("Product details not loaded");
       return;
     }
 
     setAddingToCart(true);
     try {
-      const response = await axios.post(
-        `${BASE_URL}/cart`,
-        { productId, userId: id, quantity },
-        { withCredentials: true, headers: { "Content-Type": "application/json" }, timeout: 8000 }
-      );
-
-      if (response.data.success) {
-        setCart((prev) => {
-          const existingIndex = prev.products.findIndex((p) => p.productId === productId);
-          const newProducts = [...prev.products];
-
-          if (existingIndex >= 0) {
-            newProducts[existingIndex].quantity += quantity;
-          } else {
-            newProducts.push({
-              _id: response.data.cartItemId || `cart-item-${Date.now()}`,
-              productId,
-              quantity,
-              name: productDetails.name,
-              subtitle: productDetails.subtitle,
-              unitPrice: productDetails.unitPrice,
-              MRP: productDetails.MRP,
-              averageRating: productDetails.averageRating,
-              numberOfReviews: productDetails.numberOfReviews,
-              statSubus: productDetails.statSubus,
-              imageUrl: productDetails.imageUrl,
-            });
-          }
-
-          setNumberOfCartItems(newProducts.length);
-          return { products: newProducts };
-        });
-      }
-      window.location.reload();
+      await addItem(product, quantity);
     } catch (err: any) {
-      setError(err.response?.data?.message || "Failed to add to cart");
+      setError(err.message || "Failed to add to cart");
     } finally {
       setAddingToCart(false);
     }
@@ -331,18 +170,14 @@ const ProductPageComponent = () => {
     }
 
     try {
-      await axios.post(
-        `${BASE_URL}/reviews`,
-        { productId, userId: id, comment: userReview, rating: userRating },
-        { timeout: 8000 }
-      );
+      await REVIEW.CREATE({ productId, userId: id, comment: userReview, rating: userRating });
 
       setReviews((prev) => [...prev, { userName: "You", comment: userReview, rating: userRating }]);
       setUserReview("");
       setUserRating(0);
       setError(null);
     } catch (err: any) {
-      setError(err.response?.data?.message || "Failed to submit review");
+      setError(err.message || "Failed to submit review");
     }
   };
 
@@ -395,13 +230,7 @@ const ProductPageComponent = () => {
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-emerald-50 via-white to-teal-50 flex flex-col">
-      <Navigation
-        cart={cart}
-        id={id}
-        userLoggedIn={userLoggedIn}
-        productsDetail={[{ ...productDetails, imageUrl: productDetails.imageUrl || ProductImage2.src }]}
-        numberOfCartItems={numberOfCartItems}
-      />
+      <Navigation />
 
       {/* Error Banner */}
       {error && (
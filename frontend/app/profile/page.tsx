@@ -2,36 +2,13 @@
 import React from "react";
 import { useRouter } from "next/navigation";
 import { useEffect } from "react";
-import axios from "axios";
-
-// Base URL for API requests
-const BASE_URL = "/api/proxy";
 
 const ProfilePage = () => {
   const router = useRouter();
 
+  // The layout's guard has already turned away non-customers.
   useEffect(() => {
-    const checkAuth = async () => {
-      try {
-        const response = await axios.get<{ id: string; role: string }>(
-          `${BASE_URL}/check-cookie/`,
-          { withCredentials: true }
-        );
-
-        if (response.data.role === "Customer") {
-          // Redirect to account page for profile management
-          router.push("/account");
-        } else if (response.data.role === "Vendor") {
-          router.push("/vendor");
-        } else if (response.data.role === "Admin") {
-          router.push("/admin");
-        }
-      } catch (error) {
-        router.push("/login");
-      }
-    };
-
-    checkAuth();
+    router.replace("/account");
   }, [router]);
 
   return (
@@ -5,90 +5,74 @@ import Footer from "../components/Footer";
 import Max from "../components/Max";
 import Product from "../components/Product";
 import { useRouter } from "next/navigation";
-import axios from "axios";
 import { useSearchParams } from "next/navigation";
+import { SEARCH } from "../lib/api";
+import { noteSearchClick } from "../lib/searchHistory";
+import { SearchFacets, SearchHit, SearchSort } from "../lib/types";
 
-const BASE_URL = "/api/proxy";
+const PAGE_SIZE = 24;
 
-interface ProductData {
-  _id: string;
-  name: string;
-  imageUrl: string;
-  subtitle: string;
-  unitPrice: number;
-}
+const SORT_OPTIONS: { value: SearchSort; label: string }[] = [
+  { value: "relevance", label: "Featured" },
+  { value: "price_asc", label: "Price: Low to High" },
+  { value: "price_desc", label: "Price: High to Low" },
+  { value: "rating", label: "Highest Rated" },
+  { value: "newest", label: "Newest" },
+];
 
-interface CartItem {
-  _id: string;
-  quantity: number;
-}
+const EMPTY_FACETS: SearchFacets = { categories: [], vendors: [], ratings: [], price: { min: 0, max: 0 } };
 
-interface Cart {
-  products: CartItem[];
-}
+const numberParam = (value: string | null) => (value && !isNaN(Number(value)) ? Number(value) : undefined);
 
+// Filters, sort and page all live in the URL, so a search can be shared and
+// the back button undoes a filter
 const SearchPage: React.FC = () => {
   const searchParams = useSearchParams();
-  const categoryName = searchParams.get("category") || "";
   const query = searchParams.get("query") || "";
+  // The navigation bar sends "All Categories" for no category
+  const rawCategory = searchParams.get("category") || "";
+  const categoryName = rawCategory === "All Categories" ? "" : rawCategory;
+  const vendors = (searchParams.get("vendor") || "").split(",").filter(Boolean);
+  const minPrice = numberParam(searchParams.get("minPrice"));
+  const maxPrice = numberParam(searchParams.get("maxPrice"));
+  const minRating = numberParam(searchParams.get("rating"));
+  const sortParam = searchParams.get("sort") as SearchSort | null;
+  const sortBy: SearchSort = SORT_OPTIONS.some((option) => option.value === sortParam) ? sortParam! : "relevance";
+  const page = numberParam(searchParams.get("page")) || 1;
 
-  const [id, setId] = useState<string>("");
-  const [role, setRole] = useState<string>("");
-  const [userLoggedIn, setUserLoggedIn] = useState<boolean>(false);
-  const [cart, setCart] = useState<Cart>({ products: [] });
-  const [searchProducts, setSearchProducts] = useState<ProductData[]>([]);
+  const [searchProducts, setSearchProducts] = useState<SearchHit[]>([]);
   const [productCount, setProductCount] = useState<number>(0);
-  const [sortBy, setSortBy] = useState<string>("Featured");
+  const [totalPages, setTotalPages] = useState<number>(1);
+  const [facets, setFacets] = useState<SearchFacets>(EMPTY_FACETS);
+  const [priceDraft, setPriceDraft] = useState<{ min: string; max: string }>({ min: "", max: "" });
   const [showFilters, setShowFilters] = useState<boolean>(false);
   const [loading, setLoading] = useState<boolean>(true);
 
   const router = useRouter();
 
   useEffect(() => {
-    const fetchCookies = async () => {
-      try {
-        const response = await axios.get<{ id: string; role: string }>(
-          `${BASE_URL}/check-cookie/`,
-          { withCredentials: true }
-        );
-
-        setId(response.data.id);
-        setRole(response.data.role);
-
-        if (response.data.role === "Customer") {
-          setUserLoggedIn(true);
-          try {
-            const response2 = await axios.get<Cart>(
-              `${BASE_URL}/cart/${response.data.id}`
-            );
-            setCart(response2.data);
-          } catch (err) {
-            console.error("Error fetching cart items:", err);
-          }
-        } else if (response.data.role === "Vendor") {
-          router.push("/vendor");
-        } else if (response.data.role === "Admin") {
-          router.push("/admin");
-        }
-      } catch (error) {
-        setUserLoggedIn(false);
-      }
-    };
-
-    fetchCookies();
-  }, [router]);
+    setPriceDraft({ min: minPrice?.toString() ?? "", max: maxPrice?.toString() ?? "" });
+  }, [minPrice, maxPrice]);
 
   useEffect(() => {
     const handleSearch = async () => {
       setLoading(true);
       try {
-        const categoryNe = categoryName === "All Categories" ? "" : categoryName;
-        const response = await axios.post<ProductData[]>(`${BASE_URL}/products/search`, {
-          searchTerm: query,
-          categoryN: categoryNe,
+        const results = await SEARCH.PRODUCTS({
+          q: query || undefined,
+          category: categoryName || undefined,
+          vendor: vendors.join(",") || undefined,
+          minPrice,
+          maxPrice,
+          minRating,
+          sortBy,
+          page,
+          limit: PAGE_SIZE,
         });
-        setSearchProducts(response.data);
-        setProductCount(response.data.length);
+        setSearchProducts(results.data);
+        setProductCount(results.pagination.total);
+        setTotalPages(results.pagination.totalPages);
+        setFacets(results.facets);
       } catch (err) {
         console.error("Error searching products:", err);
       } finally {
@@ -97,11 +81,47 @@ const SearchPage: React.FC = () => {
     };
 
     handleSearch();
-  }, [categoryName, query]);
+  }, [searchParams]);
+
+  // Change some URL parameters; any filter change goes back to the first page
+  const updateParams = (changes: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+      else params.delete(key);
+    });
+    if (!("page" in changes)) params.delete("page");
+    router.push(`/search?${params.toString()}`, { scroll: "page" in changes });
+  };
+
+  const toggleVendor = (vendorId: string) => {
+    const next = vendors.includes(vendorId) ? vendors.filter((id) => id !== vendorId) : [...vendors, vendorId];
+    updateParams({ vendor: next.join(",") || null });
+  };
+
+  const applyPrice = () => {
+    updateParams({ minPrice: priceDraft.min || null, maxPrice: priceDraft.max || null });
+  };
+
+  const hasFilters = !!categoryName || vendors.length > 0 || minPrice !== undefined || maxPrice !== undefined || !!minRating;
+
+  const clearFilters = () => {
+    updateParams({ category: null, vendor: null, minPrice: null, maxPrice: null, rating: null });
+  };
 
-  // Filter sidebar content component
-  const FilterContent = () => (
+  // Filter sidebar content; called rather than mounted so the price inputs keep
+  // focus while typing
+  const renderFilters = () => (
     <div className="space-y-8">
+      {hasFilters && (
+        <button
+          onClick={clearFilters}
+          className="text-sm font-semibold text-emerald-700 hover:text-emerald-800 underline"
+        >
+          Clear all filters
+        </button>
+      )}
+
       {/* Categories */}
       <div>
         <h3 className="text-lg font-bold text-gray-900 mb-4 flex items-center gap-2">
@@ -111,15 +131,19 @@ const SearchPage: React.FC = () => {
           Category
         </h3>
         <div className="space-y-2">
-          {["All Categories", "Daily Grocery", "Drinks", "Tea and Coffee", "Snacks", "Organic"].map((cat) => (
-            <label key={cat} className="flex items-center gap-3 cursor-pointer group p-2 rounded-xl hover:bg-emerald-50 transition-colors">
+          {[{ value: "", count: undefined as number | undefined }, ...facets.categories].map((cat) => (
+            <label key={cat.value || "all"} className="flex items-center gap-3 cursor-pointer group p-2 rounded-xl hover:bg-emerald-50 transition-colors">
               <input
                 type="radio"
                 name="category"
                 className="w-4 h-4 text-emerald-600 border-gray-300 focus:ring-emerald-500"
-                defaultChecked={cat === (categoryName || "All Categories")}
+                checked={cat.value.toLowerCase() === categoryName.toLowerCase()}
+                onChange={() => updateParams({ category: cat.value || null })}
               />
-              <span className="text-sm text-gray-700 group-hover:text-emerald-700 font-medium">{cat}</span>
+              <span className="text-sm text-gray-700 group-hover:text-emerald-700 font-medium flex-1">
+                {cat.value || "All Categories"}
+              </span>
+              {cat.count !== undefined && <span className="text-xs text-gray-400">{cat.count}</span>}
             </label>
           ))}
         </div>
@@ -133,17 +157,26 @@ const SearchPage: React.FC = () => {
           </svg>
           Price Range
         </h3>
-        <input
-          type="range"
-          min="0"
-          max="10000"
-          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-emerald-600"
-        />
-        <div className="flex justify-between text-sm font-medium text-emerald-700 mt-3 bg-emerald-50 p-3 rounded-xl border border-emerald-100">
-          <span>Rs. 0</span>
-          <span>—</span>
-          <span>Rs. 10,000</span>
+        <div className="flex items-center gap-2">
+          {(["min", "max"] as const).map((bound) => (
+            <input
+              key={bound}
+              type="number"
+              min={0}
+              value={priceDraft[bound]}
+              onChange={(e) => setPriceDraft((prev) => ({ ...prev, [bound]: e.target.value }))}
+              onKeyDown={(e) => e.key === "Enter" && applyPrice()}
+              placeholder={`Rs. ${bound === "min" ? facets.price.min : facets.price.max}`}
+              className="w-full px-3 py-2 border-2 border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
+            />
+          ))}
         </div>
+        <button
+          onClick={applyPrice}
+          className="w-full mt-3 py-2 text-sm font-semibold text-emerald-700 bg-emerald-50 rounded-xl border border-emerald-100 hover:bg-emerald-100 transition-colors"
+        >
+          Apply price
+        </button>
       </div>
 
       {/* Brands */}
@@ -152,16 +185,20 @@ const SearchPage: React.FC = () => {
           <svg className="w-5 h-5 text-emerald-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
           </svg>
-          Brands
+          Vendors
         </h3>
         <div className="space-y-2">
-          {["Anchor", "Nestle", "Ambewela", "Elephant House", "Ceylon Tea"].map((brand) => (
-            <label key={brand} className="flex items-center gap-3 cursor-pointer group p-2 rounded-xl hover:bg-emerald-50 transition-colors">
+          {facets.vendors.length === 0 && <p className="text-sm text-gray-500 px-2">No vendors match</p>}
+          {facets.vendors.map((vendor) => (
+            <label key={vendor.value} className="flex items-center gap-3 cursor-pointer group p-2 rounded-xl hover:bg-emerald-50 transition-colors">
               <input
                 type="checkbox"
                 className="w-4 h-4 rounded text-emerald-600 border-gray-300 focus:ring-emerald-500"
+                checked={vendors.includes(vendor.value)}
+                onChange={() => toggleVendor(vendor.value)}
               />
-              <span className="text-sm text-gray-700 group-hover:text-emerald-700 font-medium">{brand}</span>
+              <span className="text-sm text-gray-700 group-hover:text-emerald-700 font-medium flex-1">{vendor.label}</span>
+              <span className="text-xs text-gray-400">{vendor.count}</span>
             </label>
           ))}
         </div>
@@ -175,12 +212,14 @@ const SearchPage: React.FC = () => {
           </svg>
           Customer Reviews
         </h3>
-        {[5, 4, 3, 2, 1].map((stars) => (
+        {facets.ratings.map(({ min: stars, count }) => (
           <label key={stars} className="flex items-center gap-3 cursor-pointer group py-2 px-2 rounded-xl hover:bg-emerald-50 transition-colors">
             <input
               type="radio"
               name="rating"
               className="w-4 h-4 text-emerald-600 border-gray-300 focus:ring-emerald-500"
+              checked={minRating === stars}
+              onChange={() => updateParams({ rating: String(stars) })}
             />
             <div className="flex">
               {Array.from({ length: 5 }, (_, i) => (
@@ -194,7 +233,8 @@ const SearchPage: React.FC = () => {
                 </svg>
               ))}
             </div>
-            <span className="text-sm text-gray-600 font-medium">& up</span>
+            <span className="text-sm text-gray-600 font-medium flex-1">& up</span>
+            <span className="text-xs text-gray-400">{count}</span>
           </label>
         ))}
       </div>
@@ -203,13 +243,7 @@ const SearchPage: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-emerald-50 via-white to-teal-50 flex flex-col">
-      <Navigation
-        cart={cart}
-        id={id}
-        userLoggedIn={userLoggedIn}
-        productsDetail={[]}
-        numberOfCartItems={cart.products.length}
-      />
+      <Navigation />
 
       <main className="flex-grow pt-28 sm:pt-32 lg:pt-36 pb-16">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -246,7 +280,7 @@ const SearchPage: React.FC = () => {
                   </svg>
                   Filters
                 </h2>
-                <FilterContent />
+                {renderFilters()}
               </div>
             </aside>
 
@@ -270,7 +304,7 @@ const SearchPage: React.FC = () => {
                         </svg>
                       </button>
                     </div>
-                    <FilterContent />
+                    {renderFilters()}
                     <button
                       onClick={() => setShowFilters(false)}
                       className="w-full py-4 bg-gradient-to-r from-emerald-600 to-teal-600 text-white font-bold rounded-xl mt-8 hover:from-emerald-700 hover:to-teal-700 transition-all shadow-lg"
@@ -287,20 +321,26 @@ const SearchPage: React.FC = () => {
               {/* Sort Bar */}
               <div className="bg-white rounded-2xl shadow-sm border border-emerald-100 px-5 py-4 mb-6 flex items-center justify-between">
                 <span className="text-gray-700 font-medium hidden sm:block">
-                  Showing <span className="text-emerald-600 font-semibold">{productCount}</span> results
+                  Showing{" "}
+                  <span className="text-emerald-600 font-semibold">
+                    {productCount === 0
+                      ? 0
+                      : `${(page - 1) * PAGE_SIZE + 1}–${Math.min(page * PAGE_SIZE, productCount)}`}
+                  </span>{" "}
+                  of {productCount} results
                 </span>
                 <div className="flex items-center gap-3 ml-auto">
                   <span className="text-sm text-gray-600 font-medium">Sort by:</span>
                   <select
                     value={sortBy}
-                    onChange={(e) => setSortBy(e.target.value)}
+                    onChange={(e) => updateParams({ sort: e.target.value === "relevance" ? null : e.target.value })}
                     className="font-semibold text-gray-900 bg-white border-2 border-gray-200 rounded-xl px-4 py-2.5 focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 cursor-pointer"
                   >
-                    <option>Featured</option>
-                    <option>Price: Low to High</option>
-                    <option>Price: High to Low</option>
-                    <option>Highest Rated</option>
-                    <option>Newest</option>
+                    {SORT_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
                   </select>
                 </div>
               </div>
@@ -326,6 +366,12 @@ const SearchPage: React.FC = () => {
                       imageUrl={product.imageUrl}
                       subtitle={product.subtitle}
                       unitPrice={product.unitPrice}
+                      averageRating={product.averageRating}
+                      numberOfReviews={product.numberOfReviews}
+                      status={product.status}
+                      quantity={product.quantity}
+                      highlights={product.highlights.name}
+                      onSelect={() => noteSearchClick(product._id, query)}
                       discounts={[]}
                     />
                   ))}
@@ -340,10 +386,33 @@ const SearchPage: React.FC = () => {
                   <h3 className="text-2xl font-bold text-gray-900 mb-3">No products found</h3>
                   <p className="text-gray-600 mb-8">Try adjusting your search or filter criteria</p>
                   <button
-                    onClick={() => router.push("/")}
+                    onClick={() => (hasFilters ? clearFilters() : router.push("/"))}
                     className="px-8 py-4 bg-gradient-to-r from-emerald-600 to-teal-600 text-white font-bold rounded-xl hover:from-emerald-700 hover:to-teal-700 transition-all shadow-lg"
                   >
-                    Browse All Products
+                    {hasFilters ? "Clear Filters" : "Browse All Products"}
+                  </button>
+                </div>
+              )}
+
+              {/* Pagination */}
+              {!loading && totalPages > 1 && (
+                <div className="flex items-center justify-center gap-2 mt-10">
+                  <button
+                    onClick={() => updateParams({ page: String(page - 1) })}
+                    disabled={page <= 1}
+                    className="px-4 py-2 rounded-xl border-2 border-gray-200 text-sm font-semibold text-gray-700 hover:border-emerald-500 disabled:opacity-40 disabled:hover:border-gray-200"
+                  >
+                    Previous
+                  </button>
+                  <span className="px-4 text-sm text-gray-600 font-medium">
+                    Page {page} of {totalPages}
+                  </span>
+                  <button
+                    onClick={() => updateParams({ page: String(page + 1) })}
+                    disabled={page >= totalPages}
+                    className="px-4 py-2 rounded-xl border-2 border-gray-200 text-sm font-semibold text-gray-700 hover:border-emerald-500 disabled:opacity-40 disabled:hover:border-gray-200"
+                  >
+                    Next
                   </button>
                 </div>
               )}